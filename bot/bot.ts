@@ -5,9 +5,11 @@ import { handleStart } from './handlers/start.handler';
 import { handleAnalyze } from './handlers/analyze.handler';
 import { handleInterests, showInterests, handleAddInterestInput, promptRemoveInterest, handleRemoveInterestCallback, handleToggleInterestCallback, handleSetInterestLevelCallback, handleChangeInterestLevel, REMOVE_INTEREST_PREFIX, TOGGLE_INTEREST_PREFIX, SET_LEVEL_PREFIX, CHANGE_LEVEL_PREFIX } from './handlers/interests.handler';
 import { handleFeedback } from './handlers/feedback.handler';
+import { handleDigestCallback, DIGEST_CALLBACK_PREFIX } from './handlers/digest.handler';
 import { handleLinkCommand, handleLinkCodeMessage } from './handlers/link.handler';
 import { handleModeCommand, handleModeCallback, MODE_CALLBACK_PREFIX } from './handlers/mode.handler';
 import { handleHistoryCommand, handleHistoryCallback } from './handlers/history.handler';
+import { handleAskCommand, handleAskResetCommand, handleLibraryQuestion } from './handlers/library.handler';
 import { MAIN_MENU_MARKUP } from './utils/menu';
 import { getPendingAction, setPendingAction, clearPendingAction } from './utils/sessionStore';
 
@@ -28,6 +30,9 @@ const HELP_TEXT =
     '🔍 *Анализ контента:*\n' +
     '• \"🔍 Проанализировать ссылку\" — отправьте URL после нажатия кнопки\n' +
     '• Или просто отправьте ссылку — бот автоматически проанализирует\n\n' +
+    '📚 *Вопросы по библиотеке (синхронный режим):*\n' +
+    '• /ask вопрос — ответ по всей истории анализов со ссылками на источники\n' +
+    '• /ask\\_reset — начать новую беседу\n\n' +
     '⚙️ *Настройки:*\n' +
     '• \"🔗 Режим\" — переключение между гостевым и синхронным режимом\n' +
     '• Синхронный режим — данные синхронизируются с веб-приложением';
@@ -36,6 +41,12 @@ if (!TELEGRAM_BOT_TOKEN) {
     throw new Error('TELEGRAM_BOT_TOKEN is not set in environment variables. Please set it in .env file.');
 }
 
+// Без общего секрета все пользователи бота для сервера — один IP бота: лимиты guest_analyze и bot_link общие.
+// Бот всё равно запускается (модуль импортируют и уведомления сервера), но предупреждаем
+if (!process.env.BOT_API_SECRET) {
+    console.warn('⚠️ BOT_API_SECRET is not set: rate limits and guest quota for bot users fall back to the bot IP. Set the same value for the bot and the server (see .env.example).');
+}
+
 const checkServerAvailability = async () => {
     try {
         await axios.get(`${API_URL}/`, { timeout: 3000 });
@@ -163,6 +174,14 @@ bot.onText(/\/history/, async (msg) => {
     await handleHistoryCommand(bot, msg);
 });
 
+bot.onText(/^\/ask(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg, match) => {
+    await handleAskCommand(bot, msg, match?.[1]);
+});
+
+bot.onText(/^\/ask_reset/, async (msg) => {
+    await handleAskResetCommand(bot, msg);
+});
+
 const URL_REGEX = /(https?:\/\/[^\s]+)/i;
 
 bot.on('message', async (msg) => {
@@ -195,6 +214,12 @@ bot.on('message', async (msg) => {
         return;
     }
 
+    if (pending?.type === 'library_question') {
+        clearPendingAction(telegramId);
+        await handleLibraryQuestion(bot, chatId, telegramId, text);
+        return;
+    }
+
     if (pending?.type === 'analyze_url') {
         if (URL_REGEX.test(text)) {
             clearPendingAction(telegramId);
@@ -251,6 +276,10 @@ bot.on('callback_query', async (query) => {
         await handleFeedback(bot, query);
         return;
     }
+    if (query.data?.startsWith(DIGEST_CALLBACK_PREFIX)) {
+        await handleDigestCallback(bot, query);
+        return;
+    }
     if (query.data?.startsWith(REMOVE_INTEREST_PREFIX)) {
         const idx = parseInt(query.data.replace(REMOVE_INTEREST_PREFIX, ''), 10);
         await handleRemoveInterestCallback(bot, query, idx);
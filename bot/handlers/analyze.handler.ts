@@ -5,7 +5,7 @@ import { formatAnalysisResult, formatAnalysisResultPlain } from '../utils/format
 import botUserService from '../services/bot-user.service';
 import { MAIN_MENU_MARKUP } from '../utils/menu';
 
-import { getApiUrl } from '../utils/api-url';
+import { getApiUrl, getBotApiHeaders } from '../utils/api-url';
 const API_URL = getApiUrl();
 const GUEST_NOTE =
     'ℹ️ Вы используете гостевой режим. Чтобы синхронизировать интересы с веб-приложением, используйте /mode или /link.';
@@ -125,6 +125,8 @@ export const handleAnalyze = async (bot: TelegramBot, msg: Message) => {
                 const response = await axios.post(`${API_URL}/api/analysis/guest-analyze`, {
                     urls: url,
                     interests: interestsString,
+                }, {
+                    headers: getBotApiHeaders(telegramId, linkedUserId),
                 });
 
                 const result = Array.isArray(response.data) ? response.data[0] : response.data;
@@ -145,6 +147,7 @@ export const handleAnalyze = async (bot: TelegramBot, msg: Message) => {
                                 verdict: result.verdict,
                                 summary: result.summary,
                                 reasoning: result.reasoning,
+                                extractedContent: result.extractedContent,
                             },
                             linkedUserId || null
                         );
@@ -180,6 +183,12 @@ export const handleAnalyze = async (bot: TelegramBot, msg: Message) => {
                     }
                 }
             } catch (error: any) {
+                // Квота LLM исчерпана или лимит запросов — остальные ссылки тоже не пройдут
+                if (error.response?.status === 429 && ['USAGE_QUOTA_EXCEEDED', 'RATE_LIMITED'].includes(error.response.data?.code)) {
+                    await bot.sendMessage(chatId, `⛔ ${error.response.data.message}`, { reply_markup: MAIN_MENU_MARKUP });
+                    break;
+                }
+
                 console.error(`Error analyzing URL ${url}:`, error);
                 
                 // Добавляем результат с ошибкой
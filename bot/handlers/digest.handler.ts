@@ -0,0 +1,57 @@
+import TelegramBot, { CallbackQuery } from 'node-telegram-bot-api';
+import User from '../../models/User';
+import { setDigestItemStatus, DIGEST_ITEM_NOT_FOUND } from '../../services/digest.service';
+import { DIGEST_CALLBACK_PREFIX, DIGEST_CALLBACK_ACTIONS, DigestCallbackAction, digestItemButtons } from '../../services/digest-format';
+
+export { DIGEST_CALLBACK_PREFIX };
+
+const ANSWERS: Record<DigestCallbackAction, string> = {
+    later: '📌 Добавлено в «Прочитать позже»',
+    skip: '🙅 Учтём — похожее будем показывать реже',
+    undo: '↩️ Отменено',
+};
+
+/**
+ * Кнопки дайджеста: digest_later_<id>, digest_skip_<id>, digest_undo_<id>.
+ * Строки клавиатуры идут в порядке материалов, поэтому номер материала — индекс строки + 1.
+ */
+export const handleDigestCallback = async (bot: TelegramBot, query: CallbackQuery) => {
+    const match = (query.data || '').match(/^digest_(later|skip|undo)_(\d+)$/);
+    if (!match) {
+        await bot.answerCallbackQuery(query.id);
+        return;
+    }
+    const action = match[1] as DigestCallbackAction;
+    const itemId = parseInt(match[2], 10);
+
+    try {
+        const user = await User.findOne({ where: { telegram_id: query.from.id.toString() } });
+        if (!user) {
+            await bot.answerCallbackQuery(query.id, { text: 'Аккаунт не привязан. Используйте /link' });
+            return;
+        }
+
+        const item = await setDigestItemStatus(user.id, itemId, DIGEST_CALLBACK_ACTIONS[action]);
+        await bot.answerCallbackQuery(query.id, { text: ANSWERS[action] });
+
+        const chatId = query.message?.chat.id;
+        const keyboard = query.message?.reply_markup?.inline_keyboard;
+        if (!chatId || !keyboard) return;
+        const rowIndex = keyboard.findIndex((row) => row.some((button) => button.callback_data?.endsWith(`_${itemId}`)));
+        if (rowIndex === -1) return;
+
+        const updated = keyboard.map((row, i) => (i === rowIndex ? digestItemButtons(i + 1, itemId, item.status) : row));
+        try {
+            await bot.editMessageReplyMarkup({ inline_keyboard: updated }, { chat_id: chatId, message_id: query.message?.message_id });
+        } catch (editError: any) {
+            // Сообщение могло быть уже изменено — отметка сохранена, это не критично
+        }
+    } catch (error: any) {
+        if (error.message === DIGEST_ITEM_NOT_FOUND) {
+            await bot.answerCallbackQuery(query.id, { text: 'Материал не найден' });
+            return;
+        }
+        console.error('Error handling digest callback:', error);
+        await bot.answerCallbackQuery(query.id, { text: 'Не удалось сохранить выбор' });
+    }
+};
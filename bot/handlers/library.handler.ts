@@ -0,0 +1,102 @@
+import TelegramBot, { Message } from 'node-telegram-bot-api';
+import botUserService from '../services/bot-user.service';
+import { MAIN_MENU_MARKUP } from '../utils/menu';
+import { setPendingAction } from '../utils/sessionStore';
+import { askLibrary, clearLibraryThread } from '../../services/library-chat.service';
+import { assertWithinUsageQuota, getUsageQuotaStatus, formatQuotaExceededMessage, runWithLlmUsageSubject, userUsageSubject, USAGE_QUOTA_EXCEEDED } from '../../services/llm-usage.service';
+
+const TELEGRAM_MESSAGE_LIMIT = 4000;
+
+const NOT_LINKED_TEXT =
+    '📚 Вопросы по библиотеке доступны в синхронном режиме — бот отвечает по истории анализов вашего аккаунта.\n\n' +
+    'Привяжите аккаунт командой /link и включите синхронный режим (/mode).';
+
+/**
+ * Пользователь веб-приложения, к которому привязан Telegram (только синхронный режим)
+ */
+const getLinkedUserId = async (telegramId: string): Promise<number | null> => {
+    const profile = await botUserService.getOrCreateProfile(telegramId);
+    return profile.mode === 'linked' && profile.user_id ? profile.user_id : null;
+};
+
+/**
+ * /ask <вопрос> — вопрос по всей истории анализов. Без текста — ждём вопрос следующим сообщением.
+ */
+export const handleAskCommand = async (bot: TelegramBot, msg: Message, question?: string) => {
+    const chatId = msg.chat.id;
+    const telegramId = msg.from?.id.toString() || '';
+    if (!telegramId) {
+        await bot.sendMessage(chatId, '❌ Не удалось определить ваш Telegram ID.');
+        return;
+    }
+
+    if (!question?.trim()) {
+        if (!(await getLinkedUserId(telegramId))) {
+            await bot.sendMessage(chatId, NOT_LINKED_TEXT, { reply_markup: MAIN_MENU_MARKUP });
+            return;
+        }
+        setPendingAction(telegramId, { type: 'library_question' });
+        await bot.sendMessage(
+            chatId,
+            '📚 Задайте вопрос по всему, что вы анализировали. Например: «что я читал про векторные базы данных и в чём авторы расходятся?»',
+            { reply_markup: MAIN_MENU_MARKUP }
+        );
+        return;
+    }
+
+    await handleLibraryQuestion(bot, chatId, telegramId, question.trim());
+};
+
+export const handleLibraryQuestion = async (bot: TelegramBot, chatId: number, telegramId: string, question: string) => {
+    const userId = await getLinkedUserId(telegramId);
+    if (!userId) {
+        await bot.sendMessage(chatId, NOT_LINKED_TEXT, { reply_markup: MAIN_MENU_MARKUP });
+        return;
+    }
+    if (question.length < 3) {
+        await bot.sendMessage(chatId, '❌ Вопрос слишком короткий.', { reply_markup: MAIN_MENU_MARKUP });
+        return;
+    }
+
+    const usage = userUsageSubject(userId);
+    try {
+        await assertWithinUsageQuota(usage);
+        await bot.sendChatAction(chatId, 'typing');
+        const { answer, citations } = await runWithLlmUsageSubject(usage, () => askLibrary(userId, question));
+
+        let text = `📚 ${answer}`;
+        if (citations.length > 0) {
+            text += '\n\nИсточники:\n' + citations.map((c) => `[#${c.id}] ${c.url}`).join('\n');
+        }
+        text += '\n\nПродолжайте: /ask <уточнение>. Новая беседа: /ask_reset';
+        if (text.length > TELEGRAM_MESSAGE_LIMIT) {
+            text = text.substring(0, TELEGRAM_MESSAGE_LIMIT - 3) + '...';
+        }
+
+        // Без parse_mode: в ответе модели и URL могут быть символы разметки
+        await bot.sendMessage(chatId, text, { reply_markup: MAIN_MENU_MARKUP, disable_web_page_preview: true });
+    } catch (error: any) {
+        if (error.message === USAGE_QUOTA_EXCEEDED) {
+            const quota = await getUsageQuotaStatus(usage);
+            await bot.sendMessage(chatId, `⛔ ${formatQuotaExceededMessage(quota)}`, { reply_markup: MAIN_MENU_MARKUP });
+            return;
+        }
+        console.error('[Library Chat] Bot error:', error);
+        await bot.sendMessage(chatId, '❌ Не удалось получить ответ. Попробуйте позже.', { reply_markup: MAIN_MENU_MARKUP });
+    }
+};
+
+/**
+ * /ask_reset — начать новую беседу с библиотекой
+ */
+export const handleAskResetCommand = async (bot: TelegramBot, msg: Message) => {
+    const chatId = msg.chat.id;
+    const telegramId = msg.from?.id.toString() || '';
+    const userId = telegramId ? await getLinkedUserId(telegramId) : null;
+    if (!userId) {
+        await bot.sendMessage(chatId, NOT_LINKED_TEXT, { reply_markup: MAIN_MENU_MARKUP });
+        return;
+    }
+    await clearLibraryThread(userId);
+    await bot.sendMessage(chatId, '🧹 Беседа с библиотекой очищена. Задайте новый вопрос: /ask <вопрос>', { reply_markup: MAIN_MENU_MARKUP });
+};
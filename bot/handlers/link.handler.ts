@@ -2,7 +2,7 @@ import TelegramBot, { Message } from 'node-telegram-bot-api';
 import axios from 'axios';
 import { MAIN_MENU_MARKUP } from '../utils/menu'; // Импортируем меню
 
-import { getApiUrl } from '../utils/api-url';
+import { getApiUrl, getBotApiHeaders } from '../utils/api-url';
 const API_URL = getApiUrl();
 const LINK_CODE_REGEX = /^[A-F0-9]{6}$/i;
 
@@ -29,7 +29,7 @@ const linkProfile = async (bot: TelegramBot, { code, telegramId, telegramUsernam
             telegramId,
             telegramUsername,
             telegramChatId: chatId,
-        });
+        }, { headers: getBotApiHeaders(telegramId) });
 
         try {
             await bot.editMessageText(
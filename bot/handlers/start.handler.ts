@@ -4,7 +4,7 @@ import axios from 'axios';
 import botUserService from '../services/bot-user.service';
 import { promptModeSelection } from './mode.handler';
 
-import { getApiUrl } from '../utils/api-url';
+import { getApiUrl, getBotApiHeaders } from '../utils/api-url';
 const API_URL = getApiUrl();
 
 export const handleStart = async (bot: TelegramBot, msg: Message) => {
@@ -27,7 +27,7 @@ export const handleStart = async (bot: TelegramBot, msg: Message) => {
                 telegramId,
                 telegramUsername: msg.from?.username,
                 telegramChatId: chatId.toString(),
-            });
+            }, { headers: getBotApiHeaders(telegramId) });
 
             if (data?.user?.id) {
                 await botUserService.linkProfileToUser(telegramId, data.user.id, msg.from?.username, chatId.toString());
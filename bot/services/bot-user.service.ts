@@ -366,6 +366,7 @@ class BotUserService {
             verdict?: string;
             summary?: string;
             reasoning?: string;
+            extractedContent?: string;
         },
         userId?: number | null
     ): Promise<any> {
@@ -382,6 +383,7 @@ class BotUserService {
                 verdict: result.verdict || '',
                 summary: result.summary || '',
                 reasoning: result.reasoning || '',
+                extractedContent: result.extractedContent || null,
             });
 
             // Обновляем lastUsedAt для использованных интересов (только для linked пользователей)
@@ -21,3 +21,17 @@ export function getApiUrl(): string {
     }
 }
 
+
+/**
+ * Заголовки запросов бота к API: по ним сервер записывает расход LLM, квоту и лимиты запросов на пользователя бота,
+ * а не на общий IP бота (BOT_API_SECRET должен совпадать у бота и сервера; без него — лимиты по IP бота).
+ */
+export function getBotApiHeaders(telegramId: string, linkedUserId?: number | null): Record<string, string> {
+    const secret = process.env.BOT_API_SECRET;
+    if (!secret) return {};
+    return {
+        'X-Bot-Secret': secret,
+        'X-Telegram-User-Id': telegramId,
+        ...(linkedUserId ? { 'X-Linked-User-Id': String(linkedUserId) } : {}),
+    };
+}
@@ -1,7 +1,8 @@
 type PendingAction =
     | { type: 'add_interest'; interests?: string[] }
     | { type: 'set_interest_level'; interest: string }
-    | { type: 'analyze_url' };
+    | { type: 'analyze_url' }
+    | { type: 'library_question' };
 
 const sessions = new Map<string, PendingAction>();
 
@@ -12,16 +12,24 @@ import UserInterestLevel from '../models/UserInterestLevel';
 import ContentRelevanceScore from '../models/ContentRelevanceScore';
 import ytpl from 'ytpl';
 import { extractThemes, saveUserSemanticTags, compareThemes, clearUserTagsCache, getUserTagsCached, generateSemanticRecommendation } from '../services/semantic.service';
-import { generateAndSaveEmbedding, findSimilarArticles, generateEmbedding } from '../services/embedding.service';
+import { generateAndSaveEmbedding, findSimilarArticles, generateEmbedding, SimilarArticle } from '../services/embedding.service';
 import { runFullAnalysisPipeline } from '../services/analysis-pipeline.service';
 import { checkUserChannelsNow } from '../services/telegram-channel-monitor.service';
-import { addAnalysisJob } from '../services/analysis-queue.service';
+import { addAnalysisJob, removeQueuedAnalysisJob } from '../services/analysis-queue.service';
+import { setAnalysisJob, getAnalysisJobSync, getAnalysisJob, deleteAnalysisJob, isAnalysisJobCancelled, requestAnalysisJobCancellation, isTerminalJobStatus, JOB_CANCELLED, AnalysisJobState, AnalysisJobRequest } from '../services/analysis-job-store.service';
+import { publishAnalysisEvent, subscribeToAnalysisEvents, AnalysisEvent } from '../services/analysis-events.service';
+import { getPersistedAnalysisJob, listUserAnalysisJobs, isRunningJobStatus } from '../services/analysis-job-persistence.service';
+import AnalysisJob from '../models/AnalysisJob';
 import { getChannelPosts } from '../services/telegram-channel.service';
 import { getProvider, getModelForRequest } from '../services/llm-provider';
 import UserInterest from '../models/UserInterest';
 import AnalysisStageStats from '../models/AnalysisStageStats';
 import QAHistory from '../models/QAHistory';
+import { resolveQaContent, loadQaConversation, QA_ANALYSIS_NOT_FOUND, QA_JOB_NOT_FOUND, QA_FORBIDDEN, QA_ITEM_AMBIGUOUS, QA_CONTENT_UNAVAILABLE } from '../services/content-qa.service';
 import sequelize from '../config/database';
+import { emitWebhookEvent } from '../services/webhook.service';
+import { runWithLlmUsageSubject, userUsageSubject, guestUsageSubject, assertWithinUsageQuota, getUsageQuotaStatus, formatQuotaExceededMessage, LlmUsageSubject, USAGE_QUOTA_EXCEEDED, SYSTEM_USAGE_SUBJECT } from '../services/llm-usage.service';
+import { resolveRequestUsageSubject } from '../middleware/llm-usage.middleware';
 
 const MAX_URLS_LIMIT = 25;
 
@@ -92,8 +100,8 @@ const endStageTracking = async (jobId: string, stageId: number, itemType: 'chann
         // Если itemType не передан, пытаемся получить его из job
         let finalItemType = itemType;
         if (!finalItemType) {
-            const job = analysisJobs.get(jobId);
-            finalItemType = job?.itemType || 'urls'; // По умолчанию 'urls'
+            const job = getAnalysisJobSync(jobId);
+            finalItemType = (job?.itemType as typeof itemType) || 'urls'; // По умолчанию 'urls'
             console.log(`ℹ️ [Stage Stats] itemType not provided, using from job: ${finalItemType}`);
         }
         
@@ -125,9 +133,30 @@ const endStageTracking = async (jobId: string, stageId: number, itemType: 'chann
     }
 };
 
-// Хранилище асинхронных задач анализа (jobId -> { status, results?, error?, totalExpected?, itemType?, useMetadata? })
-// Используется для обхода таймаута Railway на длительных запросах
-const analysisJobs = new Map<string, { status: 'pending' | 'in_progress' | 'completed' | 'error'; results?: any[]; error?: string; totalExpected?: number; itemType?: 'channel' | 'urls' | 'text' | 'article' | 'video'; channelProgress?: number; currentItemIndex?: number; currentStage?: number; useMetadata?: boolean }>();
+/**
+ * Событие смены этапа для SSE-подписчиков (GET /api/analysis/stream/:jobId)
+ */
+const publishStageEvent = (jobId: string, itemIndex: number, stageId: number, phase: 'start' | 'end', itemType?: string) => {
+    const startedAt = stageStartTimes.get(jobId)?.get(stageId);
+    publishAnalysisEvent(jobId, 'stage', {
+        itemIndex,
+        stageId,
+        stageName: STAGE_NAMES[stageId] || `Этап ${stageId}`,
+        phase,
+        itemType,
+        durationMs: phase === 'end' && startedAt ? Date.now() - startedAt : undefined,
+    });
+};
+
+/**
+ * Тексты постов канала / твитов одной строкой — сохраняется как extracted_content для вопросов по анализу
+ */
+const buildPostsContent = (posts: Array<{ url?: string | null; text?: string }>): string | null => {
+    const parts = posts
+        .filter((post) => post.text)
+        .map((post, idx) => `Пост ${idx + 1}${post.url ? ` (${post.url})` : ''}:\n${post.text}`);
+    return parts.length > 0 ? parts.join('\n\n---\n\n') : null;
+};
 
 /**
  * Проверяет, является ли строка валидным URL
@@ -211,15 +240,17 @@ const processTextAnalysis = async (
                 statsItemType: 'text',
                 onStageStart: (stageId) => {
                     if (jobId && itemIndex != null) {
-                        const job = analysisJobs.get(jobId);
+                        const job = getAnalysisJobSync(jobId);
                         if (job) {
-                            analysisJobs.set(jobId, { ...job, currentItemIndex: itemIndex, currentStage: stageId });
+                            setAnalysisJob(jobId, { ...job, currentItemIndex: itemIndex, currentStage: stageId });
                             startStageTracking(jobId, stageId);
+                            publishStageEvent(jobId, itemIndex, stageId, 'start');
                         }
                     }
                 },
                 onStageEnd: async (stageId, itemType) => {
                     if (jobId && itemIndex != null) {
+                        publishStageEvent(jobId, itemIndex, stageId, 'end', itemType);
                         await endStageTracking(jobId, stageId, itemType as 'article' | 'video' | 'urls' | 'text');
                     }
                 },
@@ -257,7 +288,8 @@ export const processSingleUrlAnalysis = async (
     mode: 'read' | 'unread' = 'read',
     jobId?: string,
     itemIndex?: number,
-    skipHistorySave: boolean = false // Флаг для пропуска сохранения в историю (для постов каналов)
+    skipHistorySave: boolean = false, // Флаг для пропуска сохранения в историю (для постов каналов)
+    forceRefresh: boolean = false // Игнорировать кеш извлечённого контента
 ) => {
     try {
         // Проверяем, является ли это ссылкой на Telegram канал (без ID сообщения)
@@ -322,7 +354,7 @@ export const processSingleUrlAnalysis = async (
                     : interests;
             for (let j = 0; j < posts.length; j++) {
                 try {
-                    const res = await processSingleUrlAnalysis(posts[j].url, contextForAnalysis, feedbackHistory, userId, mode, jobId, j, true) as any;
+                    const res = await processSingleUrlAnalysis(posts[j].url, contextForAnalysis, feedbackHistory, userId, mode, jobId, j, true, forceRefresh) as any;
                     if (res && typeof res.score === 'number' && typeof res.verdict === 'string') {
                         analyzedPosts.push({
                             url: posts[j].url,
@@ -333,6 +365,7 @@ export const processSingleUrlAnalysis = async (
                             text: posts[j].text
                         });
                         if (res.score >= 70) relevantCount++;
+                        if (jobId) publishAnalysisEvent(jobId, 'item', { itemIndex: j, itemType: 'channel', channelUrl: url, post: analyzedPosts[analyzedPosts.length - 1] });
                     }
                 } catch (err) {
                     // skip failed tweet
@@ -369,26 +402,29 @@ export const processSingleUrlAnalysis = async (
                     mode,
                     feedbackHistory,
                     skipHistorySave,
+                    forceRefresh,
                     jobId,
                     itemIndex,
                     onStageStart: (stageId) => {
                         if (jobId && itemIndex != null) {
-                            const job = analysisJobs.get(jobId);
+                            const job = getAnalysisJobSync(jobId);
                             if (job) {
-                                analysisJobs.set(jobId, { ...job, currentItemIndex: itemIndex, currentStage: stageId });
+                                setAnalysisJob(jobId, { ...job, currentItemIndex: itemIndex, currentStage: stageId });
                                 startStageTracking(jobId, stageId);
+                                publishStageEvent(jobId, itemIndex, stageId, 'start');
                             }
                         }
                     },
                     onStageEnd: async (stageId, itemType) => {
                         if (jobId && itemIndex != null) {
+                            publishStageEvent(jobId, itemIndex, stageId, 'end', itemType);
                             await endStageTracking(jobId, stageId, itemType as 'article' | 'video' | 'urls' | 'text');
                         }
                     },
                     onJobUpdate: (updates) => {
                         if (jobId && itemIndex != null) {
-                            const job = analysisJobs.get(jobId);
-                            if (job) analysisJobs.set(jobId, { ...job, ...updates });
+                            const job = getAnalysisJobSync(jobId);
+                            if (job) setAnalysisJob(jobId, { ...job, ...updates });
                         }
                     },
                 }
@@ -411,10 +447,11 @@ export const processSingleUrlAnalysis = async (
                     const contextForAnalysis = userTags.length > 0 ? userTags.map((t: { tag: string }) => t.tag).join(', ') : userId ? (await UserInterest.findAll({ where: { userId, isActive: true } })).map((ui: { interest: string }) => ui.interest).join(', ') : interests;
                     for (let j = 0; j < posts.length; j++) {
                         try {
-                            const res = await processSingleUrlAnalysis(posts[j].url, contextForAnalysis, feedbackHistory, userId, mode, jobId, j, true) as any;
+                            const res = await processSingleUrlAnalysis(posts[j].url, contextForAnalysis, feedbackHistory, userId, mode, jobId, j, true, forceRefresh) as any;
                             if (res && typeof res.score === 'number' && typeof res.verdict === 'string') {
                                 analyzedPosts.push({ url: posts[j].url, score: res.score, verdict: res.verdict, summary: res.summary, reasoning: res.reasoning, text: posts[j].text });
                                 if (res.score >= 70) relevantCount++;
+                                if (jobId) publishAnalysisEvent(jobId, 'item', { itemIndex: j, itemType: 'channel', channelUrl: url, post: analyzedPosts[analyzedPosts.length - 1] });
                             }
                         } catch (err) {}
                     }
@@ -444,8 +481,13 @@ export const getAnalysisStatus = async (req: Request, res: Response): Promise<Re
     if (!jobId) {
         return res.status(400).json({ message: 'jobId is required' });
     }
-    const job = analysisJobs.get(jobId);
+    const job = await getAnalysisJob(jobId);
     if (!job) {
+        // Состояние уже удалено из Redis / памяти — отдаём итог из analysis_jobs (без results, со ссылками на историю)
+        const persisted = await getPersistedAnalysisJob(jobId);
+        if (persisted) {
+            return res.json({ ...formatAnalysisJob(persisted), persisted: true });
+        }
         return res.status(404).json({ message: 'Job not found', status: 'not_found' });
     }
     return res.json({
@@ -455,17 +497,191 @@ export const getAnalysisStatus = async (req: Request, res: Response): Promise<Re
     });
 };
 
-export const runAnalysisInBackground = async (
+const formatAnalysisJob = (job: AnalysisJob) => ({
+    jobId: job.id,
+    status: job.status,
+    itemsTotal: job.itemsTotal,
+    itemsCompleted: job.itemsCompleted,
+    itemsFailed: job.itemsFailed,
+    retryOf: job.retryOf,
+    error: job.error,
+    request: job.request,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    durationMs: job.startedAt ? new Date(job.finishedAt || Date.now()).getTime() - new Date(job.startedAt).getTime() : null,
+    historyIds: job.historyIds || [],
+    historyLinks: (job.historyIds || []).map((id) => `/api/analysis/history/${id}`),
+    statusUrl: `/api/analysis/status/${job.id}`,
+    streamUrl: `/api/analysis/stream/${job.id}`,
+});
+
+/**
+ * GET /api/analysis/jobs?running=true&limit=20
+ * Последние и выполняющиеся задачи пользователя — веб и бот восстанавливают прогресс после переподключения.
+ * Для выполняющихся задач добавляется текущий прогресс (currentItemIndex, currentStage) из хранилища состояния.
+ */
+export const getUserAnalysisJobs = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+        const running = req.query.running === 'true';
+
+        const jobs = await listUserAnalysisJobs(userId, { limit, running });
+        const result = await Promise.all(jobs.map(async (job) => {
+            const formatted: any = formatAnalysisJob(job);
+            if (!isRunningJobStatus(job.status)) return formatted;
+            const live = await getAnalysisJob(job.id);
+            if (!live) {
+                // Живого состояния нет (истёк TTL или перезапуск без Redis) — задача уже не выполняется
+                formatted.status = 'error';
+                formatted.error = 'Job state lost';
+                return formatted;
+            }
+            return {
+                ...formatted,
+                status: live.status,
+                itemType: live.itemType,
+                currentItemIndex: live.currentItemIndex,
+                currentStage: live.currentStage,
+                resultsCount: live.results?.length ?? 0,
+            };
+        }));
+
+        return res.json({ jobs: result });
+    } catch (error: any) {
+        console.error('❌ Error listing analysis jobs:', error.message);
+        return res.status(500).json({ message: 'Failed to list analysis jobs', error: error.message });
+    }
+};
+
+const SSE_HEARTBEAT_MS = 15000;
+
+/**
+ * GET /api/analysis/stream/:jobId
+ * Server-Sent Events: текущее состояние сразу, затем смена этапов (stage), результаты по элементам (item),
+ * промежуточный статус (status) и финальный результат (complete / error), после которого поток закрывается.
+ */
+export const streamAnalysisJob = async (req: Request, res: Response): Promise<void> => {
+    const { jobId } = req.params;
+    const job = jobId ? await getAnalysisJob(jobId) : undefined;
+    if (!job) {
+        res.status(404).json({ message: 'Job not found', status: 'not_found' });
+        return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // nginx/Railway proxy: не буферизовать поток
+    res.flushHeaders();
+
+    let closed = false;
+    const send = (event: string, data: any) => {
+        if (closed || res.writableEnded) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const heartbeat = setInterval(() => {
+        if (!closed && !res.writableEnded) res.write(': ping\n\n');
+    }, SSE_HEARTBEAT_MS);
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        if (!res.writableEnded) res.end();
+    };
+
+    const unsubscribe = subscribeToAnalysisEvents(jobId, (event: AnalysisEvent) => {
+        send(event.type, event.data);
+        if (event.type === 'complete' || event.type === 'error') close();
+    });
+    req.on('close', close);
+
+    send('snapshot', { ...job, aiProvider: getProvider(), aiModel: getModelForRequest() });
+    if (isTerminalJobStatus(job.status)) {
+        send(job.status === 'error' ? 'error' : 'complete', job);
+        close();
+    }
+};
+
+/**
+ * Выполняет задачу анализа от имени userId; расход LLM пишется на субъект usage, запустивший задачу.
+ * Они различаются у гостя бота с привязанным аккаунтом: история и вебхуки — ничьи, расход — на аккаунт.
+ */
+export const runAnalysisInBackground = (
     jobId: string,
     urlInput: string | string[],
     interests: string,
     analysisMode: 'read' | 'unread',
-    userId?: number
+    userId?: number,
+    forceRefresh: boolean = false,
+    usage?: LlmUsageSubject
+) => runWithLlmUsageSubject(
+    usage ?? (userId ? userUsageSubject(userId) : guestUsageSubject(SYSTEM_USAGE_SUBJECT)),
+    () => runAnalysisJob(jobId, urlInput, interests, analysisMode, userId, forceRefresh)
+);
+
+/**
+ * Элемент результата для вебхука analysis.completed: без извлечённого контента и служебных полей.
+ */
+const toWebhookResult = (result: any) => {
+    if (!result) return null;
+    if (result.error) return { url: result.originalUrl || null, error: true, message: result.message || null };
+    return {
+        url: result.originalUrl || result.url || null,
+        analysisHistoryId: result.analysisHistoryId ?? null,
+        score: result.score ?? null,
+        verdict: result.verdict ?? null,
+        summary: result.summary ?? null,
+        ...(result.isChannel ? {
+            channelUsername: result.channelUsername,
+            totalPosts: result.channelAnalysis?.totalPosts ?? 0,
+            relevantPosts: result.channelAnalysis?.relevantPosts ?? 0,
+        } : {}),
+    };
+};
+
+const runAnalysisJob = async (
+    jobId: string,
+    urlInput: string | string[],
+    interests: string,
+    analysisMode: 'read' | 'unread',
+    userId?: number,
+    forceRefresh: boolean = false
 ) => {
+    const textResults: any[] = [];
+    const urlResults: any[] = [];
+    const failedItems: string[] = [];
+    const texts: string[] = [];
+    let uniqueUrls: string[] = [];
+    let itemsResolved = false;
+    let currentTextIndex = 0;
+    let currentUrlIndex = 0;
+
+    // Кооперативная отмена (DELETE /api/analysis/jobs/:jobId): проверяем флаг между элементами
+    const throwIfCancelled = async () => {
+        if (await isAnalysisJobCancelled(jobId)) throw new Error(JOB_CANCELLED);
+    };
+    const isCancelledResult = (result: any) => !!result && result.error === true && result.message === JOB_CANCELLED;
+
     try {
+        setAnalysisJob(jobId, {
+            ...(getAnalysisJobSync(jobId) || {}),
+            status: 'in_progress',
+            userId: userId ?? null,
+            request: { urlInput, interests, analysisMode, forceRefresh },
+        });
+        await throwIfCancelled();
+
         const inputString = Array.isArray(urlInput) ? urlInput.join('\n') : String(urlInput);
         const urls: string[] = [];
-        const texts: string[] = [];
         const lines = inputString.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
 
         if (lines.length === 1) {
@@ -485,7 +701,6 @@ export const runAnalysisInBackground = async (
             else if (nonUrlParts.length > 0) texts.push(nonUrlParts.join('\n\n'));
         }
 
-        const textResults: any[] = [];
         let feedbackHistory: UserFeedbackHistory[] = [];
         if (userId) feedbackHistory = await UserService.getUserFeedbackHistory(userId);
 
@@ -533,7 +748,9 @@ export const runAnalysisInBackground = async (
             }
         }
 
-        const uniqueUrls = Array.from(allUrls).slice(0, MAX_URLS_LIMIT);
+        uniqueUrls = Array.from(allUrls).slice(0, MAX_URLS_LIMIT);
+        itemsResolved = true;
+        setAnalysisJob(jobId, { ...(getAnalysisJobSync(jobId) || {}), status: 'in_progress', itemsTotal: texts.length + uniqueUrls.length });
         if (userId) feedbackHistory = await UserService.getUserFeedbackHistory(userId);
 
         // Лог для отладки Twitter/каналов: что именно попадёт в цикл
@@ -555,7 +772,7 @@ export const runAnalysisInBackground = async (
 
         // Если есть только текст (без URL), устанавливаем itemType: 'text'
         if (texts.length > 0 && uniqueUrls.length === 0) {
-            analysisJobs.set(jobId, {
+            setAnalysisJob(jobId, {
                 status: 'in_progress',
                 results: [],
                 totalExpected: texts.length,
@@ -565,19 +782,24 @@ export const runAnalysisInBackground = async (
         }
 
         for (let i = 0; i < texts.length; i++) {
+            currentTextIndex = i;
+            await throwIfCancelled();
             const text = texts[i];
-            const job = analysisJobs.get(jobId);
+            const job = getAnalysisJobSync(jobId);
             if (job && texts.length > 0) {
-                analysisJobs.set(jobId, { ...job, currentItemIndex: i, itemType: 'text', currentStage: 0 });
+                setAnalysisJob(jobId, { ...job, currentItemIndex: i, itemType: 'text', currentStage: 0 });
             }
             const result = await processTextAnalysis(text, interests, feedbackHistory, userId, analysisMode, jobId, i);
+            if (isCancelledResult(result)) throw new Error(JOB_CANCELLED);
+            if (result && (result as any).error) failedItems.push(text);
             textResults.push(result);
+            publishAnalysisEvent(jobId, 'item', { itemIndex: i, itemType: 'text', result });
             // Обновляем job после обработки текста
             if (texts.length > 0) {
-                const job = analysisJobs.get(jobId);
+                const job = getAnalysisJobSync(jobId);
                 if (job) {
-                    analysisJobs.set(jobId, {
-                        status: i < texts.length - 1 ? 'in_progress' : (uniqueUrls.length > 0 ? 'in_progress' : 'completed'),
+                    setAnalysisJob(jobId, {
+                        status: 'in_progress', // финальный статус выставляется после всех элементов
                         results: [...textResults],
                         totalExpected: texts.length,
                         itemType: 'text'
@@ -586,7 +808,6 @@ export const runAnalysisInBackground = async (
             }
         }
 
-        const urlResults: any[] = [];
         const POSTS_TO_ANALYZE = 6;
 
         // Для обычных ссылок — сразу показываем прогресс (Telegram каналы и Twitter профили обрабатываются отдельно)
@@ -605,7 +826,7 @@ export const runAnalysisInBackground = async (
             return /^https?:\/\/t\.me\/([^\/]+)\/?$/.test(n) || isTwitterProfileUrl(u);
         });
         if (!hasChannels && uniqueUrls.length > 0) {
-            analysisJobs.set(jobId, {
+            setAnalysisJob(jobId, {
                 status: 'in_progress',
                 results: [...textResults],
                 totalExpected: uniqueUrls.length,
@@ -627,7 +848,10 @@ export const runAnalysisInBackground = async (
             return null;
         };
 
+        currentTextIndex = texts.length;
         for (let i = 0; i < uniqueUrls.length; i++) {
+            currentUrlIndex = i;
+            await throwIfCancelled();
             const url = uniqueUrls[i];
             const urlNorm = (url || '').trim().split('?')[0].split('#')[0].replace(/\/+$/, '') || (url || '').trim();
             const telegramChannelMatch = urlNorm.match(/^https?:\/\/t\.me\/([^\/]+)\/?$/);
@@ -644,7 +868,7 @@ export const runAnalysisInBackground = async (
                 const channelUsername = telegramChannelMatch[1].replace('@', '').trim();
                 if (!channelUsername) continue;
 
-                analysisJobs.set(jobId, {
+                setAnalysisJob(jobId, {
                     status: 'in_progress',
                     results: [...textResults, ...urlResults],
                     totalExpected: POSTS_TO_ANALYZE,
@@ -671,6 +895,7 @@ export const runAnalysisInBackground = async (
                         }
                     };
                     urlResults.push(errResult);
+                    failedItems.push(url);
                     continue;
                 }
                 
@@ -694,7 +919,7 @@ export const runAnalysisInBackground = async (
 
                 // Для каналов этапы берутся из processSingleUrlAnalysis для каждого поста
                 // Этапы будут обновляться внутри processSingleUrlAnalysis
-                analysisJobs.set(jobId, {
+                setAnalysisJob(jobId, {
                     status: 'in_progress',
                     results: [...textResults, ...urlResults],
                     totalExpected: posts.length,
@@ -704,6 +929,7 @@ export const runAnalysisInBackground = async (
                 });
 
                 const analyzedPosts: Array<{ url: string; score: number; verdict: string; summary?: string; reasoning?: string; text?: string }> = [];
+                let postErrors = 0; // ошибки извлечения/анализа постов — отличаем сбой от пустого результата
                 let relevantCount = 0;
 
                 const userTags = userId ? await getUserTagsCached(userId) : [];
@@ -730,12 +956,13 @@ export const runAnalysisInBackground = async (
                 }
 
                 for (let j = 0; j < posts.length; j++) {
+                    await throwIfCancelled();
                     const post = posts[j];
                     if (!post.url) continue;
                     // Для каналов этапы берутся из processSingleUrlAnalysis для каждого поста
                     // Этап 0: Загрузка поста канала (для каждого поста)
-                    const job = analysisJobs.get(jobId);
-                    if (job) analysisJobs.set(jobId, { ...job, currentItemIndex: j, currentStage: 0 });
+                    const job = getAnalysisJobSync(jobId);
+                    if (job) setAnalysisJob(jobId, { ...job, currentItemIndex: j, currentStage: 0 });
                     try {
                         const analysisResult = await processSingleUrlAnalysis(
                             post.url,
@@ -745,8 +972,10 @@ export const runAnalysisInBackground = async (
                             analysisMode, // Используем режим пользователя (read/unread), а не всегда 'unread'
                             jobId,
                             j,
-                            true // skipHistorySave = true для постов каналов (сохраним канал как одну запись)
+                            true, // skipHistorySave = true для постов каналов (сохраним канал как одну запись)
+                            forceRefresh
                         );
+                        if (analysisResult && (analysisResult as any).error) postErrors++;
                         if (analysisResult && typeof analysisResult === 'object' && !('error' in analysisResult && analysisResult.error)) {
                             const res = analysisResult as any;
                             if (res && typeof res.score === 'number' && typeof res.verdict === 'string') {
@@ -759,6 +988,7 @@ export const runAnalysisInBackground = async (
                                     text: post.text || undefined
                                 });
                                 if (res.score >= 70) relevantCount++;
+                                publishAnalysisEvent(jobId, 'item', { itemIndex: j, itemType: 'channel', channelUrl: url, post: analyzedPosts[analyzedPosts.length - 1] });
                                 
                                 // Создаем или обновляем результат канала с текущими постами (БЕЗ финальной рекомендации)
                                 // Блоки "Результаты анализа" и "Рекомендация" появятся только в конце
@@ -784,7 +1014,7 @@ export const runAnalysisInBackground = async (
                                     urlResults.push(channelResult);
                                 }
                                 
-                                analysisJobs.set(jobId, {
+                                setAnalysisJob(jobId, {
                                     status: 'in_progress',
                                     results: [...textResults, ...urlResults],
                                     totalExpected: posts.length,
@@ -795,12 +1025,16 @@ export const runAnalysisInBackground = async (
                         }
                     } catch (analysisError: any) {
                         console.error(`⚠️ [analysis] Failed to analyze post ${post.url}:`, analysisError.message);
+                        postErrors++;
                     }
                 }
 
+                await throwIfCancelled();
                 // Этап 7: Формирование рекомендации (последний этап из processSingleUrlAnalysis)
-                const job = analysisJobs.get(jobId);
-                if (job) analysisJobs.set(jobId, { ...job, currentStage: 7 });
+                const job = getAnalysisJobSync(jobId);
+                if (job) setAnalysisJob(jobId, { ...job, currentStage: 7 });
+                // Упавшим считается только канал, посты которого не удалось проанализировать из-за ошибок
+                if (analyzedPosts.length === 0 && postErrors > 0) failedItems.push(url);
                 
                 const finalRecommendation = analyzedPosts.length === 0
                     ? (posts.length === 0 ? 'Не удалось получить посты из канала. Возможно, канал приватный или недоступен.' : 'Не удалось проанализировать посты. Добавьте темы в облако смыслов.')
@@ -860,7 +1094,7 @@ export const runAnalysisInBackground = async (
                         // Определяем общий вердикт на основе среднего score
                         const channelVerdict = avgScore >= 70 ? 'Полезно' : avgScore >= 40 ? 'Нейтрально' : 'Не трать время';
                         
-                        await AnalysisHistory.create({
+                        const historyRecord = await AnalysisHistory.create({
                             userId,
                             telegramId: null,
                             url: url, // URL канала
@@ -870,7 +1104,9 @@ export const runAnalysisInBackground = async (
                             summary: channelSummary,
                             reasoning: channelReasoning,
                             interests,
+                            extractedContent: buildPostsContent(finalChannelResult.channelAnalysis.posts),
                         });
+                        (finalChannelResult as any).analysisHistoryId = historyRecord.id;
                         console.log(`💾 Saved channel analysis to history: @${channelUsername} (${finalChannelResult.channelAnalysis.totalPosts} posts)`);
                     } catch (error: any) {
                         console.warn(`⚠️ Failed to save channel analysis to history: ${error.message}`);
@@ -880,13 +1116,13 @@ export const runAnalysisInBackground = async (
                 // Ссылка на профиль Twitter/X — анализируем последние 5–6 твитов (как с Telegram-каналом)
                 const twitterUsername = twitterUsernameFromLoop;
                 if (!twitterUsername) {
-                    const job = analysisJobs.get(jobId);
-                    if (job) analysisJobs.set(jobId, { ...job, currentItemIndex: i, itemType: 'urls', totalExpected: uniqueUrls.length, currentStage: 0 });
+                    const job = getAnalysisJobSync(jobId);
+                    if (job) setAnalysisJob(jobId, { ...job, currentItemIndex: i, itemType: 'urls', totalExpected: uniqueUrls.length, currentStage: 0 });
                     urlResults.push({ originalUrl: url, error: true, message: 'Некорректная ссылка на профиль Twitter/X' } as any);
                     continue;
                 }
 
-                analysisJobs.set(jobId, {
+                setAnalysisJob(jobId, {
                     status: 'in_progress',
                     results: [...textResults, ...urlResults],
                     totalExpected: POSTS_TO_ANALYZE,
@@ -917,6 +1153,7 @@ export const runAnalysisInBackground = async (
                             recommendation: `Не удалось получить твиты из профиля @${twitterUsername}.${hint}`
                         }
                     });
+                    failedItems.push(url);
                     continue;
                 }
 
@@ -941,7 +1178,7 @@ export const runAnalysisInBackground = async (
                     continue;
                 }
 
-                analysisJobs.set(jobId, {
+                setAnalysisJob(jobId, {
                     status: 'in_progress',
                     results: [...textResults, ...urlResults],
                     totalExpected: posts.length,
@@ -953,6 +1190,7 @@ export const runAnalysisInBackground = async (
                 } as any);
 
                 const analyzedPosts: Array<{ url: string; score: number; verdict: string; summary?: string; reasoning?: string; text?: string }> = [];
+                let postErrors = 0; // ошибки извлечения/анализа постов — отличаем сбой от пустого результата
                 let relevantCount = 0;
 
                 const userTags = userId ? await getUserTagsCached(userId) : [];
@@ -979,9 +1217,10 @@ export const runAnalysisInBackground = async (
                 }
 
                 for (let j = 0; j < posts.length; j++) {
+                    await throwIfCancelled();
                     const post = posts[j];
-                    const job = analysisJobs.get(jobId);
-                    if (job) analysisJobs.set(jobId, { ...job, currentItemIndex: j, currentStage: 0 });
+                    const job = getAnalysisJobSync(jobId);
+                    if (job) setAnalysisJob(jobId, { ...job, currentItemIndex: j, currentStage: 0 });
                     try {
                         const analysisResult = await processSingleUrlAnalysis(
                             post.url,
@@ -991,8 +1230,10 @@ export const runAnalysisInBackground = async (
                             analysisMode,
                             jobId,
                             j,
-                            true
+                            true,
+                            forceRefresh
                         );
+                        if (analysisResult && (analysisResult as any).error) postErrors++;
                         if (analysisResult && typeof analysisResult === 'object' && !('error' in analysisResult && analysisResult.error)) {
                             const res = analysisResult as any;
                             if (res && typeof res.score === 'number' && typeof res.verdict === 'string') {
@@ -1005,6 +1246,7 @@ export const runAnalysisInBackground = async (
                                     text: post.text || undefined
                                 });
                                 if (res.score >= 70) relevantCount++;
+                                publishAnalysisEvent(jobId, 'item', { itemIndex: j, itemType: 'channel', channelUrl: url, post: analyzedPosts[analyzedPosts.length - 1] });
 
                                 const channelResult = {
                                     originalUrl: url,
@@ -1028,7 +1270,7 @@ export const runAnalysisInBackground = async (
                                     urlResults.push(channelResult);
                                 }
 
-                                analysisJobs.set(jobId, {
+                                setAnalysisJob(jobId, {
                                     status: 'in_progress',
                                     results: [...textResults, ...urlResults],
                                     totalExpected: posts.length,
@@ -1039,11 +1281,14 @@ export const runAnalysisInBackground = async (
                         }
                     } catch (analysisError: any) {
                         console.error(`⚠️ [analysis] Failed to analyze tweet ${post.url}:`, analysisError.message);
+                        postErrors++;
                     }
                 }
 
-                const job = analysisJobs.get(jobId);
-                if (job) analysisJobs.set(jobId, { ...job, currentStage: 7 });
+                await throwIfCancelled();
+                const job = getAnalysisJobSync(jobId);
+                if (job) setAnalysisJob(jobId, { ...job, currentStage: 7 });
+                if (analyzedPosts.length === 0 && postErrors > 0) failedItems.push(url);
 
                 const finalRecommendation = analyzedPosts.length === 0
                     ? (posts.length === 0 ? 'Не удалось получить твиты из профиля. Возможно, профиль приватный или недоступен.' : 'Не удалось проанализировать твиты. Добавьте темы в облако смыслов.')
@@ -1098,7 +1343,7 @@ export const runAnalysisInBackground = async (
 
                         const channelVerdict = avgScore >= 70 ? 'Полезно' : avgScore >= 40 ? 'Нейтрально' : 'Не трать время';
 
-                        await AnalysisHistory.create({
+                        const historyRecord = await AnalysisHistory.create({
                             userId,
                             telegramId: null,
                             url: url,
@@ -1108,20 +1353,25 @@ export const runAnalysisInBackground = async (
                             summary: channelSummary,
                             reasoning: channelReasoning,
                             interests,
+                            extractedContent: buildPostsContent(finalResult.channelAnalysis.posts),
                         });
+                        (finalResult as any).analysisHistoryId = historyRecord.id;
                         console.log(`💾 Saved Twitter profile analysis to history: @${twitterUsername} (${finalResult.channelAnalysis.totalPosts} tweets)`);
                     } catch (error: any) {
                         console.warn(`⚠️ Failed to save Twitter profile analysis to history: ${error.message}`);
                     }
                 }
             } else {
-                const job = analysisJobs.get(jobId);
-                if (job) analysisJobs.set(jobId, { ...job, currentItemIndex: i, itemType: 'urls', totalExpected: uniqueUrls.length, currentStage: 0 });
-                const result = await processSingleUrlAnalysis(url, interests, feedbackHistory, userId, analysisMode, jobId, i);
+                const job = getAnalysisJobSync(jobId);
+                if (job) setAnalysisJob(jobId, { ...job, currentItemIndex: i, itemType: 'urls', totalExpected: uniqueUrls.length, currentStage: 0 });
+                const result = await processSingleUrlAnalysis(url, interests, feedbackHistory, userId, analysisMode, jobId, i, false, forceRefresh);
+                if (isCancelledResult(result)) throw new Error(JOB_CANCELLED);
+                if (result && (result as any).error) failedItems.push(url);
                 urlResults.push(result);
+                publishAnalysisEvent(jobId, 'item', { itemIndex: i, itemType: 'urls', result });
                 // Сразу обновляем job — чтобы фронтенд показывал результат, не дожидаясь остальных
-                analysisJobs.set(jobId, {
-                    status: i < uniqueUrls.length - 1 ? 'in_progress' : 'completed',
+                setAnalysisJob(jobId, {
+                    status: 'in_progress', // финальный статус выставляется после всех элементов
                     results: [...textResults, ...urlResults],
                     totalExpected: uniqueUrls.length,
                     itemType: 'urls'
@@ -1138,15 +1388,149 @@ export const runAnalysisInBackground = async (
             } catch (e) {}
         }
 
-        analysisJobs.set(jobId, { status: 'completed', results });
-        console.log('✅ [Job ' + jobId + '] Analysis completed, results:', results.length);
+        // partially_failed — часть элементов завершилась ошибкой (их можно повторить через POST /jobs/:jobId/retry)
+        const hasFailures = failedItems.length > 0 || results.some((r: any) => r && r.error === true);
+        setAnalysisJob(jobId, { status: hasFailures ? 'partially_failed' : 'completed', results, failedItems });
+        console.log('✅ [Job ' + jobId + '] Analysis completed, results:', results.length, hasFailures ? `(failed: ${failedItems.length})` : '');
+        emitWebhookEvent(userId, 'analysis.completed', {
+            jobId,
+            status: hasFailures ? 'partially_failed' : 'completed',
+            interests,
+            failedItems,
+            results: results.map(toWebhookResult),
+        });
     } catch (error: any) {
+        if (error?.message === JOB_CANCELLED) {
+            setAnalysisJob(jobId, {
+                status: 'cancelled',
+                results: [...textResults, ...urlResults],
+                failedItems,
+                // Тексты обрабатываются до ссылок; до разбора ввода необработанным остаётся весь ввод
+                pendingItems: itemsResolved
+                    ? [...texts.slice(currentTextIndex), ...uniqueUrls.slice(currentUrlIndex)]
+                    : Array.isArray(urlInput) ? urlInput : [urlInput],
+            });
+            console.log('🛑 [Job ' + jobId + '] Analysis cancelled, results so far:', textResults.length + urlResults.length);
+            return;
+        }
         console.error('❌ [Job ' + jobId + '] Analysis failed:', error?.message ?? String(error));
         const safeMessage = (error && typeof error === 'object' && typeof (error as Error).message === 'string')
             ? (error as Error).message
             : 'Analysis failed';
-        analysisJobs.set(jobId, { status: 'error', error: safeMessage });
+        setAnalysisJob(jobId, { status: 'error', error: safeMessage });
+    }
+};
+
+/**
+ * Создаёт задачу анализа: в очередь Bull или сразу в фоне (fallback без Redis). Возвращает jobId.
+ * userId — владелец задачи и результатов (авторизованный пользователь запроса), usage — только учёт расхода LLM.
+ */
+const startAnalysisJob = async (
+    request: AnalysisJobRequest,
+    userId: number | undefined,
+    usage: LlmUsageSubject,
+    retryOf?: string
+): Promise<string> => {
+    const { urlInput, interests, analysisMode, forceRefresh = false } = request;
+    const jobId = crypto.randomUUID();
+    setAnalysisJob(jobId, { status: 'pending', userId: userId ?? null, request, ...(retryOf ? { retryOf } : {}) });
+    const queued = await addAnalysisJob({ jobId, urlInput, interests, analysisMode, userId, forceRefresh, usage });
+    if (!queued) {
+        setImmediate(() => runAnalysisInBackground(jobId, urlInput, interests, analysisMode, userId, forceRefresh, usage));
+    }
+
+    // Удаляем задачу через 1 час (очистка памяти)
+    setTimeout(() => deleteAnalysisJob(jobId), 3600000);
+    return jobId;
+};
+
+/**
+ * Задачу авторизованного пользователя может отменить/повторить только он сам; гостевую — любой, кто знает jobId.
+ */
+const canManageAnalysisJob = (job: AnalysisJobState, req: Request): boolean => {
+    const requesterId = (req as AuthenticatedRequest).user?.userId;
+    return !job.userId || job.userId === requesterId;
+};
+
+/**
+ * DELETE /api/analysis/jobs/:jobId
+ * Отмена задачи: из очереди — сразу, выполняющейся — между элементами/этапами (частичные результаты сохраняются).
+ */
+export const cancelAnalysisJob = async (req: Request, res: Response): Promise<Response> => {
+    const { jobId } = req.params;
+    const job = jobId ? await getAnalysisJob(jobId) : undefined;
+    if (!job) {
+        return res.status(404).json({ message: 'Job not found', status: 'not_found' });
     }
+    if (!canManageAnalysisJob(job, req)) {
+        return res.status(403).json({ message: 'Access denied' });
+    }
+    if (isTerminalJobStatus(job.status)) {
+        return res.status(409).json({ message: `Job already finished with status ${job.status}`, status: job.status });
+    }
+
+    await requestAnalysisJobCancellation(jobId);
+    const removedFromQueue = await removeQueuedAnalysisJob(jobId);
+    if (removedFromQueue) {
+        // Воркер задачу не брал — отмечаем отмену сами, весь ввод остаётся необработанным
+        const input = job.request?.urlInput;
+        setAnalysisJob(jobId, {
+            ...job,
+            status: 'cancelled',
+            results: [],
+            pendingItems: Array.isArray(input) ? input : input ? [input] : [],
+        });
+    }
+    console.log(`🛑 [Job ${jobId}] Cancellation requested${removedFromQueue ? ' (removed from queue)' : ''}`);
+    return res.status(202).json({ jobId, status: removedFromQueue ? 'cancelled' : 'cancelling' });
+};
+
+/**
+ * POST /api/analysis/jobs/:jobId/retry
+ * Новая задача только по упавшим (failedItems) и не обработанным из-за отмены (pendingItems) элементам.
+ * Для задачи в статусе error повторяется весь исходный ввод.
+ */
+export const retryAnalysisJob = async (req: Request, res: Response): Promise<Response> => {
+    const { jobId } = req.params;
+    const job = jobId ? await getAnalysisJob(jobId) : undefined;
+    if (!job) {
+        return res.status(404).json({ message: 'Job not found', status: 'not_found' });
+    }
+    if (!canManageAnalysisJob(job, req)) {
+        return res.status(403).json({ message: 'Access denied' });
+    }
+    if (!isTerminalJobStatus(job.status)) {
+        return res.status(409).json({ message: 'Job is still running', status: job.status });
+    }
+    if (!job.request) {
+        return res.status(400).json({ message: 'Original request is not available for this job' });
+    }
+
+    const items = job.status === 'error'
+        ? job.request.urlInput
+        : Array.from(new Set([...(job.failedItems || []), ...(job.pendingItems || [])]));
+    if (!items || items.length === 0) {
+        return res.status(400).json({ message: 'Nothing to retry' });
+    }
+
+    const usage = job.userId ? userUsageSubject(job.userId) : resolveRequestUsageSubject(req);
+    try {
+        await assertWithinUsageQuota(usage);
+    } catch (error: any) {
+        if (error.message === USAGE_QUOTA_EXCEEDED) return sendQuotaExceeded(res, usage);
+        throw error;
+    }
+    const newJobId = await startAnalysisJob({ ...job.request, urlInput: items }, job.userId ?? undefined, usage, jobId);
+    console.log(`🔁 [Job ${jobId}] Retry started as ${newJobId} (${Array.isArray(items) ? items.length : 1} items)`);
+    return res.status(202).json({ jobId: newJobId, retryOf: jobId, items });
+};
+
+/**
+ * 429 с понятным сообщением и состоянием квоты (для веба и бота).
+ */
+const sendQuotaExceeded = async (res: Response, usage: LlmUsageSubject): Promise<Response> => {
+    const quota = await getUsageQuotaStatus(usage);
+    return res.status(429).json({ code: USAGE_QUOTA_EXCEEDED, message: formatQuotaExceededMessage(quota), quota });
 };
 
 const handleAnalysisRequest = async (req: Request, res: Response): Promise<Response> => {
@@ -1157,6 +1541,8 @@ const handleAnalysisRequest = async (req: Request, res: Response): Promise<Respo
     
     try {
         const { urls: urlInput, interests, mode } = req.body;
+        // forceRefresh: скачать контент заново, даже если он есть в кеше
+        const forceRefresh = req.body.forceRefresh === true || req.body.forceRefresh === 'true';
         const userId = (req as AuthenticatedRequest).user?.userId;
 
         const enableOnDemandChannelMonitoring = process.env.ENABLE_TELEGRAM_CHANNEL_MONITORING_ON_ANALYSIS === 'true';
@@ -1185,18 +1571,19 @@ const handleAnalysisRequest = async (req: Request, res: Response): Promise<Respo
             return res.status(400).json({ message: 'URLs/text and interests are required.' });
         }
 
-        // Асинхронный режим: возвращаем jobId сразу, анализ в фоне (обход таймаута Railway)
-        const jobId = crypto.randomUUID();
-        analysisJobs.set(jobId, { status: 'pending' });
-        const queued = await addAnalysisJob({ jobId, urlInput, interests, analysisMode, userId });
-        if (!queued) {
-            setImmediate(() => runAnalysisInBackground(jobId, urlInput, interests, analysisMode, userId));
+        // Квота LLM: месячная у пользователя, суточная у гостя (по IP или Telegram ID бота)
+        const usage = resolveRequestUsageSubject(req);
+        try {
+            await assertWithinUsageQuota(usage);
+        } catch (error: any) {
+            if (error.message === USAGE_QUOTA_EXCEEDED) return sendQuotaExceeded(res, usage);
+            throw error;
         }
+
+        // Асинхронный режим: возвращаем jobId сразу, анализ в фоне (обход таймаута Railway)
+        const jobId = await startAnalysisJob({ urlInput, interests, analysisMode, forceRefresh }, userId, usage);
         
-        // Удаляем задачу через 1 час (очистка памяти)
-        setTimeout(() => analysisJobs.delete(jobId), 3600000);
-        
-        return res.status(202).json({ jobId, message: 'Analysis started. Poll GET /api/analysis/status/:jobId for results.' });
+        return res.status(202).json({ jobId, message: 'Analysis started. Poll GET /api/analysis/status/:jobId or subscribe to GET /api/analysis/stream/:jobId for results.' });
 
     } catch (error) {
         console.error('❌ Error in handleAnalysisRequest:', error);
@@ -1267,7 +1654,7 @@ export const findSimilarArticlesEndpoint = async (req: AuthenticatedRequest, res
         }
 
         // Ищем похожие статьи; при ошибке БД (например, колонка embedding — TEXT вместо vector) возвращаем пустой массив
-        let similarArticles: Array<{ id: number; url: string; summary: string | null; similarity: number }>;
+        let similarArticles: SimilarArticle[];
         try {
             similarArticles = await findSimilarArticles(
                 queryEmbedding,
@@ -1389,22 +1776,36 @@ export const getStageStats = async (req: Request, res: Response): Promise<Respon
     }
 };
 
+const QA_ERROR_RESPONSES: Record<string, { status: number; message: string }> = {
+    [QA_ANALYSIS_NOT_FOUND]: { status: 404, message: 'Анализ не найден' },
+    [QA_JOB_NOT_FOUND]: { status: 404, message: 'Задача анализа не найдена или устарела' },
+    [QA_FORBIDDEN]: { status: 403, message: 'Нет доступа к этому анализу' },
+    [QA_ITEM_AMBIGUOUS]: { status: 400, message: 'В задаче несколько материалов — укажите url нужного' },
+    [QA_CONTENT_UNAVAILABLE]: { status: 409, message: 'Контент этого анализа не сохранён — повторите анализ, чтобы задавать по нему вопросы' },
+};
+
 /**
  * POST /api/analysis/ask-question
- * Отвечает на вопрос пользователя на основе контента (транскрипт видео, текст статьи)
- * Body: { question: string, content: string, url?: string, analysisHistoryId?: number }
+ * Отвечает на вопрос пользователя на основе контента (транскрипт видео, текст статьи).
+ * Контент загружается на сервере по analysisHistoryId или jobId (+ url элемента задачи) — клиент его не передаёт.
+ * Предыдущие вопросы по тому же анализу передаются модели как контекст беседы.
+ * Body: { question: string, analysisHistoryId?: number, jobId?: string, url?: string }
  */
 export const postAskQuestion = async (req: Request, res: Response): Promise<Response> => {
     try {
-        const { question, content, url, analysisHistoryId } = req.body;
+        const { question, url, jobId } = req.body;
+        const analysisHistoryId = req.body.analysisHistoryId != null ? parseInt(String(req.body.analysisHistoryId), 10) : undefined;
         const userId = (req as AuthenticatedRequest).user?.userId || null;
 
         if (!question || typeof question !== 'string') {
             return res.status(400).json({ message: 'Вопрос обязателен' });
         }
 
-        if (!content || typeof content !== 'string') {
-            return res.status(400).json({ message: 'Контент обязателен для ответа на вопрос' });
+        if (analysisHistoryId !== undefined && (isNaN(analysisHistoryId) || analysisHistoryId <= 0)) {
+            return res.status(400).json({ message: 'Некорректный analysisHistoryId' });
+        }
+        if (!analysisHistoryId && (!jobId || typeof jobId !== 'string')) {
+            return res.status(400).json({ message: 'Укажите analysisHistoryId или jobId анализа' });
         }
 
         const trimmedQuestion = question.trim();
@@ -1412,28 +1813,40 @@ export const postAskQuestion = async (req: Request, res: Response): Promise<Resp
             return res.status(400).json({ message: 'Вопрос слишком короткий' });
         }
 
-        const answer = await answerQuestionAboutContent(content, trimmedQuestion);
+        let qaContent;
+        try {
+            qaContent = await resolveQaContent(
+                { analysisHistoryId, jobId, url: typeof url === 'string' ? url : undefined },
+                userId
+            );
+        } catch (resolveError: any) {
+            const known = QA_ERROR_RESPONSES[resolveError.message];
+            if (known) return res.status(known.status).json({ message: known.message, code: resolveError.message });
+            throw resolveError;
+        }
+
+        const conversation = await loadQaConversation(qaContent.analysisHistoryId, userId);
+        const answer = await answerQuestionAboutContent(qaContent.content, trimmedQuestion, conversation);
 
-        // Сохраняем вопрос и ответ в историю (если есть url или analysisHistoryId)
-        if (url || analysisHistoryId) {
-            try {
-                await QAHistory.create({
-                    analysisHistoryId: analysisHistoryId || null,
-                    url: url || (analysisHistoryId ? `history:${analysisHistoryId}` : 'unknown'),
-                    question: trimmedQuestion,
-                    answer: answer,
-                    userId: userId,
-                });
-                console.log(`💾 [Q&A] Saved question/answer to history (userId: ${userId || 'guest'}, url: ${url || 'N/A'})`);
-            } catch (saveError: any) {
-                // Не прерываем основной процесс, если сохранение не удалось
-                console.warn(`⚠️ [Q&A] Failed to save question/answer: ${saveError.message}`);
-            }
+        // Сохраняем вопрос и ответ в историю — следующий вопрос получит его как контекст
+        try {
+            await QAHistory.create({
+                analysisHistoryId: qaContent.analysisHistoryId,
+                url: qaContent.url,
+                question: trimmedQuestion,
+                answer: answer,
+                userId: userId,
+            });
+            console.log(`💾 [Q&A] Saved question/answer to history (userId: ${userId || 'guest'}, url: ${qaContent.url}, context turns: ${conversation.length})`);
+        } catch (saveError: any) {
+            // Не прерываем основной процесс, если сохранение не удалось
+            console.warn(`⚠️ [Q&A] Failed to save question/answer: ${saveError.message}`);
         }
 
         return res.status(200).json({
             success: true,
-            answer
+            answer,
+            analysisHistoryId: qaContent.analysisHistoryId,
         });
     } catch (error: any) {
         console.error('[Ask Question] Error:', error);
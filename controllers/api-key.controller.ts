@@ -0,0 +1,89 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+    createApiKey,
+    listApiKeys,
+    revokeApiKey,
+    API_KEY_SCOPES,
+    API_KEY_INVALID_SCOPES,
+    API_KEY_LIMIT_REACHED,
+} from '../services/api-key.service';
+
+/**
+ * GET /api/api-keys — активные ключи пользователя (без самих ключей, только префиксы) и доступные области.
+ */
+export const getApiKeys = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const keys = await listApiKeys(userId);
+        return res.status(200).json({ keys, availableScopes: API_KEY_SCOPES });
+    } catch (error: any) {
+        console.error('[API Keys] Error:', error);
+        return res.status(500).json({ message: 'Не удалось получить ключи', error: error.message });
+    }
+};
+
+/**
+ * POST /api/api-keys
+ * Body: { name: string, scopes: ('history:read' | 'analyze' | 'channels:manage')[] }
+ * Ключ возвращается один раз — повторно его получить нельзя.
+ */
+export const postApiKey = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { name, scopes } = req.body || {};
+        if (!name || typeof name !== 'string' || !name.trim()) {
+            return res.status(400).json({ message: 'Название ключа обязательно' });
+        }
+        if (!Array.isArray(scopes)) {
+            return res.status(400).json({ message: `scopes — массив из: ${API_KEY_SCOPES.join(', ')}` });
+        }
+
+        const { key, apiKey } = await createApiKey(userId, name, scopes);
+        return res.status(201).json({
+            key,
+            apiKey,
+            message: 'Сохраните ключ: он показывается только один раз.',
+        });
+    } catch (error: any) {
+        if (error.message === API_KEY_INVALID_SCOPES) {
+            return res.status(400).json({ message: `Укажите хотя бы одну область из: ${API_KEY_SCOPES.join(', ')}` });
+        }
+        if (error.message === API_KEY_LIMIT_REACHED) {
+            return res.status(409).json({ message: 'Достигнут лимит активных ключей. Отзовите неиспользуемые.' });
+        }
+        console.error('[API Keys] Create error:', error);
+        return res.status(500).json({ message: 'Не удалось создать ключ', error: error.message });
+    }
+};
+
+/**
+ * DELETE /api/api-keys/:id — отзыв ключа, запросы с ним сразу получают 401.
+ */
+export const deleteApiKey = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const keyId = parseInt(String(req.params.id), 10);
+        if (isNaN(keyId) || keyId <= 0) {
+            return res.status(400).json({ message: 'Некорректный id ключа' });
+        }
+        const revoked = await revokeApiKey(userId, keyId);
+        if (!revoked) {
+            return res.status(404).json({ message: 'Ключ не найден' });
+        }
+        return res.status(200).json({ success: true });
+    } catch (error: any) {
+        console.error('[API Keys] Revoke error:', error);
+        return res.status(500).json({ message: 'Не удалось отозвать ключ', error: error.message });
+    }
+};
@@ -0,0 +1,170 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { DigestItemStatus } from '../models/DigestItem';
+import {
+    getDigestSettings,
+    updateDigestSettings,
+    parseDigestSettingsUpdate,
+    buildDigest,
+    setDigestItemStatus,
+    listReadLater,
+    DIGEST_CHANNELS,
+    DIGEST_ITEM_NOT_FOUND,
+    DIGEST_TELEGRAM_NOT_LINKED,
+} from '../services/digest.service';
+import { deliverDigest } from '../services/digest-scheduler.service';
+
+const ITEM_STATUSES: DigestItemStatus[] = ['sent', 'read_later', 'dismissed'];
+
+const parseId = (value: unknown): number | null => {
+    const id = parseInt(String(value), 10);
+    return isNaN(id) || id <= 0 ? null : id;
+};
+
+/**
+ * Ошибки digest.service → HTTP. null — неизвестная ошибка (500 в вызывающем коде).
+ */
+function sendDigestError(res: Response, error: any): Response | null {
+    switch (error.message) {
+        case DIGEST_ITEM_NOT_FOUND:
+            return res.status(404).json({ message: 'Материал дайджеста не найден' });
+        case DIGEST_TELEGRAM_NOT_LINKED:
+            return res.status(409).json({ message: 'Для доставки в Telegram привяжите аккаунт к боту' });
+        default:
+            return null;
+    }
+}
+
+/**
+ * GET /api/digest/settings — расписание и способы доставки (если дайджест не настроен — значения по умолчанию, enabled: false).
+ */
+export const getSettings = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const settings = await getDigestSettings(userId);
+        return res.status(200).json({ settings, channels: DIGEST_CHANNELS });
+    } catch (error: any) {
+        console.error('[Digest] Error:', error);
+        return res.status(500).json({ message: 'Не удалось получить настройки дайджеста', error: error.message });
+    }
+};
+
+/**
+ * PUT /api/digest/settings
+ * Body: { enabled?, frequency?: daily|weekly, sendHour?: 0–23, weekday?: 0–6, timezone?, channels?: [telegram|email|in_app], topN?, minScore? }
+ * Пока дайджест включён, отдельные уведомления по каждому каналу и источнику не отправляются.
+ */
+export const putSettings = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        let update;
+        try {
+            update = parseDigestSettingsUpdate(req.body || {});
+        } catch (validationError: any) {
+            return res.status(400).json({ message: validationError.message });
+        }
+        const settings = await updateDigestSettings(userId, update);
+        return res.status(200).json({ settings });
+    } catch (error: any) {
+        const handled = sendDigestError(res, error);
+        if (handled) return handled;
+        console.error('[Digest] Update error:', error);
+        return res.status(500).json({ message: 'Не удалось сохранить настройки дайджеста', error: error.message });
+    }
+};
+
+/**
+ * GET /api/digest/preview — каким будет следующий дайджест (ничего не отправляет и не отмечает).
+ */
+export const getPreview = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const settings = await getDigestSettings(userId);
+        const digest = await buildDigest(userId, settings);
+        return res.status(200).json({ digest });
+    } catch (error: any) {
+        console.error('[Digest] Preview error:', error);
+        return res.status(500).json({ message: 'Не удалось собрать дайджест', error: error.message });
+    }
+};
+
+/**
+ * POST /api/digest/send — отправить дайджест сейчас. Body: { channels?: [telegram|email|in_app] } — по умолчанию из настроек.
+ */
+export const postSend = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const { channels } = req.body || {};
+        if (channels !== undefined
+            && (!Array.isArray(channels) || channels.length === 0 || !channels.every((c) => (DIGEST_CHANNELS as unknown[]).includes(c)))) {
+            return res.status(400).json({ message: `channels — непустой массив из: ${DIGEST_CHANNELS.join(', ')}` });
+        }
+        const { digest, delivered } = await deliverDigest(userId, channels);
+        return res.status(200).json({ digest, delivered });
+    } catch (error: any) {
+        console.error('[Digest] Send error:', error);
+        return res.status(500).json({ message: 'Не удалось отправить дайджест', error: error.message });
+    }
+};
+
+/**
+ * GET /api/digest/read-later?page=&limit= — материалы, отложенные кнопкой «Прочитать позже».
+ */
+export const getReadLater = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const { items, total } = await listReadLater(userId, { limit, offset: (page - 1) * limit });
+        return res.status(200).json({
+            data: items,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+        });
+    } catch (error: any) {
+        console.error('[Digest] Read later error:', error);
+        return res.status(500).json({ message: 'Не удалось получить список «Прочитать позже»', error: error.message });
+    }
+};
+
+/**
+ * PATCH /api/digest/items/:id
+ * Body: { status: read_later | dismissed | sent } — «Прочитать позже», «Не интересно» (отрицательный отзыв на анализ) или отмена.
+ */
+export const patchItem = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const itemId = parseId(req.params.id);
+        if (!itemId) {
+            return res.status(400).json({ message: 'Некорректный id материала' });
+        }
+        const { status } = req.body || {};
+        if (!ITEM_STATUSES.includes(status)) {
+            return res.status(400).json({ message: `status — один из: ${ITEM_STATUSES.join(', ')}` });
+        }
+        const item = await setDigestItemStatus(userId, itemId, status);
+        return res.status(200).json({ id: item.id, analysisHistoryId: item.analysisHistoryId, status: item.status, actedAt: item.actedAt });
+    } catch (error: any) {
+        const handled = sendDigestError(res, error);
+        if (handled) return handled;
+        console.error('[Digest] Item update error:', error);
+        return res.status(500).json({ message: 'Не удалось обновить материал', error: error.message });
+    }
+};
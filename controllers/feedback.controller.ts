@@ -6,6 +6,7 @@ import ContentRelevanceScore from '../models/ContentRelevanceScore';
 import contentService from '../services/content.service';
 import { analyzeRelevanceLevel } from '../services/relevance-level.service';
 import UserInterestLevel from '../models/UserInterestLevel';
+import { emitWebhookEvent } from '../services/webhook.service';
 import { extractThemes, saveUserSemanticTags, saveUserSemanticTagsWithWeight, clearUserTagsCache } from '../services/semantic.service';
 
 export const addFeedback = async (req: AuthenticatedRequest, res: Response) => {
@@ -38,6 +39,15 @@ export const addFeedback = async (req: AuthenticatedRequest, res: Response) => {
         // Сразу возвращаем ответ пользователю, чтобы не блокировать интерфейс
         res.status(201).json(feedback);
 
+        emitWebhookEvent(userId, 'feedback.recorded', {
+            analysisHistoryId: historyEntry.id,
+            url: historyEntry.url,
+            wasCorrect: !!wasCorrect,
+            comment: comment || null,
+            aiVerdict: historyEntry.verdict,
+            score: historyEntry.score,
+        });
+
         // Обновляем оценки релевантности асинхронно (в фоне) только при положительной обратной связи
         // Это не блокирует ответ пользователю
         if (wasCorrect) {
@@ -4,6 +4,9 @@ import AnalysisHistory from '../models/AnalysisHistory';
 import { Op } from 'sequelize';
 import { extractThemes, clearUserTagsCache } from '../services/semantic.service';
 import UserSemanticTag from '../models/UserSemanticTag';
+import { getCachedContent } from '../services/content-cache.service';
+import { searchHistory as searchUserHistory, HistorySearchFilters } from '../services/history-search.service';
+import { exportHistory as exportUserHistory, isHistoryExportFormat, HISTORY_EXPORT_FORMATS } from '../services/history-export.service';
 
 export const getHistory = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
     try {
@@ -60,6 +63,108 @@ export const getHistory = async (req: AuthenticatedRequest, res: Response): Prom
     }
 };
 
+/**
+ * Фильтры истории из query string — общие для поиска и экспорта.
+ */
+function parseHistoryFilters(req: AuthenticatedRequest): HistorySearchFilters {
+    const parseNumber = (value: unknown) => {
+        if (typeof value !== 'string' || value.trim() === '') return undefined;
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : undefined;
+    };
+    const parseDate = (value: unknown) => {
+        if (typeof value !== 'string' || !value) return undefined;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date;
+    };
+
+    return {
+        sourceTypes: typeof req.query.sourceType === 'string'
+            ? req.query.sourceType.split(',').map(s => s.trim()).filter(Boolean)
+            : undefined,
+        verdict: typeof req.query.verdict === 'string' && req.query.verdict ? req.query.verdict : undefined,
+        minScore: parseNumber(req.query.minScore),
+        maxScore: parseNumber(req.query.maxScore),
+        from: parseDate(req.query.from),
+        to: parseDate(req.query.to),
+        interest: typeof req.query.interest === 'string' && req.query.interest.trim() ? req.query.interest.trim() : undefined,
+        source: req.query.source === 'bot' || req.query.source === 'web' ? req.query.source : undefined,
+    };
+}
+
+/**
+ * GET /api/analysis/history/search?q=...&sourceType=article,video&verdict=...&minScore=&maxScore=&from=&to=&interest=&source=bot|web&page=&limit=
+ * Гибридный поиск (полнотекстовый + векторный, RRF). Без q — только фильтры, новые первыми.
+ */
+export const searchHistory = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+        if (query.length > 500) {
+            return res.status(400).json({ message: 'Query is too long (max 500 characters)' });
+        }
+
+        const filters = parseHistoryFilters(req);
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+        const { items, total, mode } = await searchUserHistory(userId, query, filters, { limit, offset: (page - 1) * limit });
+
+        return res.status(200).json({
+            data: items,
+            mode,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            }
+        });
+    } catch (error) {
+        console.error('Error searching history:', error);
+        return res.status(500).json({ message: 'Failed to search history', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+};
+
+/**
+ * GET /api/analysis/history/export?format=md|csv|json|obsidian&q=...&(фильтры как у /history/search)
+ * Отдаёт файл: Markdown, CSV, JSON или zip с заметками для Obsidian.
+ * X-Export-Count / X-Export-Total / X-Export-Truncated — сколько записей в файле, сколько найдено и обрезан ли экспорт.
+ */
+export const exportHistory = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const format = req.query.format ?? 'md';
+        if (!isHistoryExportFormat(format)) {
+            return res.status(400).json({ message: `Unknown format. Allowed: ${HISTORY_EXPORT_FORMATS.join(', ')}` });
+        }
+        const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+        if (query.length > 500) {
+            return res.status(400).json({ message: 'Query is too long (max 500 characters)' });
+        }
+
+        const file = await exportUserHistory(userId, format, query, parseHistoryFilters(req));
+
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+        res.setHeader('X-Export-Count', String(file.count));
+        res.setHeader('X-Export-Total', String(file.total));
+        res.setHeader('X-Export-Truncated', String(file.truncated));
+        return res.status(200).send(file.body);
+    } catch (error) {
+        console.error('Error exporting history:', error);
+        return res.status(500).json({ message: 'Failed to export history', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+};
+
 export const getHistoryItem = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
     try {
         const userId = req.user?.userId;
@@ -101,9 +206,14 @@ export const reanalyzeFromHistory = async (req: AuthenticatedRequest, res: Respo
             return res.status(404).json({ message: 'History item not found' });
         }
 
+        // Если контент ещё в кеше — повторный анализ не будет заново скачивать страницу
+        const cached = item.url.startsWith('text://') ? null : await getCachedContent(item.url);
+
         return res.status(200).json({
             url: item.url,
             interests: item.interests,
+            contentCached: !!cached,
+            contentFetchedAt: cached?.fetchedAt ?? null,
         });
     } catch (error) {
         console.error('Error preparing reanalysis:', error);
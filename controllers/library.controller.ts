@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { askLibrary, getLibraryThread, clearLibraryThread } from '../services/library-chat.service';
+
+const MAX_QUESTION_LENGTH = 2000;
+
+/**
+ * POST /api/library/chat
+ * Вопрос по всей библиотеке пользователя (история анализов). Ответ ссылается на записи истории [#id].
+ * Body: { question: string, reset?: boolean } — reset начинает новый тред
+ */
+export const postLibraryChat = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { question, reset } = req.body;
+        if (!question || typeof question !== 'string' || question.trim().length < 3) {
+            return res.status(400).json({ message: 'Вопрос обязателен (минимум 3 символа)' });
+        }
+        if (question.length > MAX_QUESTION_LENGTH) {
+            return res.status(400).json({ message: `Вопрос слишком длинный (максимум ${MAX_QUESTION_LENGTH} символов)` });
+        }
+
+        if (reset === true) {
+            await clearLibraryThread(userId);
+        }
+
+        const result = await askLibrary(userId, question.trim());
+        return res.status(200).json({ success: true, ...result });
+    } catch (error: any) {
+        console.error('[Library Chat] Error:', error);
+        return res.status(500).json({
+            message: error.message || 'Не удалось получить ответ',
+            error: error.message,
+        });
+    }
+};
+
+/**
+ * GET /api/library/chat — тред беседы с библиотекой (старые сообщения первыми)
+ */
+export const getLibraryChat = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const messages = await getLibraryThread(userId, limit);
+        return res.status(200).json({
+            messages: messages.map((m) => ({
+                id: m.id,
+                role: m.role,
+                content: m.content,
+                citations: m.citations,
+                createdAt: m.createdAt,
+            })),
+        });
+    } catch (error: any) {
+        console.error('Error fetching library chat:', error);
+        return res.status(500).json({ message: 'Failed to fetch library chat' });
+    }
+};
+
+/**
+ * DELETE /api/library/chat — очистить тред
+ */
+export const deleteLibraryChat = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const deleted = await clearLibraryThread(userId);
+        return res.status(200).json({ success: true, deleted });
+    } catch (error: any) {
+        console.error('Error clearing library chat:', error);
+        return res.status(500).json({ message: 'Failed to clear library chat' });
+    }
+};
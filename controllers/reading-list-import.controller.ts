@@ -0,0 +1,203 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import ReadingListImportItem, { ReadingListImportItemStatus } from '../models/ReadingListImportItem';
+import { READING_LIST_FORMATS, isReadingListFormat } from '../services/reading-list-parser';
+import {
+    createReadingListImport,
+    listReadingListImports,
+    getReadingListImport,
+    listReadingListImportItems,
+    pauseReadingListImport,
+    resumeReadingListImport,
+    cancelReadingListImport,
+    IMPORT_EMPTY,
+    IMPORT_TOO_LARGE,
+    IMPORT_NO_INTERESTS,
+    IMPORT_LIMIT_REACHED,
+    IMPORT_NOT_FOUND,
+    IMPORT_INVALID_STATE,
+} from '../services/reading-list-import.service';
+
+const ITEM_STATUSES: ReadingListImportItemStatus[] = ['pending', 'processing', 'done', 'failed', 'skipped', 'cancelled'];
+
+const parseId = (value: unknown): number | null => {
+    const id = parseInt(String(value), 10);
+    return isNaN(id) || id <= 0 ? null : id;
+};
+
+const toItemResponse = (item: ReadingListImportItem) => ({
+    id: item.id,
+    url: item.url,
+    title: item.title,
+    tags: item.tags,
+    addedAt: item.addedAt,
+    status: item.status,
+    attempts: item.attempts,
+    analysisHistoryId: item.analysisHistoryId,
+    error: item.error,
+    processedAt: item.processedAt,
+});
+
+/**
+ * Ошибки reading-list-import.service → HTTP. null — неизвестная ошибка (500 в вызывающем коде).
+ */
+function sendImportError(res: Response, error: any): Response | null {
+    switch (error.message) {
+        case IMPORT_EMPTY:
+            return res.status(400).json({ message: 'В файле не найдено ни одной http(s)-ссылки' });
+        case IMPORT_TOO_LARGE:
+            return res.status(413).json({ message: 'Слишком много новых ссылок в одном импорте. Разделите файл на части.' });
+        case IMPORT_NO_INTERESTS:
+            return res.status(400).json({ message: 'Укажите interests или добавьте интересы в профиле' });
+        case IMPORT_LIMIT_REACHED:
+            return res.status(409).json({ message: 'Слишком много незавершённых импортов. Дождитесь их окончания или отмените.' });
+        case IMPORT_NOT_FOUND:
+            return res.status(404).json({ message: 'Импорт не найден' });
+        case IMPORT_INVALID_STATE:
+            return res.status(409).json({ message: 'Действие недоступно в текущем статусе импорта' });
+        default:
+            return null;
+    }
+}
+
+/**
+ * POST /api/imports
+ * Body: { content: string, format?: pocket|instapaper|csv|opml|bookmarks|urls, filename?, interests?, mode?: read|unread }
+ * Формат без format определяется по содержимому. Ссылки, уже бывшие в истории, пропускаются.
+ */
+export const postReadingListImport = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const { content, format, filename, interests, mode } = req.body || {};
+        if (typeof content !== 'string' || !content.trim()) {
+            return res.status(400).json({ message: 'content — содержимое файла (строка)' });
+        }
+        if (format !== undefined && !isReadingListFormat(format)) {
+            return res.status(400).json({ message: `format — один из: ${READING_LIST_FORMATS.join(', ')}` });
+        }
+        if (mode !== undefined && mode !== 'read' && mode !== 'unread') {
+            return res.status(400).json({ message: 'mode — read или unread' });
+        }
+
+        const importInfo = await createReadingListImport(userId, {
+            content,
+            format,
+            filename: typeof filename === 'string' ? filename : null,
+            interests: typeof interests === 'string' ? interests : null,
+            mode,
+        });
+        return res.status(201).json({ import: importInfo });
+    } catch (error: any) {
+        const handled = sendImportError(res, error);
+        if (handled) return handled;
+        console.error('[Reading List Import] Create error:', error);
+        return res.status(500).json({ message: 'Не удалось импортировать список', error: error.message });
+    }
+};
+
+/**
+ * GET /api/imports — импорты пользователя (новые первыми) с прогрессом.
+ */
+export const getReadingListImports = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const imports = await listReadingListImports(userId);
+        return res.status(200).json({ imports, formats: READING_LIST_FORMATS });
+    } catch (error: any) {
+        console.error('[Reading List Import] Error:', error);
+        return res.status(500).json({ message: 'Не удалось получить импорты', error: error.message });
+    }
+};
+
+/**
+ * GET /api/imports/:id — прогресс импорта: обработано, ошибки, когда следующий элемент и оценка окончания.
+ */
+export const getReadingListImportById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const importId = parseId(req.params.id);
+        if (!importId) {
+            return res.status(400).json({ message: 'Некорректный id импорта' });
+        }
+        const importInfo = await getReadingListImport(userId, importId);
+        return res.status(200).json({ import: importInfo });
+    } catch (error: any) {
+        const handled = sendImportError(res, error);
+        if (handled) return handled;
+        console.error('[Reading List Import] Error:', error);
+        return res.status(500).json({ message: 'Не удалось получить импорт', error: error.message });
+    }
+};
+
+/**
+ * GET /api/imports/:id/items?status=failed&page=&limit= — ссылки импорта и результат их анализа.
+ */
+export const getReadingListImportItems = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const importId = parseId(req.params.id);
+        if (!importId) {
+            return res.status(400).json({ message: 'Некорректный id импорта' });
+        }
+        const status = req.query.status as ReadingListImportItemStatus | undefined;
+        if (status !== undefined && !ITEM_STATUSES.includes(status)) {
+            return res.status(400).json({ message: `status — один из: ${ITEM_STATUSES.join(', ')}` });
+        }
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const { items, total } = await listReadingListImportItems(userId, importId, { status, limit, offset: (page - 1) * limit });
+        return res.status(200).json({
+            data: items.map(toItemResponse),
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+        });
+    } catch (error: any) {
+        const handled = sendImportError(res, error);
+        if (handled) return handled;
+        console.error('[Reading List Import] Items error:', error);
+        return res.status(500).json({ message: 'Не удалось получить ссылки импорта', error: error.message });
+    }
+};
+
+const changeImportState = (
+    action: (userId: number, importId: number) => Promise<unknown>,
+    errorMessage: string
+) => async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const importId = parseId(req.params.id);
+        if (!importId) {
+            return res.status(400).json({ message: 'Некорректный id импорта' });
+        }
+        const importInfo = await action(userId, importId);
+        return res.status(200).json({ import: importInfo });
+    } catch (error: any) {
+        const handled = sendImportError(res, error);
+        if (handled) return handled;
+        console.error('[Reading List Import] State change error:', error);
+        return res.status(500).json({ message: errorMessage, error: error.message });
+    }
+};
+
+/** POST /api/imports/:id/pause */
+export const postPauseReadingListImport = changeImportState(pauseReadingListImport, 'Не удалось приостановить импорт');
+
+/** POST /api/imports/:id/resume */
+export const postResumeReadingListImport = changeImportState(resumeReadingListImport, 'Не удалось возобновить импорт');
+
+/** DELETE /api/imports/:id — отмена: оставшиеся ссылки не анализируются, готовые остаются в истории. */
+export const deleteReadingListImport = changeImportState(cancelReadingListImport, 'Не удалось отменить импорт');
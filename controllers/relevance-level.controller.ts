@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import contentService from '../services/content.service';
 import { analyzeRelevanceLevel, UserLevel } from '../services/relevance-level.service';
+import { LLM_OUTPUT_INVALID } from '../services/llm-structured';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import UserInterestLevel from '../models/UserInterestLevel';
 
@@ -58,6 +59,12 @@ export const analyzeRelevanceLevelForUrl = async (req: AuthenticatedRequest, res
 
     } catch (error: any) {
         console.error(`[Relevance Level Controller] Error: ${error.message}`);
+        if (error.message === LLM_OUTPUT_INVALID) {
+            return res.status(502).json({
+                error: true,
+                message: 'AI-сервис вернул ответ в неожиданном формате. Попробуйте позже.',
+            });
+        }
         return res.status(500).json({
             error: true,
             message: error.message || 'Failed to analyze relevance level',
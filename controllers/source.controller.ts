@@ -0,0 +1,212 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { SourceItemStatus } from '../models/SourceItem';
+import { SOURCE_TYPES, isSourceType } from '../services/sources';
+import {
+    createSource,
+    listSources,
+    updateSource,
+    deleteSource,
+    listSourceItems,
+    findUserSource,
+    toSourceInfo,
+    SOURCE_CHECK_FREQUENCIES,
+    SOURCE_NOT_FOUND,
+    SOURCE_INVALID,
+    SOURCE_UNREACHABLE,
+    SOURCE_ALREADY_EXISTS,
+    SOURCE_LIMIT_REACHED,
+} from '../services/source.service';
+import { checkSourceNow } from '../services/source-monitor.service';
+
+const ITEM_STATUSES: SourceItemStatus[] = ['analyzed', 'failed'];
+
+const parseId = (value: unknown): number | null => {
+    const id = parseInt(String(value), 10);
+    return isNaN(id) || id <= 0 ? null : id;
+};
+
+const isCheckFrequency = (value: unknown): value is typeof SOURCE_CHECK_FREQUENCIES[number] =>
+    typeof value === 'string' && (SOURCE_CHECK_FREQUENCIES as string[]).includes(value);
+
+/**
+ * Ошибки source.service → HTTP. null — неизвестная ошибка (500 в вызывающем коде).
+ */
+function sendSourceError(res: Response, error: any): Response | null {
+    switch (error.message) {
+        case SOURCE_NOT_FOUND:
+            return res.status(404).json({ message: 'Источник не найден' });
+        case SOURCE_INVALID:
+            return res.status(400).json({ message: 'Не удалось распознать источник: нужна ссылка на RSS/Atom-ленту, сайт с лентой, YouTube-канал, t.me/канал или профиль x.com' });
+        case SOURCE_UNREACHABLE:
+            return res.status(422).json({ message: 'Источник недоступен — проверьте ссылку или попробуйте позже' });
+        case SOURCE_ALREADY_EXISTS:
+            return res.status(409).json({ message: 'Вы уже подписаны на этот источник' });
+        case SOURCE_LIMIT_REACHED:
+            return res.status(409).json({ message: 'Достигнут лимит источников. Удалите ненужные.' });
+        default:
+            return null;
+    }
+}
+
+/**
+ * GET /api/sources?type=rss — подписки пользователя.
+ */
+export const getSources = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const type = req.query.type;
+        if (type !== undefined && !isSourceType(type)) {
+            return res.status(400).json({ message: `type — один из: ${SOURCE_TYPES.join(', ')}` });
+        }
+        const sources = await listSources(userId, type);
+        return res.status(200).json({ sources, types: SOURCE_TYPES });
+    } catch (error: any) {
+        console.error('[Sources] Error:', error);
+        return res.status(500).json({ message: 'Не удалось получить источники', error: error.message });
+    }
+};
+
+/**
+ * POST /api/sources
+ * Body: { url: string, type?: rss|youtube|telegram|twitter, title?, checkFrequency?: hourly|daily|weekly }
+ * url — лента, страница сайта (лента ищется по <link rel="alternate">), YouTube-канал, t.me/канал, профиль x.com или @username.
+ */
+export const postSource = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const { url, type, title, checkFrequency } = req.body || {};
+        if (typeof url !== 'string' || !url.trim()) {
+            return res.status(400).json({ message: 'url — ссылка на источник или @username' });
+        }
+        if (type !== undefined && !isSourceType(type)) {
+            return res.status(400).json({ message: `type — один из: ${SOURCE_TYPES.join(', ')}` });
+        }
+        if (checkFrequency !== undefined && !isCheckFrequency(checkFrequency)) {
+            return res.status(400).json({ message: `checkFrequency — один из: ${SOURCE_CHECK_FREQUENCIES.join(', ')}` });
+        }
+        const source = await createSource(userId, { url, type, title, checkFrequency });
+        return res.status(201).json({ source });
+    } catch (error: any) {
+        const handled = sendSourceError(res, error);
+        if (handled) return handled;
+        console.error('[Sources] Create error:', error);
+        return res.status(500).json({ message: 'Не удалось добавить источник', error: error.message });
+    }
+};
+
+/**
+ * PATCH /api/sources/:id
+ * Body: { title?, checkFrequency?, isActive? }
+ */
+export const patchSource = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const sourceId = parseId(req.params.id);
+        if (!sourceId) {
+            return res.status(400).json({ message: 'Некорректный id источника' });
+        }
+        const { title, checkFrequency, isActive } = req.body || {};
+        if (checkFrequency !== undefined && !isCheckFrequency(checkFrequency)) {
+            return res.status(400).json({ message: `checkFrequency — один из: ${SOURCE_CHECK_FREQUENCIES.join(', ')}` });
+        }
+        if (isActive !== undefined && typeof isActive !== 'boolean') {
+            return res.status(400).json({ message: 'isActive — true или false' });
+        }
+        const source = await updateSource(userId, sourceId, { title, checkFrequency, isActive });
+        return res.status(200).json({ source });
+    } catch (error: any) {
+        const handled = sendSourceError(res, error);
+        if (handled) return handled;
+        console.error('[Sources] Update error:', error);
+        return res.status(500).json({ message: 'Не удалось обновить источник', error: error.message });
+    }
+};
+
+/**
+ * DELETE /api/sources/:id
+ */
+export const removeSource = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const sourceId = parseId(req.params.id);
+        if (!sourceId) {
+            return res.status(400).json({ message: 'Некорректный id источника' });
+        }
+        await deleteSource(userId, sourceId);
+        return res.status(200).json({ message: 'Источник удалён' });
+    } catch (error: any) {
+        const handled = sendSourceError(res, error);
+        if (handled) return handled;
+        console.error('[Sources] Delete error:', error);
+        return res.status(500).json({ message: 'Не удалось удалить источник', error: error.message });
+    }
+};
+
+/**
+ * GET /api/sources/:id/items?status=&page=&limit= — проанализированные элементы источника.
+ */
+export const getSourceItems = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const sourceId = parseId(req.params.id);
+        if (!sourceId) {
+            return res.status(400).json({ message: 'Некорректный id источника' });
+        }
+        const status = req.query.status as SourceItemStatus | undefined;
+        if (status !== undefined && !ITEM_STATUSES.includes(status)) {
+            return res.status(400).json({ message: `status — один из: ${ITEM_STATUSES.join(', ')}` });
+        }
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const { items, total } = await listSourceItems(userId, sourceId, { status, limit, offset: (page - 1) * limit });
+        return res.status(200).json({
+            data: items,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+        });
+    } catch (error: any) {
+        const handled = sendSourceError(res, error);
+        if (handled) return handled;
+        console.error('[Sources] Items error:', error);
+        return res.status(500).json({ message: 'Не удалось получить элементы источника', error: error.message });
+    }
+};
+
+/**
+ * POST /api/sources/:id/check — проверить источник сейчас. Проверка идёт в фоне, результат — уведомлением.
+ */
+export const postCheckSource = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const sourceId = parseId(req.params.id);
+        if (!sourceId) {
+            return res.status(400).json({ message: 'Некорректный id источника' });
+        }
+        const source = await findUserSource(userId, sourceId);
+        checkSourceNow(source);
+        return res.status(202).json({ message: 'Проверка запущена', source: toSourceInfo(source) });
+    } catch (error: any) {
+        const handled = sendSourceError(res, error);
+        if (handled) return handled;
+        console.error('[Sources] Check error:', error);
+        return res.status(500).json({ message: 'Не удалось запустить проверку', error: error.message });
+    }
+};
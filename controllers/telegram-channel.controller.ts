@@ -2,6 +2,7 @@ import { Response } from 'express';
 import sequelize from '../config/database';
 import TelegramChannel from '../models/TelegramChannel';
 import TelegramChannelPost from '../models/TelegramChannelPost';
+import TelegramChannelCheck from '../models/TelegramChannelCheck';
 import AnalysisHistory from '../models/AnalysisHistory';
 import { getChannelInfo, processPostUrl } from '../services/telegram-channel.service';
 
@@ -19,6 +20,20 @@ import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { processSingleUrlAnalysis } from './analysis.controller';
 import UserInterest from '../models/UserInterest';
 import { getUserTagsCached } from '../services/semantic.service';
+import { parseChannelSettingsUpdate, normalizeChannelFilters, channelSettingsOf } from '../services/channel-filters';
+import { parseChannelSchedule, computeNextCheckAt } from '../services/channel-schedule';
+
+/**
+ * Состояние проверок подписки: почему канал давно не обновлялся и когда следующая проверка
+ */
+function channelHealthOf(channel: TelegramChannel) {
+    return {
+        consecutiveFailures: channel.consecutiveFailures,
+        lastError: channel.lastError ?? null,
+        lastCheckedAt: channel.lastCheckedAt ?? null,
+        nextCheckAt: channel.nextCheckAt ?? null,
+    };
+}
 
 /**
  * GET /api/telegram-channels
@@ -76,6 +91,9 @@ export const getUserChannels = async (req: AuthenticatedRequest, res: Response):
                     channelId: ch.channelId,
                     isActive: ch.isActive,
                     checkFrequency: ch.checkFrequency,
+                    settings: channelSettingsOf(ch),
+                    schedule: ch.schedule ?? null,
+                    health: channelHealthOf(ch),
                     lastCheckedAt: ch.lastCheckedAt,
                     createdAt: ch.createdAt,
                     posts: postsWithAnalysis
@@ -362,7 +380,14 @@ export const deleteChannel = async (req: AuthenticatedRequest, res: Response): P
 
 /**
  * PATCH /api/telegram-channels/:id
- * Обновить настройки канала (активность, частота проверки)
+ * Обновить настройки канала
+ * Body: { isActive?, checkFrequency?: 'daily' | 'weekly', minScore?: 0-100 | null, maxPostsPerCheck?: 1-50 | null,
+ *         filters?: { includeKeywords?, excludeKeywords?, includePatterns?, excludePatterns?, ignoreReposts?, ignoreAds? },
+ *         quietHours?: { start: 'HH:MM', end: 'HH:MM', timezone?: 'Europe/Moscow' } | null,
+ *         schedule?: { type: 'hourly' } | { type: 'times_per_day', times: 2-24 }
+ *                  | { type: 'cron', expression: '0 9,18 * * 1-5', timezone?: 'Europe/Moscow' } | { type: 'adaptive' } | null }
+ * filters объединяются с текущими; null в minScore / maxPostsPerCheck / quietHours — значение по умолчанию,
+ * null в schedule — проверка по checkFrequency.
  */
 export const updateChannel = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
     try {
@@ -389,13 +414,38 @@ export const updateChannel = async (req: AuthenticatedRequest, res: Response): P
             return res.status(404).json({ message: 'Channel not found' });
         }
 
+        let settings;
+        let schedule;
+        try {
+            settings = parseChannelSettingsUpdate(req.body || {}, normalizeChannelFilters(channel.filters));
+            schedule = req.body?.schedule !== undefined ? parseChannelSchedule(req.body.schedule) : undefined;
+        } catch (validationError: any) {
+            return res.status(400).json({ message: validationError.message, error: 'Invalid channel settings' });
+        }
+
         if (isActive !== undefined) {
             channel.isActive = isActive;
         }
+        const previousFrequency = channel.checkFrequency;
         if (checkFrequency && (checkFrequency === 'daily' || checkFrequency === 'weekly')) {
             channel.checkFrequency = checkFrequency;
         }
 
+        if (settings.minScore !== undefined) channel.minScore = settings.minScore;
+        if (settings.maxPostsPerCheck !== undefined) channel.maxPostsPerCheck = settings.maxPostsPerCheck;
+        if (settings.filters !== undefined) channel.filters = settings.filters;
+        if (settings.quietHours !== undefined) channel.quietHours = settings.quietHours;
+        if (schedule !== undefined) channel.schedule = schedule;
+
+        // Новое расписание — пересчитываем срок от последней проверки; задержку после ошибок не сокращаем
+        if (schedule !== undefined || channel.checkFrequency !== previousFrequency) {
+            let nextCheckAt = channel.lastCheckedAt ? computeNextCheckAt(channel, channel.lastCheckedAt) : null;
+            if (nextCheckAt && channel.consecutiveFailures > 0 && channel.nextCheckAt && channel.nextCheckAt > nextCheckAt) {
+                nextCheckAt = channel.nextCheckAt;
+            }
+            channel.nextCheckAt = nextCheckAt;
+        }
+
         await channel.save();
 
         return res.status(200).json({
@@ -405,7 +455,10 @@ export const updateChannel = async (req: AuthenticatedRequest, res: Response): P
                 id: channel.id,
                 channelUsername: channel.channelUsername,
                 isActive: channel.isActive,
-                checkFrequency: channel.checkFrequency
+                checkFrequency: channel.checkFrequency,
+                settings: channelSettingsOf(channel),
+                schedule: channel.schedule ?? null,
+                health: channelHealthOf(channel)
             }
         });
     } catch (error: any) {
@@ -416,3 +469,69 @@ export const updateChannel = async (req: AuthenticatedRequest, res: Response): P
         });
     }
 };
+
+/**
+ * GET /api/telegram-channels/:id/checks
+ * Журнал проверок канала: длительность, найденные и отсеянные посты, ошибки. Новые первыми.
+ * Query: ?page=1&limit=50
+ */
+export const getChannelChecks = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const channelId = parseInt(req.params.id, 10);
+        if (isNaN(channelId)) {
+            return res.status(400).json({ message: 'Invalid channel ID' });
+        }
+
+        const channel = await TelegramChannel.findOne({
+            where: {
+                id: channelId,
+                userId
+            }
+        });
+
+        if (!channel) {
+            return res.status(404).json({ message: 'Channel not found' });
+        }
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const { rows, count } = await TelegramChannelCheck.findAndCountAll({
+            where: { channelId },
+            order: [['created_at', 'DESC']],
+            limit,
+            offset: (page - 1) * limit
+        });
+
+        return res.status(200).json({
+            success: true,
+            channel: {
+                id: channel.id,
+                channelUsername: channel.channelUsername,
+                schedule: channel.schedule ?? null,
+                health: channelHealthOf(channel)
+            },
+            checks: rows.map(check => ({
+                id: check.id,
+                trigger: check.trigger,
+                status: check.status,
+                durationMs: check.durationMs,
+                postsFound: check.postsFound,
+                postsFiltered: check.postsFiltered,
+                analyzed: check.analyzed,
+                relevant: check.relevant,
+                error: check.error,
+                nextCheckAt: check.nextCheckAt,
+                createdAt: check.createdAt
+            })),
+            pagination: { page, limit, total: count, totalPages: Math.ceil(count / limit) }
+        });
+    } catch (error: any) {
+        console.error('Error getting channel checks:', error);
+        return res.status(500).json({ message: 'Error getting channel checks', error: error.message });
+    }
+};
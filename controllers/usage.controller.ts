@@ -0,0 +1,40 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { getUserUsage, getGlobalUsage } from '../services/llm-usage.service';
+
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 366;
+
+const parseDays = (value: unknown): number =>
+    Math.min(Math.max(parseInt(value as string) || DEFAULT_USAGE_DAYS, 1), MAX_USAGE_DAYS);
+
+/**
+ * GET /api/usage?days=30
+ * Расход LLM пользователя: итоги, по задачам, по моделям, по дням и состояние месячной квоты.
+ */
+export const getUsage = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const usage = await getUserUsage(userId, parseDays(req.query.days));
+        return res.status(200).json(usage);
+    } catch (error: any) {
+        console.error('[Usage] Error:', error);
+        return res.status(500).json({ message: 'Не удалось получить расход', error: error.message });
+    }
+};
+
+/**
+ * GET /api/usage/admin?days=30 — общий расход (ADMIN_EMAILS): итоги, пользователи/гости, топ пользователей.
+ */
+export const getAdminUsage = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const usage = await getGlobalUsage(parseDays(req.query.days));
+        return res.status(200).json(usage);
+    } catch (error: any) {
+        console.error('[Usage] Admin error:', error);
+        return res.status(500).json({ message: 'Не удалось получить расход', error: error.message });
+    }
+};
@@ -1,13 +1,14 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import User from '../models/User';
 import dotenv from 'dotenv';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import UserInterest from '../models/UserInterest';
-import UserService from '../services/user.service';
+import UserService, { LOGIN_LOCKED } from '../services/user.service';
 import { analyzeCommentSentiment } from '../services/semantic.service';
 import { CreateUserDTO, LoginUserDTO } from '../interfaces/user.interface';
+import { sendRateLimited, getRequestIp } from '../middleware/rate-limit.middleware';
+import { createSession, rotateRefreshToken, revokeSessionByRefreshToken, revokeSession, revokeAllSessions, listSessions, SessionMeta, SESSION_INVALID } from '../services/session.service';
 
 dotenv.config();
 
@@ -17,6 +18,11 @@ if (!JWT_SECRET) {
     throw new Error('JWT_SECRET is not defined in the environment variables');
 }
 
+const getSessionMeta = (req: Request): SessionMeta => ({
+    userAgent: req.header('User-Agent') || null,
+    ip: getRequestIp(req),
+});
+
 class UserController {
     async register(req: Request, res: Response): Promise<void> {
         try {
@@ -37,8 +43,8 @@ class UserController {
             
             const newUser = await UserService.createUser(userData);
             
-            // Генерируем токен для нового пользователя
-            const token = jwt.sign({ userId: newUser.id }, JWT_SECRET, { expiresIn: '7d' });
+            // Сразу открываем сессию для нового пользователя
+            const tokens = await createSession(newUser.id, getSessionMeta(req));
             
             res.status(201).json({ 
                 user: {
@@ -46,7 +52,7 @@ class UserController {
                     name: newUser.name,
                     email: newUser.email
                 },
-                token 
+                ...tokens
             });
         } catch (error: any) {
             console.error('Registration error:', error);
@@ -70,18 +76,121 @@ class UserController {
     async login(req: Request, res: Response): Promise<Response | void> {
         try {
             const credentials: LoginUserDTO = req.body;
-            const token = await UserService.loginUser(credentials);
+            const tokens = await UserService.loginUser(credentials, getSessionMeta(req));
 
-            if (!token) {
+            if (!tokens) {
                 return res.status(401).json({ message: 'Invalid email or password' });
             }
 
-            return res.status(200).json({ token });
-        } catch (error) {
+            return res.status(200).json(tokens);
+        } catch (error: any) {
+            if (error.message === LOGIN_LOCKED) {
+                return sendRateLimited(res, error.retryAfterMs, 'Слишком много неудачных попыток входа. Попробуйте позже.');
+            }
             return res.status(500).json({ message: 'Server error', error });
         }
     }
 
+    /**
+     * POST /api/auth/refresh { refreshToken } — новая пара токенов, старый refresh-токен больше не действует
+     */
+    async refresh(req: Request, res: Response): Promise<Response | void> {
+        const { refreshToken } = req.body || {};
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ message: 'refreshToken обязателен' });
+        }
+        try {
+            const tokens = await rotateRefreshToken(refreshToken, getSessionMeta(req));
+            return res.status(200).json(tokens);
+        } catch (error: any) {
+            if (error.message === SESSION_INVALID) {
+                return res.status(401).json({ code: SESSION_INVALID, message: 'Сессия истекла или отозвана. Войдите снова.' });
+            }
+            console.error('❌ Token refresh failed:', error.message);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    /**
+     * POST /api/auth/logout { refreshToken? } — завершает сессию по refresh-токену или по текущему access-токену
+     */
+    async logout(req: AuthenticatedRequest, res: Response): Promise<Response | void> {
+        const { refreshToken } = req.body || {};
+        try {
+            let revoked = false;
+            if (typeof refreshToken === 'string' && refreshToken) {
+                revoked = await revokeSessionByRefreshToken(refreshToken);
+            } else if (req.user?.sessionId) {
+                revoked = await revokeSession(req.user.userId, req.user.sessionId);
+            } else {
+                return res.status(400).json({ message: 'Передайте refreshToken или access-токен сессии' });
+            }
+            return res.status(200).json({ success: true, revoked });
+        } catch (error: any) {
+            console.error('❌ Logout failed:', error.message);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    /**
+     * GET /api/auth/sessions — активные сессии пользователя
+     */
+    async getSessions(req: AuthenticatedRequest, res: Response): Promise<Response | void> {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        try {
+            const sessions = await listSessions(userId, req.user?.sessionId);
+            return res.status(200).json({ sessions });
+        } catch (error: any) {
+            console.error('❌ Error listing sessions:', error.message);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    /**
+     * DELETE /api/auth/sessions?keepCurrent=true — завершает все сессии (или все, кроме текущей)
+     */
+    async revokeSessions(req: AuthenticatedRequest, res: Response): Promise<Response | void> {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        try {
+            const keepCurrent = req.query.keepCurrent === 'true' && req.user?.sessionId;
+            const revoked = await revokeAllSessions(userId, keepCurrent ? req.user?.sessionId : undefined);
+            return res.status(200).json({ success: true, revoked });
+        } catch (error: any) {
+            console.error('❌ Error revoking sessions:', error.message);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    /**
+     * DELETE /api/auth/sessions/:sessionId — завершает одну сессию
+     */
+    async revokeSessionById(req: AuthenticatedRequest, res: Response): Promise<Response | void> {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const sessionId = parseInt(String(req.params.sessionId), 10);
+        if (isNaN(sessionId) || sessionId <= 0) {
+            return res.status(400).json({ message: 'Некорректный sessionId' });
+        }
+        try {
+            const revoked = await revokeSession(userId, sessionId);
+            if (!revoked) {
+                return res.status(404).json({ message: 'Session not found' });
+            }
+            return res.status(200).json({ success: true });
+        } catch (error: any) {
+            console.error('❌ Error revoking session:', error.message);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
     async getProfile(req: AuthenticatedRequest, res: Response): Promise<Response | void> {
         try {
             const userId = req.user?.userId;
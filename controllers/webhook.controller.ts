@@ -0,0 +1,245 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import WebhookDelivery, { WebhookDeliveryStatus } from '../models/WebhookDelivery';
+import {
+    createWebhook,
+    listWebhooks,
+    updateWebhook,
+    deleteWebhook,
+    rotateWebhookSecret,
+    listWebhookDeliveries,
+    redeliverWebhookDelivery,
+    sendTestWebhook,
+    WEBHOOK_EVENTS,
+    WEBHOOK_NOT_FOUND,
+    WEBHOOK_INVALID_URL,
+    WEBHOOK_INVALID_EVENTS,
+    WEBHOOK_LIMIT_REACHED,
+} from '../services/webhook.service';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'success', 'failed'];
+
+const parseId = (value: unknown): number | null => {
+    const id = parseInt(String(value), 10);
+    return isNaN(id) || id <= 0 ? null : id;
+};
+
+const toDeliveryResponse = (delivery: WebhookDelivery) => ({
+    id: delivery.id,
+    event: delivery.event,
+    eventId: delivery.eventId,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt,
+    lastAttemptAt: delivery.lastAttemptAt,
+    responseStatus: delivery.responseStatus,
+    responseBody: delivery.responseBody,
+    error: delivery.error,
+    durationMs: delivery.durationMs,
+    payload: delivery.payload,
+    createdAt: delivery.createdAt,
+});
+
+/**
+ * Ошибки webhook.service → HTTP. null — неизвестная ошибка (500 в вызывающем коде).
+ */
+function sendWebhookError(res: Response, error: any): Response | null {
+    switch (error.message) {
+        case WEBHOOK_NOT_FOUND:
+            return res.status(404).json({ message: 'Вебхук не найден' });
+        case WEBHOOK_INVALID_URL:
+            return res.status(400).json({ message: 'Некорректный URL: нужен http(s)-адрес, доступный из интернета' });
+        case WEBHOOK_INVALID_EVENTS:
+            return res.status(400).json({ message: `events — непустой массив из: ${WEBHOOK_EVENTS.join(', ')}` });
+        case WEBHOOK_LIMIT_REACHED:
+            return res.status(409).json({ message: 'Достигнут лимит вебхуков. Удалите неиспользуемые.' });
+        default:
+            return null;
+    }
+}
+
+/**
+ * GET /api/webhooks — вебхуки пользователя (без секретов) и доступные события.
+ */
+export const getWebhooks = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const webhooks = await listWebhooks(userId);
+        return res.status(200).json({ webhooks, availableEvents: WEBHOOK_EVENTS });
+    } catch (error: any) {
+        console.error('[Webhooks] Error:', error);
+        return res.status(500).json({ message: 'Не удалось получить вебхуки', error: error.message });
+    }
+};
+
+/**
+ * POST /api/webhooks
+ * Body: { url: string, events: string[], description?: string }
+ * Секрет подписи возвращается один раз (повторно — только через rotate-secret).
+ */
+export const postWebhook = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const { webhook, secret } = await createWebhook(userId, req.body || {});
+        return res.status(201).json({
+            webhook,
+            secret,
+            message: 'Сохраните секрет: им подписывается каждая доставка (X-Curator-Signature).',
+        });
+    } catch (error: any) {
+        const handled = sendWebhookError(res, error);
+        if (handled) return handled;
+        console.error('[Webhooks] Create error:', error);
+        return res.status(500).json({ message: 'Не удалось создать вебхук', error: error.message });
+    }
+};
+
+/**
+ * PATCH /api/webhooks/:id
+ * Body: { url?, events?, description?, isActive? }
+ */
+export const patchWebhook = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const webhookId = parseId(req.params.id);
+        if (!webhookId) {
+            return res.status(400).json({ message: 'Некорректный id вебхука' });
+        }
+        const webhook = await updateWebhook(userId, webhookId, req.body || {});
+        return res.status(200).json({ webhook });
+    } catch (error: any) {
+        const handled = sendWebhookError(res, error);
+        if (handled) return handled;
+        console.error('[Webhooks] Update error:', error);
+        return res.status(500).json({ message: 'Не удалось обновить вебхук', error: error.message });
+    }
+};
+
+/**
+ * DELETE /api/webhooks/:id — удаление вебхука вместе с журналом доставок.
+ */
+export const removeWebhook = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const webhookId = parseId(req.params.id);
+        if (!webhookId) {
+            return res.status(400).json({ message: 'Некорректный id вебхука' });
+        }
+        await deleteWebhook(userId, webhookId);
+        return res.status(200).json({ success: true });
+    } catch (error: any) {
+        const handled = sendWebhookError(res, error);
+        if (handled) return handled;
+        console.error('[Webhooks] Delete error:', error);
+        return res.status(500).json({ message: 'Не удалось удалить вебхук', error: error.message });
+    }
+};
+
+/**
+ * POST /api/webhooks/:id/rotate-secret — новый секрет подписи (старый сразу перестаёт использоваться).
+ */
+export const postRotateWebhookSecret = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const webhookId = parseId(req.params.id);
+        if (!webhookId) {
+            return res.status(400).json({ message: 'Некорректный id вебхука' });
+        }
+        const secret = await rotateWebhookSecret(userId, webhookId);
+        return res.status(200).json({ secret });
+    } catch (error: any) {
+        const handled = sendWebhookError(res, error);
+        if (handled) return handled;
+        console.error('[Webhooks] Rotate secret error:', error);
+        return res.status(500).json({ message: 'Не удалось обновить секрет', error: error.message });
+    }
+};
+
+/**
+ * POST /api/webhooks/:id/test — тестовая доставка (webhook.test), результат сразу в ответе.
+ */
+export const postTestWebhook = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const webhookId = parseId(req.params.id);
+        if (!webhookId) {
+            return res.status(400).json({ message: 'Некорректный id вебхука' });
+        }
+        const delivery = await sendTestWebhook(userId, webhookId);
+        return res.status(200).json({ delivery: toDeliveryResponse(delivery) });
+    } catch (error: any) {
+        const handled = sendWebhookError(res, error);
+        if (handled) return handled;
+        console.error('[Webhooks] Test error:', error);
+        return res.status(500).json({ message: 'Не удалось отправить тестовое событие', error: error.message });
+    }
+};
+
+/**
+ * GET /api/webhooks/:id/deliveries?status=failed&limit=50 — журнал доставок (новые первыми).
+ */
+export const getWebhookDeliveries = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const webhookId = parseId(req.params.id);
+        if (!webhookId) {
+            return res.status(400).json({ message: 'Некорректный id вебхука' });
+        }
+        const status = DELIVERY_STATUSES.find((s) => s === req.query.status);
+        const deliveries = await listWebhookDeliveries(userId, webhookId, {
+            status,
+            limit: parseInt(String(req.query.limit), 10) || undefined,
+        });
+        return res.status(200).json({ deliveries: deliveries.map(toDeliveryResponse) });
+    } catch (error: any) {
+        const handled = sendWebhookError(res, error);
+        if (handled) return handled;
+        console.error('[Webhooks] Deliveries error:', error);
+        return res.status(500).json({ message: 'Не удалось получить журнал доставок', error: error.message });
+    }
+};
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver — отправить событие из журнала ещё раз.
+ */
+export const postRedeliverWebhook = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+        const userId = req.user?.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+        const webhookId = parseId(req.params.id);
+        const deliveryId = parseId(req.params.deliveryId);
+        if (!webhookId || !deliveryId) {
+            return res.status(400).json({ message: 'Некорректный id вебхука или доставки' });
+        }
+        const delivery = await redeliverWebhookDelivery(userId, webhookId, deliveryId);
+        return res.status(200).json({ delivery: toDeliveryResponse(delivery) });
+    } catch (error: any) {
+        const handled = sendWebhookError(res, error);
+        if (handled) return handled;
+        console.error('[Webhooks] Redeliver error:', error);
+        return res.status(500).json({ message: 'Не удалось повторить доставку', error: error.message });
+    }
+};
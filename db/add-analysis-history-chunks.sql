@@ -0,0 +1,17 @@
+-- Чанки длинных статей и транскриптов с эмбеддингами (поиск похожих по фрагментам, цитаты в RAG)
+-- Требует расширение vector (CREATE EXTENSION vector;)
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS analysis_history_chunks (
+    id SERIAL PRIMARY KEY,
+    analysis_history_id INT NOT NULL REFERENCES analysis_history(id) ON DELETE CASCADE,
+    chunk_index INT NOT NULL,
+    content TEXT NOT NULL,
+    embedding vector(768) NOT NULL,
+    embedding_model VARCHAR(100) NOT NULL,
+    embedding_dim INT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_history_chunks_history ON analysis_history_chunks(analysis_history_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_history_chunks_model ON analysis_history_chunks(embedding_model);
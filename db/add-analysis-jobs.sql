@@ -0,0 +1,21 @@
+-- Задачи анализа с владельцем: список GET /api/analysis/jobs переживает закрытие вкладки и переподключение бота
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id VARCHAR(64) PRIMARY KEY, -- jobId
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL,
+    request JSONB,
+    items_total INT NOT NULL DEFAULT 0,
+    items_completed INT NOT NULL DEFAULT 0,
+    items_failed INT NOT NULL DEFAULT 0,
+    history_ids JSONB NOT NULL DEFAULT '[]',
+    retry_of VARCHAR(64),
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_created ON analysis_jobs(user_id, created_at);
@@ -0,0 +1,17 @@
+-- Персональные API-ключи (GET/POST/DELETE /api/api-keys): хранится только SHA-256 ключа
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL, -- начало ключа для отображения в списке
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    scopes JSONB NOT NULL DEFAULT '[]', -- history:read | analyze | channels:manage
+    last_used_at TIMESTAMP WITH TIME ZONE NULL,
+    last_used_ip VARCHAR(64) NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id ON api_keys(user_id);
@@ -0,0 +1,17 @@
+-- Кеш извлечённого контента по каноническому URL (повторный анализ без Puppeteer/ScrapingBee)
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS content_cache (
+    id SERIAL PRIMARY KEY,
+    url_hash VARCHAR(64) NOT NULL UNIQUE, -- sha256 канонического URL
+    canonical_url TEXT NOT NULL,
+    content TEXT NOT NULL,
+    source_type VARCHAR(50) NOT NULL,
+    extractor VARCHAR(100),
+    content_hash VARCHAR(64) NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_cache_fetched ON content_cache(fetched_at);
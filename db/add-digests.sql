@@ -0,0 +1,36 @@
+-- Персональные дайджесты: настройки расписания и доставки, материалы, попавшие в дайджесты
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    frequency VARCHAR(16) NOT NULL DEFAULT 'daily', -- daily | weekly
+    send_hour INT NOT NULL DEFAULT 9, -- 0–23, локальное время пользователя
+    weekday INT NOT NULL DEFAULT 1, -- 0 — воскресенье … 6 — суббота (для weekly)
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    channels JSONB NOT NULL DEFAULT '["in_app"]', -- telegram | email | in_app
+    top_n INT NOT NULL DEFAULT 10,
+    min_score INT NOT NULL DEFAULT 60,
+    next_send_at TIMESTAMP WITH TIME ZONE NULL,
+    last_sent_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS digest_subscriptions_enabled_next_send_at ON digest_subscriptions(enabled, next_send_at);
+
+CREATE TABLE IF NOT EXISTS digest_items (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    analysis_history_id INT NOT NULL REFERENCES analysis_history(id) ON DELETE CASCADE,
+    score INT NOT NULL,
+    semantic_match INT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'sent', -- sent | read_later | dismissed
+    acted_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS digest_items_user_id_analysis_history_id ON digest_items(user_id, analysis_history_id);
+CREATE INDEX IF NOT EXISTS digest_items_user_id_status ON digest_items(user_id, status);
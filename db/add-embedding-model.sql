@@ -0,0 +1,12 @@
+-- Модель и размерность эмбеддинга рядом с вектором (EMBEDDING_PROVIDER=gemini | local)
+-- Поиск похожих статей сравнивает только векторы одной модели.
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS embedding_dim INT;
+
+-- Все существующие векторы получены через Gemini (gemini-embedding-001, обрезка до 768)
+UPDATE analysis_history SET embedding_model = 'gemini-embedding-001', embedding_dim = 768
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_history_embedding_model ON analysis_history(embedding_model);
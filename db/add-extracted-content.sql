@@ -0,0 +1,5 @@
+-- Добавление колонки extracted_content в analysis_history
+-- Хранит извлечённый текст статьи / транскрипт видео: POST /api/analysis/ask-question берёт контент отсюда, а не из запроса клиента
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS extracted_content TEXT;
@@ -0,0 +1,13 @@
+-- Полнотекстовый поиск по истории анализов (GET /api/analysis/history/search)
+-- Требует, чтобы колонки original_text и extracted_themes уже существовали
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('russian', COALESCE(summary, '')), 'A') ||
+        setweight(to_tsvector('russian', COALESCE(extracted_themes, '')), 'A') ||
+        setweight(to_tsvector('russian', COALESCE(reasoning, '')), 'B') ||
+        setweight(to_tsvector('russian', COALESCE(original_text, '')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_history_search_vector ON analysis_history USING GIN (search_vector);
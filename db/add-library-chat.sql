@@ -0,0 +1,13 @@
+-- Беседа с личной библиотекой (POST /api/library/chat, команда бота /ask): один тред на пользователя
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS library_chat_messages (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(16) NOT NULL, -- user | assistant
+    content TEXT NOT NULL,
+    citations JSONB NOT NULL DEFAULT '[]', -- [{ id: analysis_history.id, url }]
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_library_chat_messages_user_created ON library_chat_messages(user_id, created_at);
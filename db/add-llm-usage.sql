@@ -0,0 +1,40 @@
+-- Учёт расхода LLM (токены, стоимость) по пользователям и гостям, квоты и GET /api/usage
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS llm_usage_events (
+    id SERIAL PRIMARY KEY,
+    user_id INT NULL,
+    subject VARCHAR(128) NOT NULL, -- user:<id> | ip:<адрес> | tg:<telegram id>
+    task VARCHAR(32) NOT NULL, -- analysis | themes | relevance | recommendation | qa | sentiment | library
+    provider VARCHAR(32) NOT NULL,
+    model VARCHAR(128) NOT NULL,
+    prompt_tokens INT NOT NULL DEFAULT 0,
+    completion_tokens INT NOT NULL DEFAULT 0,
+    total_tokens INT NOT NULL DEFAULT 0,
+    cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_events_user_id_created_at ON llm_usage_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS llm_usage_events_created_at ON llm_usage_events(created_at);
+
+CREATE TABLE IF NOT EXISTS llm_usage_daily (
+    id SERIAL PRIMARY KEY,
+    day DATE NOT NULL,
+    user_id INT NULL,
+    subject VARCHAR(128) NOT NULL,
+    task VARCHAR(32) NOT NULL,
+    provider VARCHAR(32) NOT NULL,
+    model VARCHAR(128) NOT NULL,
+    calls INT NOT NULL DEFAULT 0,
+    prompt_tokens BIGINT NOT NULL DEFAULT 0,
+    completion_tokens BIGINT NOT NULL DEFAULT 0,
+    total_tokens BIGINT NOT NULL DEFAULT 0,
+    cost_usd DECIMAL(14, 6) NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS llm_usage_daily_key ON llm_usage_daily(day, subject, task, provider, model);
+CREATE INDEX IF NOT EXISTS llm_usage_daily_user_id_day ON llm_usage_daily(user_id, day);
+
+-- Индивидуальная месячная квота токенов (NULL — LLM_USER_MONTHLY_TOKEN_QUOTA из env, 0 — без лимита)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS llm_monthly_token_quota INT NULL;
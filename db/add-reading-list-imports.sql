@@ -0,0 +1,45 @@
+-- Импорт списков чтения (POST /api/imports): пакет ссылок анализируется воркером по одной
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS reading_list_imports (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    format VARCHAR(16) NOT NULL, -- pocket | instapaper | csv | opml | bookmarks | urls
+    filename VARCHAR(255) NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'running', -- running | paused | completed | cancelled
+    interests TEXT NOT NULL,
+    analysis_mode VARCHAR(8) NOT NULL,
+    total_items INT NOT NULL,
+    duplicate_items INT NOT NULL DEFAULT 0,
+    processed_items INT NOT NULL DEFAULT 0,
+    failed_items INT NOT NULL DEFAULT 0,
+    seeded_tags JSONB NOT NULL DEFAULT '[]',
+    next_item_at TIMESTAMP WITH TIME ZONE NULL,
+    wait_reason VARCHAR(32) NULL, -- quota — ждём обновления лимита LLM
+    started_at TIMESTAMP WITH TIME ZONE NULL,
+    finished_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS reading_list_imports_user_id ON reading_list_imports(user_id);
+CREATE INDEX IF NOT EXISTS reading_list_imports_status_next_item_at ON reading_list_imports(status, next_item_at);
+
+CREATE TABLE IF NOT EXISTS reading_list_import_items (
+    id SERIAL PRIMARY KEY,
+    import_id INT NOT NULL REFERENCES reading_list_imports(id) ON DELETE CASCADE,
+    user_id INT NOT NULL,
+    url VARCHAR(2048) NOT NULL,
+    title VARCHAR(500) NULL,
+    tags JSONB NOT NULL DEFAULT '[]',
+    added_at TIMESTAMP WITH TIME ZONE NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending', -- pending | processing | done | failed | skipped | cancelled
+    attempts INT NOT NULL DEFAULT 0,
+    analysis_history_id INT NULL,
+    error TEXT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS reading_list_import_items_import_id_status ON reading_list_import_items(import_id, status);
@@ -0,0 +1,36 @@
+-- Источники подписки (RSS/Atom, YouTube, Telegram, Twitter/X) и их проанализированные элементы
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS sources (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(16) NOT NULL, -- rss | youtube | telegram | twitter
+    identifier VARCHAR(1024) NOT NULL, -- URL ленты, id YouTube-канала или username
+    title VARCHAR(255) NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    check_frequency VARCHAR(16) NOT NULL DEFAULT 'daily', -- hourly | daily | weekly
+    cursor VARCHAR(1024) NULL, -- GUID последнего элемента / id сообщения / id твита
+    last_checked_at TIMESTAMP WITH TIME ZONE NULL,
+    last_error TEXT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sources_user_id_type_identifier ON sources(user_id, type, identifier);
+CREATE INDEX IF NOT EXISTS sources_is_active_last_checked_at ON sources(is_active, last_checked_at);
+
+CREATE TABLE IF NOT EXISTS source_items (
+    id SERIAL PRIMARY KEY,
+    source_id INT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+    external_id VARCHAR(1024) NOT NULL,
+    url VARCHAR(2048) NOT NULL,
+    title VARCHAR(500) NULL,
+    published_at TIMESTAMP WITH TIME ZONE NULL,
+    status VARCHAR(16) NOT NULL, -- analyzed | failed
+    analysis_history_id INT NULL,
+    error TEXT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS source_items_source_id_external_id ON source_items(source_id, external_id);
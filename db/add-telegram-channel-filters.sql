@@ -0,0 +1,10 @@
+-- Настройки мониторинга Telegram-канала: порог релевантности, фильтры, лимит постов за проверку, тихие часы
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS min_score INT NULL; -- NULL — порог по умолчанию (70)
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS max_posts_per_check INT NULL; -- NULL — 20
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS filters JSONB NOT NULL DEFAULT '{}'; -- includeKeywords, excludeKeywords, includePatterns, excludePatterns, ignoreReposts, ignoreAds
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS quiet_hours JSONB NULL; -- { start: 'HH:MM', end: 'HH:MM', timezone }
+
+-- Репосты определяются при скачивании канала
+ALTER TABLE telegram_shared_posts ADD COLUMN IF NOT EXISTS is_repost BOOLEAN NOT NULL DEFAULT FALSE;
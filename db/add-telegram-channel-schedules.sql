@@ -0,0 +1,26 @@
+-- Расписание проверки Telegram-каналов, задержка после ошибок и журнал проверок
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS schedule JSONB NULL; -- { type: hourly | times_per_day | cron | adaptive, ... }; NULL — по check_frequency
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMP WITH TIME ZONE NULL; -- NULL — в ближайшем цикле
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS consecutive_failures INT NOT NULL DEFAULT 0;
+ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS last_error TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS telegram_channels_is_active_next_check_at ON telegram_channels(is_active, next_check_at);
+
+CREATE TABLE IF NOT EXISTS telegram_channel_checks (
+    id SERIAL PRIMARY KEY,
+    channel_id INT NOT NULL REFERENCES telegram_channels(id) ON DELETE CASCADE,
+    trigger VARCHAR(16) NOT NULL, -- scheduled | manual
+    status VARCHAR(16) NOT NULL, -- success | failed
+    duration_ms INT NOT NULL,
+    posts_found INT NOT NULL DEFAULT 0,
+    posts_filtered INT NOT NULL DEFAULT 0,
+    analyzed INT NOT NULL DEFAULT 0,
+    relevant INT NOT NULL DEFAULT 0,
+    error TEXT NULL,
+    next_check_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS telegram_channel_checks_channel_id_created_at ON telegram_channel_checks(channel_id, created_at);
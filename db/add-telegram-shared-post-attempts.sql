@@ -0,0 +1,4 @@
+-- Повторная подготовка общих постов после временных сбоев (таймаут, 5xx): счётчик попыток
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+ALTER TABLE telegram_shared_posts ADD COLUMN IF NOT EXISTS prepare_attempts INT NOT NULL DEFAULT 0;
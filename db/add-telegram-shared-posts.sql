@@ -0,0 +1,26 @@
+-- Общие посты Telegram-каналов: канал скачивается один раз за цикл для всех подписчиков,
+-- извлечение, темы, саммари и эмбеддинг считаются один раз на пост
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS telegram_shared_posts (
+    id SERIAL PRIMARY KEY,
+    channel_username VARCHAR(255) NOT NULL, -- без @, в нижнем регистре
+    message_id BIGINT NOT NULL,
+    post_url TEXT NULL,
+    post_text TEXT NULL,
+    posted_at TIMESTAMP WITH TIME ZONE NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending', -- pending | prepared | failed
+    content TEXT NULL, -- извлечённый контент
+    source_type VARCHAR(32) NULL,
+    themes JSONB NOT NULL DEFAULT '[]',
+    summary TEXT NULL, -- из первого анализа поста
+    embedding JSONB NULL, -- { vector, model, dimension } эмбеддинга саммари
+    chunks_history_id INT NULL, -- запись analysis_history, с которой копируются эмбеддинги чанков
+    error TEXT NULL,
+    prepared_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS telegram_shared_posts_channel_username_message_id ON telegram_shared_posts(channel_username, message_id);
+CREATE INDEX IF NOT EXISTS telegram_shared_posts_created_at ON telegram_shared_posts(created_at);
@@ -0,0 +1,5 @@
+-- Отзыв access-токенов без сессии (выданных до появления user_sessions): сброс пароля и выход со всех устройств
+-- отмечают время, и такие токены, выданные раньше, больше не принимаются
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMP WITH TIME ZONE NULL;
@@ -0,0 +1,18 @@
+-- Сессии входа: ротируемые refresh-токены (POST /api/auth/refresh, /logout, GET/DELETE /api/auth/sessions)
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    refresh_token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 текущего refresh-токена
+    previous_token_hash VARCHAR(64) NULL, -- заменённый токен: повторное использование = утечка, сессия отзывается
+    user_agent VARCHAR(512) NULL,
+    ip VARCHAR(64) NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    revoked_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS user_sessions_previous_token_hash ON user_sessions(previous_token_hash);
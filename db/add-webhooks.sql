@@ -0,0 +1,40 @@
+-- Исходящие вебхуки (GET/POST/PATCH/DELETE /api/webhooks) и журнал доставок
+-- Выполнить в Neon SQL Editor: https://console.neon.tech
+
+CREATE TABLE IF NOT EXISTS webhooks (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    url VARCHAR(2048) NOT NULL,
+    description VARCHAR(255) NULL,
+    events JSONB NOT NULL DEFAULT '[]', -- analysis.completed | channel.relevant_posts | feedback.recorded
+    secret VARCHAR(128) NOT NULL, -- ключ HMAC-подписи (X-Curator-Signature)
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_delivery_at TIMESTAMP WITH TIME ZONE NULL,
+    last_delivery_status VARCHAR(16) NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS webhooks_user_id ON webhooks(user_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id SERIAL PRIMARY KEY,
+    webhook_id INT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    user_id INT NOT NULL,
+    event VARCHAR(64) NOT NULL,
+    event_id VARCHAR(64) NOT NULL, -- одинаков у всех попыток доставки
+    payload JSONB NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending', -- pending | retrying | success | failed
+    attempts INT NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NULL,
+    last_attempt_at TIMESTAMP WITH TIME ZONE NULL,
+    response_status INT NULL,
+    response_body TEXT NULL,
+    error TEXT NULL,
+    duration_ms INT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_id_created_at ON webhook_deliveries(webhook_id, created_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_status_next_attempt_at ON webhook_deliveries(status, next_attempt_at);
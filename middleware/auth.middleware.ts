@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import dotenv from 'dotenv';
+import User from '../models/User';
+import { verifyAccessToken, SESSION_INVALID } from '../services/session.service';
+import { isApiKey, verifyApiKey, ApiKeyScope } from '../services/api-key.service';
 
 dotenv.config();
 
@@ -9,50 +11,145 @@ const JWT_SECRET = process.env.JWT_SECRET as string;
 export interface AuthenticatedRequest extends Request {
     user?: {
         userId: number;
+        sessionId?: number; // нет у токенов, выданных до появления сессий
+        apiKeyId?: number; // запрос с персональным API-ключом
     };
 }
 
-export const authMiddleware = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const authHeader = req.header('Authorization');
-    const token = authHeader?.replace('Bearer ', '');
+/** Токен запроса: Authorization: Bearer <JWT или API-ключ> или X-API-Key: <ключ> */
+function getRequestToken(req: Request): string | undefined {
+    return req.header('Authorization')?.replace('Bearer ', '') || req.header('X-API-Key') || undefined;
+}
+
+/**
+ * Разрешает маршруту API-ключи с областью scope. Ставится перед authMiddleware/optionalAuthMiddleware;
+ * на маршрутах без него ключи не принимаются (управление ключами, сессиями и т.п. — только по JWT).
+ */
+export const apiKeyScope = (scope: ApiKeyScope) => (req: Request, res: Response, next: NextFunction) => {
+    res.locals.apiKeyScope = scope;
+    next();
+};
+
+/**
+ * Проверяет API-ключ для маршрута. Возвращает ошибку для ответа или null, если req.user установлен.
+ */
+async function authenticateApiKey(req: AuthenticatedRequest, res: Response, key: string): Promise<{ status: number; code: string; message: string } | null> {
+    const scope = res.locals.apiKeyScope as ApiKeyScope | undefined;
+    if (!scope) {
+        return { status: 403, code: 'API_KEY_NOT_ALLOWED', message: 'API keys are not accepted on this endpoint.' };
+    }
+    const apiKey = await verifyApiKey(key, req.ip || null);
+    if (!apiKey) {
+        return { status: 401, code: 'API_KEY_INVALID', message: 'Invalid or revoked API key.' };
+    }
+    if (!apiKey.scopes.includes(scope)) {
+        return { status: 403, code: 'API_KEY_SCOPE_MISSING', message: `API key lacks the "${scope}" scope.` };
+    }
+    req.user = { userId: apiKey.userId, apiKeyId: apiKey.id };
+    return null;
+}
+
+export const authMiddleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const token = getRequestToken(req);
 
     if (!token) {
         console.warn('⚠️ No token provided in Authorization header');
         return res.status(401).json({ message: 'Access denied. No token provided.' });
     }
 
+    if (isApiKey(token)) {
+        try {
+            const failure = await authenticateApiKey(req, res, token);
+            if (failure) return res.status(failure.status).json({ code: failure.code, message: failure.message });
+            return next();
+        } catch (error: any) {
+            console.error('❌ API key check failed:', error.message);
+            return res.status(500).json({ message: 'Server error.' });
+        }
+    }
+
     if (!JWT_SECRET) {
         console.error('❌ JWT_SECRET is not set in environment variables');
         return res.status(500).json({ message: 'Server configuration error.' });
     }
 
+    let decoded;
     try {
-        const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
-        req.user = decoded;
-        // Убираем избыточное логирование - проверка токена происходит при каждом запросе
-        // console.log(`✓ Token verified for user ${decoded.userId}`);
-        next();
+        decoded = await verifyAccessToken(token);
     } catch (error: any) {
-        // Истекшие токены - это нормальная ситуация, не логируем как ошибку
+        // Истекшие токены - это нормальная ситуация, не логируем как ошибку: клиент обновляет пару через POST /api/auth/refresh
         if (error.name === 'TokenExpiredError') {
-            // Логируем только на уровне info, не error
             if (process.env.LOG_LEVEL === 'debug') {
-                console.log('ℹ️ Token expired (user needs to login again)');
+                console.log('ℹ️ Token expired (client should refresh)');
             }
-            return res.status(400).json({ message: 'Token expired. Please login again.' });
+            return res.status(401).json({ code: 'TOKEN_EXPIRED', message: 'Token expired. Please refresh or login again.' });
+        }
+
+        if (error.message === SESSION_INVALID) {
+            return res.status(401).json({ code: SESSION_INVALID, message: 'Session has been revoked. Please login again.' });
+        }
+
+        if (error.name !== 'JsonWebTokenError' && error.name !== 'NotBeforeError') {
+            console.error('❌ Session check failed:', error.message);
+            return res.status(500).json({ message: 'Server error.' });
         }
-        
+
         // Для других ошибок логируем как обычно
         console.error('❌ Token verification failed:', error.message);
         if (process.env.LOG_LEVEL === 'debug') {
             console.error('Token (first 20 chars):', token.substring(0, 20) + '...');
         }
-        
-        let errorMessage = 'Invalid token.';
-        if (error.name === 'JsonWebTokenError') {
-            errorMessage = 'Invalid token format.';
+
+        return res.status(401).json({ code: 'TOKEN_INVALID', message: 'Invalid token.' });
+    }
+
+    req.user = { userId: decoded.userId, sessionId: decoded.sid };
+    next();
+};
+
+/**
+ * Как authMiddleware, но без токена (или с невалидным/истёкшим токеном, отозванной сессией, неподходящим API-ключом)
+ * пропускает запрос как гостевой.
+ */
+export const optionalAuthMiddleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const token = getRequestToken(req);
+    if (token && isApiKey(token)) {
+        try {
+            await authenticateApiKey(req, res, token);
+        } catch (_) {
+            // гость
+        }
+    } else if (token && JWT_SECRET) {
+        try {
+            const decoded = await verifyAccessToken(token);
+            req.user = { userId: decoded.userId, sessionId: decoded.sid };
+        } catch (_) {
+            // гость
         }
-        
-        res.status(400).json({ message: errorMessage });
+    }
+    next();
+};
+
+/**
+ * Только для администраторов (после authMiddleware): email пользователя в ADMIN_EMAILS (через запятую).
+ */
+export const adminMiddleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const adminEmails = (process.env.ADMIN_EMAILS || '')
+        .split(',')
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean);
+    const userId = req.user?.userId;
+    if (!userId || adminEmails.length === 0) {
+        return res.status(403).json({ message: 'Access denied. Admin only.' });
+    }
+    try {
+        const user = await User.findByPk(userId, { attributes: ['id', 'email'] });
+        if (!user || !adminEmails.includes(user.email.toLowerCase())) {
+            return res.status(403).json({ message: 'Access denied. Admin only.' });
+        }
+        next();
+    } catch (error: any) {
+        console.error('❌ Admin check failed:', error.message);
+        return res.status(500).json({ message: 'Server error.' });
     }
 };
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.middleware';
+import { LlmUsageSubject, runWithLlmUsageSubject, userUsageSubject, guestUsageSubject } from '../services/llm-usage.service';
+
+/**
+ * Бот ходит в API с сервера (все гости бота — один IP), поэтому представляется общим секретом
+ * и передаёт Telegram ID пользователя (и привязанный аккаунт, если есть). null — запрос не от бота.
+ */
+export function getBotRequestIdentity(req: Request): { telegramId: string | null; linkedUserId: number | null } | null {
+    const secret = process.env.BOT_API_SECRET;
+    if (!secret || req.header('X-Bot-Secret') !== secret) return null;
+    const linkedUserId = Number(req.header('X-Linked-User-Id'));
+    const telegramId = (req.header('X-Telegram-User-Id') || '').trim();
+    return {
+        telegramId: /^\d+$/.test(telegramId) ? telegramId : null,
+        linkedUserId: Number.isInteger(linkedUserId) && linkedUserId > 0 ? linkedUserId : null,
+    };
+}
+
+function resolveBotUsageSubject(req: Request): LlmUsageSubject | null {
+    const bot = getBotRequestIdentity(req);
+    if (bot?.linkedUserId) return userUsageSubject(bot.linkedUserId);
+    return bot?.telegramId ? guestUsageSubject(`tg:${bot.telegramId}`) : null;
+}
+
+/**
+ * Кто платит за LLM-вызовы запроса: авторизованный пользователь, пользователь бота или гость по IP.
+ */
+export function resolveRequestUsageSubject(req: Request): LlmUsageSubject {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+    if (userId) return userUsageSubject(userId);
+    return resolveBotUsageSubject(req) ?? guestUsageSubject(`ip:${req.ip || req.socket?.remoteAddress || 'unknown'}`);
+}
+
+/**
+ * Привязывает LLM-вызовы запроса к субъекту (llm-usage.service). Субъект вычисляется лениво —
+ * req.user появляется позже, в authMiddleware маршрута.
+ */
+export const llmUsageContextMiddleware = (req: Request, res: Response, next: NextFunction) => {
+    runWithLlmUsageSubject(() => resolveRequestUsageSubject(req), () => next());
+};
@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.middleware';
+import { getBotRequestIdentity } from './llm-usage.middleware';
+import { consumeRateLimit, getRateLimitPolicy, isRateLimitEnabled, RateLimitPolicy, RATE_LIMITED } from '../services/rate-limit.service';
+
+/** По кому считается лимит: пользователь (JWT или привязанный аккаунт бота), Telegram ID из запроса бота, IP */
+export type RateLimitIdentity = 'user' | 'telegram' | 'ip';
+
+export interface RateLimitOptions {
+    name: string; // часть ключа и имя переменной окружения RATE_LIMIT_<NAME> ("10/600")
+    limit: number;
+    windowSec: number;
+    identities?: RateLimitIdentity[]; // первая найденная в запросе; по умолчанию ['ip']
+    message?: string;
+}
+
+export function getRequestIp(req: Request): string {
+    return req.ip || req.socket?.remoteAddress || 'unknown';
+}
+
+function resolveIdentity(req: Request, identities: RateLimitIdentity[]): string {
+    for (const identity of identities) {
+        if (identity === 'user') {
+            const userId = (req as AuthenticatedRequest).user?.userId ?? getBotRequestIdentity(req)?.linkedUserId;
+            if (userId) return `user:${userId}`;
+        } else if (identity === 'telegram') {
+            const telegramId = getBotRequestIdentity(req)?.telegramId;
+            if (telegramId) return `tg:${telegramId}`;
+        } else if (identity === 'ip') {
+            return `ip:${getRequestIp(req)}`;
+        }
+    }
+    return `ip:${getRequestIp(req)}`;
+}
+
+/**
+ * Отвечает 429 с Retry-After (секунды). Используется и для блокировки входа в UserController.
+ */
+export function sendRateLimited(res: Response, retryAfterMs: number, message?: string): Response {
+    const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    res.setHeader('Retry-After', String(retryAfter));
+    return res.status(429).json({
+        code: RATE_LIMITED,
+        message: message || `Слишком много запросов. Повторите через ${retryAfter} с.`,
+        retryAfter,
+    });
+}
+
+/**
+ * Лимит запросов к маршруту по скользящему окну (rate-limit.service).
+ * Ставится после authMiddleware/optionalAuthMiddleware, если лимит считается по пользователю.
+ * Ошибка хранилища не блокирует запрос.
+ */
+export function rateLimit(options: RateLimitOptions) {
+    const envName = `RATE_LIMIT_${options.name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+    const identities = options.identities?.length ? options.identities : ['ip' as RateLimitIdentity];
+    let policy: RateLimitPolicy | null = null;
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (!isRateLimitEnabled()) return next();
+        // Политика читается при первом запросе — к этому времени dotenv уже загружен
+        policy = policy || getRateLimitPolicy(envName, { limit: options.limit, windowMs: options.windowSec * 1000 });
+
+        const identity = resolveIdentity(req, identities);
+        try {
+            const result = await consumeRateLimit(`${options.name}:${identity}`, policy);
+            res.setHeader('X-RateLimit-Limit', String(result.limit));
+            res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+            if (!result.allowed) {
+                console.warn(`⚠️ [Rate Limit] ${options.name}: ${identity} exceeded ${result.limit} req / ${policy.windowMs / 1000}s`);
+                return sendRateLimited(res, result.retryAfterMs, options.message);
+            }
+        } catch (error: any) {
+            console.error(`❌ [Rate Limit] ${options.name}: ${error.message}`);
+        }
+        next();
+    };
+}
@@ -14,6 +14,7 @@ interface AnalysisHistoryAttributes {
     summary: string;
     reasoning: string;
     originalText: string | null; // Оригинальный текст для прямого ввода
+    extractedContent: string | null; // Извлечённый текст / транскрипт URL — для вопросов по контенту (ask-question)
     extractedThemes: string | null; // JSON-массив тем/смыслов из контента
     // embedding — управляется вручную, НЕ включён в модель чтобы Sequelize sync не перезаписывал vector на TEXT
 }
@@ -32,6 +33,7 @@ class AnalysisHistory extends Model<AnalysisHistoryAttributes, AnalysisHistoryCr
     public summary!: string;
     public reasoning!: string;
     public originalText!: string | null;
+    public extractedContent!: string | null;
     public extractedThemes!: string | null;
 
     public readonly createdAt!: Date;
@@ -91,6 +93,11 @@ AnalysisHistory.init(
             allowNull: true,
             field: 'original_text',
         },
+        extractedContent: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+            field: 'extracted_content',
+        },
         extractedThemes: {
             type: DataTypes.TEXT,
             allowNull: true,
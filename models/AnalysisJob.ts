@@ -0,0 +1,111 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+interface AnalysisJobAttributes {
+    id: string; // jobId (UUID), под которым задача живёт в Redis / памяти
+    userId: number;
+    status: string;
+    request: object | null; // исходный ввод (urlInput, interests, analysisMode, forceRefresh)
+    itemsTotal: number;
+    itemsCompleted: number;
+    itemsFailed: number;
+    historyIds: number[]; // записи AnalysisHistory, созданные задачей
+    retryOf: string | null;
+    error: string | null;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+}
+
+interface AnalysisJobCreationAttributes extends Optional<AnalysisJobAttributes,
+    'request' | 'itemsTotal' | 'itemsCompleted' | 'itemsFailed' | 'historyIds' | 'retryOf' | 'error' | 'startedAt' | 'finishedAt'> {}
+
+class AnalysisJob extends Model<AnalysisJobAttributes, AnalysisJobCreationAttributes> implements AnalysisJobAttributes {
+    public id!: string;
+    public userId!: number;
+    public status!: string;
+    public request!: object | null;
+    public itemsTotal!: number;
+    public itemsCompleted!: number;
+    public itemsFailed!: number;
+    public historyIds!: number[];
+    public retryOf!: string | null;
+    public error!: string | null;
+    public startedAt!: Date | null;
+    public finishedAt!: Date | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+AnalysisJob.init({
+    id: {
+        type: DataTypes.STRING(64),
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+    },
+    request: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+    },
+    itemsTotal: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'items_total',
+    },
+    itemsCompleted: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'items_completed',
+    },
+    itemsFailed: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'items_failed',
+    },
+    historyIds: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        field: 'history_ids',
+    },
+    retryOf: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        field: 'retry_of',
+    },
+    error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+    startedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'started_at',
+    },
+    finishedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'finished_at',
+    },
+}, {
+    tableName: 'analysis_jobs',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['user_id', 'created_at'] }],
+});
+
+export default AnalysisJob;
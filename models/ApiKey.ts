@@ -0,0 +1,95 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+/**
+ * Персональный API-ключ для скриптов и расширений. Сам ключ не хранится — только SHA-256 и префикс для отображения.
+ */
+interface ApiKeyAttributes {
+    id: number;
+    userId: number;
+    name: string;
+    keyPrefix: string; // начало ключа, чтобы пользователь узнал его в списке
+    keyHash: string;
+    scopes: string[]; // см. API_KEY_SCOPES в api-key.service
+    lastUsedAt: Date | null;
+    lastUsedIp: string | null;
+    revokedAt: Date | null;
+}
+
+interface ApiKeyCreationAttributes extends Optional<ApiKeyAttributes, 'id' | 'lastUsedAt' | 'lastUsedIp' | 'revokedAt'> {}
+
+class ApiKey extends Model<ApiKeyAttributes, ApiKeyCreationAttributes> implements ApiKeyAttributes {
+    public id!: number;
+    public userId!: number;
+    public name!: string;
+    public keyPrefix!: string;
+    public keyHash!: string;
+    public scopes!: string[];
+    public lastUsedAt!: Date | null;
+    public lastUsedIp!: string | null;
+    public revokedAt!: Date | null;
+
+    public readonly createdAt!: Date;
+}
+
+ApiKey.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    name: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+    },
+    keyPrefix: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        field: 'key_prefix',
+    },
+    keyHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+        field: 'key_hash',
+    },
+    scopes: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+    },
+    lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_used_at',
+    },
+    lastUsedIp: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        field: 'last_used_ip',
+    },
+    revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'revoked_at',
+    },
+}, {
+    tableName: 'api_keys',
+    sequelize,
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [{ fields: ['user_id'] }],
+});
+
+User.hasMany(ApiKey, { foreignKey: 'userId' });
+ApiKey.belongsTo(User, { foreignKey: 'userId' });
+
+export default ApiKey;
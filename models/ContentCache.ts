@@ -0,0 +1,80 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface ContentCacheAttributes {
+    id: number;
+    urlHash: string; // sha256 канонического URL (уникальный ключ)
+    canonicalUrl: string;
+    content: string;
+    sourceType: string;
+    extractor: string | null; // имя экстрактора, который вернул контент
+    contentHash: string; // sha256 контента — позволяет понять, изменился ли контент при перезагрузке
+    fetchedAt: Date;
+}
+
+interface ContentCacheCreationAttributes extends Optional<ContentCacheAttributes, 'id' | 'extractor' | 'fetchedAt'> {}
+
+class ContentCache extends Model<ContentCacheAttributes, ContentCacheCreationAttributes> implements ContentCacheAttributes {
+    public id!: number;
+    public urlHash!: string;
+    public canonicalUrl!: string;
+    public content!: string;
+    public sourceType!: string;
+    public extractor!: string | null;
+    public contentHash!: string;
+    public fetchedAt!: Date;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+ContentCache.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    urlHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+        field: 'url_hash',
+    },
+    canonicalUrl: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+        field: 'canonical_url',
+    },
+    content: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+    },
+    sourceType: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        field: 'source_type',
+    },
+    extractor: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+    },
+    contentHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'content_hash',
+    },
+    fetchedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'fetched_at',
+    },
+}, {
+    tableName: 'content_cache',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['fetched_at'] }],
+});
+
+export default ContentCache;
@@ -0,0 +1,90 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import AnalysisHistory from './AnalysisHistory';
+
+export type DigestItemStatus = 'sent' | 'read_later' | 'dismissed';
+
+/**
+ * Материал, попавший в дайджест. Каждый анализ попадает в дайджест не больше одного раза;
+ * кнопки «Прочитать позже» / «Не интересно» меняют status.
+ */
+interface DigestItemAttributes {
+    id: number;
+    userId: number;
+    analysisHistoryId: number;
+    score: number;
+    semanticMatch: number | null; // % совпадения тем с облаком смыслов, null — у пользователя нет тегов
+    status: DigestItemStatus;
+    actedAt: Date | null;
+}
+
+interface DigestItemCreationAttributes extends Optional<DigestItemAttributes, 'id' | 'semanticMatch' | 'status' | 'actedAt'> {}
+
+class DigestItem extends Model<DigestItemAttributes, DigestItemCreationAttributes> implements DigestItemAttributes {
+    public id!: number;
+    public userId!: number;
+    public analysisHistoryId!: number;
+    public score!: number;
+    public semanticMatch!: number | null;
+    public status!: DigestItemStatus;
+    public actedAt!: Date | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+DigestItem.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    analysisHistoryId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: AnalysisHistory, key: 'id' },
+        onDelete: 'CASCADE',
+        field: 'analysis_history_id',
+    },
+    score: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+    },
+    semanticMatch: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'semantic_match',
+    },
+    status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'sent',
+    },
+    actedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'acted_at',
+    },
+}, {
+    tableName: 'digest_items',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [
+        { unique: true, fields: ['user_id', 'analysis_history_id'] },
+        { fields: ['user_id', 'status'] },
+    ],
+});
+
+User.hasMany(DigestItem, { foreignKey: 'userId' });
+DigestItem.belongsTo(User, { foreignKey: 'userId' });
+DigestItem.belongsTo(AnalysisHistory, { foreignKey: 'analysisHistoryId' });
+
+export default DigestItem;
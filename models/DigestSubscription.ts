@@ -0,0 +1,125 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+export type DigestFrequency = 'daily' | 'weekly';
+export type DigestChannel = 'telegram' | 'email' | 'in_app';
+
+/**
+ * Настройки персонального дайджеста пользователя (одна запись на пользователя).
+ * Пока дайджест включён, мониторинг каналов и источников не шлёт отдельные уведомления по каждому каналу.
+ */
+interface DigestSubscriptionAttributes {
+    id: number;
+    userId: number;
+    enabled: boolean;
+    frequency: DigestFrequency;
+    sendHour: number; // 0–23, локальное время пользователя
+    weekday: number; // 0 — воскресенье … 6 — суббота, только для weekly
+    timezone: string; // IANA, например Europe/Moscow
+    channels: DigestChannel[];
+    topN: number;
+    minScore: number;
+    nextSendAt: Date | null;
+    lastSentAt: Date | null;
+}
+
+interface DigestSubscriptionCreationAttributes extends Optional<DigestSubscriptionAttributes,
+    'id' | 'enabled' | 'frequency' | 'sendHour' | 'weekday' | 'timezone' | 'channels' | 'topN' | 'minScore' | 'nextSendAt' | 'lastSentAt'> {}
+
+class DigestSubscription extends Model<DigestSubscriptionAttributes, DigestSubscriptionCreationAttributes> implements DigestSubscriptionAttributes {
+    public id!: number;
+    public userId!: number;
+    public enabled!: boolean;
+    public frequency!: DigestFrequency;
+    public sendHour!: number;
+    public weekday!: number;
+    public timezone!: string;
+    public channels!: DigestChannel[];
+    public topN!: number;
+    public minScore!: number;
+    public nextSendAt!: Date | null;
+    public lastSentAt!: Date | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+DigestSubscription.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    enabled: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+    },
+    frequency: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'daily',
+    },
+    sendHour: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 9,
+        field: 'send_hour',
+    },
+    weekday: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 1,
+    },
+    timezone: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        defaultValue: 'UTC',
+    },
+    channels: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: ['in_app'],
+    },
+    topN: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 10,
+        field: 'top_n',
+    },
+    minScore: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 60,
+        field: 'min_score',
+    },
+    nextSendAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'next_send_at',
+    },
+    lastSentAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_sent_at',
+    },
+}, {
+    tableName: 'digest_subscriptions',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['enabled', 'next_send_at'] }],
+});
+
+User.hasOne(DigestSubscription, { foreignKey: 'userId' });
+DigestSubscription.belongsTo(User, { foreignKey: 'userId' });
+
+export default DigestSubscription;
@@ -0,0 +1,69 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+export type LibraryChatRole = 'user' | 'assistant';
+
+export interface LibraryChatCitation {
+    id: number; // AnalysisHistory.id
+    url: string;
+}
+
+interface LibraryChatMessageAttributes {
+    id: number;
+    userId: number;
+    role: LibraryChatRole;
+    content: string;
+    citations: LibraryChatCitation[]; // только у ответов ассистента
+}
+
+interface LibraryChatMessageCreationAttributes extends Optional<LibraryChatMessageAttributes, 'id' | 'citations'> {}
+
+class LibraryChatMessage extends Model<LibraryChatMessageAttributes, LibraryChatMessageCreationAttributes> implements LibraryChatMessageAttributes {
+    public id!: number;
+    public userId!: number;
+    public role!: LibraryChatRole;
+    public content!: string;
+    public citations!: LibraryChatCitation[];
+
+    public readonly createdAt!: Date;
+}
+
+LibraryChatMessage.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    role: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+    },
+    content: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+    },
+    citations: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+    },
+}, {
+    tableName: 'library_chat_messages',
+    sequelize,
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [{ fields: ['user_id', 'created_at'] }],
+});
+
+User.hasMany(LibraryChatMessage, { foreignKey: 'userId' });
+LibraryChatMessage.belongsTo(User, { foreignKey: 'userId' });
+
+export default LibraryChatMessage;
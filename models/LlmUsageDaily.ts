@@ -0,0 +1,110 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+/**
+ * Суточные агрегаты расхода LLM по субъекту, задаче, провайдеру и модели — для квот и отчётов /api/usage.
+ */
+interface LlmUsageDailyAttributes {
+    id: number;
+    day: string; // YYYY-MM-DD (UTC)
+    userId: number | null;
+    subject: string;
+    task: string;
+    provider: string;
+    model: string;
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+}
+
+interface LlmUsageDailyCreationAttributes extends Optional<LlmUsageDailyAttributes, 'id' | 'userId'> {}
+
+class LlmUsageDaily extends Model<LlmUsageDailyAttributes, LlmUsageDailyCreationAttributes> implements LlmUsageDailyAttributes {
+    public id!: number;
+    public day!: string;
+    public userId!: number | null;
+    public subject!: string;
+    public task!: string;
+    public provider!: string;
+    public model!: string;
+    public calls!: number;
+    public promptTokens!: number;
+    public completionTokens!: number;
+    public totalTokens!: number;
+    public costUsd!: number;
+}
+
+LlmUsageDaily.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    day: {
+        type: DataTypes.DATEONLY,
+        allowNull: false,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'user_id',
+    },
+    subject: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+    },
+    task: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+    },
+    provider: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+    },
+    model: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+    },
+    calls: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    },
+    promptTokens: {
+        type: DataTypes.BIGINT,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'prompt_tokens',
+    },
+    completionTokens: {
+        type: DataTypes.BIGINT,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'completion_tokens',
+    },
+    totalTokens: {
+        type: DataTypes.BIGINT,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'total_tokens',
+    },
+    costUsd: {
+        type: DataTypes.DECIMAL(14, 6),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'cost_usd',
+    },
+}, {
+    tableName: 'llm_usage_daily',
+    sequelize,
+    timestamps: false,
+    underscored: true,
+    indexes: [
+        { unique: true, fields: ['day', 'subject', 'task', 'provider', 'model'], name: 'llm_usage_daily_key' },
+        { fields: ['user_id', 'day'] },
+    ],
+});
+
+export default LlmUsageDaily;
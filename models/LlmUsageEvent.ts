@@ -0,0 +1,97 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+/**
+ * Один вызов LLM: токены и стоимость. Субъект — пользователь (user:<id>) или гость (ip:<адрес>, tg:<telegram id>).
+ */
+interface LlmUsageEventAttributes {
+    id: number;
+    userId: number | null;
+    subject: string;
+    task: string;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+}
+
+interface LlmUsageEventCreationAttributes extends Optional<LlmUsageEventAttributes, 'id' | 'userId'> {}
+
+class LlmUsageEvent extends Model<LlmUsageEventAttributes, LlmUsageEventCreationAttributes> implements LlmUsageEventAttributes {
+    public id!: number;
+    public userId!: number | null;
+    public subject!: string;
+    public task!: string;
+    public provider!: string;
+    public model!: string;
+    public promptTokens!: number;
+    public completionTokens!: number;
+    public totalTokens!: number;
+    public costUsd!: number;
+
+    public readonly createdAt!: Date;
+}
+
+LlmUsageEvent.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'user_id',
+    },
+    subject: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+    },
+    task: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+    },
+    provider: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+    },
+    model: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+    },
+    promptTokens: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'prompt_tokens',
+    },
+    completionTokens: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'completion_tokens',
+    },
+    totalTokens: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'total_tokens',
+    },
+    costUsd: {
+        type: DataTypes.DECIMAL(12, 6),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'cost_usd',
+    },
+}, {
+    tableName: 'llm_usage_events',
+    sequelize,
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [{ fields: ['user_id', 'created_at'] }, { fields: ['created_at'] }],
+});
+
+export default LlmUsageEvent;
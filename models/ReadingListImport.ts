@@ -0,0 +1,149 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+export type ReadingListImportStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+/**
+ * Импорт списка чтения (Pocket, Instapaper, OPML, закладки): пакет ссылок, который воркер
+ * reading-list-import.service анализирует по одной с паузой next_item_at — может идти часами.
+ */
+interface ReadingListImportAttributes {
+    id: number;
+    userId: number;
+    format: string; // см. READING_LIST_FORMATS
+    filename: string | null;
+    status: ReadingListImportStatus;
+    interests: string;
+    analysisMode: 'read' | 'unread';
+    totalItems: number; // поставлено в очередь (без дубликатов)
+    duplicateItems: number; // уже были в истории
+    processedItems: number;
+    failedItems: number;
+    seededTags: string[];
+    nextItemAt: Date | null;
+    waitReason: string | null; // quota — ждём обновления лимита LLM
+    startedAt: Date | null;
+    finishedAt: Date | null;
+}
+
+interface ReadingListImportCreationAttributes extends Optional<ReadingListImportAttributes,
+    'id' | 'filename' | 'status' | 'duplicateItems' | 'processedItems' | 'failedItems' | 'seededTags' | 'nextItemAt' | 'waitReason' | 'startedAt' | 'finishedAt'> {}
+
+class ReadingListImport extends Model<ReadingListImportAttributes, ReadingListImportCreationAttributes> implements ReadingListImportAttributes {
+    public id!: number;
+    public userId!: number;
+    public format!: string;
+    public filename!: string | null;
+    public status!: ReadingListImportStatus;
+    public interests!: string;
+    public analysisMode!: 'read' | 'unread';
+    public totalItems!: number;
+    public duplicateItems!: number;
+    public processedItems!: number;
+    public failedItems!: number;
+    public seededTags!: string[];
+    public nextItemAt!: Date | null;
+    public waitReason!: string | null;
+    public startedAt!: Date | null;
+    public finishedAt!: Date | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+ReadingListImport.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    format: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+    },
+    filename: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+    },
+    status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'running',
+    },
+    interests: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+    },
+    analysisMode: {
+        type: DataTypes.STRING(8),
+        allowNull: false,
+        field: 'analysis_mode',
+    },
+    totalItems: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'total_items',
+    },
+    duplicateItems: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'duplicate_items',
+    },
+    processedItems: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'processed_items',
+    },
+    failedItems: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'failed_items',
+    },
+    seededTags: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        field: 'seeded_tags',
+    },
+    nextItemAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'next_item_at',
+    },
+    waitReason: {
+        type: DataTypes.STRING(32),
+        allowNull: true,
+        field: 'wait_reason',
+    },
+    startedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'started_at',
+    },
+    finishedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'finished_at',
+    },
+}, {
+    tableName: 'reading_list_imports',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['user_id'] }, { fields: ['status', 'next_item_at'] }],
+});
+
+User.hasMany(ReadingListImport, { foreignKey: 'userId' });
+ReadingListImport.belongsTo(User, { foreignKey: 'userId' });
+
+export default ReadingListImport;
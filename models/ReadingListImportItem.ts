@@ -0,0 +1,117 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import ReadingListImport from './ReadingListImport';
+
+export type ReadingListImportItemStatus = 'pending' | 'processing' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+/**
+ * Ссылка из импортированного списка чтения и результат её анализа.
+ */
+interface ReadingListImportItemAttributes {
+    id: number;
+    importId: number;
+    userId: number;
+    url: string;
+    title: string | null;
+    tags: string[]; // теги/папки из исходного файла
+    addedAt: Date | null; // когда ссылка была сохранена в исходном сервисе
+    status: ReadingListImportItemStatus;
+    attempts: number;
+    analysisHistoryId: number | null;
+    error: string | null;
+    processedAt: Date | null;
+    updatedAt?: Date; // для поиска «зависших» элементов
+}
+
+interface ReadingListImportItemCreationAttributes extends Optional<ReadingListImportItemAttributes,
+    'id' | 'title' | 'tags' | 'addedAt' | 'status' | 'attempts' | 'analysisHistoryId' | 'error' | 'processedAt'> {}
+
+class ReadingListImportItem extends Model<ReadingListImportItemAttributes, ReadingListImportItemCreationAttributes> implements ReadingListImportItemAttributes {
+    public id!: number;
+    public importId!: number;
+    public userId!: number;
+    public url!: string;
+    public title!: string | null;
+    public tags!: string[];
+    public addedAt!: Date | null;
+    public status!: ReadingListImportItemStatus;
+    public attempts!: number;
+    public analysisHistoryId!: number | null;
+    public error!: string | null;
+    public processedAt!: Date | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+ReadingListImportItem.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    importId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: ReadingListImport, key: 'id' },
+        field: 'import_id',
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'user_id',
+    },
+    url: {
+        type: DataTypes.STRING(2048),
+        allowNull: false,
+    },
+    title: {
+        type: DataTypes.STRING(500),
+        allowNull: true,
+    },
+    tags: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+    },
+    addedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'added_at',
+    },
+    status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'pending',
+    },
+    attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    },
+    analysisHistoryId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'analysis_history_id',
+    },
+    error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+    processedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'processed_at',
+    },
+}, {
+    tableName: 'reading_list_import_items',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['import_id', 'status'] }],
+});
+
+ReadingListImport.hasMany(ReadingListImportItem, { foreignKey: 'importId', onDelete: 'CASCADE' });
+ReadingListImportItem.belongsTo(ReadingListImport, { foreignKey: 'importId' });
+
+export default ReadingListImportItem;
@@ -0,0 +1,107 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+export type SourceCheckFrequency = 'hourly' | 'daily' | 'weekly';
+
+/**
+ * Источник подписки: RSS/Atom-лента, YouTube-канал, Telegram-канал или профиль Twitter/X.
+ * Новые элементы проверяет source-monitor.service; cursor — позиция последнего обработанного элемента.
+ */
+interface SourceAttributes {
+    id: number;
+    userId: number;
+    type: string; // см. SOURCE_TYPES
+    identifier: string; // URL ленты, id YouTube-канала или username
+    title: string | null;
+    isActive: boolean;
+    checkFrequency: SourceCheckFrequency;
+    cursor: string | null; // GUID последнего элемента ленты / id сообщения / id твита
+    lastCheckedAt: Date | null;
+    lastError: string | null;
+}
+
+interface SourceCreationAttributes extends Optional<SourceAttributes,
+    'id' | 'title' | 'isActive' | 'checkFrequency' | 'cursor' | 'lastCheckedAt' | 'lastError'> {}
+
+class Source extends Model<SourceAttributes, SourceCreationAttributes> implements SourceAttributes {
+    public id!: number;
+    public userId!: number;
+    public type!: string;
+    public identifier!: string;
+    public title!: string | null;
+    public isActive!: boolean;
+    public checkFrequency!: SourceCheckFrequency;
+    public cursor!: string | null;
+    public lastCheckedAt!: Date | null;
+    public lastError!: string | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+Source.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    type: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+    },
+    identifier: {
+        type: DataTypes.STRING(1024),
+        allowNull: false,
+    },
+    title: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+    },
+    isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'is_active',
+    },
+    checkFrequency: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'daily',
+        field: 'check_frequency',
+    },
+    cursor: {
+        type: DataTypes.STRING(1024),
+        allowNull: true,
+    },
+    lastCheckedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_checked_at',
+    },
+    lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'last_error',
+    },
+}, {
+    tableName: 'sources',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [
+        { unique: true, fields: ['user_id', 'type', 'identifier'] },
+        { fields: ['is_active', 'last_checked_at'] },
+    ],
+});
+
+User.hasMany(Source, { foreignKey: 'userId' });
+Source.belongsTo(User, { foreignKey: 'userId' });
+
+export default Source;
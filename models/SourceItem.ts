@@ -0,0 +1,95 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import Source from './Source';
+
+export type SourceItemStatus = 'analyzed' | 'failed';
+
+/**
+ * Элемент источника, уже отправленный на анализ, — защищает от повторного анализа при сбросе курсора.
+ */
+interface SourceItemAttributes {
+    id: number;
+    sourceId: number;
+    externalId: string;
+    url: string;
+    title: string | null;
+    publishedAt: Date | null;
+    status: SourceItemStatus;
+    analysisHistoryId: number | null;
+    error: string | null;
+}
+
+interface SourceItemCreationAttributes extends Optional<SourceItemAttributes,
+    'id' | 'title' | 'publishedAt' | 'analysisHistoryId' | 'error'> {}
+
+class SourceItem extends Model<SourceItemAttributes, SourceItemCreationAttributes> implements SourceItemAttributes {
+    public id!: number;
+    public sourceId!: number;
+    public externalId!: string;
+    public url!: string;
+    public title!: string | null;
+    public publishedAt!: Date | null;
+    public status!: SourceItemStatus;
+    public analysisHistoryId!: number | null;
+    public error!: string | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+SourceItem.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    sourceId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: Source, key: 'id' },
+        onDelete: 'CASCADE',
+        field: 'source_id',
+    },
+    externalId: {
+        type: DataTypes.STRING(1024),
+        allowNull: false,
+        field: 'external_id',
+    },
+    url: {
+        type: DataTypes.STRING(2048),
+        allowNull: false,
+    },
+    title: {
+        type: DataTypes.STRING(500),
+        allowNull: true,
+    },
+    publishedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'published_at',
+    },
+    status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+    },
+    analysisHistoryId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'analysis_history_id',
+    },
+    error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+}, {
+    tableName: 'source_items',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ unique: true, fields: ['source_id', 'external_id'] }],
+});
+
+Source.hasMany(SourceItem, { foreignKey: 'sourceId' });
+SourceItem.belongsTo(Source, { foreignKey: 'sourceId' });
+
+export default SourceItem;
@@ -1,6 +1,8 @@
 import { Model, DataTypes, Optional } from 'sequelize';
 import sequelize from '../config/database';
 import User from './User';
+import type { ChannelPostFilters, QuietHours } from '../services/channel-filters';
+import type { ChannelSchedule } from '../services/channel-schedule';
 
 interface TelegramChannelAttributes {
     id: number;
@@ -11,9 +13,17 @@ interface TelegramChannelAttributes {
     lastCheckedAt?: Date | null;
     lastPostMessageId?: number | null;
     checkFrequency: 'daily' | 'weekly';
+    minScore?: number | null; // порог релевантности поста, null — DEFAULT_MIN_SCORE
+    maxPostsPerCheck?: number | null; // null — DEFAULT_MAX_POSTS_PER_CHECK
+    filters: Partial<ChannelPostFilters>; // см. services/channel-filters
+    quietHours?: QuietHours | null;
+    schedule?: ChannelSchedule | null; // см. services/channel-schedule; null — по checkFrequency
+    nextCheckAt?: Date | null; // null — проверить в ближайшем цикле
+    consecutiveFailures: number; // неудачных проверок подряд — для экспоненциальной задержки
+    lastError?: string | null;
 }
 
-interface TelegramChannelCreationAttributes extends Optional<TelegramChannelAttributes, 'id' | 'isActive' | 'checkFrequency'> {}
+interface TelegramChannelCreationAttributes extends Optional<TelegramChannelAttributes, 'id' | 'isActive' | 'checkFrequency' | 'filters' | 'consecutiveFailures'> {}
 
 class TelegramChannel extends Model<TelegramChannelAttributes, TelegramChannelCreationAttributes> implements TelegramChannelAttributes {
     public id!: number;
@@ -24,6 +34,14 @@ class TelegramChannel extends Model<TelegramChannelAttributes, TelegramChannelCr
     public lastCheckedAt?: Date | null;
     public lastPostMessageId?: number | null;
     public checkFrequency!: 'daily' | 'weekly';
+    public minScore?: number | null;
+    public maxPostsPerCheck?: number | null;
+    public filters!: Partial<ChannelPostFilters>;
+    public quietHours?: QuietHours | null;
+    public schedule?: ChannelSchedule | null;
+    public nextCheckAt?: Date | null;
+    public consecutiveFailures!: number;
+    public lastError?: string | null;
 
     public readonly createdAt!: Date;
     public readonly updatedAt!: Date;
@@ -76,6 +94,46 @@ TelegramChannel.init({
         defaultValue: 'daily',
         field: 'check_frequency',
     },
+    minScore: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'min_score',
+    },
+    maxPostsPerCheck: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'max_posts_per_check',
+    },
+    filters: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+    },
+    quietHours: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'quiet_hours',
+    },
+    schedule: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+    },
+    nextCheckAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'next_check_at',
+    },
+    consecutiveFailures: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'consecutive_failures',
+    },
+    lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'last_error',
+    },
 }, {
     tableName: 'telegram_channels',
     sequelize,
@@ -84,6 +142,7 @@ TelegramChannel.init({
     indexes: [
         { fields: ['user_id'] },
         { fields: ['is_active', 'last_checked_at'] },
+        { fields: ['is_active', 'next_check_at'] },
         { fields: ['user_id', 'channel_username'], unique: true },
     ],
 });
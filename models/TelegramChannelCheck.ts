@@ -0,0 +1,114 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import TelegramChannel from './TelegramChannel';
+
+export type ChannelCheckTrigger = 'scheduled' | 'manual';
+export type ChannelCheckStatus = 'success' | 'failed';
+
+/**
+ * Журнал проверок подписки на Telegram-канал: длительность, найденные посты и ошибки —
+ * чтобы пользователь видел, почему канал давно не обновлялся.
+ */
+interface TelegramChannelCheckAttributes {
+    id: number;
+    channelId: number;
+    trigger: ChannelCheckTrigger;
+    status: ChannelCheckStatus;
+    durationMs: number;
+    postsFound: number; // новых постов новее курсора подписки
+    postsFiltered: number; // отсеяно фильтрами канала
+    analyzed: number;
+    relevant: number;
+    error: string | null;
+    nextCheckAt: Date | null; // на когда запланирована следующая проверка (с учётом задержки после ошибок)
+}
+
+interface TelegramChannelCheckCreationAttributes extends Optional<TelegramChannelCheckAttributes,
+    'id' | 'postsFound' | 'postsFiltered' | 'analyzed' | 'relevant' | 'error' | 'nextCheckAt'> {}
+
+class TelegramChannelCheck extends Model<TelegramChannelCheckAttributes, TelegramChannelCheckCreationAttributes> implements TelegramChannelCheckAttributes {
+    public id!: number;
+    public channelId!: number;
+    public trigger!: ChannelCheckTrigger;
+    public status!: ChannelCheckStatus;
+    public durationMs!: number;
+    public postsFound!: number;
+    public postsFiltered!: number;
+    public analyzed!: number;
+    public relevant!: number;
+    public error!: string | null;
+    public nextCheckAt!: Date | null;
+
+    public readonly createdAt!: Date;
+}
+
+TelegramChannelCheck.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    channelId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: TelegramChannel, key: 'id' },
+        onDelete: 'CASCADE',
+        field: 'channel_id',
+    },
+    trigger: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+    },
+    status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+    },
+    durationMs: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'duration_ms',
+    },
+    postsFound: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'posts_found',
+    },
+    postsFiltered: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'posts_filtered',
+    },
+    analyzed: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    },
+    relevant: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    },
+    error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+    nextCheckAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'next_check_at',
+    },
+}, {
+    tableName: 'telegram_channel_checks',
+    sequelize,
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [{ fields: ['channel_id', 'created_at'] }],
+});
+
+TelegramChannel.hasMany(TelegramChannelCheck, { foreignKey: 'channelId' });
+TelegramChannelCheck.belongsTo(TelegramChannel, { foreignKey: 'channelId' });
+
+export default TelegramChannelCheck;
@@ -0,0 +1,153 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type TelegramSharedPostStatus = 'pending' | 'prepared' | 'failed';
+
+/**
+ * Пост публичного Telegram-канала, общий для всех подписчиков: канал скачивается один раз за цикл мониторинга,
+ * извлечение, темы, саммари и эмбеддинг считаются один раз на пост (telegram-shared-post.service).
+ * Подписчику остаются только оценка релевантности и сравнение с облаком смыслов.
+ */
+interface TelegramSharedPostAttributes {
+    id: number;
+    channelUsername: string; // без @, в нижнем регистре
+    messageId: number;
+    postUrl: string | null;
+    postText: string | null;
+    postedAt: Date | null;
+    isRepost: boolean; // переслан из другого канала
+    status: TelegramSharedPostStatus;
+    content: string | null; // извлечённый контент
+    sourceType: string | null;
+    themes: string[];
+    summary: string | null; // из первого анализа поста
+    embedding: { vector: number[]; model: string; dimension: number } | null;
+    chunksHistoryId: number | null; // запись истории, с которой копируются эмбеддинги чанков
+    error: string | null;
+    prepareAttempts: number; // попытки подготовки, сорвавшиеся из-за временных сбоев
+    preparedAt: Date | null; // время последней попытки подготовки
+    createdAt?: Date; // для удаления старых постов
+}
+
+interface TelegramSharedPostCreationAttributes extends Optional<TelegramSharedPostAttributes,
+    'id' | 'postUrl' | 'postText' | 'postedAt' | 'isRepost' | 'status' | 'content' | 'sourceType' | 'themes' | 'summary' | 'embedding' | 'chunksHistoryId' | 'error' | 'prepareAttempts' | 'preparedAt'> {}
+
+class TelegramSharedPost extends Model<TelegramSharedPostAttributes, TelegramSharedPostCreationAttributes> implements TelegramSharedPostAttributes {
+    public id!: number;
+    public channelUsername!: string;
+    public messageId!: number;
+    public postUrl!: string | null;
+    public postText!: string | null;
+    public postedAt!: Date | null;
+    public isRepost!: boolean;
+    public status!: TelegramSharedPostStatus;
+    public content!: string | null;
+    public sourceType!: string | null;
+    public themes!: string[];
+    public summary!: string | null;
+    public embedding!: { vector: number[]; model: string; dimension: number } | null;
+    public chunksHistoryId!: number | null;
+    public error!: string | null;
+    public prepareAttempts!: number;
+    public preparedAt!: Date | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+TelegramSharedPost.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    channelUsername: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        field: 'channel_username',
+    },
+    messageId: {
+        type: DataTypes.BIGINT,
+        allowNull: false,
+        field: 'message_id',
+    },
+    postUrl: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'post_url',
+    },
+    postText: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'post_text',
+    },
+    postedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'posted_at',
+    },
+    isRepost: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        field: 'is_repost',
+    },
+    status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'pending',
+    },
+    content: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+    sourceType: {
+        type: DataTypes.STRING(32),
+        allowNull: true,
+        field: 'source_type',
+    },
+    themes: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+    },
+    summary: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+    embedding: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+    },
+    chunksHistoryId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'chunks_history_id',
+    },
+    error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+    prepareAttempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'prepare_attempts',
+    },
+    preparedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'prepared_at',
+    },
+}, {
+    tableName: 'telegram_shared_posts',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [
+        { fields: ['channel_username', 'message_id'], unique: true },
+        { fields: ['created_at'] },
+    ],
+});
+
+export default TelegramSharedPost;
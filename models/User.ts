@@ -15,6 +15,8 @@ interface UserAttributes {
     telegram_link_code_expires_at?: Date | null;
     password_reset_token?: string | null;
     password_reset_expires_at?: Date | null;
+    llm_monthly_token_quota?: number | null; // null — квота по умолчанию (LLM_USER_MONTHLY_TOKEN_QUOTA), 0 — без лимита
+    sessions_revoked_at?: Date | null; // access-токены без сессии, выданные раньше, недействительны
 }
 
 interface UserCreationAttributes extends Optional<UserAttributes, 'id'> {}
@@ -32,6 +34,8 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
     public telegram_link_code_expires_at?: Date | null;
     public password_reset_token?: string | null;
     public password_reset_expires_at?: Date | null;
+    public llm_monthly_token_quota?: number | null;
+    public sessions_revoked_at?: Date | null;
 
     public readonly createdAt!: Date;
     public readonly updatedAt!: Date;
@@ -93,6 +97,14 @@ User.init(
             type: DataTypes.DATE,
             allowNull: true,
         },
+        llm_monthly_token_quota: {
+            type: DataTypes.INTEGER,
+            allowNull: true,
+        },
+        sessions_revoked_at: {
+            type: DataTypes.DATE,
+            allowNull: true,
+        },
     },
     {
         tableName: 'users',
@@ -0,0 +1,97 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+/**
+ * Сессия входа: текущий refresh-токен (хранится только SHA-256) и предыдущий — повторное
+ * предъявление уже заменённого токена означает утечку, сессия отзывается.
+ */
+interface UserSessionAttributes {
+    id: number;
+    userId: number;
+    refreshTokenHash: string;
+    previousTokenHash: string | null;
+    userAgent: string | null;
+    ip: string | null;
+    expiresAt: Date;
+    lastUsedAt: Date;
+    revokedAt: Date | null;
+}
+
+interface UserSessionCreationAttributes extends Optional<UserSessionAttributes, 'id' | 'previousTokenHash' | 'userAgent' | 'ip' | 'lastUsedAt' | 'revokedAt'> {}
+
+class UserSession extends Model<UserSessionAttributes, UserSessionCreationAttributes> implements UserSessionAttributes {
+    public id!: number;
+    public userId!: number;
+    public refreshTokenHash!: string;
+    public previousTokenHash!: string | null;
+    public userAgent!: string | null;
+    public ip!: string | null;
+    public expiresAt!: Date;
+    public lastUsedAt!: Date;
+    public revokedAt!: Date | null;
+
+    public readonly createdAt!: Date;
+}
+
+UserSession.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    refreshTokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+        field: 'refresh_token_hash',
+    },
+    previousTokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        field: 'previous_token_hash',
+    },
+    userAgent: {
+        type: DataTypes.STRING(512),
+        allowNull: true,
+        field: 'user_agent',
+    },
+    ip: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+    },
+    expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'expires_at',
+    },
+    lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'last_used_at',
+    },
+    revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'revoked_at',
+    },
+}, {
+    tableName: 'user_sessions',
+    sequelize,
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [{ fields: ['user_id'] }, { fields: ['previous_token_hash'] }],
+});
+
+User.hasMany(UserSession, { foreignKey: 'userId' });
+UserSession.belongsTo(User, { foreignKey: 'userId' });
+
+export default UserSession;
@@ -0,0 +1,94 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+/**
+ * Исходящий вебхук пользователя: URL, на который отправляются подписанные (HMAC-SHA256) события.
+ * Секрет хранится открыто — он нужен для подписи каждой доставки.
+ */
+interface WebhookAttributes {
+    id: number;
+    userId: number;
+    url: string;
+    description: string | null;
+    events: string[]; // см. WEBHOOK_EVENTS в webhook.service
+    secret: string;
+    isActive: boolean;
+    lastDeliveryAt: Date | null;
+    lastDeliveryStatus: string | null; // success | failed
+}
+
+interface WebhookCreationAttributes extends Optional<WebhookAttributes, 'id' | 'description' | 'isActive' | 'lastDeliveryAt' | 'lastDeliveryStatus'> {}
+
+class Webhook extends Model<WebhookAttributes, WebhookCreationAttributes> implements WebhookAttributes {
+    public id!: number;
+    public userId!: number;
+    public url!: string;
+    public description!: string | null;
+    public events!: string[];
+    public secret!: string;
+    public isActive!: boolean;
+    public lastDeliveryAt!: Date | null;
+    public lastDeliveryStatus!: string | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+Webhook.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: User, key: 'id' },
+        field: 'user_id',
+    },
+    url: {
+        type: DataTypes.STRING(2048),
+        allowNull: false,
+    },
+    description: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+    },
+    events: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+    },
+    secret: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+    },
+    isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'is_active',
+    },
+    lastDeliveryAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_delivery_at',
+    },
+    lastDeliveryStatus: {
+        type: DataTypes.STRING(16),
+        allowNull: true,
+        field: 'last_delivery_status',
+    },
+}, {
+    tableName: 'webhooks',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['user_id'] }],
+});
+
+User.hasMany(Webhook, { foreignKey: 'userId' });
+Webhook.belongsTo(User, { foreignKey: 'userId' });
+
+export default Webhook;
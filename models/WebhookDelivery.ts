@@ -0,0 +1,133 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import Webhook from './Webhook';
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'success' | 'failed';
+
+/**
+ * Доставка события на вебхук: payload, попытки и последний ответ (журнал GET /api/webhooks/:id/deliveries).
+ * retrying + next_attempt_at — очередь повторов (webhook.service).
+ */
+interface WebhookDeliveryAttributes {
+    id: number;
+    webhookId: number;
+    userId: number;
+    event: string;
+    eventId: string; // одинаков у повторов — получатель может отбрасывать дубликаты
+    payload: Record<string, any>;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: Date | null;
+    lastAttemptAt: Date | null;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    durationMs: number | null;
+    createdAt?: Date; // для условий воркера повторов и очистки журнала
+    updatedAt?: Date;
+}
+
+interface WebhookDeliveryCreationAttributes extends Optional<WebhookDeliveryAttributes,
+    'id' | 'status' | 'attempts' | 'nextAttemptAt' | 'lastAttemptAt' | 'responseStatus' | 'responseBody' | 'error' | 'durationMs'> {}
+
+class WebhookDelivery extends Model<WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes> implements WebhookDeliveryAttributes {
+    public id!: number;
+    public webhookId!: number;
+    public userId!: number;
+    public event!: string;
+    public eventId!: string;
+    public payload!: Record<string, any>;
+    public status!: WebhookDeliveryStatus;
+    public attempts!: number;
+    public nextAttemptAt!: Date | null;
+    public lastAttemptAt!: Date | null;
+    public responseStatus!: number | null;
+    public responseBody!: string | null;
+    public error!: string | null;
+    public durationMs!: number | null;
+
+    public readonly createdAt!: Date;
+    public readonly updatedAt!: Date;
+}
+
+WebhookDelivery.init({
+    id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+    },
+    webhookId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: Webhook, key: 'id' },
+        field: 'webhook_id',
+    },
+    userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'user_id',
+    },
+    event: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+    },
+    eventId: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'event_id',
+    },
+    payload: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+    },
+    status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'pending',
+    },
+    attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    },
+    nextAttemptAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'next_attempt_at',
+    },
+    lastAttemptAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_attempt_at',
+    },
+    responseStatus: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'response_status',
+    },
+    responseBody: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'response_body',
+    },
+    error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    },
+    durationMs: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'duration_ms',
+    },
+}, {
+    tableName: 'webhook_deliveries',
+    sequelize,
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['webhook_id', 'created_at'] }, { fields: ['status', 'next_attempt_at'] }],
+});
+
+Webhook.hasMany(WebhookDelivery, { foreignKey: 'webhookId', onDelete: 'CASCADE' });
+WebhookDelivery.belongsTo(Webhook, { foreignKey: 'webhookId' });
+
+export default WebhookDelivery;
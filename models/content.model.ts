@@ -1,4 +1,5 @@
 export interface ExtractedContent {
     content: string;
     sourceType: 'transcript' | 'metadata' | 'article' | 'telegram';
+    extractor?: string; // имя экстрактора, который вернул контент
 }
@@ -1,20 +1,27 @@
 import { Router } from 'express';
-import { analyzeContent, guestAnalyzeContent, getAnalysisStatus, testExtractThemes, findSimilarArticlesEndpoint, getStageStats, postAskQuestion } from '../controllers/analysis.controller';
-import { getHistory, getHistoryItem, reanalyzeFromHistory, deleteHistoryItem } from '../controllers/history.controller';
+import { analyzeContent, guestAnalyzeContent, getAnalysisStatus, streamAnalysisJob, cancelAnalysisJob, retryAnalysisJob, getUserAnalysisJobs, testExtractThemes, findSimilarArticlesEndpoint, getStageStats, postAskQuestion } from '../controllers/analysis.controller';
+import { getHistory, searchHistory, exportHistory, getHistoryItem, reanalyzeFromHistory, deleteHistoryItem } from '../controllers/history.controller';
 import UserController from '../controllers/user.controller';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { authMiddleware, optionalAuthMiddleware, apiKeyScope } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
-router.post('/analyze', authMiddleware, analyzeContent);
-router.post('/guest-analyze', guestAnalyzeContent);
+router.post('/analyze', apiKeyScope('analyze'), authMiddleware, analyzeContent);
+router.post('/guest-analyze', optionalAuthMiddleware, rateLimit({ name: 'guest_analyze', limit: 10, windowSec: 600, identities: ['user', 'telegram', 'ip'] }), guestAnalyzeContent);
 router.get('/status/:jobId', getAnalysisStatus); // Polling для асинхронного анализа
-router.post('/find-similar', authMiddleware, findSimilarArticlesEndpoint); // Поиск похожих статей по эмбеддингу
-router.post('/test-extract-themes', testExtractThemes); // Тестовый эндпоинт для проверки извлечения тем
+router.get('/stream/:jobId', streamAnalysisJob); // SSE: этапы, результаты по элементам и финальный результат
+router.get('/jobs', apiKeyScope('analyze'), authMiddleware, getUserAnalysisJobs); // Последние и выполняющиеся задачи пользователя
+router.delete('/jobs/:jobId', apiKeyScope('analyze'), optionalAuthMiddleware, cancelAnalysisJob); // Отмена задачи (частичные результаты сохраняются)
+router.post('/jobs/:jobId/retry', apiKeyScope('analyze'), optionalAuthMiddleware, retryAnalysisJob); // Повтор только упавших/необработанных элементов
+router.post('/find-similar', apiKeyScope('history:read'), authMiddleware, findSimilarArticlesEndpoint); // Поиск похожих статей по эмбеддингу
+router.post('/test-extract-themes', rateLimit({ name: 'test_extract_themes', limit: 5, windowSec: 60 }), testExtractThemes); // Тестовый эндпоинт для проверки извлечения тем
 router.get('/stage-stats', getStageStats); // Статистика времени этапов (общая для всех пользователей)
-router.post('/ask-question', postAskQuestion); // Вопросы по контенту после анализа (auth опционально - работает и для гостей)
-router.get('/history', authMiddleware, getHistory);
-router.get('/history/:id', authMiddleware, getHistoryItem);
+router.post('/ask-question', apiKeyScope('analyze'), optionalAuthMiddleware, rateLimit({ name: 'ask_question', limit: 20, windowSec: 600, identities: ['user', 'ip'] }), postAskQuestion); // Вопросы по контенту после анализа: по analysisHistoryId (владелец) или jobId (и для гостей)
+router.get('/history', apiKeyScope('history:read'), authMiddleware, getHistory);
+router.get('/history/search', apiKeyScope('history:read'), authMiddleware, searchHistory); // Гибридный поиск по истории (полнотекстовый + векторный)
+router.get('/history/export', apiKeyScope('history:read'), authMiddleware, exportHistory); // Экспорт: ?format=md|csv|json|obsidian + фильтры поиска
+router.get('/history/:id', apiKeyScope('history:read'), authMiddleware, getHistoryItem);
 router.get('/history/:id/reanalyze', authMiddleware, reanalyzeFromHistory);
 router.delete('/history/:id', authMiddleware, deleteHistoryItem); // Удаление записи из истории и связанных тегов
 router.post('/history/:historyId/comment', authMiddleware, UserController.saveAnalysisComment); // Сохранение комментария к анализу
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { getApiKeys, postApiKey, deleteApiKey } from '../controllers/api-key.controller';
+
+// Управление ключами — только по JWT: ключом нельзя выпустить или отозвать другие ключи
+const router = Router();
+router.get('/', authMiddleware, getApiKeys);
+router.post('/', authMiddleware, postApiKey); // Ключ в ответе показывается один раз
+router.delete('/:id', authMiddleware, deleteApiKey);
+
+export default router;
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import BotController from '../controllers/bot.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
 router.post('/link-code', authMiddleware, BotController.generateLinkCode);
 router.get('/link-code', authMiddleware, BotController.getLinkCode);
-router.post('/link', BotController.linkTelegram);
+router.post('/link', rateLimit({ name: 'bot_link', limit: 10, windowSec: 900, identities: ['telegram', 'ip'] }), BotController.linkTelegram); // Подбор кодов привязки
 router.post('/unlink', authMiddleware, BotController.unlinkTelegram);
 
 export default router;
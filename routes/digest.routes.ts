@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import {
+    getSettings,
+    putSettings,
+    getPreview,
+    postSend,
+    getReadLater,
+    patchItem,
+} from '../controllers/digest.controller';
+
+const router = Router();
+router.get('/settings', authMiddleware, getSettings);
+router.put('/settings', authMiddleware, putSettings);
+router.get('/preview', authMiddleware, getPreview);
+router.post('/send', authMiddleware, rateLimit({ name: 'digest_send', limit: 5, windowSec: 3600 }), postSend); // Письма и сообщения бота
+router.get('/read-later', authMiddleware, getReadLater);
+router.patch('/items/:id', authMiddleware, patchItem);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { authMiddleware, apiKeyScope } from '../middleware/auth.middleware';
+import { postLibraryChat, getLibraryChat, deleteLibraryChat } from '../controllers/library.controller';
+
+const router = Router();
+router.post('/chat', apiKeyScope('history:read'), authMiddleware, postLibraryChat); // Вопрос по всей истории анализов (RAG), ответ со ссылками [#id]
+router.get('/chat', apiKeyScope('history:read'), authMiddleware, getLibraryChat);
+router.delete('/chat', authMiddleware, deleteLibraryChat);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { authMiddleware, apiKeyScope } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import {
+    postReadingListImport,
+    getReadingListImports,
+    getReadingListImportById,
+    getReadingListImportItems,
+    postPauseReadingListImport,
+    postResumeReadingListImport,
+    deleteReadingListImport,
+} from '../controllers/reading-list-import.controller';
+
+const router = Router();
+const analyzeScope = apiKeyScope('analyze');
+
+router.get('/', analyzeScope, authMiddleware, getReadingListImports);
+router.post('/', analyzeScope, authMiddleware, rateLimit({ name: 'reading_list_import', limit: 10, windowSec: 3600 }), postReadingListImport); // Pocket/Instapaper CSV, OPML, закладки, список ссылок
+router.get('/:id', analyzeScope, authMiddleware, getReadingListImportById); // Прогресс
+router.get('/:id/items', analyzeScope, authMiddleware, getReadingListImportItems);
+router.post('/:id/pause', analyzeScope, authMiddleware, postPauseReadingListImport);
+router.post('/:id/resume', analyzeScope, authMiddleware, postResumeReadingListImport);
+router.delete('/:id', analyzeScope, authMiddleware, deleteReadingListImport); // Отмена
+
+export default router;
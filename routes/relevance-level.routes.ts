@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { authMiddleware, apiKeyScope } from '../middleware/auth.middleware';
 import {
     analyzeRelevanceLevelForUrl,
     setUserInterestLevel,
@@ -9,7 +9,7 @@ import {
 const router = Router();
 
 // Анализ уровня релевантности контента
-router.post('/analyze', authMiddleware, analyzeRelevanceLevelForUrl);
+router.post('/analyze', apiKeyScope('analyze'), authMiddleware, analyzeRelevanceLevelForUrl);
 
 // Установка/обновление уровня пользователя по интересу
 router.post('/set-level', authMiddleware, setUserInterestLevel);
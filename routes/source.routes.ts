@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { authMiddleware, apiKeyScope } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import {
+    getSources,
+    postSource,
+    patchSource,
+    removeSource,
+    getSourceItems,
+    postCheckSource,
+} from '../controllers/source.controller';
+
+const router = Router();
+
+// Источники подписки (RSS/Atom, YouTube, Telegram, Twitter/X): JWT или API-ключ с областью channels:manage
+const channelsScope = apiKeyScope('channels:manage');
+router.get('/', channelsScope, authMiddleware, getSources);
+router.post('/', channelsScope, authMiddleware, postSource);
+router.patch('/:id', channelsScope, authMiddleware, patchSource);
+router.delete('/:id', channelsScope, authMiddleware, removeSource);
+router.get('/:id/items', channelsScope, authMiddleware, getSourceItems);
+router.post('/:id/check', channelsScope, authMiddleware, rateLimit({ name: 'source_check', limit: 20, windowSec: 3600 }), postCheckSource); // Внеочередная проверка тратит квоту LLM
+
+export default router;
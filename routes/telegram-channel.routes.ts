@@ -1,20 +1,23 @@
 import { Router } from 'express';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { authMiddleware, apiKeyScope } from '../middleware/auth.middleware';
 import {
     getUserChannels,
     addChannel,
     deleteChannel,
     updateChannel,
-    checkChannelsNow
+    checkChannelsNow,
+    getChannelChecks
 } from '../controllers/telegram-channel.controller';
 
 const router = Router();
 
-// Все эндпоинты требуют аутентификации
-router.get('/', authMiddleware, getUserChannels);
-router.post('/check-now', authMiddleware, checkChannelsNow);
-router.post('/', authMiddleware, addChannel);
-router.delete('/:id', authMiddleware, deleteChannel);
-router.patch('/:id', authMiddleware, updateChannel);
+// Все эндпоинты требуют аутентификации (JWT или API-ключ с областью channels:manage)
+const channelsScope = apiKeyScope('channels:manage');
+router.get('/', channelsScope, authMiddleware, getUserChannels);
+router.post('/check-now', channelsScope, authMiddleware, checkChannelsNow);
+router.post('/', channelsScope, authMiddleware, addChannel);
+router.delete('/:id', channelsScope, authMiddleware, deleteChannel);
+router.patch('/:id', channelsScope, authMiddleware, updateChannel);
+router.get('/:id/checks', channelsScope, authMiddleware, getChannelChecks);
 
 export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware';
+import { getUsage, getAdminUsage } from '../controllers/usage.controller';
+
+const router = Router();
+router.get('/', authMiddleware, getUsage); // Расход LLM пользователя и месячная квота
+router.get('/admin', authMiddleware, adminMiddleware, getAdminUsage); // Общий расход (ADMIN_EMAILS)
+
+export default router;
@@ -1,13 +1,19 @@
 import { Router } from 'express';
 import UserController from '../controllers/user.controller';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
-router.post('/register', UserController.register);
-router.post('/login', UserController.login);
-router.post('/forgot-password', UserController.requestPasswordReset);
-router.post('/reset-password', UserController.resetPassword);
+router.post('/register', rateLimit({ name: 'register', limit: 5, windowSec: 3600 }), UserController.register);
+router.post('/login', rateLimit({ name: 'login', limit: 20, windowSec: 900 }), UserController.login); // + блокировка email для IP после неудачных попыток (UserService.loginUser)
+router.post('/forgot-password', rateLimit({ name: 'forgot_password', limit: 5, windowSec: 3600 }), UserController.requestPasswordReset); // Письма и токены сброса
+router.post('/reset-password', rateLimit({ name: 'reset_password', limit: 10, windowSec: 900 }), UserController.resetPassword); // Подбор 8-символьного кода
+router.post('/refresh', rateLimit({ name: 'refresh', limit: 60, windowSec: 900 }), UserController.refresh); // Ротация refresh-токена
+router.post('/logout', optionalAuthMiddleware, UserController.logout);
+router.get('/sessions', authMiddleware, UserController.getSessions);
+router.delete('/sessions', authMiddleware, UserController.revokeSessions); // ?keepCurrent=true — кроме текущей
+router.delete('/sessions/:sessionId', authMiddleware, UserController.revokeSessionById);
 
 router.get('/profile', authMiddleware, UserController.getProfile);
 router.get('/interests', authMiddleware, UserController.getInterests);
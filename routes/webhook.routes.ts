@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import {
+    getWebhooks,
+    postWebhook,
+    patchWebhook,
+    removeWebhook,
+    postRotateWebhookSecret,
+    postTestWebhook,
+    getWebhookDeliveries,
+    postRedeliverWebhook,
+} from '../controllers/webhook.controller';
+
+const router = Router();
+router.get('/', authMiddleware, getWebhooks);
+router.post('/', authMiddleware, postWebhook); // Секрет подписи в ответе показывается один раз
+router.patch('/:id', authMiddleware, patchWebhook);
+router.delete('/:id', authMiddleware, removeWebhook);
+router.post('/:id/rotate-secret', authMiddleware, postRotateWebhookSecret);
+router.post('/:id/test', authMiddleware, postTestWebhook); // Тестовое событие webhook.test
+router.get('/:id/deliveries', authMiddleware, getWebhookDeliveries); // Журнал доставок: статус, попытки, ответ получателя
+router.post('/:id/deliveries/:deliveryId/redeliver', authMiddleware, postRedeliverWebhook);
+
+export default router;
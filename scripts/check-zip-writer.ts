@@ -0,0 +1,93 @@
+/**
+ * Проверка utils/zip-writer: архив читается обратно независимым разбором (центральный каталог → локальные заголовки),
+ * совпадают имена (в том числе не-ASCII), содержимое, размеры и CRC-32 (zlib.crc32), сжатые и несжатые записи.
+ *
+ * Запуск: npx ts-node scripts/check-zip-writer.ts
+ */
+
+import assert from 'assert';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { createZip, ZipEntry } from '../utils/zip-writer';
+
+interface ReadEntry {
+    name: string;
+    utf8Flag: boolean;
+    method: number;
+    crc: number;
+    data: Buffer;
+}
+
+function readZip(archive: Buffer): ReadEntry[] {
+    const endOffset = archive.length - 22;
+    assert.strictEqual(archive.readUInt32LE(endOffset), 0x06054b50, 'end of central directory signature');
+    const count = archive.readUInt16LE(endOffset + 10);
+    const centralSize = archive.readUInt32LE(endOffset + 12);
+    let offset = archive.readUInt32LE(endOffset + 16);
+    assert.strictEqual(offset + centralSize, endOffset, 'central directory ends where the end record starts');
+
+    const entries: ReadEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        assert.strictEqual(archive.readUInt32LE(offset), 0x02014b50, `central header signature #${i}`);
+        const flags = archive.readUInt16LE(offset + 8);
+        const method = archive.readUInt16LE(offset + 10);
+        const crc = archive.readUInt32LE(offset + 16);
+        const compressedSize = archive.readUInt32LE(offset + 20);
+        const size = archive.readUInt32LE(offset + 24);
+        const nameLength = archive.readUInt16LE(offset + 28);
+        const extraLength = archive.readUInt16LE(offset + 30);
+        const commentLength = archive.readUInt16LE(offset + 32);
+        const localOffset = archive.readUInt32LE(offset + 42);
+        const name = archive.subarray(offset + 46, offset + 46 + nameLength);
+
+        assert.strictEqual(archive.readUInt32LE(localOffset), 0x04034b50, `local header signature #${i}`);
+        assert.strictEqual(archive.readUInt16LE(localOffset + 8), method, `local method #${i}`);
+        assert.strictEqual(archive.readUInt32LE(localOffset + 14), crc, `local CRC #${i}`);
+        const localNameLength = archive.readUInt16LE(localOffset + 26);
+        const localExtraLength = archive.readUInt16LE(localOffset + 28);
+        assert.ok(archive.subarray(localOffset + 30, localOffset + 30 + localNameLength).equals(name), `local name #${i}`);
+
+        const bodyStart = localOffset + 30 + localNameLength + localExtraLength;
+        const body = archive.subarray(bodyStart, bodyStart + compressedSize);
+        assert.ok(method === 0 || method === 8, `unsupported method ${method} #${i}`);
+        const data = method === 8 ? zlib.inflateRawSync(body) : Buffer.from(body);
+        assert.strictEqual(data.length, size, `uncompressed size #${i}`);
+
+        entries.push({ name: name.toString('utf8'), utf8Flag: (flags & 0x0800) !== 0, method, crc, data });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+function main(): void {
+    const input: ZipEntry[] = [
+        { name: 'Curator/Plain note (1).md', content: '# Plain\n\nASCII only.\n' },
+        { name: 'Curator/Заметка о смыслах (2).md', content: '# Заметка\n\n' + 'Повторяющийся текст сжимается. '.repeat(200) },
+        { name: 'Curator/日本語 ✓ emoji 🚀 (3).md', content: 'Non-ASCII name, short content' },
+        { name: 'Curator/empty.md', content: '' },
+        { name: 'random.bin', content: crypto.randomBytes(4096) }, // несжимаемое — хранится без deflate
+        { name: 'manifest.json', content: JSON.stringify({ count: 5, total: 5, truncated: false }), modifiedAt: new Date('1970-01-01T00:00:00Z') },
+    ];
+
+    const entries = readZip(createZip(input));
+    assert.strictEqual(entries.length, input.length, 'entry count');
+
+    entries.forEach((entry, i) => {
+        const expected = Buffer.isBuffer(input[i].content) ? input[i].content as Buffer : Buffer.from(input[i].content as string, 'utf8');
+        assert.strictEqual(entry.name, input[i].name, `name #${i}`);
+        assert.ok(entry.utf8Flag, `UTF-8 flag #${i}`);
+        assert.ok(entry.data.equals(expected), `content of ${entry.name}`);
+        assert.strictEqual(entry.crc, zlib.crc32(expected), `CRC-32 of ${entry.name}`);
+    });
+    assert.strictEqual(entries[1].method, 8, 'repetitive text is deflated');
+    assert.strictEqual(entries[4].method, 0, 'random bytes are stored');
+
+    console.log(`✅ zip-writer: ${entries.length} entries round-tripped (names, content, CRC-32)`);
+}
+
+try {
+    main();
+} catch (error: any) {
+    console.error('❌ zip-writer check failed:', error.message);
+    process.exit(1);
+}
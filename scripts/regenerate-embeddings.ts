@@ -1,31 +1,40 @@
 /**
  * Скрипт для перегенерации всех эмбеддингов в базе данных
  * Используется для обновления формата эмбеддингов после изменения логики сохранения
+ * или после смены провайдера эмбеддингов (EMBEDDING_PROVIDER / EMBEDDING_MODEL)
  * 
  * Запуск: npx ts-node scripts/regenerate-embeddings.ts
+ *         npx ts-node scripts/regenerate-embeddings.ts --stale   — только векторы другой модели
+ * С EMBEDDING_PROVIDER=local работает без внешних API.
  */
 
 import dotenv from 'dotenv';
 import sequelize from '../config/database';
 import { QueryTypes } from 'sequelize';
-import { generateEmbedding, saveEmbedding } from '../services/embedding.service';
+import { generateEmbeddingWithModel, saveEmbedding } from '../services/embedding.service';
+import { getEmbeddingModel, getEmbeddingProvider } from '../services/embedding-provider';
 import AnalysisHistory from '../models/AnalysisHistory';
 
 dotenv.config();
 
+const STALE_ONLY = process.argv.includes('--stale');
+
 async function regenerateEmbeddings() {
     try {
-        console.log('🔄 Starting embedding regeneration...');
+        const currentModel = getEmbeddingModel();
+        console.log(`🔄 Starting embedding regeneration (${getEmbeddingProvider()}/${currentModel}${STALE_ONLY ? ', stale only' : ''})...`);
         
-        // Получаем все записи с эмбеддингами
+        // Получаем все записи с эмбеддингами (с --stale — только полученные другой моделью)
         const records = await sequelize.query(`
             SELECT id, url, summary, "userId"
             FROM analysis_history
             WHERE embedding IS NOT NULL
             AND summary IS NOT NULL
             AND summary != ''
+            ${STALE_ONLY ? 'AND embedding_model IS DISTINCT FROM $currentModel' : ''}
             ORDER BY id DESC
         `, {
+            bind: STALE_ONLY ? { currentModel } : undefined,
             type: QueryTypes.SELECT
         }) as Array<{
             id: number;
@@ -59,10 +68,10 @@ async function regenerateEmbeddings() {
                 console.log(`🔄 Regenerating embedding for record ${record.id} (${textForEmbedding.length} chars)...`);
 
                 // Генерируем новый эмбеддинг
-                const embedding = await generateEmbedding(textForEmbedding);
+                const { vector, model, dimension } = await generateEmbeddingWithModel(textForEmbedding);
 
-                // Сохраняем новый эмбеддинг
-                await saveEmbedding(record.id, embedding);
+                // Сохраняем новый эмбеддинг вместе с моделью и размерностью
+                await saveEmbedding(record.id, vector, model, dimension);
 
                 successCount++;
                 console.log(`✅ Successfully regenerated embedding for record ${record.id}`);
@@ -11,6 +11,14 @@ import botRoutes from './routes/bot.routes';
 import relevanceLevelRoutes from './routes/relevance-level.routes';
 import telegramChannelRoutes from './routes/telegram-channel.routes';
 import notificationRoutes from './routes/notification.routes';
+import libraryRoutes from './routes/library.routes';
+import usageRoutes from './routes/usage.routes';
+import apiKeyRoutes from './routes/api-key.routes';
+import webhookRoutes from './routes/webhook.routes';
+import readingListImportRoutes from './routes/reading-list-import.routes';
+import sourceRoutes from './routes/source.routes';
+import digestRoutes from './routes/digest.routes';
+import { llmUsageContextMiddleware } from './middleware/llm-usage.middleware';
 import './models/User';
 import './models/UserInterest';
 import './models/AnalysisHistory';
@@ -23,6 +31,25 @@ import './models/AnalysisStageStats';
 import TelegramChannel from './models/TelegramChannel';
 import TelegramChannelPost from './models/TelegramChannelPost';
 import './models/AppNotification';
+import './models/ContentCache';
+import './models/AnalysisJob';
+import './models/LibraryChatMessage';
+import './models/LlmUsageEvent';
+import './models/LlmUsageDaily';
+import './models/UserSession';
+import './models/ApiKey';
+import './models/Webhook';
+import './models/WebhookDelivery';
+import './models/ReadingListImport';
+import './models/ReadingListImportItem';
+import './models/Source';
+import './models/SourceItem';
+import './models/TelegramSharedPost';
+import './models/TelegramChannelCheck';
+import './models/DigestSubscription';
+import './models/DigestItem';
+import { startWebhookRetryWorker } from './services/webhook.service';
+import { startReadingListImportWorker } from './services/reading-list-import.service';
 import historyCleanupService from './services/history-cleanup.service';
 import { initAnalysisQueue } from './services/analysis-queue.service';
 import { runAnalysisInBackground } from './controllers/analysis.controller';
@@ -30,11 +57,19 @@ import { runAnalysisInBackground } from './controllers/analysis.controller';
 // Устанавливаем связи между моделями после их импорта
 TelegramChannel.hasMany(TelegramChannelPost, { foreignKey: 'channelId', as: 'TelegramChannelPosts' });
 import { startChannelMonitoring } from './services/telegram-channel-monitor.service';
+import { startSourceMonitoring } from './services/source-monitor.service';
+import { startDigestScheduler } from './services/digest-scheduler.service';
 
 dotenv.config();
 
 const app: Application = express();
 
+// За прокси (Railway, nginx) — реальный IP клиента из X-Forwarded-For: нужен для гостевых квот по IP
+if (process.env.TRUST_PROXY) {
+    const trustProxy = process.env.TRUST_PROXY;
+    app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy);
+}
+
 const PORT = parseInt(process.env.PORT || '5000', 10);
 
 // Получаем список разрешенных origin из переменной окружения
@@ -63,7 +98,7 @@ const corsOptions = {
         }
     },
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key'],
     credentials: true, // Разрешаем отправку cookies
     optionsSuccessStatus: 200, // Для старых браузеров
     preflightContinue: false,
@@ -89,6 +124,9 @@ app.use((err: any, req: Request, res: Response, next: any) => {
 // Remove urlencoded parser if it exists, to avoid conflicts
 // app.use(express.urlencoded({ extended: true })); 
 
+// Расход LLM в запросе записывается на пользователя / гостя (llm-usage.service)
+app.use(llmUsageContextMiddleware);
+
 app.use('/api/analysis', analysisRoutes);
 app.use('/api/auth', userRoutes);
 app.use('/api/feedback', feedbackRoutes);
@@ -96,6 +134,13 @@ app.use('/api/bot', botRoutes);
 app.use('/api/relevance-level', relevanceLevelRoutes);
 app.use('/api/telegram-channels', telegramChannelRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/library', libraryRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/imports', readingListImportRoutes);
+app.use('/api/sources', sourceRoutes);
+app.use('/api/digest', digestRoutes);
 
 app.get('/', (req: Request, res: Response) => {
     res.send('API is running...');
@@ -204,6 +249,43 @@ const startServer = async () => {
                 console.warn('⚠️ Could not check/create embedding column:', embeddingError.message);
                 console.log('💡 Embedding column may need to be created manually via SQL');
             }
+
+            // Модель и размерность рядом с вектором: поиск сравнивает только векторы одной модели.
+            // Старые векторы получены через Gemini (gemini-embedding-001, 768 после обрезки).
+            try {
+                await sequelize.query(`
+                    ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+                    ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS embedding_dim INT;
+                    UPDATE analysis_history SET embedding_model = 'gemini-embedding-001', embedding_dim = 768
+                        WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+                `);
+                console.log('✅ Columns embedding_model / embedding_dim exist in analysis_history');
+            } catch (embeddingModelError: any) {
+                console.warn('⚠️ Could not check/add embedding_model column:', embeddingModelError.message);
+                console.warn('💡 Please run the migration script manually: add-embedding-model.sql');
+            }
+
+            // Таблица чанков (эмбеддинги фрагментов длинных статей и транскриптов)
+            try {
+                await sequelize.query(`
+                    CREATE TABLE IF NOT EXISTS analysis_history_chunks (
+                        id SERIAL PRIMARY KEY,
+                        analysis_history_id INT NOT NULL REFERENCES analysis_history(id) ON DELETE CASCADE,
+                        chunk_index INT NOT NULL,
+                        content TEXT NOT NULL,
+                        embedding vector(768) NOT NULL,
+                        embedding_model VARCHAR(100) NOT NULL,
+                        embedding_dim INT NOT NULL,
+                        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+                    );
+                    CREATE INDEX IF NOT EXISTS idx_analysis_history_chunks_history ON analysis_history_chunks(analysis_history_id);
+                    CREATE INDEX IF NOT EXISTS idx_analysis_history_chunks_model ON analysis_history_chunks(embedding_model);
+                `);
+                console.log('✅ Table analysis_history_chunks exists');
+            } catch (chunksError: any) {
+                console.warn('⚠️ Could not create analysis_history_chunks table:', chunksError.message);
+                console.warn('💡 Please run the migration script manually: add-analysis-history-chunks.sql');
+            }
         } catch (syncError: any) {
             // Если ошибка связана с vector индексом - игнорируем (индекс создается вручную)
             if (syncError.message && syncError.message.includes('vector_cosine_ops')) {
@@ -336,6 +418,68 @@ const startServer = async () => {
             console.warn('⚠️ Could not check/add extracted_themes column:', extractedThemesError.message);
         }
         
+        // Проверяем и добавляем колонку extracted_content в analysis_history (контент для ask-question)
+        try {
+            const extractedContentColumns = await sequelize.query(
+                `SELECT column_name FROM information_schema.columns 
+                 WHERE table_name = 'analysis_history' AND column_name = 'extracted_content'`,
+                { type: QueryTypes.SELECT }
+            ) as any[];
+            
+            if (extractedContentColumns.length === 0) {
+                console.log('📊 Adding extracted_content column to analysis_history...');
+                await sequelize.query(`
+                    ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS extracted_content TEXT;
+                `);
+                console.log('✅ Column extracted_content added to analysis_history');
+            } else {
+                console.log('✅ Column extracted_content exists in analysis_history');
+            }
+        } catch (extractedContentError: any) {
+            console.warn('⚠️ Could not check/add extracted_content column:', extractedContentError.message);
+            console.warn('💡 Please run the migration script manually: db/add-extracted-content.sql');
+        }
+
+        // Проверяем и добавляем колонку llm_monthly_token_quota в users (индивидуальная квота LLM)
+        try {
+            const quotaColumns = await sequelize.query(
+                `SELECT column_name FROM information_schema.columns 
+                 WHERE table_name = 'users' AND column_name = 'llm_monthly_token_quota'`,
+                { type: QueryTypes.SELECT }
+            ) as any[];
+            
+            if (quotaColumns.length === 0) {
+                console.log('📊 Adding llm_monthly_token_quota column to users...');
+                await sequelize.query(`
+                    ALTER TABLE users ADD COLUMN IF NOT EXISTS llm_monthly_token_quota INT NULL;
+                `);
+                console.log('✅ Column llm_monthly_token_quota added to users');
+            } else {
+                console.log('✅ Column llm_monthly_token_quota exists in users');
+            }
+        } catch (quotaColumnError: any) {
+            console.warn('⚠️ Could not check/add llm_monthly_token_quota column:', quotaColumnError.message);
+            console.warn('💡 Please run the migration script manually: db/add-llm-usage.sql');
+        }
+        
+        // Полнотекстовый индекс истории (GET /api/analysis/history/search): генерируемая колонка search_vector + GIN
+        try {
+            await sequelize.query(`
+                ALTER TABLE analysis_history ADD COLUMN IF NOT EXISTS search_vector tsvector
+                    GENERATED ALWAYS AS (
+                        setweight(to_tsvector('russian', COALESCE(summary, '')), 'A') ||
+                        setweight(to_tsvector('russian', COALESCE(extracted_themes, '')), 'A') ||
+                        setweight(to_tsvector('russian', COALESCE(reasoning, '')), 'B') ||
+                        setweight(to_tsvector('russian', COALESCE(original_text, '')), 'C')
+                    ) STORED;
+                CREATE INDEX IF NOT EXISTS idx_analysis_history_search_vector ON analysis_history USING GIN (search_vector);
+            `);
+            console.log('✅ Column search_vector exists in analysis_history');
+        } catch (searchVectorError: any) {
+            console.warn('⚠️ Could not check/add search_vector column:', searchVectorError.message);
+            console.warn('💡 Please run the migration script manually: add-history-search.sql');
+        }
+        
         // Проверяем и создаем таблицу qa_history если её нет
         const hasQAHistoryTable = tables.includes('qa_history');
         if (!hasQAHistoryTable) {
@@ -436,6 +580,58 @@ const startServer = async () => {
             console.warn('💡 Please run the migration script manually: add-password-reset-fields.sql');
         }
         
+        // Отзыв старых токенов без sid (выход со всех устройств, сброс пароля) — без колонки не работают запросы User
+        try {
+            await sequelize.query(`
+                ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMP WITH TIME ZONE NULL;
+            `);
+            console.log('✅ Column sessions_revoked_at exists in users');
+        } catch (sessionsRevokedError: any) {
+            console.warn('⚠️ Could not check/add sessions_revoked_at column:', sessionsRevokedError.message);
+            console.warn('💡 Please run the migration script manually: db/add-user-sessions-revoked-at.sql');
+        }
+
+        // Настройки мониторинга Telegram-каналов: порог, лимит постов, фильтры, тихие часы; репосты в общем сторе постов
+        try {
+            await sequelize.query(`
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS min_score INT NULL;
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS max_posts_per_check INT NULL;
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS filters JSONB NOT NULL DEFAULT '{}';
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS quiet_hours JSONB NULL;
+                ALTER TABLE telegram_shared_posts ADD COLUMN IF NOT EXISTS is_repost BOOLEAN NOT NULL DEFAULT FALSE;
+            `);
+            console.log('✅ Channel filter columns exist in telegram_channels');
+        } catch (channelFiltersError: any) {
+            console.warn('⚠️ Could not check/add telegram channel filter columns:', channelFiltersError.message);
+            console.warn('💡 Please run the migration script manually: db/add-telegram-channel-filters.sql');
+        }
+
+        // Расписание проверки Telegram-каналов и задержка после ошибок (журнал проверок создаёт sync)
+        try {
+            await sequelize.query(`
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS schedule JSONB NULL;
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMP WITH TIME ZONE NULL;
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS consecutive_failures INT NOT NULL DEFAULT 0;
+                ALTER TABLE telegram_channels ADD COLUMN IF NOT EXISTS last_error TEXT NULL;
+                CREATE INDEX IF NOT EXISTS telegram_channels_is_active_next_check_at ON telegram_channels(is_active, next_check_at);
+            `);
+            console.log('✅ Channel schedule columns exist in telegram_channels');
+        } catch (channelScheduleError: any) {
+            console.warn('⚠️ Could not check/add telegram channel schedule columns:', channelScheduleError.message);
+            console.warn('💡 Please run the migration script manually: db/add-telegram-channel-schedules.sql');
+        }
+
+        // Счётчик повторных попыток подготовки общих постов после временных сбоев
+        try {
+            await sequelize.query(`
+                ALTER TABLE telegram_shared_posts ADD COLUMN IF NOT EXISTS prepare_attempts INT NOT NULL DEFAULT 0;
+            `);
+            console.log('✅ Column prepare_attempts exists in telegram_shared_posts');
+        } catch (prepareAttemptsError: any) {
+            console.warn('⚠️ Could not check/add prepare_attempts column:', prepareAttemptsError.message);
+            console.warn('💡 Please run the migration script manually: db/add-telegram-shared-post-attempts.sql');
+        }
+
         dbConnected = true;
     } catch (error: any) {
         console.error('❌ Database connection/sync error:', error.message);
@@ -448,7 +644,7 @@ const startServer = async () => {
     }
 
     // Инициализируем очередь анализа (Bull + Redis) для параллельной обработки нескольких пользователей
-    initAnalysisQueue((data) => runAnalysisInBackground(data.jobId, data.urlInput, data.interests, data.analysisMode, data.userId));
+    initAnalysisQueue((data) => runAnalysisInBackground(data.jobId, data.urlInput, data.interests, data.analysisMode, data.userId, data.forceRefresh, data.usage));
 
     // Запускаем сервер независимо от результата подключения к БД
     const server = app.listen(PORT, '0.0.0.0', () => {
@@ -466,17 +662,41 @@ const startServer = async () => {
             console.log(`🔄 Starting periodic history cleanup (every ${cleanupIntervalHours} hours)...`);
             historyCleanupService.startPeriodicCleanup(cleanupIntervalHours);
 
+            // Повторы неудачных доставок вебхуков
+            startWebhookRetryWorker();
+
+            // Импорт списков чтения: по одной ссылке с паузой, продолжается после перезапуска
+            startReadingListImportWorker();
+
             // Запускаем мониторинг Telegram-каналов
-            const channelCheckIntervalHours = parseInt(process.env.TELEGRAM_CHANNEL_CHECK_INTERVAL_HOURS || '4', 10);
+            // Прежняя настройка TELEGRAM_CHANNEL_CHECK_INTERVAL_HOURS учитывается, если новая не задана (часы → минуты, не больше 59)
+            const legacyChannelCheckIntervalHours = parseFloat(process.env.TELEGRAM_CHANNEL_CHECK_INTERVAL_HOURS || '');
+            let channelCheckIntervalMinutes = parseInt(process.env.TELEGRAM_CHANNEL_MONITOR_INTERVAL_MINUTES || '15', 10);
+            if (!process.env.TELEGRAM_CHANNEL_MONITOR_INTERVAL_MINUTES && legacyChannelCheckIntervalHours > 0) {
+                channelCheckIntervalMinutes = Math.min(Math.round(legacyChannelCheckIntervalHours * 60), 59);
+                console.warn(`⚠️ TELEGRAM_CHANNEL_CHECK_INTERVAL_HOURS is deprecated, use TELEGRAM_CHANNEL_MONITOR_INTERVAL_MINUTES (using ${channelCheckIntervalMinutes} minutes)`);
+            }
             const enableChannelMonitoring = process.env.ENABLE_TELEGRAM_CHANNEL_MONITORING === 'true';
             if (enableChannelMonitoring) {
-                console.log(`📢 Starting Telegram channel monitoring (every ${channelCheckIntervalHours} hours)...`);
-                startChannelMonitoring(channelCheckIntervalHours);
+                console.log(`📢 Starting Telegram channel monitoring (every ${channelCheckIntervalMinutes} minutes)...`);
+                startChannelMonitoring(channelCheckIntervalMinutes);
             } else {
                 console.log('⏭️ Telegram channel monitoring disabled (ENABLE_TELEGRAM_CHANNEL_MONITORING!=true)');
             }
+
+            // Мониторинг источников подписки: RSS/Atom, YouTube, Telegram, Twitter/X
+            const sourceCheckIntervalMinutes = parseInt(process.env.SOURCE_MONITOR_INTERVAL_MINUTES || '30', 10);
+            if (process.env.ENABLE_SOURCE_MONITORING === 'true') {
+                console.log(`📡 Starting source monitoring (every ${sourceCheckIntervalMinutes} minutes)...`);
+                startSourceMonitoring(sourceCheckIntervalMinutes);
+            } else {
+                console.log('⏭️ Source monitoring disabled (ENABLE_SOURCE_MONITORING!=true)');
+            }
+
+            // Персональные дайджесты по расписанию пользователей
+            startDigestScheduler();
         } else {
-            console.warn('⏭️ Skipping history cleanup and channel monitoring: database not connected');
+            console.warn('⏭️ Skipping history cleanup, webhook retries, reading list imports, channel and source monitoring, digests: database not connected');
         }
     });
     
@@ -1,6 +1,6 @@
 import { generateEmbedding, findSimilarArticles } from './embedding.service';
-import { traceGeneration } from '../observability/langfuse-helpers';
-import { generateCompletion, getProvider, getModelForRequest } from './llm-provider';
+import { generateCompletion, getProvider, getModelForTask } from './llm-provider';
+import { generateStructuredCompletion, StructuredOutputSchema, LLM_OUTPUT_INVALID } from './llm-structured';
 
 const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
 const IS_DEBUG = LOG_LEVEL === 'debug';
@@ -27,8 +27,31 @@ export interface AnalysisResult {
     reasoning: string;
 }
 
+// Схема ответа analyzeContent: нативный structured output провайдера и проверка ответа (llm-structured.ts)
+const ANALYSIS_RESULT_SCHEMA: StructuredOutputSchema<AnalysisResult> = {
+    name: 'analysis_result',
+    schema: {
+        type: 'object',
+        properties: {
+            score: { type: 'integer', minimum: 0, maximum: 100 },
+            verdict: { type: 'string', enum: ['Полезно', 'Нейтрально', 'Не трать время'] },
+            summary: { type: 'string', minLength: 1 },
+            reasoning: { type: 'string', minLength: 1 },
+        },
+        required: ['score', 'verdict', 'summary', 'reasoning'],
+    },
+};
+
 const MAX_CONTENT_LENGTH = 500000; // Максимальная длина контента для анализа
 
+const MAX_PASSAGE_LENGTH = 600;
+
+/** Фрагмент статьи для цитаты в промпте */
+function truncatePassage(passage: string): string {
+    const clean = passage.replace(/\s+/g, ' ').trim();
+    return clean.length > MAX_PASSAGE_LENGTH ? clean.substring(0, MAX_PASSAGE_LENGTH) + '...' : clean;
+}
+
 /**
  * Получает RAG контекст из похожих статей пользователя
  * Используется для улучшения анализа за счет истории пользователя
@@ -83,11 +106,11 @@ ${similarArticles.map((article, idx) => {
 ${idx + 1}. URL: ${article.url}
    Похожесть: ${similarityPercent}%
    Саммари: ${article.summary || 'Нет саммари'}
-`;
+${article.passage ? `   Наиболее похожий фрагмент: «${truncatePassage(article.passage)}»\n` : ''}`;
         }).join('')}
 
 **ВАЖНО - ИСПОЛЬЗОВАНИЕ КОНТЕКСТА:**
-- Эти статьи похожи на анализируемую статью по смыслу (семантическая схожесть ${Math.round(similarArticles[0].similarity * 100)}%+)
+- Эти статьи похожи на анализируемую статью по смыслу; фрагмент — абзац из прочитанной статьи, наиболее близкий к текущей (семантическая схожесть ${Math.round(similarArticles[0].similarity * 100)}%+)
 - Используй эту информацию для более точной оценки: если статья похожа на те, что пользователь читал ранее, это может быть хорошим признаком релевантности
 - Учитывай, что пользователь уже знаком с похожими темами - это может влиять на оценку сложности и полезности
 - Если похожие статьи были оценены высоко (из истории обратной связи), это может указывать на релевантность текущей статьи
@@ -325,9 +348,9 @@ ${feedbackContext}${ragContext}
    - Если контент релевантен ТЕКУЩИМ интересам, даже если был старый негативный feedback - ставь соответствующую оценку` : ''}`;
 
     
-    // Выбор модели через единый провайдер (Gemini, DeepSeek или OpenRouter)
+    // Выбор модели через единый провайдер (Gemini, DeepSeek, OpenRouter или OpenAI-совместимый сервер)
     const provider = getProvider();
-    const aiModel = getModelForRequest();
+    const aiModel = getModelForTask('analysis');
 
     // Gemini требует JSON в промпте, а не через response_format
     const jsonPrompt = `${userPrompt}
@@ -341,7 +364,7 @@ ${feedbackContext}${ragContext}
 }`;
 
     try {
-        const providerLabel = provider === 'openrouter' ? 'OpenRouter' : provider === 'deepseek' ? 'DeepSeek' : 'Google Gemini - FREE';
+        const providerLabel = provider === 'mock' ? 'Mock (offline)' : provider === 'openai-compatible' ? 'OpenAI-compatible (self-hosted)' : provider === 'openrouter' ? 'OpenRouter' : provider === 'deepseek' ? 'DeepSeek' : 'Google Gemini - FREE';
         console.log(`🤖 Using AI model: ${aiModel} (${providerLabel})`);
         if (IS_DEBUG) {
             console.log(`📊 Content length: ${processedContent.length} chars (${Math.round(processedContent.length / 4)} estimated tokens)`);
@@ -390,259 +413,12 @@ ${feedbackContext}${ragContext}
             console.log('Sending request to AI API...');
         }
         
-        const timeoutPromise = new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('Request timed out.')), 120000)
-        );
-        const completionPromise = traceGeneration(
-            'gemini-generateContent',
-            aiModel,
-            (systemInstruction + '\n\n' + jsonPrompt).slice(0, 5000),
-            () => generateCompletion(systemInstruction, jsonPrompt, { modelName: aiModel })
-        );
-        const result = await Promise.race([completionPromise, timeoutPromise]) as { text: string };
-        const rawResponse = result.text;
-
-        if (!rawResponse) {
-            console.error('❌ AI response content is empty');
-            console.error('Full result structure:', JSON.stringify(result, null, 2));
-            throw new Error('AI response is empty.');
-        }
-
-        if (process.env.LOG_LEVEL === 'debug') {
-            console.log('Raw AI response length:', rawResponse.length);
-            console.log('Raw AI response (first 500 chars):', rawResponse.substring(0, 500));
-            if (rawResponse.length > 500) {
-                console.log('Raw AI response (last 200 chars):', rawResponse.substring(rawResponse.length - 200));
-            }
-        }
-        
-        // Очистка от markdown разметки (```json ... ```)
-        let cleanedResponse = rawResponse.trim();
-        
-        // Удаляем ```json в начале
-        if (cleanedResponse.startsWith('```json')) {
-            cleanedResponse = cleanedResponse.replace(/^```json\s*/i, '');
-        } else if (cleanedResponse.startsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/^```\s*/, '');
-        }
-        
-        // Удаляем ``` в конце
-        if (cleanedResponse.endsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/\s*```$/, '');
-        }
-        
-        // Удаляем лишние пробелы и переносы строк
-        cleanedResponse = cleanedResponse.trim();
-        
-        // Более надежное извлечение JSON: находим первый { и последний }
-        const firstBrace = cleanedResponse.indexOf('{');
-        const lastBrace = cleanedResponse.lastIndexOf('}');
-        
-        if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-            cleanedResponse = cleanedResponse.substring(firstBrace, lastBrace + 1);
-        } else if (firstBrace === -1 || lastBrace === -1) {
-            console.warn('⚠️ Could not find JSON braces in response, trying to extract anyway...');
-        }
-        
-        // Дополнительная очистка: удаляем все символы перед первым { и после последнего }
-        cleanedResponse = cleanedResponse.trim();
-        
-        if (process.env.LOG_LEVEL === 'debug') {
-            console.log('Cleaned response (first 300 chars):', cleanedResponse.substring(0, 300) + '...');
-            console.log('Cleaned response length:', cleanedResponse.length);
-        }
-        
-        let parsedResponse: AnalysisResult;
-        try {
-            parsedResponse = JSON.parse(cleanedResponse);
-        } catch (parseError: any) {
-            console.error('JSON parse error:', parseError.message);
-            console.error('Failed to parse response (first 1000 chars):', cleanedResponse.substring(0, 1000));
-            console.error('Response length:', cleanedResponse.length);
-            
-            // Попытка исправить распространенные проблемы с JSON
-            let fixedResponse = cleanedResponse;
-            
-            // Удаляем лишние запятые перед закрывающими скобками
-            fixedResponse = fixedResponse.replace(/,(\s*[}\]])/g, '$1');
-            
-            // ИСПРАВЛЕНИЕ: Надежное экранирование управляющих символов в JSON строках
-            // Используем пошаговый парсинг для правильной обработки всех строковых значений
-            try {
-                // Метод 1: Исправляем управляющие символы через посимвольный парсинг JSON структуры
-                let result = '';
-                let inString = false;
-                let escapeNext = false;
-                let stringStart = -1;
-                
-                for (let i = 0; i < fixedResponse.length; i++) {
-                    const char = fixedResponse[i];
-                    const code = char.charCodeAt(0);
-                    
-                    if (escapeNext) {
-                        // Предыдущий символ был обратным слэшем - пропускаем экранирование
-                        result += char;
-                        escapeNext = false;
-                        continue;
-                    }
-                    
-                    if (char === '\\') {
-                        escapeNext = true;
-                        result += char;
-                        continue;
-                    }
-                    
-                    if (char === '"' && (i === 0 || fixedResponse[i - 1] !== '\\')) {
-                        // Начало или конец строки
-                        if (!inString) {
-                            inString = true;
-                            stringStart = result.length;
-                        } else {
-                            inString = false;
-                            stringStart = -1;
-                        }
-                        result += char;
-                        continue;
-                    }
-                    
-                    if (inString) {
-                        // Мы внутри строкового значения - проверяем управляющие символы
-                        if (code >= 0x00 && code <= 0x1F) {
-                            // Управляющий символ - экранируем его
-                            if (code === 0x0A) { // \n
-                                result += '\\n';
-                            } else if (code === 0x0D) { // \r
-                                result += '\\r';
-                            } else if (code === 0x09) { // \t
-                                result += '\\t';
-                            } else if (code === 0x08) { // \b
-                                result += '\\b';
-                            } else if (code === 0x0C) { // \f
-                                result += '\\f';
-                            } else {
-                                // Другие управляющие символы - экранируем как \uXXXX
-                                result += `\\u${code.toString(16).padStart(4, '0')}`;
-                            }
-                        } else {
-                            result += char;
-                        }
-                    } else {
-                        result += char;
-                    }
-                }
-                
-                fixedResponse = result;
-            } catch (parseError) {
-                // Если посимвольный парсинг не сработал, пробуем regex метод
-                console.warn('⚠️ Character-by-character parsing failed, trying regex method...');
-                
-                // Метод 2: Regex для исправления управляющих символов в строках
-                // Используем более точный regex, который учитывает экранированные символы
-                fixedResponse = fixedResponse.replace(/"((?:[^"\\]|\\.)*)"/g, (match, content) => {
-                    // Проверяем наличие неэкранированных управляющих символов
-                    let fixedContent = '';
-                    let escapeNext = false;
-                    
-                    for (let i = 0; i < content.length; i++) {
-                        const char = content[i];
-                        const code = char.charCodeAt(0);
-                        
-                        if (escapeNext) {
-                            fixedContent += char;
-                            escapeNext = false;
-                            continue;
-                        }
-                        
-                        if (char === '\\') {
-                            escapeNext = true;
-                            fixedContent += char;
-                            continue;
-                        }
-                        
-                        // Если это управляющий символ и не экранирован
-                        if (code >= 0x00 && code <= 0x1F) {
-                            if (code === 0x0A) {
-                                fixedContent += '\\n';
-                            } else if (code === 0x0D) {
-                                fixedContent += '\\r';
-                            } else if (code === 0x09) {
-                                fixedContent += '\\t';
-                            } else if (code === 0x08) {
-                                fixedContent += '\\b';
-                            } else if (code === 0x0C) {
-                                fixedContent += '\\f';
-                            } else {
-                                fixedContent += `\\u${code.toString(16).padStart(4, '0')}`;
-                            }
-                        } else {
-                            fixedContent += char;
-                        }
-                    }
-                    
-                    return `"${fixedContent}"`;
-                });
-            }
-            
-            // Пытаемся найти и исправить неэкранированные кавычки в строках
-            // Заменяем одиночные кавычки внутри строк на экранированные
-            fixedResponse = fixedResponse.replace(/"([^"]*)"([^"]*)"([^"]*)"/g, (match, p1, p2, p3) => {
-                if (p2.includes('"') && !p2.includes('\\"')) {
-                    return `"${p1}\\"${p2.replace(/"/g, '\\"')}\\"${p3}"`;
-                }
-                return match;
-            });
-            
-            try {
-                parsedResponse = JSON.parse(fixedResponse);
-                console.log('✓ Successfully parsed after fixing common JSON issues');
-            } catch (secondError: any) {
-                // Попытка извлечь хотя бы частичную информацию из ответа
-                console.warn('⚠️ Attempting to extract partial information from malformed JSON...');
-                const partialData: Partial<AnalysisResult> = {};
-                
-                // Пытаемся извлечь score
-                const scoreMatch = cleanedResponse.match(/"score"\s*:\s*(\d+)/);
-                if (scoreMatch) {
-                    partialData.score = parseInt(scoreMatch[1], 10);
-                }
-                
-                // Пытаемся извлечь verdict
-                const verdictMatch = cleanedResponse.match(/"verdict"\s*:\s*"([^"]+)"/);
-                if (verdictMatch) {
-                    partialData.verdict = verdictMatch[1];
-                }
-                
-                // Пытаемся извлечь summary (более сложно из-за возможных переносов строк)
-                const summaryMatch = cleanedResponse.match(/"summary"\s*:\s*"((?:[^"\\]|\\.|\\n)*)"/);
-                if (summaryMatch) {
-                    partialData.summary = summaryMatch[1].replace(/\\n/g, ' ').replace(/\\"/g, '"');
-                }
-                
-                // Пытаемся извлечь reasoning
-                const reasoningMatch = cleanedResponse.match(/"reasoning"\s*:\s*"((?:[^"\\]|\\.|\\n)*)"/);
-                if (reasoningMatch) {
-                    partialData.reasoning = reasoningMatch[1].replace(/\\n/g, ' ').replace(/\\"/g, '"');
-                }
-                
-                // Если удалось извлечь хотя бы часть данных, используем их
-                if (partialData.score !== undefined && partialData.verdict && partialData.summary && partialData.reasoning) {
-                    console.log('✓ Successfully extracted partial information from malformed JSON');
-                    parsedResponse = partialData as AnalysisResult;
-                } else {
-                    console.error('❌ Could not extract sufficient information from malformed JSON');
-                    throw new Error(`Failed to parse JSON response: ${parseError.message}. Second attempt: ${secondError.message}`);
-                }
-            }
-        }
-
-        // Более строгая валидация ответа
-        if (typeof parsedResponse.score !== 'number' || 
-            typeof parsedResponse.verdict !== 'string' ||
-            typeof parsedResponse.summary !== 'string' ||
-            typeof parsedResponse.reasoning !== 'string') {
-            console.error('AI response missing required fields:', parsedResponse);
-            throw new Error('AI response is missing required fields.');
-        }
+        const parsedResponse = await generateStructuredCompletion(systemInstruction, jsonPrompt, ANALYSIS_RESULT_SCHEMA, {
+            modelName: aiModel,
+            traceName: 'gemini-generateContent',
+            task: 'analysis',
+            timeoutMs: 120000,
+        });
 
         // Проверяем, что саммари не слишком короткое
         if (parsedResponse.summary.trim().length < 10) {
@@ -721,6 +497,9 @@ ${feedbackContext}${ragContext}
             if (getProvider() === 'openrouter') {
                 console.error('   OpenRouter: use AI_MODEL e.g. openrouter/free or openrouter/google/gemini-2.0-flash-001');
                 console.error('   Set OPENROUTER_API_KEY in .env. Models: https://openrouter.ai/models');
+            } else if (getProvider() === 'openai-compatible') {
+                console.error(`   OpenAI-compatible server ${process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1'} has no model "${aiModel}".`);
+                console.error('   Pull/load the model on the server (e.g. ollama pull llama3.1) or set AI_MODEL / AI_MODEL_ANALYSIS in .env');
             } else if (getProvider() === 'deepseek') {
                 console.error('   DeepSeek models: deepseek-chat, deepseek-reasoner');
                 console.error('   Set AI_MODEL=deepseek-chat (or deepseek-reasoner) and DEEPSEEK_API_KEY in .env');
@@ -731,7 +510,7 @@ ${feedbackContext}${ragContext}
                 console.error('   - gemini-pro (legacy, up to 32k tokens)');
                 console.error('   Set AI_MODEL=gemini-2.5-flash and GEMINI_API_KEY in .env');
             }
-            const modelHint = getProvider() === 'openrouter' ? 'Используйте openrouter/free или другую модель с openrouter.ai. Задайте OPENROUTER_API_KEY в .env' : getProvider() === 'deepseek' ? 'Используйте deepseek-chat. Задайте DEEPSEEK_API_KEY в .env' : 'Используйте gemini-2.5-flash или gemini-1.5-pro. Задайте GEMINI_API_KEY в .env';
+            const modelHint = getProvider() === 'openrouter' ? 'Используйте openrouter/free или другую модель с openrouter.ai. Задайте OPENROUTER_API_KEY в .env' : getProvider() === 'openai-compatible' ? 'Загрузите модель на self-hosted сервер или задайте AI_MODEL в .env' : getProvider() === 'deepseek' ? 'Используйте deepseek-chat. Задайте DEEPSEEK_API_KEY в .env' : 'Используйте gemini-2.5-flash или gemini-1.5-pro. Задайте GEMINI_API_KEY в .env';
             throw new Error(`Модель "${aiModel}" недоступна. ${modelHint}`);
         }
         
@@ -812,32 +591,9 @@ ${feedbackContext}${ragContext}
             throw new Error(`Контент слишком длинный для модели ${aiModel}. Gemini 1.5 поддерживает до 1M токенов на запрос. Текущий размер: ${processedContent.length} символов (~${Math.round(processedContent.length / 4)} токенов).`);
         }
         
-        // Fallback для ошибок парсинга JSON и структуры ответа
-        if (error.message && (error.message.includes('Failed to parse JSON') || 
-            error.message.includes('Cannot read properties') || 
-            error.message.includes('undefined') ||
-            error.message.includes('invalid structure') ||
-            error.message.includes('response without choices'))) {
-            console.log('⚠️ Using fallback response due to JSON parsing or structure error');
-            console.error('Error details:', error.message);
-            console.error('Error stack:', error.stack);
-            return {
-                score: 50,
-                verdict: 'Нейтрально',
-                summary: 'Не удалось корректно обработать ответ AI-сервиса. Контент требует ручной проверки.',
-                reasoning: 'AI-сервис вернул ответ в неожиданном формате. Рекомендуется проверить контент вручную.'
-            };
-        }
-        
-        // Fallback response для различных типов ошибок
-        if (error.message && error.message.includes('AI response is missing required fields')) {
-            console.log('⚠️ Using fallback response due to incomplete AI response');
-            return {
-                score: 50,
-                verdict: 'Нейтрально',
-                summary: 'Не удалось получить полное саммари от AI-сервиса. Контент требует ручной проверки.',
-                reasoning: 'AI-сервис вернул неполный ответ. Рекомендуется проверить контент вручную.'
-            };
+        // Ответ не прошёл проверку схемой даже после repair-запросов — не подставляем оценку по умолчанию
+        if (error.message === LLM_OUTPUT_INVALID) {
+            throw new Error('AI-сервис вернул ответ в неожиданном формате даже после повторных запросов. Попробуйте повторить анализ позже или выбрать другую модель.');
         }
         
         // Fallback для таймаутов и сетевых ошибок
@@ -858,13 +614,21 @@ ${feedbackContext}${ragContext}
 /** Максимальная длина контента для Q&A (чтобы не превысить лимиты токенов) */
 const MAX_CONTENT_LENGTH_QA = 100000;
 
+/** Максимальная длина одного предыдущего ответа в контексте беседы */
+const MAX_QA_TURN_ANSWER_LENGTH = 1500;
+
 /**
  * Отвечает на вопрос пользователя на основе контента (транскрипт видео, текст статьи и т.д.)
  * @param content - Полный контент (транскрипт, текст статьи)
  * @param question - Вопрос пользователя
+ * @param conversation - Предыдущие вопросы и ответы по этому контенту (старые первыми) — для уточняющих вопросов
  * @returns Ответ AI на вопрос
  */
-export async function answerQuestionAboutContent(content: string, question: string): Promise<string> {
+export async function answerQuestionAboutContent(
+    content: string,
+    question: string,
+    conversation: Array<{ question: string; answer: string }> = []
+): Promise<string> {
     if (!content || !question) {
         throw new Error('Контент и вопрос обязательны');
     }
@@ -890,17 +654,31 @@ export async function answerQuestionAboutContent(content: string, question: stri
 - Не используй markdown в ответе.
 - Структурируй ответ: сначала краткий ответ (да/нет или основная мысль), потом объяснение с примерами из контента.
 - Если в контенте есть частичная информация — используй её и объясни, что именно можно сказать на основе имеющихся данных.
-- Всегда используй правильные названия технологий, языков программирования и инструментов (C++, C#, DirectX, Unity, Unreal Engine и т.д.).`;
+- Всегда используй правильные названия технологий, языков программирования и инструментов (C++, C#, DirectX, Unity, Unreal Engine и т.д.).
+- Если есть предыдущие вопросы и ответы — учитывай их: новый вопрос может ссылаться на них ("а второй подход?", "подробнее об этом").`;
+
+    const conversationBlock = conversation.length > 0
+        ? `
+
+---
+ПРЕДЫДУЩИЕ ВОПРОСЫ И ОТВЕТЫ:
+${conversation.map((turn) => {
+            const answer = turn.answer.length > MAX_QA_TURN_ANSWER_LENGTH
+                ? turn.answer.substring(0, MAX_QA_TURN_ANSWER_LENGTH) + '...'
+                : turn.answer;
+            return `Вопрос: ${turn.question}\nОтвет: ${answer}`;
+        }).join('\n\n')}`
+        : '';
 
     const userPrompt = `КОНТЕНТ:
-${truncatedContent}
+${truncatedContent}${conversationBlock}
 
 ---
 ВОПРОС ПОЛЬЗОВАТЕЛЯ: ${question}
 
 ОТВЕТ:`;
 
-    const result = await generateCompletion(systemInstruction, userPrompt, { modelName: getModelForRequest() });
+    const result = await generateCompletion(systemInstruction, userPrompt, { modelName: getModelForTask('qa'), task: 'qa' });
     const rawResponse = (result?.text ?? '').trim();
     return rawResponse || 'Не удалось получить ответ.';
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * Шина событий задач анализа (для SSE GET /api/analysis/stream/:jobId).
+ * При заданном REDIS_URL события идут через Redis pub/sub — подписчик получит их, даже если задачу
+ * выполняет другой инстанс (воркер Bull). Без Redis — локальный EventEmitter.
+ */
+
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+
+const CHANNEL_PREFIX = 'analysis:events:';
+
+export type AnalysisEventType = 'status' | 'stage' | 'item' | 'complete' | 'error';
+
+export interface AnalysisEvent {
+    type: AnalysisEventType;
+    jobId: string;
+    timestamp: number;
+    data: any;
+}
+
+export type AnalysisEventListener = (event: AnalysisEvent) => void;
+
+const localBus = new EventEmitter();
+localBus.setMaxListeners(0);
+
+let publisher: Redis | null = null;
+let subscriber: Redis | null = null;
+
+function initRedis(): void {
+    if (publisher || !process.env.REDIS_URL) return;
+    try {
+        publisher = new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 2 });
+        publisher.on('error', () => {});
+        subscriber = new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 2 });
+        subscriber.on('error', () => {});
+        subscriber.psubscribe(CHANNEL_PREFIX + '*').catch(() => {});
+        subscriber.on('pmessage', (_pattern: string, channel: string, message: string) => {
+            try {
+                const event = JSON.parse(message) as AnalysisEvent;
+                localBus.emit(channel.substring(CHANNEL_PREFIX.length), event);
+            } catch (_) {}
+        });
+    } catch {
+        publisher = null;
+        subscriber = null;
+    }
+}
+
+/**
+ * Публикует событие задачи. Через Redis — если соединение готово, иначе только локально
+ * (при публикации через Redis локальные подписчики получат событие через pmessage).
+ */
+export function publishAnalysisEvent(jobId: string, type: AnalysisEventType, data: any): void {
+    initRedis();
+    const event: AnalysisEvent = { type, jobId, timestamp: Date.now(), data };
+    if (publisher && publisher.status === 'ready' && subscriber && subscriber.status === 'ready') {
+        publisher.publish(CHANNEL_PREFIX + jobId, JSON.stringify(event)).catch(() => localBus.emit(jobId, event));
+        return;
+    }
+    localBus.emit(jobId, event);
+}
+
+/**
+ * Подписка на события задачи. Возвращает функцию отписки.
+ */
+export function subscribeToAnalysisEvents(jobId: string, listener: AnalysisEventListener): () => void {
+    initRedis();
+    localBus.on(jobId, listener);
+    return () => {
+        localBus.off(jobId, listener);
+    };
+}
@@ -0,0 +1,106 @@
+/**
+ * Сохранение задач анализа авторизованных пользователей в БД (таблица analysis_jobs).
+ * Состояние в Redis / памяти живёт час и доступно только по jobId; запись в БД позволяет
+ * вебу и боту найти свои задачи после закрытия вкладки или переподключения (GET /api/analysis/jobs).
+ */
+
+import AnalysisJob from '../models/AnalysisJob';
+import type { AnalysisJobState } from './analysis-job-store.service';
+
+const RUNNING_STATUSES = ['pending', 'in_progress'];
+
+// Последнее сохранённое «статус:элементы» по jobId — стадии и прогресс внутри элемента в БД не пишем
+const lastPersisted = new Map<string, string>();
+// Записи по одной задаче выполняются последовательно, чтобы pending и in_progress не создали строку дважды
+const writeChains = new Map<string, Promise<void>>();
+
+function countItems(state: AnalysisJobState) {
+    const results = (state.results || []).filter(Boolean);
+    const itemsFailed = results.filter((r: any) => r.error === true).length;
+    return {
+        itemsCompleted: results.length - itemsFailed,
+        itemsFailed,
+        itemsTotal: Math.max(state.itemsTotal || 0, results.length + (state.pendingItems?.length || 0)),
+    };
+}
+
+function collectHistoryIds(state: AnalysisJobState): number[] {
+    const ids = (state.results || [])
+        .map((r: any) => r?.analysisHistoryId)
+        .filter((id: any): id is number => typeof id === 'number');
+    return Array.from(new Set(ids));
+}
+
+/**
+ * Сохраняет состояние задачи, если у неё есть владелец и изменился статус или число результатов.
+ * Ошибки БД не прерывают анализ.
+ */
+export function persistAnalysisJob(jobId: string, state: AnalysisJobState): void {
+    if (!state.userId) return;
+    const counts = countItems(state);
+    const signature = `${state.status}:${counts.itemsCompleted}:${counts.itemsFailed}:${counts.itemsTotal}`;
+    if (lastPersisted.get(jobId) === signature) return;
+    lastPersisted.set(jobId, signature);
+
+    const now = new Date();
+    const isRunning = RUNNING_STATUSES.includes(state.status);
+    if (!isRunning) lastPersisted.delete(jobId);
+
+    const write = async () => {
+        const existing = await AnalysisJob.findByPk(jobId);
+        const values = {
+            status: state.status,
+            ...counts,
+            historyIds: collectHistoryIds(state),
+            error: state.error ?? null,
+            startedAt: existing?.startedAt ?? (state.status === 'in_progress' ? now : null),
+            finishedAt: isRunning ? null : now,
+        };
+        if (existing) {
+            await existing.update(values);
+        } else {
+            await AnalysisJob.create({
+                id: jobId,
+                userId: state.userId!,
+                request: state.request ?? null,
+                retryOf: state.retryOf ?? null,
+                ...values,
+            });
+        }
+    };
+
+    const chain = (writeChains.get(jobId) || Promise.resolve())
+        .then(write)
+        .catch((error: any) => {
+            console.warn(`⚠️ [Analysis Jobs] Could not persist job ${jobId}: ${error.message}`);
+        })
+        .finally(() => {
+            if (writeChains.get(jobId) === chain) writeChains.delete(jobId);
+        });
+    writeChains.set(jobId, chain);
+}
+
+export async function getPersistedAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+    try {
+        return await AnalysisJob.findByPk(jobId);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Последние задачи пользователя (новые первыми). running=true — только pending / in_progress.
+ */
+export async function listUserAnalysisJobs(userId: number, options: { limit?: number; running?: boolean } = {}): Promise<AnalysisJob[]> {
+    const where: any = { userId };
+    if (options.running) where.status = RUNNING_STATUSES;
+    return AnalysisJob.findAll({
+        where,
+        order: [['createdAt', 'DESC']],
+        limit: options.limit ?? 20,
+    });
+}
+
+export function isRunningJobStatus(status: string): boolean {
+    return RUNNING_STATUSES.includes(status);
+}
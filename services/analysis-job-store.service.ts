@@ -5,10 +5,16 @@
  */
 
 import Redis from 'ioredis';
+import { publishAnalysisEvent } from './analysis-events.service';
+import { persistAnalysisJob } from './analysis-job-persistence.service';
 
 const JOB_PREFIX = 'analysis:job:';
+const CANCEL_PREFIX = 'analysis:job:cancel:';
 const JOB_TTL_SEC = 3600; // 1 час
 
+/** Сообщение ошибки, которой пайплайн прерывается при отмене задачи */
+export const JOB_CANCELLED = 'JOB_CANCELLED';
+
 let redis: Redis | null = null;
 
 function getRedis(): Redis | null {
@@ -23,10 +29,29 @@ function getRedis(): Redis | null {
     }
 }
 
+export type AnalysisJobStatus = 'pending' | 'in_progress' | 'completed' | 'partially_failed' | 'cancelled' | 'error';
+
+/** Финальные статусы: задача больше не выполняется */
+export const TERMINAL_JOB_STATUSES: AnalysisJobStatus[] = ['completed', 'partially_failed', 'cancelled', 'error'];
+
+/** Исходный запрос — нужен для повтора упавших элементов */
+export interface AnalysisJobRequest {
+    urlInput: string | string[];
+    interests: string;
+    analysisMode: 'read' | 'unread';
+    forceRefresh?: boolean;
+}
+
 export interface AnalysisJobState {
-    status: 'pending' | 'in_progress' | 'completed' | 'error';
+    status: AnalysisJobStatus;
     results?: any[];
     error?: string;
+    userId?: number | null;
+    request?: AnalysisJobRequest;
+    failedItems?: string[]; // URL (или тексты) элементов, завершившихся ошибкой
+    pendingItems?: string[]; // URL элементов, не обработанных из-за отмены
+    retryOf?: string; // jobId задачи, упавшие элементы которой повторяются
+    itemsTotal?: number; // число элементов ввода (тексты + URL после разворачивания плейлистов)
     totalExpected?: number;
     itemType?: string;
     currentItemIndex?: number;
@@ -36,15 +61,47 @@ export interface AnalysisJobState {
     [key: string]: any;
 }
 
+// Поля, которые переносятся между обновлениями состояния, даже если вызывающий код их не передал
+const PERSISTENT_KEYS = ['userId', 'request', 'retryOf', 'itemsTotal'] as const;
+
 const memoryStore = new Map<string, AnalysisJobState>();
+const cancelledJobs = new Set<string>();
+
+export function isTerminalJobStatus(status: AnalysisJobStatus | undefined): boolean {
+    return !!status && TERMINAL_JOB_STATUSES.includes(status);
+}
 
-export function setAnalysisJob(jobId: string, state: AnalysisJobState): void {
+export function setAnalysisJob(jobId: string, nextState: AnalysisJobState): void {
+    const prev = memoryStore.get(jobId);
+    const state: AnalysisJobState = { ...nextState };
+    if (prev) {
+        for (const key of PERSISTENT_KEYS) {
+            if (state[key] === undefined && prev[key] !== undefined) (state as any)[key] = prev[key];
+        }
+    }
     memoryStore.set(jobId, state);
     const r = getRedis();
     if (r) {
         const key = JOB_PREFIX + jobId;
         r.setex(key, JOB_TTL_SEC, JSON.stringify(state)).catch(() => {});
     }
+    publishJobState(jobId, state);
+    persistAnalysisJob(jobId, state);
+}
+
+/**
+ * Каждое изменение состояния уходит подписчикам SSE: финальное — с полными результатами,
+ * промежуточное — без results (результаты по элементам отправляются отдельными событиями item).
+ */
+function publishJobState(jobId: string, state: AnalysisJobState): void {
+    if (state.status === 'completed' || state.status === 'partially_failed' || state.status === 'cancelled') {
+        publishAnalysisEvent(jobId, 'complete', state);
+    } else if (state.status === 'error') {
+        publishAnalysisEvent(jobId, 'error', { status: state.status, error: state.error });
+    } else {
+        const { results, ...rest } = state;
+        publishAnalysisEvent(jobId, 'status', { ...rest, resultsCount: results?.length ?? 0 });
+    }
 }
 
 /** Синхронное чтение из памяти (для обратной совместимости в runAnalysisInBackground) */
@@ -71,12 +128,49 @@ export async function getAnalysisJob(jobId: string): Promise<AnalysisJobState |
 
 export function deleteAnalysisJob(jobId: string): void {
     memoryStore.delete(jobId);
+    cancelledJobs.delete(jobId);
     const r = getRedis();
     if (r) {
-        r.del(JOB_PREFIX + jobId).catch(() => {});
+        r.del(JOB_PREFIX + jobId, CANCEL_PREFIX + jobId).catch(() => {});
     }
 }
 
+/**
+ * Помечает задачу отменённой. Выполняющий её инстанс увидит флаг между этапами и элементами.
+ */
+export async function requestAnalysisJobCancellation(jobId: string): Promise<void> {
+    cancelledJobs.add(jobId);
+    const r = getRedis();
+    if (r) {
+        await r.setex(CANCEL_PREFIX + jobId, JOB_TTL_SEC, '1').catch(() => {});
+    }
+}
+
+export async function isAnalysisJobCancelled(jobId: string): Promise<boolean> {
+    if (cancelledJobs.has(jobId)) return true;
+    const r = getRedis();
+    if (r && r.status === 'ready') {
+        try {
+            if (await r.get(CANCEL_PREFIX + jobId)) {
+                cancelledJobs.add(jobId);
+                return true;
+            }
+        } catch {
+            // считаем, что не отменена
+        }
+    }
+    return false;
+}
+
 export function isRedisAvailable(): boolean {
     return !!getRedis();
 }
+
+/**
+ * Подключение к Redis, если оно установлено (для других хранилищ — например, rate-limit.service).
+ * null — Redis не настроен или недоступен, используйте память.
+ */
+export function getConnectedRedis(): Redis | null {
+    const r = getRedis();
+    return r && r.status === 'ready' ? r : null;
+}
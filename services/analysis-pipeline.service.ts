@@ -1,17 +1,21 @@
 /**
  * Композитный пайплайн анализа контента.
  * Один вызов runFullAnalysisPipeline — извлечение контента (для URL) + все этапы анализа и сохранение.
- * Внутри: выбор метода извлечения (Puppeteer → youtube-transcript → ScrapingBee → yt-dlp), retry, AI → темы → relevance → embedding → retain.
+ * Внутри: извлечение через реестр экстракторов (services/extractors), retry, AI → темы → relevance → embedding → retain.
+ * Контент-независимые этапы (извлечение, темы, эмбеддинги) можно посчитать заранее один раз на материал —
+ * prepareSharedContent + options.prepared (общие посты Telegram-каналов для всех подписчиков).
  */
 
 import contentService from './content.service';
 import { analyzeContent as analyzeContentWithAI, UserFeedbackHistory } from './ai.service';
 import { extractThemes, saveUserSemanticTags, compareThemes, clearUserTagsCache, getUserTagsCached, generateSemanticRecommendation } from './semantic.service';
 import { analyzeRelevanceLevelForMultipleInterests } from './relevance-level.service';
-import { generateAndSaveEmbedding } from './embedding.service';
+import { generateAndSaveEmbedding, generateAndSaveChunkEmbeddings, generateEmbeddingWithModel, saveEmbedding, copyChunkEmbeddings, EmbeddingWithModel } from './embedding.service';
 import { retainArticle } from './hindsight.service';
 import { retainArticle as retainGraphitiArticle } from './graphiti.service';
 import { validateBeforeRetain } from './retain-validator.service';
+import { getCachedContent, saveCachedContent } from './content-cache.service';
+import { isAnalysisJobCancelled, JOB_CANCELLED } from './analysis-job-store.service';
 import AnalysisHistory from '../models/AnalysisHistory';
 import UserInterest from '../models/UserInterest';
 import UserInterestLevel from '../models/UserInterestLevel';
@@ -26,18 +30,35 @@ export interface PipelineInput {
     text?: string;
 }
 
+/**
+ * Результат контент-независимых этапов, посчитанный заранее. Саммари и эмбеддинг появляются после первого анализа
+ * и переиспользуются для остальных пользователей; оценка, вердикт и сравнение с облаком смыслов — всегда свои.
+ */
+export interface PreparedContent {
+    content: string;
+    sourceType: string;
+    themes: string[];
+    summary?: string | null;
+    embedding?: EmbeddingWithModel | null;
+    chunksFromHistoryId?: number | null; // запись истории, чьи эмбеддинги чанков копируются
+}
+
 export interface PipelineOptions {
     interests: string;
     userId?: number;
     mode: 'read' | 'unread';
     feedbackHistory?: UserFeedbackHistory[];
     skipHistorySave?: boolean;
+    /** Игнорировать кеш извлечённого контента и скачать страницу заново */
+    forceRefresh?: boolean;
     jobId?: string;
     itemIndex?: number;
     statsItemType?: 'article' | 'video' | 'urls' | 'text';
     onStageStart?: (stageId: number) => void;
     onStageEnd?: (stageId: number, itemType: string) => Promise<void>;
     onJobUpdate?: (updates: { useMetadata?: boolean }) => void;
+    /** Заранее извлечённый контент и темы (только для type: 'url') */
+    prepared?: PreparedContent;
 }
 
 export interface PipelineResult {
@@ -53,20 +74,31 @@ export interface PipelineResult {
     extractedThemes?: string[];
     analysisHistoryId?: number;
     extractedContent?: string;
+    contentFromCache?: boolean;
+    /** Эмбеддинг саммари — только при options.prepared, чтобы сохранить его для следующих пользователей */
+    embedding?: EmbeddingWithModel;
     error: boolean;
     message?: string;
     [key: string]: any;
 }
 
 /**
- * Извлечение контента из URL с retry.
+ * Извлечение контента из URL с retry. Сначала смотрим в кеш по каноническому URL (если не forceRefresh).
  */
-async function extractContentWithRetry(url: string): Promise<{ content: string; sourceType: string }> {
+async function extractContentWithRetry(url: string, forceRefresh = false): Promise<{ content: string; sourceType: string; fromCache: boolean }> {
+    if (!forceRefresh) {
+        const cached = await getCachedContent(url);
+        if (cached) {
+            console.log(`♻️ [Content Cache] Hit for ${cached.canonicalUrl} (${cached.extractor || 'unknown'}, fetched ${cached.fetchedAt.toISOString()})`);
+            return { content: cached.content, sourceType: cached.sourceType, fromCache: true };
+        }
+    }
     let lastError: Error | null = null;
     for (let attempt = 1; attempt <= EXTRACT_RETRY_COUNT; attempt++) {
         try {
             const extracted = await contentService.extractContentFromUrl(url);
-            return { content: extracted.content, sourceType: extracted.sourceType };
+            await saveCachedContent(url, extracted);
+            return { content: extracted.content, sourceType: extracted.sourceType, fromCache: false };
         } catch (e: any) {
             lastError = e;
             if (e?.message === 'TWITTER_PROFILE_URL') throw e;
@@ -78,6 +110,52 @@ async function extractContentWithRetry(url: string): Promise<{ content: string;
     throw lastError || new Error('Failed to extract content');
 }
 
+/**
+ * Признаки неудачного извлечения. null — контент пригоден для анализа.
+ */
+function findExtractedContentProblem(content: string, sourceType: string): string | null {
+    const isMetadataWithWarning = sourceType === 'metadata' && content.includes('⚠️ ВАЖНО');
+    const minLength = isMetadataWithWarning ? 20 : 30;
+    if (!isMetadataWithWarning) {
+        const errorIndicators = ['Failed to scrape', 'Failed to extract', 'Could not find', 'Chrome not found', 'Error:', 'error:', 'Exception:', 'exception:'];
+        if (errorIndicators.some((ind) => content.toLowerCase().includes(ind.toLowerCase()))) {
+            return `Не удалось извлечь контент из URL. ${content.substring(0, 200)}`;
+        }
+    }
+    if (content.trim().length < minLength) {
+        return `Контент слишком короткий (${content.trim().length} символов).`;
+    }
+    return null;
+}
+
+// Сетевые сбои и ответы 5xx/429 при извлечении — повторная попытка позже может пройти
+const TRANSIENT_EXTRACT_ERROR = /timeout|timed out|ECONNABORTED|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|status code (5\d\d|429)|HTTP (5\d\d|429)/i;
+
+/**
+ * Контент-независимые этапы для URL: извлечение (с кешем и retry), проверка и темы.
+ * Результат передаётся в runFullAnalysisPipeline через options.prepared для каждого пользователя.
+ * transient — извлечение сорвалось из-за временного сбоя, а не из-за самого контента.
+ */
+export async function prepareSharedContent(url: string): Promise<{ prepared: PreparedContent } | { error: true; message: string; transient: boolean }> {
+    let extracted: { content: string; sourceType: string };
+    try {
+        extracted = await extractContentWithRetry(url);
+    } catch (extractError: any) {
+        const message = extractError?.message || 'Не удалось извлечь контент из URL.';
+        return { error: true, message, transient: TRANSIENT_EXTRACT_ERROR.test(message) };
+    }
+    const problem = findExtractedContentProblem(extracted.content, extracted.sourceType);
+    if (problem) return { error: true, message: problem, transient: false };
+
+    let themes: string[] = [];
+    try {
+        themes = await extractThemes(extracted.content);
+    } catch (error: any) {
+        console.error(`❌ [Pipeline] Theme extraction failed for ${url}: ${error.message}`);
+    }
+    return { prepared: { content: extracted.content, sourceType: extracted.sourceType, themes } };
+}
+
 /**
  * Полный пайплайн анализа: один вызов на одну задачу.
  * Для URL: извлечение контента (с retry) → анализ.
@@ -87,12 +165,18 @@ export async function runFullAnalysisPipeline(
     input: PipelineInput,
     options: PipelineOptions
 ): Promise<PipelineResult> {
-    const { interests, userId, mode, feedbackHistory = [], skipHistorySave = false } = options;
+    const { interests, userId, mode, feedbackHistory = [], skipHistorySave = false, forceRefresh = false, prepared } = options;
     let { onStageStart, onStageEnd, onJobUpdate, statsItemType } = options;
 
+    // Кооперативная отмена: флаг задачи проверяется между этапами
+    const throwIfCancelled = async () => {
+        if (options.jobId && (await isAnalysisJobCancelled(options.jobId))) throw new Error(JOB_CANCELLED);
+    };
+
     let content: string;
     let url: string;
     let sourceType: string;
+    let contentFromCache = false;
 
     if (input.type === 'text') {
         const text = (input.text || '').trim();
@@ -110,13 +194,20 @@ export async function runFullAnalysisPipeline(
         sourceType = 'text';
         onStageStart?.(0);
         await onStageEnd?.(0, 'text');
+    } else if (prepared) {
+        content = prepared.content;
+        sourceType = prepared.sourceType;
+        contentFromCache = true;
+        url = input.url!;
+        statsItemType = statsItemType || (sourceType === 'transcript' ? 'video' : 'article');
     } else {
         const urlInput = input.url!;
         onStageStart?.(0);
         try {
-            const extracted = await extractContentWithRetry(urlInput);
+            const extracted = await extractContentWithRetry(urlInput, forceRefresh);
             content = extracted.content;
             sourceType = extracted.sourceType;
+            contentFromCache = extracted.fromCache;
             url = urlInput;
         } catch (extractError: any) {
             return {
@@ -140,22 +231,14 @@ export async function runFullAnalysisPipeline(
     }
     if (!statsItemType) statsItemType = 'article';
 
-    // Валидация контента (для URL)
-    if (input.type === 'url') {
-        const isMetadataWithWarning = sourceType === 'metadata' && content.includes('⚠️ ВАЖНО');
-        const minLength = isMetadataWithWarning ? 20 : 30;
-        if (!isMetadataWithWarning) {
-            const errorIndicators = ['Failed to scrape', 'Failed to extract', 'Could not find', 'Chrome not found', 'Error:', 'error:', 'Exception:', 'exception:'];
-            if (errorIndicators.some((ind) => content.toLowerCase().includes(ind.toLowerCase()))) {
-                return { originalUrl: url, url, sourceType, error: true, message: `Не удалось извлечь контент из URL. ${content.substring(0, 200)}` };
-            }
-        }
-        if (content.trim().length < minLength) {
-            return { originalUrl: url, url, sourceType, error: true, message: `Контент слишком короткий (${content.trim().length} символов).` };
-        }
+    // Валидация контента (для URL; подготовленный контент уже проверен)
+    if (input.type === 'url' && !prepared) {
+        const problem = findExtractedContentProblem(content, sourceType);
+        if (problem) return { originalUrl: url, url, sourceType, error: true, message: problem };
     }
 
     // AI-анализ
+    await throwIfCancelled();
     onStageStart?.(input.type === 'text' ? 1 : 2);
     const analysisResult = await analyzeContentWithAI(
         content,
@@ -166,14 +249,23 @@ export async function runFullAnalysisPipeline(
         sourceType as 'transcript' | 'metadata' | 'article' | 'telegram'
     );
     await onStageEnd?.(input.type === 'text' ? 1 : 2, statsItemType);
+    // Саммари описывает контент, а не интересы: у всех пользователей оно одно
+    if (prepared?.summary && analysisResult) analysisResult.summary = prepared.summary;
 
     // Темы
+    await throwIfCancelled();
     let extractedThemes: string[] = [];
     let semanticComparisonResult: any = null;
 
     if (userId) {
         onStageStart?.(input.type === 'text' ? 2 : 6);
-        const themes = await extractThemes(content);
+        // Невалидный ответ модели (LLM_OUTPUT_INVALID) не валит анализ: оценка уже есть, темы не сохраняем
+        let themes: string[] = [];
+        try {
+            themes = prepared ? prepared.themes : await extractThemes(content);
+        } catch (error: any) {
+            console.error(`❌ [Pipeline] Theme extraction failed for ${url}: ${error.message}`);
+        }
         await onStageEnd?.(input.type === 'text' ? 2 : 6, statsItemType);
         extractedThemes = themes;
 
@@ -209,6 +301,7 @@ export async function runFullAnalysisPipeline(
     }
 
     // Relevance level
+    await throwIfCancelled();
     let relevanceLevelResult: any = null;
     if (userId) {
         const interestsList = interests.split(',').map((i) => i.trim().toLowerCase());
@@ -238,13 +331,17 @@ export async function runFullAnalysisPipeline(
                     });
                 }
                 relevanceLevelResult = results[0]?.result;
-            } catch (_) {}
+            } catch (error: any) {
+                console.error(`❌ [Pipeline] Relevance level analysis failed for ${url}: ${error.message}`);
+            }
             await onStageEnd?.(5, statsItemType);
         }
     }
 
     // История, эмбеддинг, retain
+    await throwIfCancelled();
     let analysisHistoryId: number | undefined;
+    let embedding: EmbeddingWithModel | undefined;
     if (userId && analysisResult?.summary && !skipHistorySave) {
         const historyPayload: any = {
             userId,
@@ -259,13 +356,19 @@ export async function runFullAnalysisPipeline(
             extractedThemes: extractedThemes?.length ? JSON.stringify(extractedThemes) : null,
         };
         if (sourceType === 'text') historyPayload.originalText = content;
+        else historyPayload.extractedContent = content;
         const historyRecord = await AnalysisHistory.create(historyPayload);
         analysisHistoryId = historyRecord.id;
 
         if (analysisResult.summary && analysisResult.summary.length > 50) {
             onStageStart?.(3);
             const textForEmbedding = [analysisResult.summary, url].filter(Boolean).join('\n\n').trim();
-            await generateAndSaveEmbedding(textForEmbedding, analysisHistoryId);
+            if (prepared) {
+                embedding = prepared.embedding ?? await generateEmbeddingWithModel(textForEmbedding);
+                await saveEmbedding(analysisHistoryId, embedding.vector, embedding.model, embedding.dimension);
+            } else {
+                await generateAndSaveEmbedding(textForEmbedding, analysisHistoryId);
+            }
             await onStageEnd?.(3, statsItemType);
         } else if (analysisResult.summary && (analysisResult.summary || '').length + (analysisResult.reasoning || '').length > 10) {
             const textForEmbedding = [analysisResult.summary, analysisResult.reasoning, url].filter(Boolean).join(' ').trim();
@@ -276,6 +379,17 @@ export async function runFullAnalysisPipeline(
             }
         }
 
+        // Чанки полного контента (поиск по фрагментам и цитаты в RAG) — в фоне, чтобы не задерживать ответ
+        const historyIdForChunks = analysisHistoryId;
+        const chunksFromHistoryId = prepared?.chunksFromHistoryId;
+        const chunksTask = chunksFromHistoryId
+            ? copyChunkEmbeddings(chunksFromHistoryId, historyIdForChunks)
+                .then((copied) => copied > 0 ? copied : generateAndSaveChunkEmbeddings(content, historyIdForChunks))
+            : generateAndSaveChunkEmbeddings(content, historyIdForChunks);
+        chunksTask.catch((error: any) => {
+            console.warn(`⚠️ [Pipeline] Chunk embeddings failed for analysis_history ${historyIdForChunks}: ${error.message}`);
+        });
+
         const validation = validateBeforeRetain(analysisResult.summary, extractedThemes ?? [], content);
         if (validation.valid) {
             retainArticle({ userId, url, summary: analysisResult.summary, themes: extractedThemes ?? [], verdict: analysisResult.verdict, sourceType: sourceType || 'article' }).catch(() => {});
@@ -296,6 +410,8 @@ export async function runFullAnalysisPipeline(
         extractedThemes: extractedThemes?.length ? extractedThemes : undefined,
         analysisHistoryId,
         extractedContent: content,
+        contentFromCache,
+        ...(embedding ? { embedding } : {}),
         error: false,
     };
 }
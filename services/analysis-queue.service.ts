@@ -5,6 +5,7 @@
  */
 
 import Queue from 'bull';
+import type { LlmUsageSubject } from './llm-usage.service';
 
 export interface AnalysisJobData {
     jobId: string;
@@ -12,6 +13,8 @@ export interface AnalysisJobData {
     interests: string;
     analysisMode: 'read' | 'unread';
     userId?: number;
+    forceRefresh?: boolean;
+    usage?: LlmUsageSubject; // на кого пишется расход LLM; у гостя бота с привязанным аккаунтом — аккаунт, хотя userId пуст
 }
 
 export type AnalysisJobHandler = (data: AnalysisJobData) => Promise<void>;
@@ -84,6 +87,26 @@ export async function addAnalysisJob(data: AnalysisJobData): Promise<boolean> {
     return false;
 }
 
+/**
+ * Убирает задачу из очереди, если воркер её ещё не взял (для отмены).
+ * @returns true — задача удалена до начала выполнения
+ */
+export async function removeQueuedAnalysisJob(jobId: string): Promise<boolean> {
+    if (!useQueue || !analysisQueue) return false;
+    try {
+        const job = await analysisQueue.getJob(jobId);
+        if (!job) return false;
+        const state = await job.getState();
+        if (state === 'waiting' || state === 'delayed' || state === 'paused') {
+            await job.remove();
+            return true;
+        }
+    } catch (err: any) {
+        console.warn(`⚠️ [Analysis Queue] Could not remove job ${jobId}:`, err?.message);
+    }
+    return false;
+}
+
 /**
  * Используется ли очередь (Redis доступен).
  */
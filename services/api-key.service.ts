@@ -0,0 +1,114 @@
+/**
+ * Персональные API-ключи: создание (ключ показывается один раз), список, отзыв и проверка в authMiddleware.
+ * Ключ действует от имени владельца (те же квоты LLM и лимиты запросов), но только на маршрутах,
+ * разрешённых его областями (apiKeyScope в routes/*).
+ */
+
+import crypto from 'crypto';
+import ApiKey from '../models/ApiKey';
+
+export const API_KEY_SCOPES = ['history:read', 'analyze', 'channels:manage'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Все ключи начинаются с префикса — так authMiddleware отличает их от JWT
+export const API_KEY_PREFIX = 'cur_';
+
+// Коды ошибок (error.message) — контроллер переводит их в HTTP-статусы
+export const API_KEY_INVALID_SCOPES = 'API_KEY_INVALID_SCOPES';
+export const API_KEY_LIMIT_REACHED = 'API_KEY_LIMIT_REACHED';
+
+const MAX_ACTIVE_KEYS_PER_USER = 20;
+const DISPLAY_PREFIX_LENGTH = 12;
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000; // не пишем в БД на каждый запрос
+
+export interface ApiKeyInfo {
+    id: number;
+    name: string;
+    keyPrefix: string;
+    scopes: ApiKeyScope[];
+    createdAt: Date;
+    lastUsedAt: Date | null;
+    lastUsedIp: string | null;
+}
+
+export interface VerifiedApiKey {
+    id: number;
+    userId: number;
+    scopes: ApiKeyScope[];
+}
+
+const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+export function isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+    return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+const toInfo = (key: ApiKey): ApiKeyInfo => ({
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    scopes: key.scopes.filter(isApiKeyScope),
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+    lastUsedIp: key.lastUsedIp,
+});
+
+/**
+ * Создаёт ключ. Открытое значение возвращается только здесь — в БД остаётся хеш.
+ */
+export async function createApiKey(userId: number, name: string, scopes: unknown[]): Promise<{ key: string; apiKey: ApiKeyInfo }> {
+    if (scopes.length === 0 || !scopes.every(isApiKeyScope)) throw new Error(API_KEY_INVALID_SCOPES);
+
+    const activeCount = await ApiKey.count({ where: { userId, revokedAt: null } });
+    if (activeCount >= MAX_ACTIVE_KEYS_PER_USER) throw new Error(API_KEY_LIMIT_REACHED);
+
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const record = await ApiKey.create({
+        userId,
+        name: name.trim().substring(0, 100),
+        keyPrefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+        scopes: Array.from(new Set(scopes as ApiKeyScope[])),
+    });
+    console.log(`🔑 API key ${record.id} created for user ${userId} (${record.scopes.join(', ')})`);
+    return { key, apiKey: toInfo(record) };
+}
+
+export async function listApiKeys(userId: number): Promise<ApiKeyInfo[]> {
+    const keys = await ApiKey.findAll({
+        where: { userId, revokedAt: null },
+        order: [['createdAt', 'DESC']],
+    });
+    return keys.map(toInfo);
+}
+
+/**
+ * Отзывает ключ пользователя. false — ключа нет или он уже отозван.
+ */
+export async function revokeApiKey(userId: number, keyId: number): Promise<boolean> {
+    const [updated] = await ApiKey.update(
+        { revokedAt: new Date() },
+        { where: { id: keyId, userId, revokedAt: null } }
+    );
+    return updated > 0;
+}
+
+/**
+ * Проверяет ключ из запроса и отмечает использование. null — ключ неизвестен или отозван.
+ */
+export async function verifyApiKey(key: string, ip: string | null): Promise<VerifiedApiKey | null> {
+    const record = await ApiKey.findOne({ where: { keyHash: hashApiKey(key) } });
+    if (!record || record.revokedAt) return null;
+
+    const now = new Date();
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS || record.lastUsedIp !== ip) {
+        record.update({ lastUsedAt: now, lastUsedIp: ip ? ip.substring(0, 64) : null })
+            .catch((error: any) => console.warn(`⚠️ [API Keys] Failed to record usage of key ${record.id}: ${error.message}`));
+    }
+
+    return { id: record.id, userId: record.userId, scopes: record.scopes.filter(isApiKeyScope) };
+}
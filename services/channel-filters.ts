@@ -0,0 +1,354 @@
+/**
+ * Настройки мониторинга Telegram-канала: порог релевантности, фильтры по словам и регулярным выражениям,
+ * пропуск репостов и рекламы, лимит постов за проверку и тихие часы.
+ * Фильтры применяются к тексту поста до извлечения контента и вызовов LLM.
+ */
+
+export interface ChannelPostFilters {
+    includeKeywords: string[]; // пост должен содержать хотя бы одно слово
+    excludeKeywords: string[]; // пост не должен содержать ни одного
+    includePatterns: string[]; // регулярные выражения (без флагов, регистр не учитывается)
+    excludePatterns: string[];
+    ignoreReposts: boolean;
+    ignoreAds: boolean;
+}
+
+export interface QuietHours {
+    start: string; // HH:MM
+    end: string; // HH:MM, может быть меньше start (через полночь)
+    timezone: string; // IANA, например Europe/Moscow
+}
+
+export interface ChannelSettings {
+    minScore: number | null; // null — порог по умолчанию
+    maxPostsPerCheck: number | null;
+    filters: ChannelPostFilters;
+    quietHours: QuietHours | null;
+}
+
+export const DEFAULT_MIN_SCORE = 70;
+export const DEFAULT_MAX_POSTS_PER_CHECK = 20;
+export const MAX_POSTS_PER_CHECK_LIMIT = 50;
+
+const MAX_FILTER_ENTRIES = 20;
+const MAX_FILTER_ENTRY_LENGTH = 200;
+const MAX_MATCHED_TEXT_LENGTH = 10000;
+// Регулярные выражения пользователя проверяются на начале поста. Само по себе это не защищает от катастрофического
+// backtracking — опасные выражения отсекаются при сохранении (unsafePatternReason), а короткий текст ограничивает
+// полиномиальный перебор у оставшихся.
+const MAX_PATTERN_TEXT_LENGTH = 500;
+const MAX_UNBOUNDED_QUANTIFIERS = 3;
+
+export const EMPTY_CHANNEL_FILTERS: ChannelPostFilters = {
+    includeKeywords: [],
+    excludeKeywords: [],
+    includePatterns: [],
+    excludePatterns: [],
+    ignoreReposts: false,
+    ignoreAds: false,
+};
+
+// Маркировка рекламы в Telegram: «Реклама», erid (ОРД), хештеги и «на правах рекламы».
+// \b в JS не работает с кириллицей — границы слов через (?![\p{L}\d_]) с флагом u
+const AD_MARKERS = [
+    /(^|\n)\s*реклама(?![\p{L}\d_])/iu,
+    /(?<![\p{L}\d_])erid\s*[:：]?\s*[\w-]{5,}/iu,
+    /#(реклама|ad|ads|promo|промо|sponsored|партнерский|партнёрский)(?![\p{L}\d_])/iu,
+    /на правах рекламы/iu,
+    /партн[её]рский (материал|пост)/iu,
+    /(?<![\p{L}\d_])sponsored(?![\p{L}\d_])/iu,
+];
+
+const HH_MM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Настройки канала с подставленными значениями по умолчанию (в БД filters может быть пустым объектом).
+ */
+export function normalizeChannelFilters(raw: Partial<ChannelPostFilters> | null | undefined): ChannelPostFilters {
+    return { ...EMPTY_CHANNEL_FILTERS, ...(raw || {}) };
+}
+
+/**
+ * Настройки канала для ответа API: null-поля заменены значениями по умолчанию.
+ */
+export function channelSettingsOf(channel: {
+    minScore?: number | null;
+    maxPostsPerCheck?: number | null;
+    filters?: Partial<ChannelPostFilters> | null;
+    quietHours?: QuietHours | null;
+}): ChannelSettings {
+    return {
+        minScore: channel.minScore ?? DEFAULT_MIN_SCORE,
+        maxPostsPerCheck: channel.maxPostsPerCheck ?? DEFAULT_MAX_POSTS_PER_CHECK,
+        filters: normalizeChannelFilters(channel.filters),
+        quietHours: channel.quietHours ?? null,
+    };
+}
+
+export function isLikelyAd(text: string): boolean {
+    return AD_MARKERS.some((marker) => marker.test(text));
+}
+
+function parseStringList(value: unknown, field: string): string[] {
+    if (!Array.isArray(value) || !value.every((entry) => typeof entry === 'string')) {
+        throw new Error(`${field} must be an array of strings`);
+    }
+    const entries = Array.from(new Set(value.map((entry: string) => entry.trim()).filter(Boolean)));
+    if (entries.length > MAX_FILTER_ENTRIES) throw new Error(`${field}: at most ${MAX_FILTER_ENTRIES} entries`);
+    if (entries.some((entry) => entry.length > MAX_FILTER_ENTRY_LENGTH)) {
+        throw new Error(`${field}: each entry must be at most ${MAX_FILTER_ENTRY_LENGTH} characters`);
+    }
+    return entries;
+}
+
+interface PatternGroup {
+    quantified: boolean; // внутри есть повторяющийся квантификатор
+    alternation: boolean;
+}
+
+/**
+ * Причина, по которой выражение может выполняться экспоненциально долго, или null.
+ * Движок JS — с возвратами, поэтому запрещаем то, что даёт катастрофический перебор: повторение группы,
+ * внутри которой уже есть повторение или альтернатива ((a+)+, (.*a){20}, (a|ab)*), и обратные ссылки.
+ * Число неограниченных квантификаторов ограничено — подряд идущие .*.*.* дают полиномиальный перебор.
+ */
+function unsafePatternReason(pattern: string): string | null {
+    const stack: PatternGroup[] = [{ quantified: false, alternation: false }];
+    let lastGroup: PatternGroup | null = null; // группа, к которой относится следующий квантификатор
+    let unbounded = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        const current = stack[stack.length - 1];
+
+        if (char === '\\') {
+            const next = pattern[i + 1];
+            if (next && (/[1-9]/.test(next) || next === 'k')) return 'backreferences are not allowed';
+            i++;
+            lastGroup = null;
+            continue;
+        }
+        if (char === '[') {
+            // Класс символов — одна позиция, квантификаторы внутри не действуют
+            i++;
+            if (pattern[i] === '^') i++;
+            if (pattern[i] === ']') i++;
+            while (i < pattern.length && pattern[i] !== ']') {
+                if (pattern[i] === '\\') i++;
+                i++;
+            }
+            lastGroup = null;
+            continue;
+        }
+        if (char === '(') {
+            stack.push({ quantified: false, alternation: false });
+            lastGroup = null;
+            continue;
+        }
+        if (char === ')') {
+            const group = stack.length > 1 ? stack.pop()! : current;
+            const parent = stack[stack.length - 1];
+            parent.quantified = parent.quantified || group.quantified;
+            lastGroup = group;
+            continue;
+        }
+        if (char === '|') {
+            current.alternation = true;
+            lastGroup = null;
+            continue;
+        }
+
+        let max: number | null = -1; // -1 — не квантификатор; null — без верхней границы
+        let length = 1;
+        if (char === '*' || char === '+') max = null;
+        else if (char === '?') max = 1;
+        else if (char === '{') {
+            const match = pattern.substring(i).match(/^\{(\d+)(,(\d*))?\}/);
+            if (match) {
+                max = match[2] === undefined ? Number(match[1]) : match[3] ? Number(match[3]) : null;
+                length = match[0].length;
+            }
+        }
+        if (max === -1) {
+            lastGroup = null;
+            continue;
+        }
+
+        i += length - 1;
+        if (pattern[i + 1] === '?') i++; // ленивый квантификатор
+        const repeats = max === null || max > 1;
+        if (repeats && lastGroup && (lastGroup.quantified || lastGroup.alternation)) {
+            return 'nested or ambiguous quantifiers like (a+)+ or (a|b)* are not allowed';
+        }
+        if (repeats) current.quantified = true;
+        if (max === null || max > 10) unbounded++;
+        lastGroup = null;
+    }
+
+    if (unbounded > MAX_UNBOUNDED_QUANTIFIERS) return `at most ${MAX_UNBOUNDED_QUANTIFIERS} unbounded quantifiers are allowed`;
+    return null;
+}
+
+function parsePatternList(value: unknown, field: string): string[] {
+    const patterns = parseStringList(value, field);
+    for (const pattern of patterns) {
+        try {
+            new RegExp(pattern, 'i');
+        } catch {
+            throw new Error(`${field}: invalid regular expression "${pattern}"`);
+        }
+        const unsafe = unsafePatternReason(pattern);
+        if (unsafe) throw new Error(`${field}: regular expression "${pattern}" is too expensive: ${unsafe}`);
+    }
+    return patterns;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function parseQuietHours(value: unknown): QuietHours | null {
+    if (value === null) return null;
+    const { start, end, timezone = 'UTC' } = (value || {}) as Record<string, unknown>;
+    if (typeof start !== 'string' || !HH_MM.test(start) || typeof end !== 'string' || !HH_MM.test(end)) {
+        throw new Error('quietHours.start and quietHours.end must be in HH:MM format');
+    }
+    if (start === end) throw new Error('quietHours.start and quietHours.end must differ');
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+        throw new Error('quietHours.timezone must be an IANA time zone, e.g. Europe/Moscow');
+    }
+    return { start, end, timezone };
+}
+
+/**
+ * Разбирает настройки из тела PATCH /api/telegram-channels/:id. Поля, которых нет в теле, не меняются;
+ * filters объединяются с текущими. Бросает Error с описанием первой ошибки.
+ */
+export function parseChannelSettingsUpdate(
+    body: Record<string, unknown>,
+    current: ChannelPostFilters
+): Partial<ChannelSettings> {
+    const update: Partial<ChannelSettings> = {};
+
+    if (body.minScore !== undefined) {
+        if (body.minScore !== null && (!Number.isInteger(body.minScore) || (body.minScore as number) < 0 || (body.minScore as number) > 100)) {
+            throw new Error('minScore must be an integer from 0 to 100 or null');
+        }
+        update.minScore = body.minScore as number | null;
+    }
+
+    if (body.maxPostsPerCheck !== undefined) {
+        const max = body.maxPostsPerCheck;
+        if (max !== null && (!Number.isInteger(max) || (max as number) < 1 || (max as number) > MAX_POSTS_PER_CHECK_LIMIT)) {
+            throw new Error(`maxPostsPerCheck must be an integer from 1 to ${MAX_POSTS_PER_CHECK_LIMIT} or null`);
+        }
+        update.maxPostsPerCheck = max as number | null;
+    }
+
+    if (body.filters !== undefined) {
+        if (!body.filters || typeof body.filters !== 'object' || Array.isArray(body.filters)) {
+            throw new Error('filters must be an object');
+        }
+        const raw = body.filters as Record<string, unknown>;
+        const filters = { ...current };
+        if (raw.includeKeywords !== undefined) filters.includeKeywords = parseStringList(raw.includeKeywords, 'filters.includeKeywords');
+        if (raw.excludeKeywords !== undefined) filters.excludeKeywords = parseStringList(raw.excludeKeywords, 'filters.excludeKeywords');
+        if (raw.includePatterns !== undefined) filters.includePatterns = parsePatternList(raw.includePatterns, 'filters.includePatterns');
+        if (raw.excludePatterns !== undefined) filters.excludePatterns = parsePatternList(raw.excludePatterns, 'filters.excludePatterns');
+        for (const flag of ['ignoreReposts', 'ignoreAds'] as const) {
+            if (raw[flag] === undefined) continue;
+            if (typeof raw[flag] !== 'boolean') throw new Error(`filters.${flag} must be a boolean`);
+            filters[flag] = raw[flag] as boolean;
+        }
+        update.filters = filters;
+    }
+
+    if (body.quietHours !== undefined) update.quietHours = parseQuietHours(body.quietHours);
+
+    return update;
+}
+
+/**
+ * Фильтры канала с заранее скомпилированными выражениями — компилируются один раз на проверку канала.
+ * Выражения, сохранённые до появления проверки на опасные конструкции, пропускаются.
+ */
+export interface CompiledChannelFilters {
+    filters: ChannelPostFilters;
+    includePatterns: Array<{ source: string; regex: RegExp }>;
+    excludePatterns: Array<{ source: string; regex: RegExp }>;
+}
+
+function compilePatterns(patterns: string[]): Array<{ source: string; regex: RegExp }> {
+    return patterns.flatMap((source) => {
+        if (unsafePatternReason(source)) return [];
+        try {
+            return [{ source, regex: new RegExp(source, 'i') }];
+        } catch {
+            return [];
+        }
+    });
+}
+
+export function compileChannelFilters(filters: ChannelPostFilters): CompiledChannelFilters {
+    return {
+        filters,
+        includePatterns: compilePatterns(filters.includePatterns),
+        excludePatterns: compilePatterns(filters.excludePatterns),
+    };
+}
+
+/**
+ * Причина пропуска поста по фильтрам канала или null, если пост нужно анализировать.
+ */
+export function getPostSkipReason(post: { text: string | null; isRepost: boolean }, compiled: CompiledChannelFilters): string | null {
+    const { filters } = compiled;
+    const text = (post.text || '').substring(0, MAX_MATCHED_TEXT_LENGTH);
+    const lower = text.toLowerCase();
+    const patternText = text.substring(0, MAX_PATTERN_TEXT_LENGTH);
+
+    if (filters.ignoreReposts && post.isRepost) return 'repost';
+    if (filters.ignoreAds && isLikelyAd(text)) return 'ad';
+
+    const excludedKeyword = filters.excludeKeywords.find((keyword) => lower.includes(keyword.toLowerCase()));
+    if (excludedKeyword) return `excluded keyword "${excludedKeyword}"`;
+    const excludedPattern = compiled.excludePatterns.find(({ regex }) => regex.test(patternText));
+    if (excludedPattern) return `excluded pattern /${excludedPattern.source}/`;
+
+    // Обязательные слова и выражения: достаточно совпадения с любым из них
+    const required = filters.includeKeywords.length + compiled.includePatterns.length;
+    if (required > 0) {
+        const matched = filters.includeKeywords.some((keyword) => lower.includes(keyword.toLowerCase()))
+            || compiled.includePatterns.some(({ regex }) => regex.test(patternText));
+        if (!matched) return 'no required keywords';
+    }
+    return null;
+}
+
+function minutesOfDay(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+/**
+ * Сейчас тихие часы канала — плановая проверка откладывается (посты дождутся окончания тихих часов).
+ */
+export function isInQuietHours(quietHours: QuietHours | null, now: Date = new Date()): boolean {
+    if (!quietHours) return false;
+    const parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone: quietHours.timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(now);
+    const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+    const minute = Number(parts.find((part) => part.type === 'minute')?.value);
+    const current = hour * 60 + minute;
+    const start = minutesOfDay(quietHours.start);
+    const end = minutesOfDay(quietHours.end);
+    return start < end ? current >= start && current < end : current >= start || current < end;
+}
@@ -0,0 +1,253 @@
+/**
+ * Расписание проверки Telegram-канала: каждый час, N раз в день, cron-выражение или адаптивное —
+ * по тому, как часто канал публикует посты. Без расписания действует прежняя частота checkFrequency (daily/weekly).
+ * Каналы, которые не удаётся скачать, откладываются с экспоненциальной задержкой.
+ */
+
+import { isValidTimezone } from './channel-filters';
+
+export type ChannelSchedule =
+    | { type: 'hourly' }
+    | { type: 'times_per_day'; times: number } // 2–24 проверок в сутки через равные промежутки
+    | { type: 'cron'; expression: string; timezone: string } // 5 полей: минута час день месяц день_недели
+    | { type: 'adaptive' };
+
+export type ChannelScheduleType = ChannelSchedule['type'];
+
+export const CHANNEL_SCHEDULE_TYPES: ChannelScheduleType[] = ['hourly', 'times_per_day', 'cron', 'adaptive'];
+
+// Цикл мониторинга идёт раз в 15 минут — чаще проверять канал бессмысленно
+export const MIN_CHECK_INTERVAL_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const LEGACY_INTERVAL_MS = { daily: DAY_MS, weekly: 7 * DAY_MS };
+
+// Адаптивное расписание: проверять так, чтобы за проверку набиралось ~5 постов, но не реже раза в сутки и не чаще раза в час
+const ADAPTIVE_POSTS_PER_CHECK = 5;
+const ADAPTIVE_MIN_INTERVAL_MS = HOUR_MS;
+const ADAPTIVE_MAX_INTERVAL_MS = DAY_MS;
+
+// Неудачные скачивания: 15 мин, 30 мин, 1 ч, 2 ч … но не дольше суток
+const BACKOFF_BASE_MS = 15 * MINUTE_MS;
+const BACKOFF_MAX_MS = DAY_MS;
+
+const CRON_SEARCH_LIMIT_MS = 366 * DAY_MS;
+const CRON_VALIDATION_RUNS = 50;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface CronFields {
+    minutes: number[];
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    restrictedDayOfMonth: boolean;
+    restrictedDayOfWeek: boolean;
+}
+
+/**
+ * Поле cron: *, N, A-B, список через запятую и шаг /N.
+ */
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+        if (!match) throw new Error(`cron: invalid ${name} field "${field}"`);
+        const [, range, stepRaw] = match;
+        const step = stepRaw ? parseInt(stepRaw, 10) : 1;
+        let from = min;
+        let to = max;
+        if (range !== '*') {
+            const [start, end] = range.split('-').map(Number);
+            from = start;
+            to = end ?? (stepRaw ? max : start);
+        }
+        if (step < 1 || from < min || to > max || from > to) {
+            throw new Error(`cron: ${name} must be within ${min}-${max}`);
+        }
+        for (let value = from; value <= to; value += step) values.add(value);
+    }
+    return values;
+}
+
+export function parseCronExpression(expression: string): CronFields {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error('cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+    }
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+    const daysOfWeek = parseCronField(dayOfWeek, 0, 7, 'day-of-week');
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0); // 7 — тоже воскресенье
+    return {
+        minutes: Array.from(parseCronField(minute, 0, 59, 'minute')).sort((a, b) => a - b),
+        hours: parseCronField(hour, 0, 23, 'hour'),
+        daysOfMonth: parseCronField(dayOfMonth, 1, 31, 'day-of-month'),
+        months: parseCronField(month, 1, 12, 'month'),
+        daysOfWeek,
+        restrictedDayOfMonth: dayOfMonth !== '*',
+        restrictedDayOfWeek: dayOfWeek !== '*',
+    };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localParts(date: Date, timezone: string): { month: number; day: number; weekday: number; hour: number; minute: number } {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            month: 'numeric',
+            day: 'numeric',
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+        });
+        formatters.set(timezone, formatter);
+    }
+    const parts = formatter.formatToParts(date);
+    const value = (type: string) => parts.find((part) => part.type === type)?.value || '';
+    return {
+        month: Number(value('month')),
+        day: Number(value('day')),
+        weekday: WEEKDAYS.indexOf(value('weekday')),
+        hour: Number(value('hour')),
+        minute: Number(value('minute')),
+    };
+}
+
+/**
+ * Следующее срабатывание cron после after в часовом поясе timezone; null — не срабатывает в ближайший год.
+ * Как в cron: если ограничены и день месяца, и день недели, подходит любой из них.
+ */
+export function nextCronOccurrence(fields: CronFields, timezone: string, after: Date): Date | null {
+    const limit = after.getTime() + CRON_SEARCH_LIMIT_MS;
+    let t = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+    while (t <= limit) {
+        const local = localParts(new Date(t), timezone);
+        const dayOfMonthMatches = fields.daysOfMonth.has(local.day);
+        const dayOfWeekMatches = fields.daysOfWeek.has(local.weekday);
+        const dayMatches = fields.restrictedDayOfMonth && fields.restrictedDayOfWeek
+            ? dayOfMonthMatches || dayOfWeekMatches
+            : dayOfMonthMatches && dayOfWeekMatches;
+
+        if (!fields.months.has(local.month) || !dayMatches) {
+            t += ((23 - local.hour) * 60 + (60 - local.minute)) * MINUTE_MS; // к началу следующих суток
+            continue;
+        }
+        if (!fields.hours.has(local.hour)) {
+            t += (60 - local.minute) * MINUTE_MS; // к началу следующего часа
+            continue;
+        }
+        const minute = fields.minutes.find((m) => m >= local.minute);
+        if (minute === undefined) {
+            t += (60 - local.minute) * MINUTE_MS;
+            continue;
+        }
+        if (minute === local.minute) return new Date(t);
+        t += (minute - local.minute) * MINUTE_MS;
+    }
+    return null;
+}
+
+/**
+ * Проверяет cron-выражение: корректный синтаксис, срабатывает в ближайший год и не чаще MIN_CHECK_INTERVAL_MINUTES.
+ */
+function validateCronSchedule(expression: string, timezone: string): void {
+    const fields = parseCronExpression(expression);
+    let previous = nextCronOccurrence(fields, timezone, new Date());
+    if (!previous) throw new Error('cron expression never fires within a year');
+    for (let i = 0; i < CRON_VALIDATION_RUNS; i++) {
+        const next = nextCronOccurrence(fields, timezone, previous);
+        if (!next) break;
+        if (next.getTime() - previous.getTime() < MIN_CHECK_INTERVAL_MINUTES * MINUTE_MS) {
+            throw new Error(`cron expression must not fire more often than every ${MIN_CHECK_INTERVAL_MINUTES} minutes`);
+        }
+        previous = next;
+    }
+}
+
+/**
+ * Разбирает schedule из тела PATCH /api/telegram-channels/:id. null — вернуться к checkFrequency.
+ * Бросает Error с описанием ошибки.
+ */
+export function parseChannelSchedule(value: unknown): ChannelSchedule | null {
+    if (value === null) return null;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('schedule must be an object or null');
+    }
+    const raw = value as Record<string, unknown>;
+    switch (raw.type) {
+        case 'hourly':
+        case 'adaptive':
+            return { type: raw.type };
+        case 'times_per_day': {
+            const times = raw.times;
+            if (!Number.isInteger(times) || (times as number) < 2 || (times as number) > 24) {
+                throw new Error('schedule.times must be an integer from 2 to 24');
+            }
+            return { type: 'times_per_day', times: times as number };
+        }
+        case 'cron': {
+            const { expression, timezone = 'UTC' } = raw;
+            if (typeof expression !== 'string' || !expression.trim()) {
+                throw new Error('schedule.expression must be a cron expression, e.g. "0 9,18 * * 1-5"');
+            }
+            if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+                throw new Error('schedule.timezone must be an IANA time zone, e.g. Europe/Moscow');
+            }
+            const normalized = expression.trim().split(/\s+/).join(' ');
+            validateCronSchedule(normalized, timezone);
+            return { type: 'cron', expression: normalized, timezone };
+        }
+        default:
+            throw new Error(`schedule.type must be one of: ${CHANNEL_SCHEDULE_TYPES.join(', ')}`);
+    }
+}
+
+/**
+ * Промежуток адаптивного расписания по частоте публикаций канала (постов в сутки; null — неизвестно).
+ */
+export function adaptiveIntervalMs(postsPerDay: number | null): number {
+    if (!postsPerDay || postsPerDay <= 0) return ADAPTIVE_MAX_INTERVAL_MS;
+    const interval = (ADAPTIVE_POSTS_PER_CHECK / postsPerDay) * DAY_MS;
+    return Math.min(Math.max(interval, ADAPTIVE_MIN_INTERVAL_MS), ADAPTIVE_MAX_INTERVAL_MS);
+}
+
+/**
+ * Время следующей плановой проверки после успешной проверки в момент from.
+ * postsPerDay нужен только адаптивному расписанию.
+ */
+export function computeNextCheckAt(
+    channel: { schedule?: ChannelSchedule | null; checkFrequency: 'daily' | 'weekly' },
+    from: Date,
+    postsPerDay: number | null = null
+): Date {
+    const schedule = channel.schedule ?? null;
+    if (!schedule) return new Date(from.getTime() + LEGACY_INTERVAL_MS[channel.checkFrequency]);
+
+    switch (schedule.type) {
+        case 'hourly':
+            return new Date(from.getTime() + HOUR_MS);
+        case 'times_per_day':
+            return new Date(from.getTime() + DAY_MS / schedule.times);
+        case 'adaptive':
+            return new Date(from.getTime() + adaptiveIntervalMs(postsPerDay));
+        case 'cron': {
+            const next = nextCronOccurrence(parseCronExpression(schedule.expression), schedule.timezone, from);
+            return next ?? new Date(from.getTime() + DAY_MS);
+        }
+    }
+}
+
+/**
+ * Задержка перед следующей попыткой после failures неудачных проверок подряд.
+ */
+export function backoffDelayMs(failures: number): number {
+    if (failures <= 0) return 0;
+    return Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS);
+}
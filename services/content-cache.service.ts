@@ -0,0 +1,127 @@
+/**
+ * Кеш извлечённого контента по каноническому URL.
+ * Один и тот же URL (другой пользователь, монитор каналов, повторный анализ из истории)
+ * не скачивается заново, пока запись свежее CONTENT_CACHE_TTL_HOURS (по умолчанию 24 ч, 0 — кеш выключен).
+ */
+
+import crypto from 'crypto';
+import ContentCache from '../models/ContentCache';
+import { ExtractedContent } from '../models/content.model';
+
+const DEFAULT_TTL_HOURS = 24;
+
+// Параметры, которые не влияют на контент страницы
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'yclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl',
+    'ref', 'ref_src', 'ref_url', 'referrer', 'spm', 'si', 'feature',
+]);
+
+const YOUTUBE_HOSTS = new Set(['youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com']);
+const TWITTER_HOSTS = new Set(['twitter.com', 'x.com', 'mobile.twitter.com', 'mobile.x.com']);
+
+function getTtlMs(): number {
+    const hours = parseFloat(process.env.CONTENT_CACHE_TTL_HOURS ?? String(DEFAULT_TTL_HOURS));
+    return Number.isFinite(hours) && hours > 0 ? hours * 3600 * 1000 : 0;
+}
+
+export function isContentCacheEnabled(): boolean {
+    return getTtlMs() > 0;
+}
+
+export function sha256(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Приводит URL к каноническому виду: без трекинговых параметров и якоря,
+ * youtu.be/ID, /shorts/ID, /embed/ID → youtube.com/watch?v=ID, t.me/s/channel/N → t.me/channel/N.
+ */
+export function canonicalizeUrl(rawUrl: string): string {
+    const trimmed = (rawUrl || '').trim();
+    let parsed: URL;
+    try {
+        parsed = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    } catch {
+        return trimmed;
+    }
+
+    let host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    let pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    const params = new URLSearchParams();
+
+    if (host === 'youtu.be' || YOUTUBE_HOSTS.has(host)) {
+        const shortMatch = host === 'youtu.be' ? pathname.match(/^\/([^\/]+)/) : null;
+        const pathMatch = pathname.match(/^\/(?:shorts|embed|v|live)\/([^\/]+)/);
+        const videoId = shortMatch?.[1] || pathMatch?.[1] || parsed.searchParams.get('v');
+        if (videoId) {
+            return `https://youtube.com/watch?v=${videoId}`;
+        }
+        host = 'youtube.com';
+        const list = parsed.searchParams.get('list');
+        if (list) params.set('list', list);
+    } else if (host === 't.me' || host === 'telegram.me') {
+        host = 't.me';
+        pathname = pathname.replace(/^\/s\//, '/');
+        // ?single, ?embed и т.п. не меняют пост
+        return `https://t.me${pathname}`;
+    } else {
+        if (TWITTER_HOSTS.has(host)) host = 'x.com';
+        const keys = Array.from(new Set(parsed.searchParams.keys())).sort();
+        for (const key of keys) {
+            const lower = key.toLowerCase();
+            if (lower.startsWith('utm_') || TRACKING_PARAMS.has(lower)) continue;
+            // Twitter добавляет ?s=20&t=... при шаринге
+            if (host === 'x.com' && (lower === 's' || lower === 't')) continue;
+            for (const value of parsed.searchParams.getAll(key)) params.append(key, value);
+        }
+    }
+
+    const query = params.toString();
+    return `https://${host}${pathname === '/' ? '' : pathname}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Возвращает свежую запись кеша или null (промах, устаревшая запись, кеш выключен, ошибка БД).
+ */
+export async function getCachedContent(url: string): Promise<(ExtractedContent & { fetchedAt: Date; canonicalUrl: string }) | null> {
+    const ttlMs = getTtlMs();
+    if (!ttlMs) return null;
+    const canonicalUrl = canonicalizeUrl(url);
+    try {
+        const entry = await ContentCache.findOne({ where: { urlHash: sha256(canonicalUrl) } });
+        if (!entry || Date.now() - new Date(entry.fetchedAt).getTime() > ttlMs) return null;
+        return {
+            content: entry.content,
+            sourceType: entry.sourceType as ExtractedContent['sourceType'],
+            extractor: entry.extractor ?? undefined,
+            fetchedAt: entry.fetchedAt,
+            canonicalUrl,
+        };
+    } catch (error: any) {
+        console.warn(`⚠️ [Content Cache] Read failed for ${canonicalUrl}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Сохраняет извлечённый контент. Заглушки последнего fallback (*-fallback) не кешируются —
+ * иначе временная недоступность источника «залипнет» на весь TTL.
+ */
+export async function saveCachedContent(url: string, extracted: ExtractedContent): Promise<void> {
+    if (!isContentCacheEnabled() || !extracted.content) return;
+    if (extracted.extractor && extracted.extractor.endsWith('-fallback')) return;
+    const canonicalUrl = canonicalizeUrl(url);
+    try {
+        await ContentCache.upsert({
+            urlHash: sha256(canonicalUrl),
+            canonicalUrl,
+            content: extracted.content,
+            sourceType: extracted.sourceType,
+            extractor: extracted.extractor ?? null,
+            contentHash: sha256(extracted.content),
+            fetchedAt: new Date(),
+        });
+    } catch (error: any) {
+        console.warn(`⚠️ [Content Cache] Write failed for ${canonicalUrl}: ${error.message}`);
+    }
+}
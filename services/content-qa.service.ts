@@ -0,0 +1,118 @@
+/**
+ * Контекст для вопросов по контенту (POST /api/analysis/ask-question).
+ * Контент берётся на сервере — из сохранённого анализа (analysis_history.extracted_content / original_text)
+ * или из результатов задачи по jobId, а не из тела запроса. Плюс предыдущие вопросы/ответы по тому же анализу,
+ * чтобы работали уточняющие вопросы ("а что со вторым подходом?").
+ */
+
+import AnalysisHistory from '../models/AnalysisHistory';
+import QAHistory from '../models/QAHistory';
+import { getCachedContent } from './content-cache.service';
+import { getAnalysisJob } from './analysis-job-store.service';
+import { getPersistedAnalysisJob } from './analysis-job-persistence.service';
+
+// Коды ошибок (error.message) — контроллер переводит их в HTTP-статусы
+export const QA_ANALYSIS_NOT_FOUND = 'QA_ANALYSIS_NOT_FOUND';
+export const QA_JOB_NOT_FOUND = 'QA_JOB_NOT_FOUND';
+export const QA_FORBIDDEN = 'QA_FORBIDDEN';
+export const QA_ITEM_AMBIGUOUS = 'QA_ITEM_AMBIGUOUS';
+export const QA_CONTENT_UNAVAILABLE = 'QA_CONTENT_UNAVAILABLE';
+
+/** Сколько последних пар вопрос/ответ передавать в промпт */
+const QA_CONTEXT_TURNS = Number(process.env.QA_CONTEXT_TURNS) || 6;
+
+export interface QaContent {
+    content: string;
+    url: string;
+    analysisHistoryId: number | null; // null — гостевая задача без записи в истории
+}
+
+export interface QaTurn {
+    question: string;
+    answer: string;
+}
+
+/**
+ * Контент сохранённого анализа. Доступ — только владельцу записи.
+ * Для старых записей без extracted_content пробуем кеш извлечённого контента по URL.
+ */
+async function loadHistoryContent(analysisHistoryId: number, userId: number | null): Promise<QaContent> {
+    const history = await AnalysisHistory.findByPk(analysisHistoryId);
+    if (!history) throw new Error(QA_ANALYSIS_NOT_FOUND);
+    if (!userId || history.userId !== userId) throw new Error(QA_FORBIDDEN);
+
+    let content = history.extractedContent || history.originalText;
+    if (!content && /^https?:\/\//i.test(history.url)) {
+        content = (await getCachedContent(history.url))?.content || null;
+    }
+    if (!content) throw new Error(QA_CONTENT_UNAVAILABLE);
+
+    return { content, url: history.url, analysisHistoryId: history.id };
+}
+
+const matchesItemUrl = (result: any, url: string): boolean =>
+    result?.originalUrl === url || result?.url === url || result?.channelUrl === url;
+
+/**
+ * Контент элемента задачи. Задача с несколькими элементами требует url, чтобы выбрать нужный.
+ * Гостевые задачи не пишутся в историю — их контент берётся из результатов в хранилище задач.
+ */
+async function loadJobContent(jobId: string, url: string | undefined, userId: number | null): Promise<QaContent> {
+    const job = await getAnalysisJob(jobId);
+    if (job) {
+        if (job.userId && job.userId !== userId) throw new Error(QA_FORBIDDEN);
+        const results = (job.results || []).filter((r: any) => r && !r.error);
+        const candidates = url ? results.filter((r: any) => matchesItemUrl(r, url)) : results;
+        if (candidates.length === 0) throw new Error(QA_ANALYSIS_NOT_FOUND);
+        if (candidates.length > 1) throw new Error(QA_ITEM_AMBIGUOUS);
+
+        const item = candidates[0];
+        if (item.analysisHistoryId) return loadHistoryContent(item.analysisHistoryId, userId);
+        if (typeof item.extractedContent === 'string' && item.extractedContent) {
+            return { content: item.extractedContent, url: item.originalUrl || item.url || url || `job:${jobId}`, analysisHistoryId: null };
+        }
+        throw new Error(QA_CONTENT_UNAVAILABLE);
+    }
+
+    // Задачи нет в памяти/Redis (рестарт, истёк TTL) — ищем по сохранённой задаче пользователя
+    const persisted = await getPersistedAnalysisJob(jobId);
+    if (!persisted) throw new Error(QA_JOB_NOT_FOUND);
+    if (persisted.userId !== userId) throw new Error(QA_FORBIDDEN);
+
+    const historyIds = persisted.historyIds || [];
+    if (url) {
+        const history = await AnalysisHistory.findOne({ where: { id: historyIds, url }, attributes: ['id'] });
+        if (!history) throw new Error(QA_ANALYSIS_NOT_FOUND);
+        return loadHistoryContent(history.id, userId);
+    }
+    if (historyIds.length === 0) throw new Error(QA_ANALYSIS_NOT_FOUND);
+    if (historyIds.length > 1) throw new Error(QA_ITEM_AMBIGUOUS);
+    return loadHistoryContent(historyIds[0], userId);
+}
+
+/**
+ * Находит контент для вопроса: по analysisHistoryId или по jobId (+ url элемента).
+ */
+export async function resolveQaContent(
+    params: { analysisHistoryId?: number; jobId?: string; url?: string },
+    userId: number | null
+): Promise<QaContent> {
+    if (params.analysisHistoryId) return loadHistoryContent(params.analysisHistoryId, userId);
+    if (params.jobId) return loadJobContent(params.jobId, params.url, userId);
+    throw new Error(QA_ANALYSIS_NOT_FOUND);
+}
+
+/**
+ * Предыдущие вопросы/ответы пользователя по анализу (старые первыми).
+ * Гостевые вопросы не привязаны к записи истории — для них контекста нет.
+ */
+export async function loadQaConversation(analysisHistoryId: number | null, userId: number | null): Promise<QaTurn[]> {
+    if (!analysisHistoryId || !userId) return [];
+    const rows = await QAHistory.findAll({
+        where: { analysisHistoryId, userId },
+        order: [['createdAt', 'DESC']],
+        limit: QA_CONTEXT_TURNS,
+        attributes: ['question', 'answer'],
+    });
+    return rows.reverse().map((row) => ({ question: row.question, answer: row.answer }));
+}
@@ -2,6 +2,7 @@ import puppeteer from 'puppeteer-extra';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 import AdblockerPlugin from 'puppeteer-extra-plugin-adblocker';
 import { ExtractedContent } from '../models/content.model';
+import { ExtractorRegistry, createDefaultExtractorRegistry, detectVideoPlatform } from './extractors';
 import play from 'play-dl';
 // @ts-ignore - fs-extra types may not be available
 import * as fs from 'fs-extra';
@@ -14,11 +15,13 @@ if (!process.env.DISABLE_PUPPETEER_STEALTH) {
     puppeteer.use(AdblockerPlugin({ blockTrackers: true }));
 }
 
-class ContentService {
+export class ContentService {
+    readonly extractors: ExtractorRegistry = createDefaultExtractorRegistry(this);
+
     /**
      * Нормализует транскрипт видео: удаляет временные метки, лишние пробелы, специальные символы
      */
-    private normalizeTranscript(transcript: string): string {
+    normalizeTranscript(transcript: string): string {
         if (!transcript || transcript.trim().length === 0) {
             return '';
         }
@@ -41,442 +44,12 @@ class ContentService {
             .trim();
     }
 
+    /**
+     * Извлекает контент из URL через цепочку экстракторов (см. services/extractors).
+     * Порядок fallback для каждого источника задаётся приоритетами экстракторов, а не здесь.
+     */
     async extractContentFromUrl(url: string): Promise<ExtractedContent> {
-        // Проверяем, является ли это Telegram постом
-        const telegramPostMatch = url.match(/^https?:\/\/t\.me\/([^\/]+)\/(\d+)$/);
-        if (telegramPostMatch) {
-            return await this.extractTelegramPostContent(url);
-        }
-        
-        // Проверяем, является ли это постом или страницей Twitter/X (в т.ч. x.com/i/trending/...)
-        const twitterStatusMatch = url.match(/^https?:\/\/(?:www\.)?(?:twitter\.com|x\.com)\/[^/]+\/status\/(\d+)/);
-        const twitterTrendingMatch = url.match(/^https?:\/\/(?:www\.)?(?:twitter\.com|x\.com)\/i\/trending\/\d+/);
-        if (twitterStatusMatch || twitterTrendingMatch) {
-            return await this.extractTwitterPostContent(url);
-        }
-        
-        // Ссылка на профиль Twitter/X (без /status/) — контент не извлекаем, бросаем сразу (regex, не зависит от URL parsing)
-        const twitterProfileMatch = (url || '').trim().match(/^https?:\/\/(?:www\.)?(?:twitter\.com|x\.com)\/([a-zA-Z0-9_]+)(?:\/|$|\?|#)/i);
-        if (twitterProfileMatch) {
-            const username = twitterProfileMatch[1];
-            if (username && username.toLowerCase() !== 'i') {
-                console.log(`🐦 [Twitter/X] Profile URL detected in extractContentFromUrl, throwing TWITTER_PROFILE_URL: @${username}`);
-                throw new Error('TWITTER_PROFILE_URL');
-            }
-        }
-        
-        // Определяем тип URL
-        const videoPlatform = this.detectVideoPlatform(url);
-        
-        if (videoPlatform) {
-            console.log(`Processing ${videoPlatform} video: ${url}`);
-            
-            // ============================================
-            // ПРИОРИТЕТ 1: ПОЛУЧЕНИЕ ТРАНСКРИПТА ВИДЕО
-            // ============================================
-            // Для всех видео сначала пытаемся получить полную расшифровку (транскрипт)
-            // Только если ВСЕ методы получения транскрипта провалились, используем метаданные
-            
-            if (videoPlatform === 'youtube') {
-                console.log('🎬 [YouTube] Attempting to extract video transcript (full content)...');
-                console.log('   ⚠️ IMPORTANT: Will try ALL transcript methods before falling back to metadata');
-                
-                // Метод 1: Puppeteer (открывает браузер и извлекает транскрипт со страницы) - ПРИОРИТЕТНЫЙ
-                try {
-                    console.log('   [1/4] Trying Puppeteer (browser-based) for transcript...');
-                    // Увеличиваем таймаут до 90 секунд для Puppeteer (больше времени на загрузку и клики)
-                    const transcriptText = await Promise.race([
-                        this.getYouTubeTranscript(url),
-                        new Promise<string>((_, reject) => 
-                            setTimeout(() => reject(new Error('Transcript extraction timeout')), 120000) // Увеличено до 120 секунд
-                        )
-                    ]);
-                    
-                    if (transcriptText && transcriptText.trim().length > 30) {
-                        const normalized = this.normalizeTranscript(transcriptText);
-                        if (normalized.length > 30) {
-                            console.log(`✓✓✓ SUCCESS: Using YouTube transcript (Puppeteer) (${normalized.length} chars)`);
-                            return { content: normalized, sourceType: 'transcript' };
-                        } else {
-                            console.log(`   ⚠️ Puppeteer transcript too short after normalization (${normalized.length} chars)`);
-                        }
-                    } else {
-                        console.log(`   ⚠️ Puppeteer returned empty or too short transcript (${transcriptText?.length || 0} chars)`);
-                    }
-                } catch (puppeteerError: any) {
-                    const errorMsg = puppeteerError.message || 'Unknown error';
-                    // Не логируем таймаут как критическую ошибку, просто продолжаем
-                    if (errorMsg.includes('timeout')) {
-                        console.log(`   ⚠️ Puppeteer timeout (90s) - trying next method...`);
-                    } else {
-                        console.log(`   ⚠️ Puppeteer failed: ${errorMsg.substring(0, 100)}`);
-                    }
-                }
-                
-                // Метод 2: Библиотека youtube-transcript (быстрый, не требует браузер)
-                try {
-                    console.log('   [2/4] Trying youtube-transcript library...');
-                    const { YoutubeTranscript } = await import('youtube-transcript');
-                    
-                    // Пробуем сначала без указания языка (автоматический выбор)
-                    try {
-                        const transcriptItems = await YoutubeTranscript.fetchTranscript(url);
-                        const transcriptText = transcriptItems.map(item => item.text).join(' ');
-                        
-                        if (transcriptText && transcriptText.trim().length > 30) {
-                            const normalized = this.normalizeTranscript(transcriptText);
-                            if (normalized.length > 30) {
-                                console.log(`✓✓✓ SUCCESS: Using youtube-transcript library (${normalized.length} chars)`);
-                                return { content: normalized, sourceType: 'transcript' };
-                            }
-                        }
-                    } catch (autoError: any) {
-                        // Если автоматический выбор не сработал, пробуем с конкретными языками
-                        const languages = ['ru', 'en', 'uk'];
-                        for (const lang of languages) {
-                            try {
-                                console.log(`   Trying youtube-transcript with language: ${lang}...`);
-                                const transcriptItems = await YoutubeTranscript.fetchTranscript(url, { lang });
-                                const transcriptText = transcriptItems.map(item => item.text).join(' ');
-                                
-                                if (transcriptText && transcriptText.trim().length > 30) {
-                                    const normalized = this.normalizeTranscript(transcriptText);
-                                    if (normalized.length > 30) {
-                                        console.log(`✓✓✓ SUCCESS: Using youtube-transcript library (${lang}, ${normalized.length} chars)`);
-                                        return { content: normalized, sourceType: 'transcript' };
-                                    }
-                                }
-                            } catch (langError: any) {
-                                // Пробуем следующий язык
-                                continue;
-                            }
-                        }
-                        throw autoError; // Если все языки провалились, пробрасываем исходную ошибку
-                    }
-                } catch (youtubeTranscriptError: any) {
-                    const errorMsg = youtubeTranscriptError.message || 'Unknown error';
-                    if (errorMsg.includes('captcha') || errorMsg.includes('too many requests')) {
-                        console.log(`   ⚠️ youtube-transcript failed: YouTube requires captcha or rate limited`);
-                    } else {
-                        console.log(`   ⚠️ youtube-transcript failed: ${errorMsg}`);
-                    }
-                }
-                
-                // Метод 3: ScrapingBee API для получения HTML и извлечения транскрипта
-                try {
-                    console.log('   [3/4] Trying ScrapingBee API for transcript...');
-                    const scrapingBeeContent = await this.extractWithScrapingBee(url);
-                    if (scrapingBeeContent) {
-                        console.log(`   ✓ ScrapingBee returned HTML (${scrapingBeeContent.length} chars)`);
-                        const transcriptText = await this.extractTranscriptFromHTML(scrapingBeeContent, url);
-                        if (transcriptText && transcriptText.trim().length > 30) {
-                            const normalized = this.normalizeTranscript(transcriptText);
-                            if (normalized.length > 30) {
-                                console.log(`✓✓✓ SUCCESS: Using ScrapingBee for YouTube transcript (${normalized.length} chars)`);
-                                return { content: normalized, sourceType: 'transcript' };
-                            }
-                        }
-                    }
-                } catch (scrapingBeeError: any) {
-                    console.log(`   ⚠️ ScrapingBee failed: ${scrapingBeeError.message}`);
-                }
-                
-                // Метод 4: yt-dlp для извлечения субтитров (если доступны)
-                try {
-                    console.log('   [4/4] Trying yt-dlp for transcript extraction...');
-                    const transcriptText = await this.extractTranscriptWithYtDlp(url);
-                    if (transcriptText && transcriptText.trim().length > 30) {
-                        const normalized = this.normalizeTranscript(transcriptText);
-                        if (normalized.length > 30) {
-                            console.log(`✓✓✓ SUCCESS: Using yt-dlp transcript (${normalized.length} chars)`);
-                            return { content: normalized, sourceType: 'transcript' };
-                        } else {
-                            console.log(`   ⚠️ yt-dlp transcript too short after normalization (${normalized.length} chars)`);
-                        }
-                    } else {
-                        console.log(`   ⚠️ yt-dlp returned empty or too short transcript (${transcriptText?.length || 0} chars)`);
-                    }
-                } catch (ytDlpError: any) {
-                    const errorMsg = ytDlpError.message || 'Unknown error';
-                    // Если это блокировка бота, не логируем как ошибку
-                    if (errorMsg.includes('Sign in to confirm') || errorMsg.includes('not a bot')) {
-                        console.log(`   ⚠️ yt-dlp blocked by YouTube (bot detection) - this is expected, trying other methods...`);
-                    } else {
-                        console.log(`   ⚠️ yt-dlp transcript extraction failed: ${errorMsg.substring(0, 100)}`);
-                    }
-                }
-                
-                // Все методы получения транскрипта провалились
-                console.log('⚠️⚠️⚠️ ALL TRANSCRIPT METHODS FAILED ⚠️⚠️⚠️');
-                console.log('❌ All transcript extraction methods failed for YouTube.');
-                console.log('   → This video may not have transcripts available, or all methods were blocked.');
-                console.log('   → Proceeding to metadata fallback (title + description only)...');
-            }
-
-            // Для не-YouTube платформ: попытка автоматической транскрибации
-            // Транскрипция включена по умолчанию, отключается только если DISABLE_VIDEO_TRANSCRIPTION=true
-            const disableTranscription = process.env.DISABLE_VIDEO_TRANSCRIPTION === 'true';
-
-            if (!disableTranscription && videoPlatform !== 'youtube') {
-                console.log(`🎬 [${videoPlatform}] Attempting automatic transcription to get full video content...`);
-                try {
-                    const transcribedText = await this.transcribeVideo(url, videoPlatform);
-                    if (transcribedText && transcribedText.trim().length > 30) {
-                        const normalized = this.normalizeTranscript(transcribedText);
-                        if (normalized.length > 30) {
-                            console.log(`✓✓✓ SUCCESS: Using automatic transcription (${normalized.length} chars) - full video content extracted`);
-                            return { content: normalized, sourceType: 'transcript' };
-                        }
-                    } else {
-                        console.warn(`⚠️ Transcription returned empty or too short text (${transcribedText?.length || 0} chars)`);
-                    }
-                } catch (error: any) {
-                    const errorMsg = error.message || 'Unknown error';
-                    console.warn(`⚠️ Automatic transcription failed for ${videoPlatform}: ${errorMsg}`);
-                    if (errorMsg.includes('download') || errorMsg.includes('Failed to download')) {
-                        console.warn(`   → Video download failed. May be private or unsupported.`);
-                    } else if (errorMsg.includes('extract') || errorMsg.includes('audio')) {
-                        console.warn(`   → Audio extraction failed.`);
-                    } else if (errorMsg.includes('Transcription failed') || errorMsg.includes('Whisper')) {
-                        console.warn(`   → Transcription service failed.`);
-                    }
-                }
-            } else if (disableTranscription && videoPlatform !== 'youtube') {
-                console.log(`⏭️ Video transcription disabled. Using metadata only.`);
-            }
-
-            // ============================================
-            // ПРИОРИТЕТ 2: МЕТАДАННЫЕ (только если транскрипт недоступен)
-            // ============================================
-            console.log(`📋 [${videoPlatform}] Transcript unavailable. Falling back to metadata extraction...`);
-
-
-            // 3. ПРИОРИТЕТНЫЙ FALLBACK: Метаданные через yt-dlp (самый быстрый и надежный способ получить название/описание)
-            try {
-                const ytDlpMetadata = await this.fetchMetadataWithYtDlp(url);
-                if (ytDlpMetadata && ytDlpMetadata.content && ytDlpMetadata.content.trim().length > 100) {
-                    console.log(`✓ Using yt-dlp metadata for ${videoPlatform} (transcription unavailable)`);
-                    return ytDlpMetadata;
-                }
-            } catch (error: any) {
-                console.warn(`⚠️ yt-dlp metadata extraction failed for ${videoPlatform}: ${error.message}`);
-                console.log(`Falling back to Puppeteer extraction...`);
-            }
-
-            // 4. FALLBACK: Метаданные через ScrapingBee (не требует браузеров)
-            try {
-                const scrapingBeeContent = await this.extractWithScrapingBee(url);
-                if (scrapingBeeContent) {
-                    const cheerio = await import('cheerio');
-                    const $ = cheerio.load(scrapingBeeContent);
-                    
-                    // Извлекаем метаданные (title, description)
-                    const title = $('meta[property="og:title"]').attr('content') || 
-                                 $('title').text() || 
-                                 $('h1').first().text();
-                    const description = $('meta[property="og:description"]').attr('content') || 
-                                      $('meta[name="description"]').attr('content') || '';
-                    
-                    if (title || description) {
-                        const contentParts: string[] = [];
-                        if (title) contentParts.push(`Название: ${title.trim()}`);
-                        if (description) contentParts.push(`\n\nОписание: ${description.trim()}`);
-                        
-                        const content = contentParts.join('') + 
-                            '\n\n⚠️ ВАЖНО: Это только метаданные видео (название, описание). Полная расшифровка видео недоступна. Анализ проводится ТОЛЬКО на основе этих метаданных.';
-                        
-                        console.log(`✓ Using ScrapingBee metadata for ${videoPlatform}`);
-                        return { content, sourceType: 'metadata' };
-                    }
-                }
-            } catch (scrapingBeeError: any) {
-                console.log(`⚠️ ScrapingBee metadata extraction failed: ${scrapingBeeError.message}`);
-            }
-            
-            // 5. FALLBACK 2: Парсинг страницы через Puppeteer (более медленный, но позволяет собрать доп. текст и комментарии)
-            // Используем Promise.race с коротким таймаутом, чтобы не ждать слишком долго
-            try {
-                const metadataPromise = this.extractVideoMetadata(url, videoPlatform);
-                const timeoutPromise = new Promise<null>((resolve) => 
-                    setTimeout(() => resolve(null), 25000) // Таймаут 25 секунд
-                );
-                
-                const metadata = await Promise.race([metadataPromise, timeoutPromise]);
-                if (metadata && metadata.content && metadata.content.trim().length > 100) {
-                    console.log(`✓ Using Puppeteer metadata for ${videoPlatform} (includes page content)`);
-                    return metadata;
-                } else if (metadata === null) {
-                    console.warn(`⚠️ Metadata extraction (puppeteer) timed out for ${videoPlatform}, trying basic metadata...`);
-                }
-            } catch (error: any) {
-                const errorMsg = error.message || '';
-                if (errorMsg.includes('timeout') || errorMsg.includes('Navigation timeout')) {
-                    console.warn(`⚠️ Metadata extraction (puppeteer) timed out for ${videoPlatform}, trying basic metadata...`);
-                } else {
-                    console.warn(`⚠️ Metadata extraction (puppeteer) failed for ${videoPlatform}: ${errorMsg}`);
-                }
-            }
-
-            // 6. ПОСЛЕДНИЙ FALLBACK: play-dl (только для YouTube, если все остальное провалилось)
-            if (videoPlatform === 'youtube') {
-                try {
-                    const videoInfo = await play.video_info(url);
-                    const { title, description } = videoInfo.video_details;
-                    const content = `Название: ${title || 'Нет названия'}\n\nОписание: ${description || 'Нет описания'}\n\n⚠️ ВАЖНО: Это только метаданные видео. Полная расшифровка недоступна. Анализ проводится ТОЛЬКО на основе этих метаданных.`;
-                    console.log('⚠️ Using play-dl metadata (transcript unavailable)');
-                    return { content, sourceType: 'metadata' };
-                } catch (error: any) {
-                    console.error(`✗ play-dl metadata extraction failed: ${error.message}`);
-                }
-            }
-            
-            // 7. ФИНАЛЬНЫЙ FALLBACK: Извлечение базовых метаданных через простой HTTP-запрос
-            // Это гарантирует, что мы всегда получим хотя бы название и описание из og:tags
-            try {
-                console.log(`🔄 Attempting final fallback: extracting basic metadata from page...`);
-                const basicMetadata = await this.extractBasicMetadata(url);
-                if (basicMetadata && basicMetadata.content && basicMetadata.content.trim().length > 50) {
-                    console.log(`✓ Using basic metadata as last resort`);
-                    return basicMetadata;
-                }
-            } catch (error: any) {
-                console.warn(`⚠️ Basic metadata extraction failed: ${error.message}`);
-            }
-            
-            // Если даже базовые метаданные не получены, возвращаем минимальную информацию вместо ошибки
-            console.warn(`⚠️ All content extraction methods failed for ${videoPlatform}. Returning minimal metadata.`);
-            return {
-                content: `⚠️ ВАЖНО: Не удалось извлечь полный контент из видео. Браузер недоступен на этом сервере, или видео требует аутентификации. Анализ будет проведен только на основе URL и доступных метаданных.\n\nURL: ${url}\nПлатформа: ${videoPlatform}`,
-                sourceType: 'metadata' as const
-            };
-        } else {
-            // Повторная проверка: ссылка на профиль X/Twitter не должна парситься как статья
-            try {
-                const parsed = new URL(url.trim().split('?')[0].split('#')[0] || url);
-                const host = parsed.hostname.toLowerCase();
-                const pathname = parsed.pathname.replace(/\/+$/, '').replace(/^\/+/, '');
-                const isTwitterHost = host === 'twitter.com' || host === 'x.com' || host.endsWith('.twitter.com') || host.endsWith('.x.com');
-                const isProfilePath = /^[a-zA-Z0-9_]+$/.test(pathname) && !pathname.toLowerCase().startsWith('i');
-                if (isTwitterHost && isProfilePath) {
-                    throw new Error('TWITTER_PROFILE_URL');
-                }
-            } catch (e: any) {
-                if (e?.message === 'TWITTER_PROFILE_URL') throw e;
-            }
-            // ... (Статья - сначала пробуем ScrapingBee, потом Puppeteer)
-            // Сначала пробуем ScrapingBee (не требует браузеров)
-            try {
-                const scrapingBeeContent = await this.extractWithScrapingBee(url);
-                if (scrapingBeeContent) {
-                    const cheerio = await import('cheerio');
-                    const $ = cheerio.load(scrapingBeeContent);
-                    
-                    // Извлекаем основной контент статьи
-                    const mainContentSelectors = ['article', 'main', '.post-content', '.article-body', 'body'];
-                    let mainEl = null;
-                    for (const selector of mainContentSelectors) {
-                        const element = $(selector).first();
-                        if (element.length > 0) {
-                            mainEl = element;
-                            break;
-        }
-    }
-
-                    if (mainEl && mainEl.length > 0) {
-                        // Удаляем ненужные элементы
-                        mainEl.find('script, style, nav, header, footer, aside, form, button, .comments, #comments').remove();
-                        
-                        // Извлекаем текст
-                        const paragraphs = mainEl.find('p, h1, h2, h3, li, pre, code').toArray();
-                        const content = paragraphs
-                            .map((el: any) => $(el).text().trim())
-                            .filter((text: string) => text.length > 20)
-                            .join('\n\n');
-                        
-                        if (content.trim().length > 100) {
-                            console.log(`✓ Using ScrapingBee for article (${content.length} chars)`);
-                            return { content, sourceType: 'article' };
-                        }
-                    }
-                }
-            } catch (scrapingBeeError: any) {
-                console.log(`⚠️ ScrapingBee failed for article: ${scrapingBeeError.message}`);
-                console.log(`   Trying Puppeteer fallback...`);
-            }
-            
-            // Fallback на Puppeteer (ещё раз не парсить профиль X)
-            try {
-                const parsed2 = new URL(url.trim().split('?')[0].split('#')[0] || url);
-                const host2 = parsed2.hostname.toLowerCase();
-                const path2 = parsed2.pathname.replace(/\/+$/, '').replace(/^\/+/, '');
-                if ((host2 === 'twitter.com' || host2 === 'x.com') && /^[a-zA-Z0-9_]+$/.test(path2) && !path2.toLowerCase().startsWith('i')) {
-                    throw new Error('TWITTER_PROFILE_URL');
-                }
-                return await this.scrapeArticleWithPuppeteer(url);
-            } catch (puppeteerError: any) {
-                if (puppeteerError?.message === 'TWITTER_PROFILE_URL') throw puppeteerError;
-                const errorMsg = puppeteerError.message || 'Unknown error';
-                console.warn(`⚠️ Puppeteer scraping failed: ${errorMsg}`);
-                
-                // Проверяем, является ли ошибка связанной с отсутствием Chrome
-                if (errorMsg.includes('Could not find Chrome') || 
-                    errorMsg.includes('Chrome not found') || 
-                    errorMsg.includes('Chrome/Chromium not available') ||
-                    !process.env.PUPPETEER_EXECUTABLE_PATH) {
-                    // Пробуем извлечь базовые метаданные через HTTP запрос (без браузера)
-                    try {
-                        console.log('Attempting to extract basic metadata without browser...');
-                        const response = await fetch(url, {
-                            headers: {
-                                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-                            }
-                        });
-                        const html = await response.text();
-                        
-                        // Извлекаем og:tags и title из HTML
-                        const ogTitleMatch = html.match(/<meta\s+property=["']og:title["']\s+content=["']([^"']+)["']/i);
-                        const ogDescMatch = html.match(/<meta\s+property=["']og:description["']\s+content=["']([^"']+)["']/i);
-                        const titleMatch = html.match(/<title>([^<]+)<\/title>/i);
-                        
-                        const title = ogTitleMatch?.[1] || titleMatch?.[1] || '';
-                        const description = ogDescMatch?.[1] || '';
-                        
-                        if (title || description) {
-                            const contentParts: string[] = [];
-                            if (title) contentParts.push(`Название: ${title}`);
-                            if (description) contentParts.push(`\n\nОписание: ${description}`);
-                            
-                            const content = contentParts.join('') + 
-                                '\n\n⚠️ ВАЖНО: Это только базовые метаданные страницы. Полный контент статьи недоступен без браузера.';
-                            
-                            console.log(`✓ Extracted basic metadata without browser (title: ${title ? 'yes' : 'no'}, desc: ${description ? 'yes' : 'no'})`);
-                            return { content, sourceType: 'metadata' };
-                        }
-                    } catch (fetchError: any) {
-                        console.warn(`⚠️ Basic metadata extraction failed: ${fetchError.message}`);
-                    }
-                }
-                
-                // ФИНАЛЬНЫЙ FALLBACK: Пытаемся извлечь хотя бы базовые метаданные
-                try {
-                    console.log(`🔄 Attempting final fallback: extracting basic metadata from article...`);
-                    const basicMetadata = await this.extractBasicMetadata(url);
-                    if (basicMetadata && basicMetadata.content && basicMetadata.content.trim().length > 20) {
-                        console.log(`✓ Using basic metadata as last resort for article`);
-                        return basicMetadata;
-                    }
-                } catch (metadataError: any) {
-                    console.warn(`⚠️ Final metadata fallback failed: ${metadataError.message}`);
-                }
-                
-                // Если даже базовые метаданные не получены, возвращаем минимальную информацию вместо ошибки
-                console.warn(`⚠️ All content extraction methods failed. Returning minimal metadata.`);
-                return {
-                    content: `⚠️ ВАЖНО: Не удалось извлечь полный контент из статьи. Браузер недоступен на этом сервере. Анализ будет проведен только на основе URL и доступных метаданных.\n\nURL: ${url}`,
-                    sourceType: 'metadata' as const
-                };
-            }
-        }
+        return this.extractors.extract(url);
     }
 
     /**
@@ -678,7 +251,7 @@ class ContentService {
     /**
      * Извлекает HTML контент через ScrapingBee API (не требует браузеров)
      */
-    private async extractWithScrapingBee(url: string): Promise<string | null> {
+    async extractWithScrapingBee(url: string): Promise<string | null> {
         // Поддержка нескольких API ключей через переменную окружения (разделенные запятыми)
         const apiKeysEnv = process.env.SCRAPINGBEE_API_KEY || process.env.SCRAPINGBEE_API_KEYS;
         if (!apiKeysEnv) {
@@ -766,7 +339,7 @@ class ContentService {
     /**
      * Извлекает транскрипт из HTML страницы YouTube
      */
-    private async extractTranscriptFromHTML(html: string, url: string): Promise<string | null> {
+    async extractTranscriptFromHTML(html: string, url: string): Promise<string | null> {
         try {
             // Извлекаем video ID из URL
             const videoIdMatch = url.match(/(?:v=|\/)([a-zA-Z0-9_-]{11})/);
@@ -1217,7 +790,7 @@ class ContentService {
         }
     }
 
-    private async getYouTubeTranscript(url: string): Promise<string> {
+    async getYouTubeTranscript(url: string): Promise<string> {
         let browser = null;
         try {
             console.log('Launching browser to extract YouTube transcript...');
@@ -1533,7 +1106,7 @@ class ContentService {
     /**
      * Извлекает транскрипт YouTube видео через yt-dlp
      */
-    private async extractTranscriptWithYtDlp(url: string): Promise<string | null> {
+    async extractTranscriptWithYtDlp(url: string): Promise<string | null> {
         try {
             // @ts-ignore - yt-dlp-exec types may not быть доступны
             const ytdlp = (await import('yt-dlp-exec')).default;
@@ -1690,7 +1263,7 @@ class ContentService {
     /**
      * Быстро получает метаданные видео через yt-dlp (без Puppeteer)
      */
-    private async fetchMetadataWithYtDlp(url: string): Promise<ExtractedContent | null> {
+    async fetchMetadataWithYtDlp(url: string): Promise<ExtractedContent | null> {
         try {
             // @ts-ignore - yt-dlp-exec types may not быть доступны
             const ytdlp = (await import('yt-dlp-exec')).default;
@@ -1752,7 +1325,7 @@ class ContentService {
      * Извлекает контент из поста Twitter/X
      * Twitter посты — это текст, не видео. Извлекаем текст твита через og:description, [data-testid="tweetText"] или мета-теги.
      */
-    private async extractTwitterPostContent(url: string): Promise<ExtractedContent> {
+    async extractTwitterPostContent(url: string): Promise<ExtractedContent> {
         try {
             console.log(`🐦 [Twitter/X] Extracting post content from: ${url}`);
             
@@ -1885,7 +1458,7 @@ class ContentService {
     /**
      * Извлекает контент из Telegram поста
      */
-    private async extractTelegramPostContent(url: string): Promise<ExtractedContent> {
+    async extractTelegramPostContent(url: string): Promise<ExtractedContent> {
         try {
             console.log(`📱 [Telegram] Extracting post content from: ${url}`);
             
@@ -2008,54 +1581,15 @@ class ContentService {
     /**
      * Определяет видеоплатформу по URL
      */
-    private detectVideoPlatform(url: string): string | null {
-        const patterns: { [key: string]: RegExp[] } = {
-            youtube: [
-                /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com|youtu\.be)\/(?:watch\?v=|embed\/|v\/|shorts\/|.+\?v=)?([^"&?\/\s]{11})/,
-            ],
-            vk: [
-                /(?:https?:\/\/)?(?:www\.)?(?:vk\.com|vkontakte\.ru)\/video(-?\d+_\d+)/,
-                /(?:https?:\/\/)?(?:www\.)?vk\.com\/.*video/,
-                /(?:https?:\/\/)?(?:www\.)?vkvideo\.ru\/video(-?\d+_\d+)/,
-            ],
-            tiktok: [
-                /(?:https?:\/\/)?(?:www\.)?(?:tiktok\.com|vm\.tiktok\.com)\/.+/,
-            ],
-            rutube: [
-                /(?:https?:\/\/)?(?:www\.)?rutube\.ru\/video\/([a-zA-Z0-9]+)/,
-            ],
-            dzen: [
-                /(?:https?:\/\/)?(?:www\.)?dzen\.ru\/video\/watch\/([a-zA-Z0-9]+)/,
-                /(?:https?:\/\/)?(?:www\.)?dzen\.ru\/video\/([a-zA-Z0-9]+)/,
-            ],
-            yandex: [
-                /(?:https?:\/\/)?(?:www\.)?yandex\.ru\/video\/(?:search|preview)\?.*/,
-            ],
-            instagram: [
-                /(?:https?:\/\/)?(?:www\.)?instagram\.com\/(?:reel|p)\/([a-zA-Z0-9_-]+)/,
-            ],
-            facebook: [
-                /(?:https?:\/\/)?(?:www\.)?(?:facebook\.com|fb\.com)\/watch\/?.*/,
-            ],
-            twitter: [
-                /(?:https?:\/\/)?(?:www\.)?(?:twitter\.com|x\.com)\/.+\/status\/\d+/,
-            ],
-        };
-
-        for (const [platform, platformPatterns] of Object.entries(patterns)) {
-            if (platformPatterns.some(pattern => pattern.test(url))) {
-                return platform;
-            }
-        }
-
-        return null;
+    detectVideoPlatform(url: string): string | null {
+        return detectVideoPlatform(url);
     }
 
     private isYoutubeUrl(url: string): boolean {
         return this.detectVideoPlatform(url) === 'youtube';
     }
 
-    private async scrapeArticleWithPuppeteer(url: string): Promise<ExtractedContent> {
+    async scrapeArticleWithPuppeteer(url: string): Promise<ExtractedContent> {
         try {
             const parsed = new URL(url.trim().split('?')[0].split('#')[0] || url);
             const host = parsed.hostname.toLowerCase();
@@ -2121,7 +1655,7 @@ class ContentService {
     /**
      * Универсальный метод извлечения метаданных видео через Puppeteer
      */
-    private async extractVideoMetadata(url: string, platform: string): Promise<ExtractedContent | null> {
+    async extractVideoMetadata(url: string, platform: string): Promise<ExtractedContent | null> {
         let browser = null;
         try {
             console.log(`Extracting metadata from ${platform} video: ${url}`);
@@ -2458,7 +1992,7 @@ class ContentService {
      * Финальный fallback: извлекает базовые метаданные (og:title, og:description) 
      * Сначала пробует простой HTTP-запрос (без браузера), потом Puppeteer с коротким таймаутом
      */
-    private async extractBasicMetadata(url: string): Promise<ExtractedContent | null> {
+    async extractBasicMetadata(url: string): Promise<ExtractedContent | null> {
         // Сначала пробуем простой HTTP-запрос (не требует браузера)
         try {
             console.log(`Extracting basic metadata via HTTP fetch from: ${url}`);
@@ -2700,7 +2234,7 @@ class ContentService {
      * Основной метод для транскрибации видео
      * Поддерживает внешние API (Teamlogs, Audio-Transcription.ru и др.) и локальную транскрибацию как fallback
      */
-    private async transcribeVideo(url: string, platform: string): Promise<string> {
+    async transcribeVideo(url: string, platform: string): Promise<string> {
         // Приоритет 1: Внешние API для транскрибации (быстро и надежно)
         
         // Teamlogs API (Российский сервис)
@@ -0,0 +1,105 @@
+/**
+ * Оформление дайджеста для Telegram (HTML-разметка, кнопки «Прочитать позже» / «Не интересно») и для уведомления в приложении.
+ * HTML-шаблон письма — в email.service (sendDigestEmail).
+ */
+
+import type { InlineKeyboardButton } from 'node-telegram-bot-api';
+import type { Digest, DigestEntry } from './digest.service';
+
+// callback_data кнопок: digest_later_<id>, digest_skip_<id>, digest_undo_<id> (id — DigestItem)
+export const DIGEST_CALLBACK_PREFIX = 'digest_';
+export const DIGEST_CALLBACK_ACTIONS = {
+    later: 'read_later',
+    skip: 'dismissed',
+    undo: 'sent',
+} as const;
+export type DigestCallbackAction = keyof typeof DIGEST_CALLBACK_ACTIONS;
+
+/**
+ * Ссылка на страницу веб-приложения (FRONTEND_URL).
+ */
+export const frontendUrl = (path: string): string => {
+    const baseUrl = (process.env.FRONTEND_URL || process.env.CLIENT_URL || 'http://localhost:3000').replace(/\/+$/, '');
+    return `${baseUrl}${path}`;
+};
+
+const TELEGRAM_TEXT_LIMIT = 3800; // запас до лимита Telegram в 4096 символов
+const TELEGRAM_SUMMARY_LENGTH = 220;
+
+export const escapeHtml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const truncate = (text: string, length: number): string =>
+    text.length > length ? `${text.substring(0, length - 1).trimEnd()}…` : text;
+
+export const digestTitle = (digest: Digest): string =>
+    digest.frequency === 'weekly' ? 'Дайджест за неделю' : 'Дайджест за день';
+
+export const entryHeadline = (entry: DigestEntry): string => {
+    if (entry.title) return entry.title;
+    try {
+        return new URL(entry.url).hostname.replace(/^www\./, '');
+    } catch {
+        return entry.url;
+    }
+};
+
+export const entryScoreLine = (entry: DigestEntry): string =>
+    entry.semanticMatch === null
+        ? `⭐ ${entry.score}/100`
+        : `⭐ ${entry.score}/100 · 🧠 совпадение ${entry.semanticMatch}%`;
+
+/**
+ * Кнопки одного материала. После выбора остаётся одна кнопка с отметкой — нажатие отменяет выбор.
+ */
+export function digestItemButtons(index: number, digestItemId: number, status: 'sent' | 'read_later' | 'dismissed' = 'sent'): InlineKeyboardButton[] {
+    if (status === 'read_later') {
+        return [{ text: `📌 ${index}. Отложено — отменить`, callback_data: `${DIGEST_CALLBACK_PREFIX}undo_${digestItemId}` }];
+    }
+    if (status === 'dismissed') {
+        return [{ text: `🙅 ${index}. Скрыто — отменить`, callback_data: `${DIGEST_CALLBACK_PREFIX}undo_${digestItemId}` }];
+    }
+    return [
+        { text: `📌 ${index}. Прочитать позже`, callback_data: `${DIGEST_CALLBACK_PREFIX}later_${digestItemId}` },
+        { text: `🙅 ${index}. Не интересно`, callback_data: `${DIGEST_CALLBACK_PREFIX}skip_${digestItemId}` },
+    ];
+}
+
+/**
+ * Сообщение дайджеста для бота (parse_mode: HTML). Материалы, не поместившиеся в лимит сообщения, только упоминаются.
+ */
+export function formatDigestTelegram(digest: Digest): { text: string; inlineKeyboard: InlineKeyboardButton[][] } {
+    const header = `📬 <b>${digestTitle(digest)}</b>\n${digest.items.length} из ${digest.candidates} релевантных материалов\n\n`;
+    const blocks: string[] = [];
+    const inlineKeyboard: InlineKeyboardButton[][] = [];
+    let length = header.length;
+
+    for (const [i, entry] of digest.items.entries()) {
+        const index = i + 1;
+        const origin = entry.origin ? ` · ${escapeHtml(entry.origin)}` : '';
+        const summary = entry.summary ? `\n${escapeHtml(truncate(entry.summary, TELEGRAM_SUMMARY_LENGTH))}` : '';
+        const block = `<b>${index}. <a href="${escapeHtml(entry.link)}">${escapeHtml(entryHeadline(entry))}</a></b>${origin}\n`
+            + `${entryScoreLine(entry)}${summary}\n<a href="${escapeHtml(entry.url)}">Открыть оригинал</a>`;
+        if (length + block.length > TELEGRAM_TEXT_LIMIT) {
+            blocks.push(`…и ещё ${digest.items.length - i} — в приложении`);
+            break;
+        }
+        blocks.push(block);
+        length += block.length + 2;
+        if (entry.digestItemId) inlineKeyboard.push(digestItemButtons(index, entry.digestItemId));
+    }
+
+    return { text: header + blocks.join('\n\n'), inlineKeyboard };
+}
+
+/**
+ * Текст уведомления в приложении: заголовок и первые материалы.
+ */
+export function formatDigestInApp(digest: Digest): string {
+    const top = digest.items.slice(0, 3).map((entry, i) => `${i + 1}. ${entryHeadline(entry)} (${entry.score}/100)`);
+    const more = digest.items.length > top.length ? `\n…и ещё ${digest.items.length - top.length}` : '';
+    return `${digestTitle(digest)} — материалов: ${digest.items.length}\n${top.join('\n')}${more}`;
+}
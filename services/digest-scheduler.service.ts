@@ -0,0 +1,166 @@
+import { Op } from 'sequelize';
+import * as cron from 'node-cron';
+import DigestSubscription, { DigestChannel } from '../models/DigestSubscription';
+import User from '../models/User';
+import emailService from './email.service';
+import { buildDigest, recordDigestItems, discardDigestItems, computeNextSendAt, getDigestSettings, Digest } from './digest.service';
+import { formatDigestTelegram, formatDigestInApp } from './digest-format';
+
+/**
+ * Рассылка дайджестов по расписанию: раз в 15 минут отправляются подписки, у которых подошло next_send_at.
+ * Подписка захватывается условным обновлением next_send_at, поэтому дайджест не уйдёт дважды с нескольких инстансов.
+ */
+
+const CRON_EXPRESSION = '*/15 * * * *'; // совпадает с шагом расписания в computeNextSendAt
+const SUBSCRIPTIONS_PER_RUN = 100;
+
+export interface DigestDeliveryResult {
+    digest: Digest;
+    delivered: DigestChannel[];
+}
+
+async function sendTelegramDigest(user: User, digest: Digest): Promise<boolean> {
+    if (!user.telegram_chat_id) {
+        console.log(`⏭️ [digest] User ${user.id} has no linked Telegram chat, skipping Telegram delivery`);
+        return false;
+    }
+    // Импортируем бота динамически, чтобы избежать циклических зависимостей
+    const { bot } = await import('../bot/bot');
+    const { text, inlineKeyboard } = formatDigestTelegram(digest);
+    await bot.sendMessage(user.telegram_chat_id, text, {
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+        reply_markup: { inline_keyboard: inlineKeyboard },
+    });
+    return true;
+}
+
+async function createInAppDigest(userId: number, digest: Digest): Promise<boolean> {
+    const { default: AppNotification } = await import('../models/AppNotification');
+    await AppNotification.create({
+        userId,
+        message: formatDigestInApp(digest),
+        channelUsername: 'digest', // уведомление не относится к одному каналу
+        analyzedCount: digest.items.length,
+    });
+    return true;
+}
+
+/**
+ * Собирает дайджест и доставляет его в выбранные каналы. Пустой дайджест не отправляется.
+ * Ошибка одного канала не мешает остальным; материалы отмечаются отправленными, только если дайджест куда-то дошёл.
+ */
+export async function deliverDigest(userId: number, channels?: DigestChannel[]): Promise<DigestDeliveryResult> {
+    const settings = await getDigestSettings(userId);
+    const digest = await buildDigest(userId, settings);
+    if (digest.items.length === 0) {
+        console.log(`📭 [digest] Nothing to send for user ${userId} since ${digest.periodStart.toISOString()}`);
+        return { digest, delivered: [] };
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user) return { digest, delivered: [] };
+
+    // digestItemId нужен до форматирования: по нему строятся кнопки в Telegram и ссылки в письме
+    await recordDigestItems(digest);
+
+    const delivered: DigestChannel[] = [];
+    for (const channel of channels ?? settings.channels) {
+        try {
+            const ok = channel === 'telegram' ? await sendTelegramDigest(user, digest)
+                : channel === 'email' ? await emailService.sendDigestEmail(user.email, digest)
+                : await createInAppDigest(userId, digest);
+            if (ok) delivered.push(channel);
+        } catch (error: any) {
+            console.error(`❌ [digest] Failed to deliver digest to user ${userId} via ${channel}:`, error.message);
+        }
+    }
+
+    // Если ни один канал не сработал, материалы и период остаются для следующего дайджеста
+    if (delivered.length === 0) {
+        await discardDigestItems(digest);
+        console.log(`⚠️ [digest] Digest for user ${userId} was not delivered to any channel`);
+        return { digest, delivered };
+    }
+
+    await DigestSubscription.update({ lastSentAt: digest.periodEnd }, { where: { userId } });
+    console.log(`✅ [digest] Digest with ${digest.items.length} items sent to user ${userId} via ${delivered.join(', ')}`);
+    return { digest, delivered };
+}
+
+/**
+ * Захват подписки: сдвигаем next_send_at на следующий срок, если его ещё не сдвинул другой инстанс.
+ */
+async function claimSubscription(subscription: DigestSubscription, now: Date): Promise<boolean> {
+    const [claimed] = await DigestSubscription.update(
+        { nextSendAt: computeNextSendAt(subscription, now) },
+        { where: { id: subscription.id, nextSendAt: subscription.nextSendAt } }
+    );
+    return claimed > 0;
+}
+
+let checkRunning = false;
+
+/**
+ * Отправляет дайджесты, срок которых подошёл
+ */
+export async function sendDueDigests(): Promise<void> {
+    if (checkRunning) {
+        console.log('⏭️ [digest] Previous run is still in progress');
+        return;
+    }
+    checkRunning = true;
+    try {
+        const now = new Date();
+        const due = await DigestSubscription.findAll({
+            where: { enabled: true, nextSendAt: { [Op.lte]: now } },
+            order: [['nextSendAt', 'ASC']],
+            limit: SUBSCRIPTIONS_PER_RUN,
+        });
+        if (due.length > 0) console.log(`📊 [digest] Found ${due.length} digests to send`);
+
+        for (const subscription of due) {
+            try {
+                if (!(await claimSubscription(subscription, now))) continue;
+                await deliverDigest(subscription.userId);
+            } catch (error: any) {
+                console.error(`❌ [digest] Error sending digest to user ${subscription.userId}:`, error.message);
+            }
+        }
+    } catch (error: any) {
+        console.error(`❌ [digest] Error in sendDueDigests:`, error.message);
+    } finally {
+        checkRunning = false;
+    }
+}
+
+let cronTask: ReturnType<typeof cron.schedule> | null = null;
+
+export function startDigestScheduler(): void {
+    if (cronTask) {
+        console.log('⚠️ [digest] Scheduler already started');
+        return;
+    }
+    console.log(`🔄 [digest] Starting digest scheduler (${CRON_EXPRESSION})`);
+
+    // Первая проверка через 1 минуту после запуска — дайджесты, пропущенные во время простоя
+    setTimeout(() => {
+        sendDueDigests();
+    }, 60000);
+
+    cronTask = cron.schedule(CRON_EXPRESSION, () => {
+        sendDueDigests();
+    }, {
+        timezone: 'UTC',
+    });
+
+    console.log(`✅ [digest] Digest scheduler started with cron`);
+}
+
+export function stopDigestScheduler(): void {
+    if (cronTask) {
+        cronTask.stop();
+        cronTask = null;
+        console.log('🛑 [digest] Digest scheduler stopped');
+    }
+}
@@ -0,0 +1,442 @@
+/**
+ * Персональный дайджест: вместо уведомления по каждому каналу пользователь раз в день или неделю получает
+ * топ-N релевантных материалов из всех своих каналов, источников и анализов за период.
+ * Материалы ранжируются по оценке релевантности и совпадению тем с облаком смыслов.
+ * Здесь — настройки, сбор дайджеста и действия с его материалами; рассылку по расписанию выполняет digest-scheduler.service.
+ */
+
+import { Op } from 'sequelize';
+import DigestSubscription, { DigestChannel, DigestFrequency } from '../models/DigestSubscription';
+import DigestItem, { DigestItemStatus } from '../models/DigestItem';
+import AnalysisHistory from '../models/AnalysisHistory';
+import TelegramChannelPost from '../models/TelegramChannelPost';
+import TelegramChannel from '../models/TelegramChannel';
+import SourceItem from '../models/SourceItem';
+import Source from '../models/Source';
+import User from '../models/User';
+import UserFeedback from '../models/UserFeedback';
+import { compareThemes, getUserTagsCached } from './semantic.service';
+import { isValidTimezone } from './channel-filters';
+import { emitWebhookEvent } from './webhook.service';
+import { frontendUrl } from './digest-format';
+
+// Коды ошибок (error.message) — контроллер переводит их в HTTP-статусы
+export const DIGEST_ITEM_NOT_FOUND = 'DIGEST_ITEM_NOT_FOUND';
+export const DIGEST_TELEGRAM_NOT_LINKED = 'DIGEST_TELEGRAM_NOT_LINKED';
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['daily', 'weekly'];
+export const DIGEST_CHANNELS: DigestChannel[] = ['telegram', 'email', 'in_app'];
+export const MAX_DIGEST_TOP_N = 30;
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+};
+const MAX_CANDIDATES = 200;
+// Вклад совпадения с облаком смыслов в ранг; без тегов ранжируем только по оценке
+const SEMANTIC_WEIGHT = 0.4;
+const SCHEDULE_STEP_MS = 15 * 60 * 1000; // шаг поиска следующей отправки — покрывает пояса со смещением :30 и :45
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface DigestSettings {
+    enabled: boolean;
+    frequency: DigestFrequency;
+    sendHour: number;
+    weekday: number;
+    timezone: string;
+    channels: DigestChannel[];
+    topN: number;
+    minScore: number;
+    nextSendAt: Date | null;
+    lastSentAt: Date | null;
+}
+
+export type DigestSettingsUpdate = Partial<Omit<DigestSettings, 'nextSendAt' | 'lastSentAt'>>;
+
+export interface DigestEntry {
+    analysisHistoryId: number;
+    digestItemId?: number; // появляется после записи материала в отправленный дайджест
+    url: string;
+    title: string | null;
+    summary: string | null;
+    verdict: string | null;
+    score: number;
+    semanticMatch: number | null;
+    matchedThemes: string[];
+    origin: string | null; // @канал или название источника; null — анализ, запущенный вручную
+    link: string; // страница анализа в приложении
+    analyzedAt: Date;
+}
+
+export interface Digest {
+    userId: number;
+    frequency: DigestFrequency;
+    periodStart: Date;
+    periodEnd: Date;
+    candidates: number; // сколько материалов прошло порог minScore
+    items: DigestEntry[];
+}
+
+const DEFAULT_SETTINGS: DigestSettings = {
+    enabled: false,
+    frequency: 'daily',
+    sendHour: 9,
+    weekday: 1,
+    timezone: 'UTC',
+    channels: ['in_app'],
+    topN: 10,
+    minScore: 60,
+    nextSendAt: null,
+    lastSentAt: null,
+};
+
+const toSettings = (subscription: DigestSubscription | null): DigestSettings => subscription
+    ? {
+        enabled: subscription.enabled,
+        frequency: subscription.frequency,
+        sendHour: subscription.sendHour,
+        weekday: subscription.weekday,
+        timezone: subscription.timezone,
+        channels: subscription.channels,
+        topN: subscription.topN,
+        minScore: subscription.minScore,
+        nextSendAt: subscription.nextSendAt,
+        lastSentAt: subscription.lastSentAt,
+    }
+    : { ...DEFAULT_SETTINGS };
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+    return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+/**
+ * Разбирает тело PUT /api/digest/settings. Поля, которых нет в теле, не меняются. Бросает Error с описанием первой ошибки.
+ */
+export function parseDigestSettingsUpdate(body: Record<string, unknown>): DigestSettingsUpdate {
+    const update: DigestSettingsUpdate = {};
+
+    if (body.enabled !== undefined) {
+        if (typeof body.enabled !== 'boolean') throw new Error('enabled must be a boolean');
+        update.enabled = body.enabled;
+    }
+    if (body.frequency !== undefined) {
+        if (!(DIGEST_FREQUENCIES as unknown[]).includes(body.frequency)) {
+            throw new Error(`frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`);
+        }
+        update.frequency = body.frequency as DigestFrequency;
+    }
+    if (body.sendHour !== undefined) {
+        if (!isIntegerInRange(body.sendHour, 0, 23)) throw new Error('sendHour must be an integer from 0 to 23');
+        update.sendHour = body.sendHour;
+    }
+    if (body.weekday !== undefined) {
+        if (!isIntegerInRange(body.weekday, 0, 6)) throw new Error('weekday must be an integer from 0 (Sunday) to 6 (Saturday)');
+        update.weekday = body.weekday;
+    }
+    if (body.timezone !== undefined) {
+        if (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone)) {
+            throw new Error('timezone must be an IANA time zone, e.g. Europe/Moscow');
+        }
+        update.timezone = body.timezone;
+    }
+    if (body.channels !== undefined) {
+        const channels = body.channels;
+        if (!Array.isArray(channels) || channels.length === 0 || !channels.every((c) => (DIGEST_CHANNELS as unknown[]).includes(c))) {
+            throw new Error(`channels must be a non-empty array of: ${DIGEST_CHANNELS.join(', ')}`);
+        }
+        update.channels = Array.from(new Set(channels as DigestChannel[]));
+    }
+    if (body.topN !== undefined) {
+        if (!isIntegerInRange(body.topN, 1, MAX_DIGEST_TOP_N)) throw new Error(`topN must be an integer from 1 to ${MAX_DIGEST_TOP_N}`);
+        update.topN = body.topN;
+    }
+    if (body.minScore !== undefined) {
+        if (!isIntegerInRange(body.minScore, 0, 100)) throw new Error('minScore must be an integer from 0 to 100');
+        update.minScore = body.minScore;
+    }
+    return update;
+}
+
+function localTimeParts(date: Date, timezone: string): { weekday: number; hour: number; minute: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+    const value = (type: string) => parts.find((part) => part.type === type)?.value || '';
+    return { weekday: WEEKDAYS.indexOf(value('weekday')), hour: Number(value('hour')), minute: Number(value('minute')) };
+}
+
+/**
+ * Ближайший момент отправки после after: sendHour:00 по местному времени (для weekly — в нужный день недели).
+ */
+export function computeNextSendAt(
+    settings: Pick<DigestSettings, 'frequency' | 'sendHour' | 'weekday' | 'timezone'>,
+    after: Date = new Date()
+): Date {
+    const limit = after.getTime() + PERIOD_MS.weekly + PERIOD_MS.daily;
+    for (let t = Math.floor(after.getTime() / SCHEDULE_STEP_MS + 1) * SCHEDULE_STEP_MS; t <= limit; t += SCHEDULE_STEP_MS) {
+        const local = localTimeParts(new Date(t), settings.timezone);
+        if (local.hour === settings.sendHour && local.minute === 0
+            && (settings.frequency === 'daily' || local.weekday === settings.weekday)) {
+            return new Date(t);
+        }
+    }
+    // Час пропущен переходом на летнее время — отправляем через период
+    return new Date(after.getTime() + PERIOD_MS[settings.frequency]);
+}
+
+export async function getDigestSettings(userId: number): Promise<DigestSettings> {
+    return toSettings(await DigestSubscription.findOne({ where: { userId } }));
+}
+
+/**
+ * Сохраняет настройки; при изменении расписания пересчитывает время следующей отправки.
+ */
+export async function updateDigestSettings(userId: number, update: DigestSettingsUpdate): Promise<DigestSettings> {
+    const existing = await DigestSubscription.findOne({ where: { userId } });
+    const merged = { ...toSettings(existing), ...update };
+    if (existing === null && update.enabled === undefined) merged.enabled = true; // первое сохранение включает дайджест
+
+    if (merged.enabled && merged.channels.includes('telegram')) {
+        const user = await User.findByPk(userId, { attributes: ['id', 'telegram_chat_id'] });
+        if (!user?.telegram_chat_id) throw new Error(DIGEST_TELEGRAM_NOT_LINKED);
+    }
+
+    const { nextSendAt: _next, lastSentAt: _last, ...fields } = merged;
+    const scheduleChanged = !existing || !existing.nextSendAt
+        || (['frequency', 'sendHour', 'weekday', 'timezone', 'enabled'] as const).some((key) => update[key] !== undefined && update[key] !== existing[key]);
+    const nextSendAt = merged.enabled
+        ? (scheduleChanged ? computeNextSendAt(merged) : existing!.nextSendAt)
+        : null;
+
+    const subscription = existing
+        ? await existing.update({ ...fields, nextSendAt })
+        : await DigestSubscription.create({ userId, ...fields, nextSendAt });
+    return toSettings(subscription);
+}
+
+/**
+ * Включён ли дайджест — мониторинг каналов и источников в этом случае не шлёт отдельные уведомления.
+ */
+export async function isDigestEnabled(userId: number): Promise<boolean> {
+    const subscription = await DigestSubscription.findOne({ where: { userId, enabled: true }, attributes: ['id'] });
+    return subscription !== null;
+}
+
+function parseThemes(raw: string | null): string[] {
+    if (!raw) return [];
+    try {
+        const themes = JSON.parse(raw);
+        return Array.isArray(themes) ? themes.filter((t) => typeof t === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Откуда пришёл анализ: Telegram-канал мониторинга или источник подписки (с заголовком элемента).
+ */
+async function loadOrigins(historyIds: number[]): Promise<Map<number, { origin: string; title: string | null }>> {
+    const origins = new Map<number, { origin: string; title: string | null }>();
+    if (historyIds.length === 0) return origins;
+
+    const [channelPosts, sourceItems] = await Promise.all([
+        TelegramChannelPost.findAll({
+            where: { analysisHistoryId: { [Op.in]: historyIds } },
+            include: [{ model: TelegramChannel, attributes: ['channelUsername'] }],
+        }),
+        SourceItem.findAll({
+            where: { analysisHistoryId: { [Op.in]: historyIds } },
+            include: [{ model: Source, attributes: ['title', 'identifier'] }],
+        }),
+    ]);
+    for (const post of channelPosts) {
+        const channel = (post as any).TelegramChannel as TelegramChannel | undefined;
+        if (post.analysisHistoryId && channel) origins.set(post.analysisHistoryId, { origin: `@${channel.channelUsername}`, title: null });
+    }
+    for (const item of sourceItems) {
+        const source = (item as any).Source as Source | undefined;
+        if (item.analysisHistoryId && source) {
+            origins.set(item.analysisHistoryId, { origin: source.title || source.identifier, title: item.title });
+        }
+    }
+    return origins;
+}
+
+/**
+ * Собирает дайджест за период: анализы пользователя с оценкой не ниже minScore, ещё не попадавшие в дайджесты,
+ * ранжированные по оценке и совпадению тем с облаком смыслов. Ничего не записывает — см. recordDigestItems.
+ */
+export async function buildDigest(
+    userId: number,
+    settings: Pick<DigestSettings, 'frequency' | 'topN' | 'minScore' | 'lastSentAt'>,
+    periodEnd: Date = new Date()
+): Promise<Digest> {
+    const earliest = new Date(periodEnd.getTime() - PERIOD_MS[settings.frequency]);
+    const periodStart = settings.lastSentAt && settings.lastSentAt > earliest ? settings.lastSentAt : earliest;
+
+    const candidates = await AnalysisHistory.findAll({
+        where: {
+            userId,
+            score: { [Op.gte]: settings.minScore },
+            // @ts-ignore - createdAt exists as readonly property
+            createdAt: { [Op.gt]: periodStart, [Op.lte]: periodEnd },
+        },
+        attributes: ['id', 'url', 'summary', 'verdict', 'score', 'extractedThemes', 'createdAt'],
+        order: [['score', 'DESC'], ['createdAt', 'DESC']],
+        limit: MAX_CANDIDATES,
+    });
+
+    const alreadySent = new Set((await DigestItem.findAll({
+        where: { userId, analysisHistoryId: { [Op.in]: candidates.map((c) => c.id) } },
+        attributes: ['analysisHistoryId'],
+    })).map((item) => item.analysisHistoryId));
+    const fresh = candidates.filter((c) => !alreadySent.has(c.id));
+
+    const userTags = await getUserTagsCached(userId);
+    const ranked = await Promise.all(fresh.map(async (history) => {
+        const themes = parseThemes(history.extractedThemes);
+        const comparison = userTags.length > 0 && themes.length > 0 ? await compareThemes(themes, userTags) : null;
+        const semanticMatch = userTags.length > 0 ? Math.round(comparison?.matchPercentage ?? 0) : null;
+        const rank = semanticMatch === null ? history.score : history.score * (1 - SEMANTIC_WEIGHT) + semanticMatch * SEMANTIC_WEIGHT;
+        return { history, semanticMatch, matchedThemes: comparison?.matchedThemes.map((m) => m.theme) ?? [], rank };
+    }));
+    ranked.sort((a, b) => b.rank - a.rank || b.history.createdAt.getTime() - a.history.createdAt.getTime());
+
+    const top = ranked.slice(0, settings.topN);
+    const origins = await loadOrigins(top.map((entry) => entry.history.id));
+
+    return {
+        userId,
+        frequency: settings.frequency,
+        periodStart,
+        periodEnd,
+        candidates: fresh.length,
+        items: top.map(({ history, semanticMatch, matchedThemes }) => ({
+            analysisHistoryId: history.id,
+            url: history.url,
+            title: origins.get(history.id)?.title ?? null,
+            summary: history.summary || null,
+            verdict: history.verdict || null,
+            score: history.score,
+            semanticMatch,
+            matchedThemes,
+            origin: origins.get(history.id)?.origin ?? null,
+            link: frontendUrl(`/history/${history.id}`),
+            analyzedAt: history.createdAt,
+        })),
+    };
+}
+
+/**
+ * Записывает материалы отправляемого дайджеста и проставляет им digestItemId (нужен кнопкам в Telegram и письме).
+ */
+export async function recordDigestItems(digest: Digest): Promise<void> {
+    if (digest.items.length === 0) return;
+    await DigestItem.bulkCreate(
+        digest.items.map((entry) => ({
+            userId: digest.userId,
+            analysisHistoryId: entry.analysisHistoryId,
+            score: entry.score,
+            semanticMatch: entry.semanticMatch,
+        })),
+        { ignoreDuplicates: true }
+    );
+    const records = await DigestItem.findAll({
+        where: { userId: digest.userId, analysisHistoryId: { [Op.in]: digest.items.map((entry) => entry.analysisHistoryId) } },
+        attributes: ['id', 'analysisHistoryId'],
+    });
+    const idByHistory = new Map(records.map((record) => [record.analysisHistoryId, record.id]));
+    for (const entry of digest.items) entry.digestItemId = idByHistory.get(entry.analysisHistoryId);
+}
+
+/**
+ * Удаляет записи недоставленного дайджеста: материалы попадут в следующий.
+ */
+export async function discardDigestItems(digest: Digest): Promise<void> {
+    const ids = digest.items.map((entry) => entry.digestItemId).filter((id): id is number => id !== undefined);
+    if (ids.length > 0) await DigestItem.destroy({ where: { id: { [Op.in]: ids }, userId: digest.userId } });
+    for (const entry of digest.items) entry.digestItemId = undefined;
+}
+
+/**
+ * «Не интересно» — отрицательный отзыв на оценку анализа (если пользователь ещё не оставлял отзыв).
+ */
+async function recordNotInterested(userId: number, analysisHistoryId: number): Promise<void> {
+    const existing = await UserFeedback.findOne({ where: { userId, analysisHistoryId }, attributes: ['id'] });
+    if (existing) return;
+    const history = await AnalysisHistory.findOne({ where: { id: analysisHistoryId, userId } });
+    if (!history) return;
+    await UserFeedback.create({
+        userId,
+        analysisHistoryId,
+        url: history.url,
+        userInterests: history.interests || '',
+        aiVerdict: history.verdict || '',
+        aiReasoning: history.reasoning || '',
+        aiAssessmentWasCorrect: false,
+        userComment: 'Не интересно (из дайджеста)',
+    });
+    emitWebhookEvent(userId, 'feedback.recorded', {
+        analysisHistoryId,
+        url: history.url,
+        wasCorrect: false,
+        comment: 'Не интересно (из дайджеста)',
+        aiVerdict: history.verdict,
+        score: history.score,
+    });
+}
+
+/**
+ * Кнопки дайджеста: read_later — в список «Прочитать позже», dismissed — «Не интересно», sent — отменить выбор.
+ */
+export async function setDigestItemStatus(userId: number, itemId: number, status: DigestItemStatus): Promise<DigestItem> {
+    const item = await DigestItem.findOne({ where: { id: itemId, userId } });
+    if (!item) throw new Error(DIGEST_ITEM_NOT_FOUND);
+    if (item.status === status) return item;
+
+    await item.update({ status, actedAt: status === 'sent' ? null : new Date() });
+    if (status === 'dismissed') {
+        try {
+            await recordNotInterested(userId, item.analysisHistoryId);
+        } catch (error: any) {
+            console.warn(`⚠️ [digest] Failed to record "not interested" feedback for item ${itemId}: ${error.message}`);
+        }
+    }
+    return item;
+}
+
+/**
+ * Список «Прочитать позже» — новые отметки первыми.
+ */
+export async function listReadLater(userId: number, options: { limit: number; offset: number }): Promise<{ items: DigestEntry[]; total: number }> {
+    const { rows, count } = await DigestItem.findAndCountAll({
+        where: { userId, status: 'read_later' },
+        include: [{ model: AnalysisHistory, attributes: ['id', 'url', 'summary', 'verdict', 'score', 'createdAt'] }],
+        order: [['actedAt', 'DESC']],
+        limit: options.limit,
+        offset: options.offset,
+    });
+    const origins = await loadOrigins(rows.map((row) => row.analysisHistoryId));
+    const items = rows.map((row) => {
+        const history = (row as any).AnalysisHistory as AnalysisHistory;
+        return {
+            analysisHistoryId: row.analysisHistoryId,
+            digestItemId: row.id,
+            url: history.url,
+            title: origins.get(row.analysisHistoryId)?.title ?? null,
+            summary: history.summary || null,
+            verdict: history.verdict || null,
+            score: row.score,
+            semanticMatch: row.semanticMatch,
+            matchedThemes: [],
+            origin: origins.get(row.analysisHistoryId)?.origin ?? null,
+            link: frontendUrl(`/history/${row.analysisHistoryId}`),
+            analyzedAt: history.createdAt,
+        };
+    });
+    return { items, total: count };
+}
@@ -1,6 +1,8 @@
 import nodemailer from 'nodemailer';
 import axios from 'axios';
 import dotenv from 'dotenv';
+import type { Digest } from './digest.service';
+import { escapeHtml, truncate, digestTitle, entryHeadline, entryScoreLine, frontendUrl } from './digest-format';
 
 dotenv.config();
 
@@ -438,6 +440,71 @@ ${resetUrl}
             text: text,
         });
     }
+
+    /**
+     * Отправляет персональный дайджест: карточки материалов со ссылками на анализ, оригинал и кнопками действий
+     */
+    async sendDigestEmail(email: string, digest: Digest): Promise<boolean> {
+        const title = digestTitle(digest);
+        const subject = `${title} (материалов: ${digest.items.length}) - AI Content Curator`;
+        const settingsUrl = frontendUrl('/settings/digest');
+        const actionUrl = (itemId: number | undefined, action: string) =>
+            itemId ? frontendUrl(`/digest?item=${itemId}&action=${action}`) : settingsUrl;
+
+        const cards = digest.items.map((entry, i) => `
+                    <div style="background: white; padding: 20px; border-radius: 8px; margin-bottom: 16px; border-left: 4px solid #4ECDC4;">
+                        <h3 style="margin: 0 0 6px 0; font-size: 17px;">
+                            <a href="${escapeHtml(entry.link)}" style="color: #1E293B; text-decoration: none;">${i + 1}. ${escapeHtml(entryHeadline(entry))}</a>
+                        </h3>
+                        <p style="color: #666; font-size: 13px; margin: 0 0 10px 0;">
+                            ${escapeHtml(entryScoreLine(entry))}${entry.origin ? ` · ${escapeHtml(entry.origin)}` : ''}
+                        </p>
+                        ${entry.summary ? `<p style="margin: 0 0 12px 0;">${escapeHtml(truncate(entry.summary, 600))}</p>` : ''}
+                        <p style="margin: 0; font-size: 14px;">
+                            <a href="${escapeHtml(entry.url)}" style="color: #4ECDC4; font-weight: 600;">Открыть оригинал</a>
+                            &nbsp;·&nbsp;
+                            <a href="${escapeHtml(actionUrl(entry.digestItemId, 'read_later'))}" style="color: #64748B;">📌 Прочитать позже</a>
+                            &nbsp;·&nbsp;
+                            <a href="${escapeHtml(actionUrl(entry.digestItemId, 'dismiss'))}" style="color: #64748B;">🙅 Не интересно</a>
+                        </p>
+                    </div>`).join('');
+
+        const html = `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${title}</title>
+            </head>
+            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+                <div style="background: linear-gradient(135deg, #4ECDC4 0%, #95E1D3 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+                    <h1 style="color: white; margin: 0;">AI Content Curator</h1>
+                </div>
+                <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px;">
+                    <h2 style="color: #1E293B; margin-top: 0;">📬 ${title}</h2>
+                    <p>Самое релевантное из ваших каналов, источников и анализов — ${digest.items.length} из ${digest.candidates}.</p>
+                    ${cards}
+                    <p style="color: #999; font-size: 12px; margin-top: 20px; padding-top: 20px; border-top: 1px solid #ddd;">
+                        Расписание и способы доставки дайджеста можно изменить в <a href="${escapeHtml(settingsUrl)}" style="color: #4ECDC4;">настройках</a>.
+                    </p>
+                </div>
+            </body>
+            </html>
+        `;
+
+        const text = `${title} - AI Content Curator\n\n`
+            + digest.items.map((entry, i) => `${i + 1}. ${entryHeadline(entry)} — ${entryScoreLine(entry)}\n`
+                + `${entry.summary ? truncate(entry.summary, 300) + '\n' : ''}${entry.url}\nАнализ: ${entry.link}`).join('\n\n')
+            + `\n\nНастройки дайджеста: ${settingsUrl}`;
+
+        return await this.sendEmail({
+            to: email,
+            subject: subject,
+            html: html,
+            text: text,
+        });
+    }
 }
 
 export default new EmailService();
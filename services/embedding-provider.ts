@@ -0,0 +1,208 @@
+/**
+ * Единый провайдер эмбеддингов: Gemini или локальная sentence-transformer модель (@xenova/transformers).
+ * Переключение: EMBEDDING_PROVIDER=gemini | local | mock
+ * По умолчанию: gemini, если задан GEMINI_API_KEY, иначе local (работает без сети после загрузки модели — офлайн и в CI).
+ * mock — детерминированные векторы без сети и без модели (записанные фикстуры или хеш слов, см. llm-fixtures.ts).
+ * Модель: EMBEDDING_MODEL (gemini-embedding-001 / Xenova/paraphrase-multilingual-MiniLM-L12-v2).
+ *
+ * Колонка analysis_history.embedding — vector(768): вектор короче дополняется нулями (косинусная близость не меняется),
+ * длиннее — обрезается. Реальные модель и размерность сохраняются рядом (embedding_model, embedding_dim).
+ */
+
+import { traceSpan } from '../observability/langfuse-helpers';
+import { getMockEmbedding, isRecordingFixtures, MOCK_EMBEDDING_MODEL, recordEmbeddingFixture } from './llm-fixtures';
+
+export type EmbeddingProviderName = 'gemini' | 'local' | 'mock';
+
+const VALID_PROVIDERS: EmbeddingProviderName[] = ['gemini', 'local', 'mock'];
+
+const GEMINI_DEFAULT_MODEL = 'gemini-embedding-001';
+const LOCAL_DEFAULT_MODEL = 'Xenova/paraphrase-multilingual-MiniLM-L12-v2'; // 384 измерения, есть русский
+
+/** Размерность колонки embedding в analysis_history */
+export const STORED_EMBEDDING_DIMENSION = 768;
+
+const EMBEDDING_TIMEOUT_MS = 30000;
+
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+const IS_DEBUG = LOG_LEVEL === 'debug';
+
+export interface EmbeddingResult {
+    vector: number[]; // уже приведён к STORED_EMBEDDING_DIMENSION
+    model: string;
+    dimension: number; // исходная размерность модели
+}
+
+export function getEmbeddingProvider(): EmbeddingProviderName {
+    const raw = (process.env.EMBEDDING_PROVIDER || '').toLowerCase().trim() as EmbeddingProviderName;
+    if (VALID_PROVIDERS.includes(raw)) return raw;
+    return process.env.GEMINI_API_KEY ? 'gemini' : 'local';
+}
+
+/**
+ * Имя модели эмбеддингов текущего провайдера — по нему фильтруется поиск похожих статей.
+ */
+export function getEmbeddingModel(): string {
+    const envModel = (process.env.EMBEDDING_MODEL || '').trim();
+    if (envModel) return envModel;
+    const provider = getEmbeddingProvider();
+    if (provider === 'mock') return MOCK_EMBEDDING_MODEL;
+    return provider === 'local' ? LOCAL_DEFAULT_MODEL : GEMINI_DEFAULT_MODEL;
+}
+
+// Очередь запросов для предотвращения rate limiting (Gemini)
+class RequestQueue {
+    private queue: Array<() => Promise<void>> = [];
+    private running = 0;
+    private readonly maxConcurrent = 3;
+    private readonly delayMs = 500;
+
+    async add<T>(fn: () => Promise<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            this.queue.push(async () => {
+                try {
+                    const result = await fn();
+                    resolve(result);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+            this.process();
+        });
+    }
+
+    private process(): void {
+        if (this.running >= this.maxConcurrent || this.queue.length === 0) return;
+        this.running++;
+        const task = this.queue.shift();
+        if (task) {
+            task()
+                .finally(() => {
+                    this.running--;
+                    setTimeout(() => this.process(), this.delayMs);
+                });
+        } else {
+            this.running--;
+        }
+    }
+}
+
+const apiRequestQueue = new RequestQueue();
+
+let genAI: import('@google/genai').GoogleGenAI | null = null;
+
+function getGenAI(): import('@google/genai').GoogleGenAI {
+    if (!genAI) {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) {
+            throw new Error('GEMINI_API_KEY is not set when EMBEDDING_PROVIDER=gemini. Set EMBEDDING_PROVIDER=local to use a local model.');
+        }
+        const { GoogleGenAI } = require('@google/genai');
+        genAI = new GoogleGenAI({ apiKey });
+    }
+    return genAI as import('@google/genai').GoogleGenAI;
+}
+
+/**
+ * Извлекает вектор из ответа Gemini: { embeddings: [{ values }] }, { embedding: { values } } или массив.
+ */
+function extractGeminiVector(response: any): number[] | undefined {
+    if (response?.embeddings && Array.isArray(response.embeddings)) {
+        const first = response.embeddings[0];
+        if (first?.values && Array.isArray(first.values)) return first.values;
+        if (Array.isArray(first)) return first;
+    } else if (response?.embedding) {
+        if (response.embedding.values && Array.isArray(response.embedding.values)) return response.embedding.values;
+        if (Array.isArray(response.embedding)) return response.embedding;
+    } else if (Array.isArray(response)) {
+        return response;
+    }
+    return undefined;
+}
+
+async function embedWithGemini(model: string, text: string): Promise<number[]> {
+    const response = await traceSpan(
+        'embedding-gemini',
+        () => apiRequestQueue.add(() => getGenAI().models.embedContent({ model, contents: text })),
+        { model, inputLength: text.length }
+    );
+    const vector = extractGeminiVector(response);
+    if (!vector || vector.length === 0) {
+        console.error(`❌ [Embeddings] Unexpected Gemini embedding response format:`, JSON.stringify(response, null, 2));
+        throw new Error('Unexpected embedding response format');
+    }
+    return vector;
+}
+
+// Пайплайн feature-extraction загружается один раз на модель (первая загрузка скачивает веса в кеш transformers)
+const localPipelines = new Map<string, Promise<any>>();
+
+function getLocalPipeline(model: string): Promise<any> {
+    let extractor = localPipelines.get(model);
+    if (!extractor) {
+        console.log(`📦 [Embeddings] Loading local model ${model}...`);
+        extractor = (async () => {
+            // @ts-ignore - @xenova/transformers types may not be available
+            const { pipeline } = await import('@xenova/transformers');
+            return pipeline('feature-extraction', model);
+        })();
+        extractor.catch(() => localPipelines.delete(model));
+        localPipelines.set(model, extractor);
+    }
+    return extractor;
+}
+
+async function embedLocally(model: string, text: string): Promise<number[]> {
+    const extractor = await getLocalPipeline(model);
+    const output = await traceSpan(
+        'embedding-local',
+        () => extractor(text, { pooling: 'mean', normalize: true }),
+        { model, inputLength: text.length }
+    );
+    return Array.from((output as any).data as Float32Array);
+}
+
+function toStoredDimension(vector: number[]): number[] {
+    if (vector.length > STORED_EMBEDDING_DIMENSION) {
+        if (IS_DEBUG) {
+            console.log(`📊 [Embeddings] Truncating embedding from ${vector.length} to ${STORED_EMBEDDING_DIMENSION} dimensions`);
+        }
+        return vector.slice(0, STORED_EMBEDDING_DIMENSION);
+    }
+    if (vector.length < STORED_EMBEDDING_DIMENSION) {
+        return [...vector, ...new Array(STORED_EMBEDDING_DIMENSION - vector.length).fill(0)];
+    }
+    return vector;
+}
+
+/**
+ * Единая точка получения эмбеддинга. Возвращает вектор для колонки vector(768), модель и исходную размерность.
+ */
+export async function embedText(text: string): Promise<EmbeddingResult> {
+    const provider = getEmbeddingProvider();
+    const model = getEmbeddingModel();
+
+    if (provider === 'mock') {
+        const vector = getMockEmbedding(text);
+        return { vector: toStoredDimension(vector), model, dimension: vector.length };
+    }
+
+    // Таймаут только для API: первая загрузка локальной модели может занять дольше
+    const vector = provider === 'local'
+        ? await embedLocally(model, text)
+        : await Promise.race([
+            embedWithGemini(model, text),
+            new Promise<never>((_, reject) =>
+                setTimeout(() => reject(new Error('Embedding generation timed out.')), EMBEDDING_TIMEOUT_MS)
+            ),
+        ]);
+
+    if (isRecordingFixtures()) {
+        recordEmbeddingFixture(text, model, vector);
+    }
+
+    if (IS_DEBUG) {
+        console.log(`✅ [Embeddings] ${provider}/${model}: dimension ${vector.length}`);
+    }
+    return { vector: toStoredDimension(vector), model, dimension: vector.length };
+}
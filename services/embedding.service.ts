@@ -1,176 +1,36 @@
-import { GoogleGenAI } from '@google/genai';
 import sequelize from '../config/database';
-import { traceSpan } from '../observability/langfuse-helpers';
 import { QueryTypes } from 'sequelize';
-
-const apiKey = process.env.GEMINI_API_KEY;
-
-if (!apiKey) {
-    throw new Error('GEMINI_API_KEY is not set in environment variables.');
-}
-
-const genAI = apiKey ? new GoogleGenAI({ apiKey }) : new GoogleGenAI({});
+import { embedText, getEmbeddingModel } from './embedding-provider';
 
 const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
 const IS_DEBUG = LOG_LEVEL === 'debug';
 
-// Очередь запросов для предотвращения rate limiting
-class RequestQueue {
-    private queue: Array<() => Promise<any>> = [];
-    private running = 0;
-    private maxConcurrent: number;
-    private delayBetweenRequests: number;
-
-    constructor(maxConcurrent = 3, delayBetweenRequests = 500) {
-        this.maxConcurrent = maxConcurrent;
-        this.delayBetweenRequests = delayBetweenRequests;
-    }
-
-    async add<T>(fn: () => Promise<T>): Promise<T> {
-        return new Promise((resolve, reject) => {
-            this.queue.push(async () => {
-                try {
-                    const result = await fn();
-                    resolve(result);
-                } catch (error) {
-                    reject(error);
-                }
-            });
-            this.process();
-        });
-    }
-
-    private async process() {
-        if (this.running >= this.maxConcurrent || this.queue.length === 0) {
-            return;
-        }
-
-        this.running++;
-        const task = this.queue.shift();
-        if (task) {
-            try {
-                await task();
-            } finally {
-                this.running--;
-                await new Promise(resolve => setTimeout(resolve, this.delayBetweenRequests));
-                this.process();
-            }
-        } else {
-            this.running--;
-        }
-    }
-}
-
-const apiRequestQueue = new RequestQueue(3, 500);
-
 /**
- * Генерирует эмбеддинг для текста через Gemini API
- * Использует модель text-embedding-004 или аналогичную
+ * Генерирует эмбеддинг для текста через текущий провайдер (embedding-provider.ts)
  * 
  * @param text - Текст для генерации эмбеддинга
- * @returns Массив чисел (вектор эмбеддинга)
+ * @returns Массив чисел (вектор эмбеддинга, 768 измерений)
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
+    return (await generateEmbeddingWithModel(text)).vector;
+}
+
+export interface EmbeddingWithModel {
+    vector: number[];
+    model: string;
+    dimension: number;
+}
+
+/**
+ * Как generateEmbedding, но дополнительно возвращает модель и исходную размерность — для сохранения рядом с вектором
+ */
+export async function generateEmbeddingWithModel(text: string): Promise<EmbeddingWithModel> {
     if (!text || text.trim().length < 10) {
         throw new Error('Text is too short for embedding generation. Minimum 10 characters.');
     }
 
     try {
-        // Используем Gemini для генерации эмбеддингов
-        // Примечание: Gemini может не иметь прямого embedding API, поэтому используем альтернативный подход
-        // Если у Gemini есть embedding API, используйте его напрямую
-        
-        // Для Gemini используем models.embedContent если доступно, иначе используем альтернативный метод
-        const timeoutPromise = new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Embedding generation timed out.')), 30000)
-        );
-
-        let embedding: number[] | undefined;
-
-        // Используем Gemini Embedding API
-        // Модель: gemini-embedding-001 (размерность по умолчанию: 3072, можно уменьшить до 768)
-        const embeddingResponse = await Promise.race([
-            traceSpan(
-                'embedding-gemini',
-                () => apiRequestQueue.add(async () => {
-                    try {
-                        let result: any;
-                        try {
-                            result = await genAI.models.embedContent({
-                                model: 'gemini-embedding-001',
-                                contents: text
-                            });
-                        } catch (simpleError: any) {
-                            if (IS_DEBUG) {
-                                console.log(`⚠️ [generateEmbedding] Simple format failed, trying array: ${simpleError.message}`);
-                            }
-                            result = await genAI.models.embedContent({
-                                model: 'gemini-embedding-001',
-                                contents: text
-                            });
-                        }
-                        return result;
-                    } catch (apiError: any) {
-                        console.error(`❌ [generateEmbedding] API call failed: ${apiError.message}`);
-                        console.error(`❌ [generateEmbedding] Error details:`, apiError);
-                        throw apiError;
-                    }
-                }),
-                { model: 'gemini-embedding-001', inputLength: text.length }
-            ),
-            timeoutPromise
-        ]) as any;
-
-        // Извлекаем эмбеддинг из ответа
-        // Формат ответа Gemini API: { embeddings: [{ values: [числа] }] }
-        if (embeddingResponse && embeddingResponse.embeddings && Array.isArray(embeddingResponse.embeddings)) {
-            // Если массив эмбеддингов (для нескольких текстов)
-            const firstEmbedding = embeddingResponse.embeddings[0];
-            if (firstEmbedding && firstEmbedding.values && Array.isArray(firstEmbedding.values)) {
-                embedding = firstEmbedding.values;
-            } else if (Array.isArray(firstEmbedding)) {
-                embedding = firstEmbedding;
-            }
-        } else if (embeddingResponse && embeddingResponse.embedding) {
-            // Альтернативный формат
-            if (embeddingResponse.embedding.values && Array.isArray(embeddingResponse.embedding.values)) {
-                embedding = embeddingResponse.embedding.values;
-            } else if (Array.isArray(embeddingResponse.embedding)) {
-                embedding = embeddingResponse.embedding;
-            }
-        } else if (embeddingResponse && Array.isArray(embeddingResponse)) {
-            // Прямой массив
-            embedding = embeddingResponse;
-        }
-        
-        if (!embedding || !Array.isArray(embedding) || embedding.length === 0) {
-            console.error(`❌ [generateEmbedding] Unexpected embedding response format:`, JSON.stringify(embeddingResponse, null, 2));
-            throw new Error('Unexpected embedding response format');
-        }
-
-        const validEmbedding: number[] = embedding;
-
-        // Gemini embedding-001 по умолчанию возвращает 3072 измерения
-        // Для совместимости с pgvector (vector(768)) обрезаем до 768, если больше
-        const targetDimension = 768;
-        let finalEmbedding: number[];
-        if (validEmbedding.length > targetDimension) {
-            if (IS_DEBUG) {
-                console.log(`📊 [generateEmbedding] Truncating embedding from ${validEmbedding.length} to ${targetDimension} dimensions`);
-            }
-            finalEmbedding = validEmbedding.slice(0, targetDimension);
-        } else if (validEmbedding.length < targetDimension) {
-            console.warn(`⚠️ [generateEmbedding] Embedding dimension is ${validEmbedding.length}, expected at least ${targetDimension}`);
-            finalEmbedding = [...validEmbedding, ...new Array(targetDimension - validEmbedding.length).fill(0)];
-        } else {
-            finalEmbedding = validEmbedding;
-        }
-
-        if (IS_DEBUG) {
-            console.log(`✅ [generateEmbedding] Generated embedding (dimension: ${finalEmbedding.length})`);
-        }
-        return finalEmbedding;
-
+        return await embedText(text);
     } catch (error: any) {
         const errorMessage = error.message || String(error);
         console.error(`❌ [generateEmbedding] Error generating embedding: ${errorMessage}`);
@@ -179,12 +39,19 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 }
 
 /**
- * Сохраняет эмбеддинг статьи в БД
+ * Сохраняет эмбеддинг статьи в БД вместе с моделью и размерностью
  * 
  * @param analysisHistoryId - ID записи в analysis_history
  * @param embedding - Массив чисел (вектор эмбеддинга)
+ * @param model - Модель, которой получен вектор (по умолчанию текущая)
+ * @param dimension - Исходная размерность модели (по умолчанию длина вектора)
  */
-export async function saveEmbedding(analysisHistoryId: number, embedding: number[]): Promise<void> {
+export async function saveEmbedding(
+    analysisHistoryId: number,
+    embedding: number[],
+    model: string = getEmbeddingModel(),
+    dimension: number = embedding.length
+): Promise<void> {
     if (!embedding || !Array.isArray(embedding) || embedding.length === 0) {
         throw new Error('Invalid embedding: must be a non-empty array');
     }
@@ -196,18 +63,20 @@ export async function saveEmbedding(analysisHistoryId: number, embedding: number
 
         await sequelize.query(`
             UPDATE analysis_history 
-            SET embedding = $embedding::vector
+            SET embedding = $embedding::vector, embedding_model = $model, embedding_dim = $dimension
             WHERE id = $id
         `, {
             bind: { 
                 embedding: embeddingString,
+                model,
+                dimension,
                 id: analysisHistoryId 
             }
             // Не указываем type для UPDATE запросов
         });
 
         if (IS_DEBUG) {
-            console.log(`✅ [saveEmbedding] Saved embedding for analysis_history ID: ${analysisHistoryId}`);
+            console.log(`✅ [saveEmbedding] Saved embedding for analysis_history ID: ${analysisHistoryId} (${model}, ${dimension})`);
         }
     } catch (error: any) {
         console.error(`❌ [saveEmbedding] Error saving embedding: ${error.message}`);
@@ -215,6 +84,84 @@ export async function saveEmbedding(analysisHistoryId: number, embedding: number
     }
 }
 
+export interface SimilarArticle {
+    id: number;
+    url: string;
+    summary: string | null;
+    similarity: number;
+    passage: string | null; // лучший по схожести фрагмент статьи (если есть чанки)
+    passageSimilarity: number | null;
+}
+
+interface SimilarArticleRow {
+    id: number;
+    url: string;
+    summary: string | null;
+    similarity: number | string;
+    passage?: string | null;
+    passage_similarity?: number | string | null;
+}
+
+let chunksTableAvailable = true;
+
+/**
+ * SQL поиска похожих статей. Схожесть статьи — максимум из схожести её общего эмбеддинга
+ * и лучшего чанка; лучший чанк возвращается как passage.
+ */
+function buildSimilarityQuery(filters: string[], includeChunks: boolean): string {
+    const extraWhere = filters.length ? ` AND ${filters.join(' AND ')}` : '';
+    const articleMatches = `
+            SELECT h.id, 1 - (h.embedding <=> $embedding::vector) AS similarity
+            FROM analysis_history h
+            WHERE h.embedding IS NOT NULL AND h.embedding_model = $embeddingModel${extraWhere}`;
+
+    if (!includeChunks) {
+        return `
+            WITH article_matches AS (${articleMatches}
+            )
+            SELECT h.id, h.url, h.summary,
+                ROUND(a.similarity::numeric, 4) AS similarity,
+                NULL AS passage, NULL AS passage_similarity
+            FROM article_matches a
+            JOIN analysis_history h ON h.id = a.id
+            WHERE a.similarity >= $threshold
+            ORDER BY a.similarity DESC
+            LIMIT $limit
+        `;
+    }
+
+    return `
+            WITH article_matches AS (${articleMatches}
+            ),
+            chunk_matches AS (
+                SELECT DISTINCT ON (c.analysis_history_id)
+                    c.analysis_history_id AS id,
+                    c.content AS passage,
+                    1 - (c.embedding <=> $embedding::vector) AS similarity
+                FROM analysis_history_chunks c
+                JOIN analysis_history h ON h.id = c.analysis_history_id
+                WHERE c.embedding_model = $embeddingModel${extraWhere}
+                ORDER BY c.analysis_history_id, c.embedding <=> $embedding::vector
+            ),
+            combined AS (
+                SELECT COALESCE(a.id, c.id) AS id,
+                    GREATEST(COALESCE(a.similarity, 0), COALESCE(c.similarity, 0)) AS similarity,
+                    c.passage, c.similarity AS passage_similarity
+                FROM article_matches a
+                FULL OUTER JOIN chunk_matches c ON c.id = a.id
+            )
+            SELECT h.id, h.url, h.summary,
+                ROUND(m.similarity::numeric, 4) AS similarity,
+                m.passage,
+                ROUND(m.passage_similarity::numeric, 4) AS passage_similarity
+            FROM combined m
+            JOIN analysis_history h ON h.id = m.id
+            WHERE m.similarity >= $threshold
+            ORDER BY m.similarity DESC
+            LIMIT $limit
+        `;
+}
+
 /**
  * Находит похожие статьи на основе эмбеддинга
  * 
@@ -223,20 +170,17 @@ export async function saveEmbedding(analysisHistoryId: number, embedding: number
  * @param excludeId - ID статьи для исключения из результатов
  * @param limit - Максимальное количество результатов (по умолчанию 5)
  * @param similarityThreshold - Минимальный порог схожести (0-1, по умолчанию 0.7)
- * @returns Массив похожих статей с полями id, url, summary, similarity
+ * @param embeddingModel - Сравниваются только векторы этой модели (по умолчанию текущей — ею же получен queryEmbedding)
+ * @returns Массив похожих статей с полями id, url, summary, similarity и лучшим фрагментом (passage)
  */
 export async function findSimilarArticles(
     queryEmbedding: number[],
     userId?: number | null,
     excludeId?: number,
     limit: number = 5,
-    similarityThreshold: number = 0.45 // Порог схожести 45% - более мягкий для лучшего покрытия
-): Promise<Array<{
-    id: number;
-    url: string;
-    summary: string | null;
-    similarity: number;
-}>> {
+    similarityThreshold: number = 0.45, // Порог схожести 45% - более мягкий для лучшего покрытия
+    embeddingModel: string = getEmbeddingModel()
+): Promise<SimilarArticle[]> {
     if (!queryEmbedding || !Array.isArray(queryEmbedding) || queryEmbedding.length === 0) {
         throw new Error('Invalid query embedding');
     }
@@ -244,15 +188,17 @@ export async function findSimilarArticles(
     try {
         const embeddingString = `[${queryEmbedding.join(',')}]`;
         
-        let whereClause = 'embedding IS NOT NULL';
+        // Векторы разных моделей несравнимы, даже если размерность колонки одинаковая
+        const filters: string[] = [];
         const bindParams: any = {
             embedding: embeddingString,
+            embeddingModel,
             threshold: 1 - similarityThreshold, // Преобразуем similarity в distance
             limit
         };
 
         if (userId) {
-            whereClause += ' AND "userId" = $userId';
+            filters.push('h."userId" = $userId');
             bindParams.userId = userId;
             if (IS_DEBUG) {
                 console.log(`🔍 [findSimilarArticles] Filtering by userId: ${userId}`);
@@ -264,7 +210,7 @@ export async function findSimilarArticles(
         }
 
         if (excludeId) {
-            whereClause += ' AND id != $excludeId';
+            filters.push('h.id != $excludeId');
             bindParams.excludeId = excludeId;
             if (IS_DEBUG) {
                 console.log(`🔍 [findSimilarArticles] Excluding article ID: ${excludeId}`);
@@ -275,37 +221,39 @@ export async function findSimilarArticles(
             console.log(`🔍 [findSimilarArticles] Similarity threshold: ${similarityThreshold} (distance threshold: ${bindParams.threshold})`);
         }
 
-        // Улучшенный запрос: используем cosine similarity напрямую
-        // 1 - (embedding <=> $embedding) дает similarity от 0 до 1
-        const results = await sequelize.query(`
-            SELECT 
-                id, 
-                url, 
-                summary,
-                ROUND((1 - (embedding <=> $embedding::vector))::numeric, 4) as similarity
-            FROM analysis_history
-            WHERE ${whereClause}
-              AND (1 - (embedding <=> $embedding::vector)) >= $threshold
-            ORDER BY embedding <=> $embedding::vector ASC
-            LIMIT $limit
-        `, {
-            bind: bindParams,
-            type: QueryTypes.SELECT
-        }) as Array<{
-            id: number;
-            url: string;
-            summary: string | null;
-            similarity: number | string;
-        }>;
+        let results: SimilarArticleRow[];
+        try {
+            results = await sequelize.query(buildSimilarityQuery(filters, chunksTableAvailable), {
+                bind: bindParams,
+                type: QueryTypes.SELECT
+            }) as SimilarArticleRow[];
+        } catch (queryError: any) {
+            // Таблица чанков ещё не создана (миграция add-analysis-history-chunks.sql) — ищем только по эмбеддингу статьи
+            if (chunksTableAvailable && String(queryError.message).includes('analysis_history_chunks')) {
+                console.warn(`⚠️ [findSimilarArticles] Table analysis_history_chunks is missing, searching by article embeddings only`);
+                chunksTableAvailable = false;
+                results = await sequelize.query(buildSimilarityQuery(filters, false), {
+                    bind: bindParams,
+                    type: QueryTypes.SELECT
+                }) as SimilarArticleRow[];
+            } else {
+                throw queryError;
+            }
+        }
         
         if (IS_DEBUG) {
             console.log(`📊 [findSimilarArticles] Raw results from DB: ${results.length} articles`);
         }
         
         // Преобразуем similarity в число, если это строка
-        const normalizedResults = results.map(r => ({
-            ...r,
-            similarity: typeof r.similarity === 'string' ? parseFloat(r.similarity) : r.similarity
+        const toNumber = (value: number | string | null | undefined) => value == null ? null : typeof value === 'string' ? parseFloat(value) : value;
+        const normalizedResults: SimilarArticle[] = results.map(r => ({
+            id: r.id,
+            url: r.url,
+            summary: r.summary,
+            similarity: toNumber(r.similarity) ?? 0,
+            passage: r.passage ?? null,
+            passageSimilarity: toNumber(r.passage_similarity),
         }));
 
         // Дополнительная фильтрация на клиенте для гарантии соответствия порогу
@@ -343,11 +291,137 @@ export async function findSimilarArticles(
  */
 export async function generateAndSaveEmbedding(text: string, analysisHistoryId: number): Promise<void> {
     try {
-        const embedding = await generateEmbedding(text);
-        await saveEmbedding(analysisHistoryId, embedding);
+        const { vector, model, dimension } = await generateEmbeddingWithModel(text);
+        await saveEmbedding(analysisHistoryId, vector, model, dimension);
     } catch (error: any) {
         console.error(`❌ [generateAndSaveEmbedding] Error: ${error.message}`);
         // Не прерываем основной процесс, если эмбеддинг не удалось сохранить
         throw error;
     }
 }
+
+const CHUNK_SIZE = parseInt(process.env.EMBEDDING_CHUNK_SIZE || '1500', 10); // символов
+const CHUNK_OVERLAP = parseInt(process.env.EMBEDDING_CHUNK_OVERLAP || '200', 10);
+const MAX_CHUNKS = parseInt(process.env.EMBEDDING_MAX_CHUNKS || '100', 10);
+const MIN_CHUNK_LENGTH = 50;
+
+/**
+ * Делит текст на перекрывающиеся чанки: по абзацам, длинные абзацы — по предложениям,
+ * каждый следующий чанк начинается с хвоста предыдущего (до CHUNK_OVERLAP символов). Чанк вместе с перекрытием не длиннее size.
+ */
+export function chunkText(text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] {
+    const normalized = (text || '').replace(/\r\n/g, '\n').trim();
+    if (!normalized) return [];
+    if (normalized.length <= size) return [normalized];
+
+    // Единицы нарезки: абзацы, а слишком длинные абзацы — предложения (или жёсткая нарезка)
+    const units: Array<{ text: string; joiner: string }> = [];
+    for (const paragraph of normalized.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+        if (paragraph.length <= size) {
+            units.push({ text: paragraph, joiner: '\n\n' });
+            continue;
+        }
+        let joiner = '\n\n';
+        for (const sentence of paragraph.split(/(?<=[.!?…])\s+/)) {
+            for (let i = 0; i < sentence.length; i += size) {
+                units.push({ text: sentence.substring(i, i + size), joiner });
+                joiner = ' ';
+            }
+        }
+    }
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const { text: unit, joiner } of units) {
+        if (current && current.length + joiner.length + unit.length > size) {
+            chunks.push(current);
+            // Перекрытие входит в размер чанка: хвост не длиннее места, которое остаётся после очередной единицы
+            const tailLength = Math.min(overlap, size - joiner.length - unit.length);
+            const tail = tailLength > 0 ? current.substring(current.length - tailLength) : '';
+            // Перекрытие начинаем с границы слова
+            const tailStart = tail.search(/\s/);
+            current = tail && tailStart >= 0 ? tail.substring(tailStart + 1).trimStart() : '';
+        }
+        current = current ? `${current}${joiner}${unit}` : unit;
+    }
+    if (current.trim()) chunks.push(current);
+    return chunks.filter(chunk => chunk.trim().length >= MIN_CHUNK_LENGTH);
+}
+
+/**
+ * Эмбеддинги чанков полного контента статьи / транскрипта в analysis_history_chunks.
+ * Старые чанки записи заменяются. Возвращает число сохранённых чанков.
+ *
+ * @param content - Полный извлечённый контент
+ * @param analysisHistoryId - ID записи в analysis_history
+ */
+export async function generateAndSaveChunkEmbeddings(content: string, analysisHistoryId: number): Promise<number> {
+    const chunks = chunkText(content);
+    if (chunks.length === 0) return 0;
+    if (chunks.length > MAX_CHUNKS) {
+        console.warn(`⚠️ [Chunk Embeddings] ${chunks.length} chunks for analysis_history ${analysisHistoryId}, keeping first ${MAX_CHUNKS}`);
+    }
+
+    const rows: Array<{ index: number; content: string; vector: number[]; model: string; dimension: number }> = [];
+    for (const [index, chunk] of chunks.slice(0, MAX_CHUNKS).entries()) {
+        try {
+            const { vector, model, dimension } = await generateEmbeddingWithModel(chunk);
+            rows.push({ index, content: chunk, vector, model, dimension });
+        } catch (error: any) {
+            console.warn(`⚠️ [Chunk Embeddings] Chunk ${index} of analysis_history ${analysisHistoryId} failed: ${error.message}`);
+        }
+    }
+    if (rows.length === 0) return 0;
+
+    await sequelize.transaction(async (transaction) => {
+        await sequelize.query(`DELETE FROM analysis_history_chunks WHERE analysis_history_id = $id`, {
+            bind: { id: analysisHistoryId },
+            transaction,
+        });
+        for (const row of rows) {
+            await sequelize.query(`
+                INSERT INTO analysis_history_chunks (analysis_history_id, chunk_index, content, embedding, embedding_model, embedding_dim)
+                VALUES ($id, $index, $content, $embedding::vector, $model, $dimension)
+            `, {
+                bind: {
+                    id: analysisHistoryId,
+                    index: row.index,
+                    content: row.content,
+                    embedding: `[${row.vector.join(',')}]`,
+                    model: row.model,
+                    dimension: row.dimension,
+                },
+                transaction,
+            });
+        }
+    });
+
+    if (IS_DEBUG) {
+        console.log(`✅ [Chunk Embeddings] Saved ${rows.length} chunks for analysis_history ID: ${analysisHistoryId}`);
+    }
+    return rows.length;
+}
+
+/**
+ * Копирует эмбеддинги чанков одной записи истории в другую — тот же контент у разных пользователей
+ * (общие посты Telegram-каналов) не эмбеддится повторно. Возвращает число скопированных чанков (0 — исходных нет).
+ */
+export async function copyChunkEmbeddings(fromAnalysisHistoryId: number, toAnalysisHistoryId: number): Promise<number> {
+    return sequelize.transaction(async (transaction) => {
+        await sequelize.query(`DELETE FROM analysis_history_chunks WHERE analysis_history_id = $to`, {
+            bind: { to: toAnalysisHistoryId },
+            transaction,
+        });
+        const [rows] = await sequelize.query(`
+            INSERT INTO analysis_history_chunks (analysis_history_id, chunk_index, content, embedding, embedding_model, embedding_dim)
+            SELECT $to, chunk_index, content, embedding, embedding_model, embedding_dim
+            FROM analysis_history_chunks
+            WHERE analysis_history_id = $from
+            RETURNING id
+        `, {
+            bind: { from: fromAnalysisHistoryId, to: toAnalysisHistoryId },
+            transaction,
+        });
+        return (rows as unknown[]).length;
+    });
+}
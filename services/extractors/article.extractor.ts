@@ -0,0 +1,112 @@
+/**
+ * Экстракторы статей — всё, что не распознано как видео или специальный источник.
+ * Сначала ScrapingBee (не требует браузеров), потом Puppeteer, потом метаданные страницы.
+ */
+
+import type { ContentService } from '../content.service';
+import { ContentExtractor, defineExtractor } from './extractor-registry';
+import { detectVideoPlatform } from './video.extractor';
+
+// Протокол не обязателен: контроллер пропускает и ссылки вида example.com/post
+const ANY_URL = /^(?:https?:\/\/)?\S+$/i;
+
+const isArticleUrl = (url: string) => ANY_URL.test(url) && !detectVideoPlatform(url);
+
+export function createArticleExtractors(service: ContentService): ContentExtractor[] {
+    return [
+        defineExtractor({
+            name: 'article-scrapingbee',
+            priority: 100,
+            patterns: [ANY_URL],
+            canHandle: isArticleUrl,
+            extract: async (url) => {
+                const html = await service.extractWithScrapingBee(url);
+                if (!html) return null;
+                const cheerio = await import('cheerio');
+                const $ = cheerio.load(html);
+
+                // Основной контент статьи
+                const mainContentSelectors = ['article', 'main', '.post-content', '.article-body', 'body'];
+                let mainEl = null;
+                for (const selector of mainContentSelectors) {
+                    const element = $(selector).first();
+                    if (element.length > 0) {
+                        mainEl = element;
+                        break;
+                    }
+                }
+                if (!mainEl || mainEl.length === 0) return null;
+
+                mainEl.find('script, style, nav, header, footer, aside, form, button, .comments, #comments').remove();
+                const content = mainEl.find('p, h1, h2, h3, li, pre, code').toArray()
+                    .map((el: any) => $(el).text().trim())
+                    .filter((text: string) => text.length > 20)
+                    .join('\n\n');
+
+                if (content.trim().length <= 100) return null;
+                console.log(`✓ Using ScrapingBee for article (${content.length} chars)`);
+                return { content, sourceType: 'article' };
+            },
+        }),
+        defineExtractor({
+            name: 'article-puppeteer',
+            priority: 110,
+            patterns: [ANY_URL],
+            canHandle: isArticleUrl,
+            extract: (url) => service.scrapeArticleWithPuppeteer(url),
+        }),
+        defineExtractor({
+            name: 'article-og-metadata',
+            priority: 120,
+            patterns: [ANY_URL],
+            canHandle: isArticleUrl,
+            // og:tags и title из HTML без браузера
+            extract: async (url) => {
+                const response = await fetch(url, {
+                    headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' },
+                });
+                const html = await response.text();
+
+                const ogTitleMatch = html.match(/<meta\s+property=["']og:title["']\s+content=["']([^"']+)["']/i);
+                const ogDescMatch = html.match(/<meta\s+property=["']og:description["']\s+content=["']([^"']+)["']/i);
+                const titleMatch = html.match(/<title>([^<]+)<\/title>/i);
+                const title = ogTitleMatch?.[1] || titleMatch?.[1] || '';
+                const description = ogDescMatch?.[1] || '';
+                if (!title && !description) return null;
+
+                const contentParts: string[] = [];
+                if (title) contentParts.push(`Название: ${title}`);
+                if (description) contentParts.push(`\n\nОписание: ${description}`);
+                console.log(`✓ Extracted basic metadata without browser (title: ${title ? 'yes' : 'no'}, desc: ${description ? 'yes' : 'no'})`);
+                return {
+                    content: contentParts.join('') + '\n\n⚠️ ВАЖНО: Это только базовые метаданные страницы. Полный контент статьи недоступен без браузера.',
+                    sourceType: 'metadata',
+                };
+            },
+        }),
+        defineExtractor({
+            name: 'article-basic-metadata',
+            priority: 130,
+            patterns: [ANY_URL],
+            canHandle: isArticleUrl,
+            extract: async (url) => {
+                const metadata = await service.extractBasicMetadata(url);
+                return metadata && metadata.content && metadata.content.trim().length > 20 ? metadata : null;
+            },
+        }),
+        // Если даже базовые метаданные не получены, возвращаем минимальную информацию вместо ошибки
+        defineExtractor({
+            name: 'article-fallback',
+            priority: 1000,
+            patterns: [ANY_URL],
+            canHandle: isArticleUrl,
+            extract: async (url) => {
+                console.warn(`⚠️ All content extraction methods failed. Returning minimal metadata.`);
+                return {
+                    content: `⚠️ ВАЖНО: Не удалось извлечь полный контент из статьи. Браузер недоступен на этом сервере. Анализ будет проведен только на основе URL и доступных метаданных.\n\nURL: ${url}`,
+                    sourceType: 'metadata',
+                };
+            },
+        }),
+    ];
+}
@@ -0,0 +1,106 @@
+/**
+ * Реестр экстракторов контента.
+ * Каждый экстрактор объявляет шаблоны URL, приоритет и контракт canHandle/extract.
+ * Для конкретного URL реестр строит цепочку fallback: все подходящие экстракторы по возрастанию приоритета.
+ * Новый источник (Habr, Medium, Substack...) = новый файл с экстрактором + регистрация в extractors/index.ts.
+ */
+
+import { ExtractedContent } from '../../models/content.model';
+
+export interface ContentExtractor {
+    /** Уникальное имя — попадает в логи и в результат (extractor) */
+    name: string;
+    /** Порядок в цепочке: чем меньше, тем раньше */
+    priority: number;
+    /** Шаблоны URL, которые обрабатывает экстрактор */
+    patterns: RegExp[];
+    /**
+     * Терминальный экстрактор завершает цепочку: если он не справился, ошибка пробрасывается
+     * и следующие экстракторы не пробуются (Telegram-пост, твит, профиль X).
+     */
+    terminal?: boolean;
+    canHandle(url: string): boolean;
+    /** null — контент не получен, пробуем следующий экстрактор */
+    extract(url: string): Promise<ExtractedContent | null>;
+}
+
+export type ContentExtractorDefinition = Omit<ContentExtractor, 'canHandle'> & {
+    canHandle?: (url: string) => boolean;
+};
+
+/**
+ * Создаёт экстрактор; если canHandle не задан — проверяются patterns.
+ */
+export function defineExtractor(definition: ContentExtractorDefinition): ContentExtractor {
+    return {
+        ...definition,
+        canHandle: definition.canHandle ?? ((url: string) => definition.patterns.some((pattern) => pattern.test(url))),
+    };
+}
+
+export class ExtractorRegistry {
+    private extractors: ContentExtractor[] = [];
+
+    /**
+     * Регистрирует экстрактор. Экстрактор с тем же именем заменяется.
+     */
+    register(extractor: ContentExtractor): this {
+        this.extractors = this.extractors.filter((e) => e.name !== extractor.name);
+        this.extractors.push(extractor);
+        return this;
+    }
+
+    unregister(name: string): boolean {
+        const before = this.extractors.length;
+        this.extractors = this.extractors.filter((e) => e.name !== name);
+        return this.extractors.length !== before;
+    }
+
+    list(): ContentExtractor[] {
+        return [...this.extractors].sort((a, b) => a.priority - b.priority);
+    }
+
+    /**
+     * Цепочка fallback для URL: подходящие экстракторы по приоритету, обрезанная после первого терминального.
+     */
+    getChain(url: string): ContentExtractor[] {
+        const chain: ContentExtractor[] = [];
+        for (const extractor of this.list()) {
+            let handles = false;
+            try {
+                handles = extractor.canHandle(url);
+            } catch (_) {}
+            if (!handles) continue;
+            chain.push(extractor);
+            if (extractor.terminal) break;
+        }
+        return chain;
+    }
+
+    /**
+     * Прогоняет URL через цепочку экстракторов, пока один не вернёт контент.
+     */
+    async extract(url: string): Promise<ExtractedContent> {
+        const chain = this.getChain(url);
+        if (chain.length === 0) {
+            throw new Error(`No extractor can handle URL: ${url}`);
+        }
+        console.log(`🧩 [Extractors] ${url} → ${chain.map((e) => e.name).join(' → ')}`);
+
+        let lastError: Error | null = null;
+        for (const extractor of chain) {
+            try {
+                const result = await extractor.extract(url);
+                if (result && result.content) {
+                    return { ...result, extractor: result.extractor ?? extractor.name };
+                }
+            } catch (error: any) {
+                if (extractor.terminal) throw error;
+                lastError = error;
+                console.log(`   ⚠️ [${extractor.name}] failed: ${(error?.message || 'Unknown error').substring(0, 100)}`);
+            }
+            if (extractor.terminal) break;
+        }
+        throw lastError || new Error('Failed to extract content');
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * Реестр экстракторов по умолчанию.
+ * Чтобы добавить источник: создать <source>.extractor.ts с фабрикой create<Source>Extractors и зарегистрировать её здесь.
+ */
+
+import type { ContentService } from '../content.service';
+import { ExtractorRegistry } from './extractor-registry';
+import { createTelegramExtractors } from './telegram.extractor';
+import { createTwitterExtractors } from './twitter.extractor';
+import { createVideoExtractors } from './video.extractor';
+import { createArticleExtractors } from './article.extractor';
+
+export { ExtractorRegistry, defineExtractor } from './extractor-registry';
+export type { ContentExtractor, ContentExtractorDefinition } from './extractor-registry';
+export { detectVideoPlatform } from './video.extractor';
+
+export function createDefaultExtractorRegistry(service: ContentService): ExtractorRegistry {
+    const registry = new ExtractorRegistry();
+    [
+        ...createTelegramExtractors(service),
+        ...createTwitterExtractors(service),
+        ...createVideoExtractors(service),
+        ...createArticleExtractors(service),
+    ].forEach((extractor) => registry.register(extractor));
+    return registry;
+}
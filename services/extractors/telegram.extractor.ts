@@ -0,0 +1,20 @@
+/**
+ * Экстрактор постов Telegram (https://t.me/channel/123).
+ */
+
+import type { ContentService } from '../content.service';
+import { ContentExtractor, defineExtractor } from './extractor-registry';
+
+export const TELEGRAM_POST_PATTERN = /^https?:\/\/t\.me\/([^\/]+)\/(\d+)$/;
+
+export function createTelegramExtractors(service: ContentService): ContentExtractor[] {
+    return [
+        defineExtractor({
+            name: 'telegram-post',
+            priority: 0,
+            patterns: [TELEGRAM_POST_PATTERN],
+            terminal: true,
+            extract: (url) => service.extractTelegramPostContent(url),
+        }),
+    ];
+}
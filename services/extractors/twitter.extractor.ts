@@ -0,0 +1,54 @@
+/**
+ * Экстракторы Twitter/X: пост (status, trending) и профиль.
+ * Профиль не извлекается как контент — бросаем TWITTER_PROFILE_URL, контроллер анализирует последние твиты.
+ */
+
+import type { ContentService } from '../content.service';
+import { ContentExtractor, defineExtractor } from './extractor-registry';
+
+export const TWITTER_POST_PATTERNS = [
+    /^https?:\/\/(?:www\.)?(?:twitter\.com|x\.com)\/[^/]+\/status\/(\d+)/,
+    /^https?:\/\/(?:www\.)?(?:twitter\.com|x\.com)\/i\/trending\/\d+/,
+];
+
+export const TWITTER_PROFILE_PATTERN = /^https?:\/\/(?:www\.)?(?:twitter\.com|x\.com)\/([a-zA-Z0-9_]+)(?:\/|$|\?|#)/i;
+
+/**
+ * Ссылка на профиль X (без /status/): по regex и повторно по разобранному URL
+ */
+export function isTwitterProfileUrl(url: string): boolean {
+    const match = (url || '').trim().match(TWITTER_PROFILE_PATTERN);
+    if (match && match[1] && match[1].toLowerCase() !== 'i') return true;
+    try {
+        const parsed = new URL(url.trim().split('?')[0].split('#')[0] || url);
+        const host = parsed.hostname.toLowerCase();
+        const pathname = parsed.pathname.replace(/\/+$/, '').replace(/^\/+/, '');
+        const isTwitterHost = host === 'twitter.com' || host === 'x.com' || host.endsWith('.twitter.com') || host.endsWith('.x.com');
+        return isTwitterHost && /^[a-zA-Z0-9_]+$/.test(pathname) && !pathname.toLowerCase().startsWith('i');
+    } catch (_) {
+        return false;
+    }
+}
+
+export function createTwitterExtractors(service: ContentService): ContentExtractor[] {
+    return [
+        defineExtractor({
+            name: 'twitter-post',
+            priority: 0,
+            patterns: TWITTER_POST_PATTERNS,
+            terminal: true,
+            extract: (url) => service.extractTwitterPostContent(url),
+        }),
+        defineExtractor({
+            name: 'twitter-profile',
+            priority: 1,
+            patterns: [TWITTER_PROFILE_PATTERN],
+            terminal: true,
+            canHandle: (url) => !TWITTER_POST_PATTERNS.some((p) => p.test(url)) && isTwitterProfileUrl(url),
+            extract: async (url) => {
+                console.log(`🐦 [Twitter/X] Profile URL detected, throwing TWITTER_PROFILE_URL: ${url}`);
+                throw new Error('TWITTER_PROFILE_URL');
+            },
+        }),
+    ];
+}
@@ -0,0 +1,241 @@
+/**
+ * Экстракторы видео (YouTube, VK, TikTok, Rutube, Дзен и др.).
+ * Приоритет 1 — полный транскрипт (для YouTube: Puppeteer → youtube-transcript → ScrapingBee → yt-dlp,
+ * для остальных — автоматическая транскрибация). Приоритет 2 — метаданные (название, описание).
+ */
+
+import play from 'play-dl';
+import type { ContentService } from '../content.service';
+import { ContentExtractor, defineExtractor } from './extractor-registry';
+
+export const VIDEO_PLATFORM_PATTERNS: { [platform: string]: RegExp[] } = {
+    youtube: [
+        /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com|youtu\.be)\/(?:watch\?v=|embed\/|v\/|shorts\/|.+\?v=)?([^"&?\/\s]{11})/,
+    ],
+    vk: [
+        /(?:https?:\/\/)?(?:www\.)?(?:vk\.com|vkontakte\.ru)\/video(-?\d+_\d+)/,
+        /(?:https?:\/\/)?(?:www\.)?vk\.com\/.*video/,
+        /(?:https?:\/\/)?(?:www\.)?vkvideo\.ru\/video(-?\d+_\d+)/,
+    ],
+    tiktok: [
+        /(?:https?:\/\/)?(?:www\.)?(?:tiktok\.com|vm\.tiktok\.com)\/.+/,
+    ],
+    rutube: [
+        /(?:https?:\/\/)?(?:www\.)?rutube\.ru\/video\/([a-zA-Z0-9]+)/,
+    ],
+    dzen: [
+        /(?:https?:\/\/)?(?:www\.)?dzen\.ru\/video\/watch\/([a-zA-Z0-9]+)/,
+        /(?:https?:\/\/)?(?:www\.)?dzen\.ru\/video\/([a-zA-Z0-9]+)/,
+    ],
+    yandex: [
+        /(?:https?:\/\/)?(?:www\.)?yandex\.ru\/video\/(?:search|preview)\?.*/,
+    ],
+    instagram: [
+        /(?:https?:\/\/)?(?:www\.)?instagram\.com\/(?:reel|p)\/([a-zA-Z0-9_-]+)/,
+    ],
+    facebook: [
+        /(?:https?:\/\/)?(?:www\.)?(?:facebook\.com|fb\.com)\/watch\/?.*/,
+    ],
+    twitter: [
+        /(?:https?:\/\/)?(?:www\.)?(?:twitter\.com|x\.com)\/.+\/status\/\d+/,
+    ],
+};
+
+const ALL_VIDEO_PATTERNS = Object.values(VIDEO_PLATFORM_PATTERNS).flat();
+
+/**
+ * Определяет видеоплатформу по URL
+ */
+export function detectVideoPlatform(url: string): string | null {
+    for (const [platform, platformPatterns] of Object.entries(VIDEO_PLATFORM_PATTERNS)) {
+        if (platformPatterns.some((pattern) => pattern.test(url))) {
+            return platform;
+        }
+    }
+    return null;
+}
+
+const METADATA_WARNING = '⚠️ ВАЖНО: Это только метаданные видео (название, описание). Полная расшифровка видео недоступна. Анализ проводится ТОЛЬКО на основе этих метаданных.';
+
+export function createVideoExtractors(service: ContentService): ContentExtractor[] {
+    /** Нормализованный транскрипт или null, если он слишком короткий */
+    const toTranscript = (text: string | null | undefined, label: string) => {
+        if (!text || text.trim().length <= 30) {
+            console.log(`   ⚠️ ${label} returned empty or too short transcript (${text?.length || 0} chars)`);
+            return null;
+        }
+        const normalized = service.normalizeTranscript(text);
+        if (normalized.length <= 30) {
+            console.log(`   ⚠️ ${label} transcript too short after normalization (${normalized.length} chars)`);
+            return null;
+        }
+        console.log(`✓✓✓ SUCCESS: Using ${label} transcript (${normalized.length} chars)`);
+        return { content: normalized, sourceType: 'transcript' as const };
+    };
+
+    const youtube = VIDEO_PLATFORM_PATTERNS.youtube;
+
+    return [
+        // ===== ПРИОРИТЕТ 1: ТРАНСКРИПТ =====
+        defineExtractor({
+            name: 'youtube-puppeteer',
+            priority: 10,
+            patterns: youtube,
+            extract: async (url) => {
+                console.log('🎬 [YouTube] Trying Puppeteer (browser-based) for transcript...');
+                const transcriptText = await Promise.race([
+                    service.getYouTubeTranscript(url),
+                    new Promise<string>((_, reject) =>
+                        setTimeout(() => reject(new Error('Transcript extraction timeout')), 120000)
+                    ),
+                ]);
+                return toTranscript(transcriptText, 'YouTube (Puppeteer)');
+            },
+        }),
+        defineExtractor({
+            name: 'youtube-transcript',
+            priority: 20,
+            patterns: youtube,
+            extract: async (url) => {
+                console.log('🎬 [YouTube] Trying youtube-transcript library...');
+                const { YoutubeTranscript } = await import('youtube-transcript');
+                try {
+                    // Сначала без указания языка (автоматический выбор)
+                    const items = await YoutubeTranscript.fetchTranscript(url);
+                    const result = toTranscript(items.map((item) => item.text).join(' '), 'youtube-transcript library');
+                    if (result) return result;
+                } catch (autoError: any) {
+                    for (const lang of ['ru', 'en', 'uk']) {
+                        try {
+                            console.log(`   Trying youtube-transcript with language: ${lang}...`);
+                            const items = await YoutubeTranscript.fetchTranscript(url, { lang });
+                            const result = toTranscript(items.map((item) => item.text).join(' '), `youtube-transcript library (${lang})`);
+                            if (result) return result;
+                        } catch (_) {
+                            continue;
+                        }
+                    }
+                    throw autoError;
+                }
+                return null;
+            },
+        }),
+        defineExtractor({
+            name: 'youtube-scrapingbee',
+            priority: 30,
+            patterns: youtube,
+            extract: async (url) => {
+                console.log('🎬 [YouTube] Trying ScrapingBee API for transcript...');
+                const html = await service.extractWithScrapingBee(url);
+                if (!html) return null;
+                const transcriptText = await service.extractTranscriptFromHTML(html, url);
+                return toTranscript(transcriptText, 'ScrapingBee YouTube');
+            },
+        }),
+        defineExtractor({
+            name: 'youtube-ytdlp',
+            priority: 40,
+            patterns: youtube,
+            extract: async (url) => {
+                console.log('🎬 [YouTube] Trying yt-dlp for transcript extraction...');
+                return toTranscript(await service.extractTranscriptWithYtDlp(url), 'yt-dlp');
+            },
+        }),
+        defineExtractor({
+            name: 'video-transcription',
+            priority: 50,
+            patterns: ALL_VIDEO_PATTERNS,
+            // Транскрибация включена по умолчанию, отключается DISABLE_VIDEO_TRANSCRIPTION=true; YouTube — только через субтитры
+            canHandle: (url) => {
+                const platform = detectVideoPlatform(url);
+                return !!platform && platform !== 'youtube' && process.env.DISABLE_VIDEO_TRANSCRIPTION !== 'true';
+            },
+            extract: async (url) => {
+                const platform = detectVideoPlatform(url)!;
+                console.log(`🎬 [${platform}] Attempting automatic transcription to get full video content...`);
+                return toTranscript(await service.transcribeVideo(url, platform), 'automatic transcription');
+            },
+        }),
+
+        // ===== ПРИОРИТЕТ 2: МЕТАДАННЫЕ (только если транскрипт недоступен) =====
+        defineExtractor({
+            name: 'video-metadata-ytdlp',
+            priority: 60,
+            patterns: ALL_VIDEO_PATTERNS,
+            extract: async (url) => {
+                const metadata = await service.fetchMetadataWithYtDlp(url);
+                return metadata && metadata.content && metadata.content.trim().length > 100 ? metadata : null;
+            },
+        }),
+        defineExtractor({
+            name: 'video-metadata-scrapingbee',
+            priority: 70,
+            patterns: ALL_VIDEO_PATTERNS,
+            extract: async (url) => {
+                const html = await service.extractWithScrapingBee(url);
+                if (!html) return null;
+                const cheerio = await import('cheerio');
+                const $ = cheerio.load(html);
+                const title = $('meta[property="og:title"]').attr('content') || $('title').text() || $('h1').first().text();
+                const description = $('meta[property="og:description"]').attr('content') || $('meta[name="description"]').attr('content') || '';
+                if (!title && !description) return null;
+
+                const contentParts: string[] = [];
+                if (title) contentParts.push(`Название: ${title.trim()}`);
+                if (description) contentParts.push(`\n\nОписание: ${description.trim()}`);
+                return { content: contentParts.join('') + '\n\n' + METADATA_WARNING, sourceType: 'metadata' };
+            },
+        }),
+        defineExtractor({
+            name: 'video-metadata-puppeteer',
+            priority: 80,
+            patterns: ALL_VIDEO_PATTERNS,
+            extract: async (url) => {
+                // Короткий таймаут, чтобы не ждать слишком долго
+                const metadata = await Promise.race([
+                    service.extractVideoMetadata(url, detectVideoPlatform(url)!),
+                    new Promise<null>((resolve) => setTimeout(() => resolve(null), 25000)),
+                ]);
+                if (metadata === null) console.warn(`⚠️ Metadata extraction (puppeteer) timed out, trying basic metadata...`);
+                return metadata && metadata.content && metadata.content.trim().length > 100 ? metadata : null;
+            },
+        }),
+        defineExtractor({
+            name: 'youtube-play-dl',
+            priority: 85,
+            patterns: youtube,
+            extract: async (url) => {
+                const videoInfo = await play.video_info(url);
+                const { title, description } = videoInfo.video_details;
+                console.log('⚠️ Using play-dl metadata (transcript unavailable)');
+                return {
+                    content: `Название: ${title || 'Нет названия'}\n\nОписание: ${description || 'Нет описания'}\n\n⚠️ ВАЖНО: Это только метаданные видео. Полная расшифровка недоступна. Анализ проводится ТОЛЬКО на основе этих метаданных.`,
+                    sourceType: 'metadata',
+                };
+            },
+        }),
+        defineExtractor({
+            name: 'video-basic-metadata',
+            priority: 90,
+            patterns: ALL_VIDEO_PATTERNS,
+            extract: async (url) => {
+                const metadata = await service.extractBasicMetadata(url);
+                return metadata && metadata.content && metadata.content.trim().length > 50 ? metadata : null;
+            },
+        }),
+        // Если даже базовые метаданные не получены, возвращаем минимальную информацию вместо ошибки
+        defineExtractor({
+            name: 'video-fallback',
+            priority: 1000,
+            patterns: ALL_VIDEO_PATTERNS,
+            extract: async (url) => {
+                const platform = detectVideoPlatform(url);
+                console.warn(`⚠️ All content extraction methods failed for ${platform}. Returning minimal metadata.`);
+                return {
+                    content: `⚠️ ВАЖНО: Не удалось извлечь полный контент из видео. Браузер недоступен на этом сервере, или видео требует аутентификации. Анализ будет проведен только на основе URL и доступных метаданных.\n\nURL: ${url}\nПлатформа: ${platform}`,
+                    sourceType: 'metadata',
+                };
+            },
+        }),
+    ];
+}
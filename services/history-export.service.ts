@@ -0,0 +1,318 @@
+/**
+ * Экспорт истории анализов: JSON, CSV, один Markdown-файл или Obsidian vault (zip, по заметке на статью).
+ * Набор записей — тот же, что у GET /api/analysis/history/search (те же фильтры и q).
+ * В заметках Obsidian: front-matter, summary, reasoning, вопросы-ответы, комментарий пользователя
+ * и [[ссылки]] на другие статьи с общими extractedThemes.
+ */
+
+import { Op } from 'sequelize';
+import AnalysisHistory from '../models/AnalysisHistory';
+import QAHistory from '../models/QAHistory';
+import UserFeedback from '../models/UserFeedback';
+import { searchHistory, HistorySearchFilters } from './history-search.service';
+import { createZip } from '../utils/zip-writer';
+
+export const HISTORY_EXPORT_FORMATS = ['md', 'csv', 'json', 'obsidian'] as const;
+export type HistoryExportFormat = typeof HISTORY_EXPORT_FORMATS[number];
+
+const MAX_EXPORT_ITEMS = 5000;
+const MAX_RELATED_LINKS = 10;
+const MAX_TITLE_LENGTH = 80;
+
+export interface HistoryExportItem {
+    id: number;
+    url: string;
+    title: string;
+    sourceType: string | null;
+    source: 'bot' | 'web';
+    score: number | null;
+    verdict: string | null;
+    interests: string[];
+    themes: string[];
+    summary: string | null;
+    reasoning: string | null; // без служебного блока [COMMENT_DATA]
+    comment: string | null;
+    qa: Array<{ question: string; answer: string; createdAt: Date }>;
+    createdAt: Date;
+}
+
+export interface HistoryExportFile {
+    filename: string;
+    contentType: string;
+    body: Buffer;
+    count: number;
+    total: number; // записей, подходящих под запрос
+    truncated: boolean; // в файл вошли только первые MAX_EXPORT_ITEMS
+}
+
+/** Сведения об экспорте: сколько записей попало в файл и сколько подходило под запрос */
+interface ExportManifest {
+    exportedAt: Date;
+    count: number;
+    total: number;
+    truncated: boolean;
+}
+
+export function isHistoryExportFormat(value: unknown): value is HistoryExportFormat {
+    return typeof value === 'string' && (HISTORY_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+function parseThemes(value: string | null | undefined): string[] {
+    if (!value) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter((t: any) => typeof t === 'string' && t.trim()).map((t: string) => t.trim()) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Комментарий хранится в reasoning блоком [COMMENT_DATA]{json}[END_COMMENT_DATA] (см. saveAnalysisComment).
+ */
+function splitReasoning(reasoning: string | null): { reasoning: string | null; comment: string | null } {
+    if (!reasoning) return { reasoning: null, comment: null };
+    const match = reasoning.match(/\[COMMENT_DATA\]([\s\S]*?)\[END_COMMENT_DATA\]/);
+    if (!match) return { reasoning, comment: null };
+
+    let comment: string | null = null;
+    try {
+        const data = JSON.parse(match[1]);
+        if (typeof data.comment === 'string' && data.comment.trim()) comment = data.comment.trim();
+    } catch {
+        // битый блок — просто вырезаем
+    }
+    const cleaned = reasoning.replace(match[0], '').trim();
+    return { reasoning: cleaned || null, comment };
+}
+
+function buildTitle(summary: string | null, url: string): string {
+    const firstSentence = (summary || '').replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s/)[0];
+    if (firstSentence) {
+        return firstSentence.length > MAX_TITLE_LENGTH
+            ? firstSentence.substring(0, MAX_TITLE_LENGTH).trim() + '…'
+            : firstSentence;
+    }
+    if (url.startsWith('text://')) return 'Текст';
+    try {
+        const parsed = new URL(url);
+        return (parsed.hostname + parsed.pathname).replace(/\/$/, '');
+    } catch {
+        return url.substring(0, MAX_TITLE_LENGTH);
+    }
+}
+
+/**
+ * Собирает записи для экспорта в порядке выдачи поиска — не больше MAX_EXPORT_ITEMS; total — сколько подходило под запрос.
+ */
+export async function collectHistoryForExport(
+    userId: number,
+    query: string,
+    filters: HistorySearchFilters
+): Promise<{ items: HistoryExportItem[]; total: number }> {
+    const { items, total } = await searchHistory(userId, query, filters, { limit: MAX_EXPORT_ITEMS, offset: 0 });
+    const ids = items.map((item) => item.id);
+    if (ids.length === 0) return { items: [], total };
+
+    const [records, qaRecords, feedbacks] = await Promise.all([
+        AnalysisHistory.findAll({ where: { id: { [Op.in]: ids }, userId } }),
+        QAHistory.findAll({ where: { analysisHistoryId: { [Op.in]: ids }, userId }, order: [['createdAt', 'ASC']] }),
+        UserFeedback.findAll({ where: { analysisHistoryId: { [Op.in]: ids }, userId }, attributes: ['analysisHistoryId', 'userComment'] }),
+    ]);
+
+    const qaByHistory = new Map<number, HistoryExportItem['qa']>();
+    for (const qa of qaRecords) {
+        if (qa.analysisHistoryId == null) continue;
+        const list = qaByHistory.get(qa.analysisHistoryId) ?? [];
+        list.push({ question: qa.question, answer: qa.answer, createdAt: qa.createdAt });
+        qaByHistory.set(qa.analysisHistoryId, list);
+    }
+    const feedbackComments = new Map<number, string>();
+    for (const feedback of feedbacks) {
+        if (feedback.userComment?.trim()) feedbackComments.set(feedback.analysisHistoryId, feedback.userComment.trim());
+    }
+
+    const recordsById = new Map(records.map((record) => [record.id, record]));
+    const exportItems = ids
+        .map((id) => recordsById.get(id))
+        .filter((record): record is AnalysisHistory => !!record)
+        .map((record) => {
+            const { reasoning, comment } = splitReasoning(record.reasoning);
+            return {
+                id: record.id,
+                url: record.url,
+                title: buildTitle(record.summary, record.url),
+                sourceType: record.sourceType ?? null,
+                source: record.telegramId ? 'bot' as const : 'web' as const,
+                score: record.score ?? null,
+                verdict: record.verdict ?? null,
+                interests: (record.interests || '').split(',').map((i) => i.trim()).filter(Boolean),
+                themes: parseThemes(record.extractedThemes),
+                summary: record.summary ?? null,
+                reasoning,
+                comment: comment ?? feedbackComments.get(record.id) ?? null,
+                qa: qaByHistory.get(record.id) ?? [],
+                createdAt: record.createdAt,
+            };
+        });
+    return { items: exportItems, total: Math.max(total, exportItems.length) };
+}
+
+const isTextUrl = (url: string): boolean => url.startsWith('text://');
+
+function renderJson(items: HistoryExportItem[], manifest: ExportManifest): string {
+    return JSON.stringify({ ...manifest, items }, null, 2);
+}
+
+function csvCell(value: string | number | null | undefined): string {
+    if (value == null) return '';
+    const str = String(value);
+    return /[",\r\n;]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function renderCsv(items: HistoryExportItem[]): string {
+    const header = ['id', 'createdAt', 'url', 'title', 'sourceType', 'source', 'score', 'verdict', 'interests', 'themes', 'summary', 'reasoning', 'comment', 'questions'];
+    const rows = items.map((item) => [
+        item.id,
+        item.createdAt.toISOString(),
+        isTextUrl(item.url) ? '' : item.url,
+        item.title,
+        item.sourceType,
+        item.source,
+        item.score,
+        item.verdict,
+        item.interests.join(', '),
+        item.themes.join(', '),
+        item.summary,
+        item.reasoning,
+        item.comment,
+        item.qa.length,
+    ].map(csvCell).join(','));
+    // BOM — чтобы Excel открыл кириллицу в UTF-8
+    return '\uFEFF' + [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function renderQa(qa: HistoryExportItem['qa']): string[] {
+    return qa.flatMap((turn) => [`**В:** ${turn.question.trim()}`, '', `**О:** ${turn.answer.trim()}`, '']);
+}
+
+function renderMarkdown(items: HistoryExportItem[], manifest: ExportManifest): string {
+    const lines: string[] = [`# История анализов`, '', `Экспортировано: ${manifest.exportedAt.toISOString()} · записей: ${items.length}`, ''];
+    if (manifest.truncated) lines.push(`> Экспортированы первые ${manifest.count} из ${manifest.total} записей — уточните фильтры, чтобы выгрузить остальные.`, '');
+    for (const item of items) {
+        lines.push(`## ${item.title}`, '');
+        if (!isTextUrl(item.url)) lines.push(`- URL: ${item.url}`);
+        lines.push(`- Дата: ${item.createdAt.toISOString()}`);
+        if (item.score != null) lines.push(`- Оценка: ${item.score}`);
+        if (item.verdict) lines.push(`- Вердикт: ${item.verdict}`);
+        if (item.themes.length) lines.push(`- Темы: ${item.themes.join(', ')}`);
+        if (item.interests.length) lines.push(`- Интересы: ${item.interests.join(', ')}`);
+        lines.push('');
+        if (item.summary) lines.push('### Кратко', '', item.summary.trim(), '');
+        if (item.reasoning) lines.push('### Обоснование', '', item.reasoning.trim(), '');
+        if (item.qa.length) lines.push('### Вопросы и ответы', '', ...renderQa(item.qa));
+        if (item.comment) lines.push('### Мой комментарий', '', item.comment, '');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Имя заметки: заголовок без символов, недопустимых в именах файлов и [[ссылках]] Obsidian, + id для уникальности.
+ */
+function noteName(item: HistoryExportItem): string {
+    const safe = item.title.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim().replace(/\.+$/, '');
+    return `${safe || 'Статья'} (${item.id})`;
+}
+
+// YAML-строка в двойных кавычках совместима с JSON-экранированием
+const yamlString = (value: string): string => JSON.stringify(value);
+
+function buildRelatedNotes(items: HistoryExportItem[]): Map<number, HistoryExportItem[]> {
+    const byTheme = new Map<string, HistoryExportItem[]>();
+    for (const item of items) {
+        for (const theme of new Set(item.themes.map((t) => t.toLowerCase()))) {
+            const list = byTheme.get(theme) ?? [];
+            list.push(item);
+            byTheme.set(theme, list);
+        }
+    }
+
+    const related = new Map<number, HistoryExportItem[]>();
+    for (const item of items) {
+        const shared = new Map<number, { item: HistoryExportItem; count: number }>();
+        for (const theme of new Set(item.themes.map((t) => t.toLowerCase()))) {
+            for (const other of byTheme.get(theme) ?? []) {
+                if (other.id === item.id) continue;
+                const entry = shared.get(other.id) ?? { item: other, count: 0 };
+                entry.count++;
+                shared.set(other.id, entry);
+            }
+        }
+        related.set(item.id, Array.from(shared.values())
+            .sort((a, b) => b.count - a.count || b.item.createdAt.getTime() - a.item.createdAt.getTime())
+            .slice(0, MAX_RELATED_LINKS)
+            .map((entry) => entry.item));
+    }
+    return related;
+}
+
+function renderObsidianNote(item: HistoryExportItem, related: HistoryExportItem[]): string {
+    const frontMatter = [
+        '---',
+        `url: ${yamlString(isTextUrl(item.url) ? '' : item.url)}`,
+        `score: ${item.score ?? 'null'}`,
+        `verdict: ${item.verdict ? yamlString(item.verdict) : 'null'}`,
+        `themes: [${item.themes.map(yamlString).join(', ')}]`,
+        `interests: [${item.interests.map(yamlString).join(', ')}]`,
+        `date: ${item.createdAt.toISOString()}`,
+        `source: ${item.source}`,
+        '---',
+    ];
+    const lines = [...frontMatter, '', `# ${item.title}`, ''];
+    if (item.summary) lines.push('## Кратко', '', item.summary.trim(), '');
+    if (item.reasoning) lines.push('## Обоснование', '', item.reasoning.trim(), '');
+    if (item.qa.length) lines.push('## Вопросы и ответы', '', ...renderQa(item.qa));
+    if (item.comment) lines.push('## Мой комментарий', '', item.comment, '');
+    if (related.length) lines.push('## Связанные', '', ...related.map((other) => `- [[${noteName(other)}]]`), '');
+    return lines.join('\n');
+}
+
+function renderObsidianVault(items: HistoryExportItem[], manifest: ExportManifest): Buffer {
+    const related = buildRelatedNotes(items);
+    return createZip([
+        ...items.map((item) => ({
+            name: `Curator/${noteName(item)}.md`,
+            content: renderObsidianNote(item, related.get(item.id) ?? []),
+            modifiedAt: item.createdAt,
+        })),
+        { name: 'manifest.json', content: JSON.stringify(manifest, null, 2), modifiedAt: manifest.exportedAt },
+    ]);
+}
+
+/**
+ * Готовит файл экспорта в нужном формате.
+ */
+export async function exportHistory(
+    userId: number,
+    format: HistoryExportFormat,
+    query: string,
+    filters: HistorySearchFilters
+): Promise<HistoryExportFile> {
+    const { items, total } = await collectHistoryForExport(userId, query, filters);
+    const manifest: ExportManifest = { exportedAt: new Date(), count: items.length, total, truncated: total > items.length };
+    const stamp = manifest.exportedAt.toISOString().substring(0, 10);
+    const base = `curator-history-${stamp}`;
+    const counts = { count: manifest.count, total: manifest.total, truncated: manifest.truncated };
+    console.log(`📤 [History Export] User ${userId}: ${items.length} of ${total} items as ${format}`);
+
+    switch (format) {
+        case 'json':
+            return { filename: `${base}.json`, contentType: 'application/json; charset=utf-8', body: Buffer.from(renderJson(items, manifest), 'utf8'), ...counts };
+        case 'csv':
+            return { filename: `${base}.csv`, contentType: 'text/csv; charset=utf-8', body: Buffer.from(renderCsv(items), 'utf8'), ...counts };
+        case 'md':
+            return { filename: `${base}.md`, contentType: 'text/markdown; charset=utf-8', body: Buffer.from(renderMarkdown(items, manifest), 'utf8'), ...counts };
+        case 'obsidian':
+            return { filename: `${base}-obsidian.zip`, contentType: 'application/zip', body: renderObsidianVault(items, manifest), ...counts };
+    }
+}
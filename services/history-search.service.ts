@@ -0,0 +1,239 @@
+/**
+ * Поиск по истории анализов пользователя: полнотекстовый (tsvector по summary, reasoning, original_text,
+ * extracted_themes) + векторный (pgvector, эмбеддинги статей и чанков), объединённые через reciprocal-rank fusion.
+ * Если эмбеддинг запроса получить не удалось — только полнотекстовый поиск.
+ */
+
+import sequelize from '../config/database';
+import { QueryTypes } from 'sequelize';
+import { generateEmbedding } from './embedding.service';
+import { getEmbeddingModel } from './embedding-provider';
+
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+const IS_DEBUG = LOG_LEVEL === 'debug';
+
+const TS_CONFIG = 'russian';
+const RRF_K = 60; // стандартная константа RRF: гасит вклад далёких позиций
+const CANDIDATES_PER_RANKER = 100;
+// Ниже этой схожести векторное совпадение не считается находкой (иначе в выдачу попадает вся история)
+const MIN_VECTOR_SIMILARITY = 0.3;
+
+export interface HistorySearchFilters {
+    sourceTypes?: string[];
+    verdict?: string;
+    minScore?: number;
+    maxScore?: number;
+    from?: Date;
+    to?: Date;
+    interest?: string;
+    source?: 'bot' | 'web';
+}
+
+export interface HistorySearchItem {
+    id: number;
+    url: string;
+    sourceType: string | null;
+    score: number | null;
+    verdict: string | null;
+    summary: string | null;
+    interests: string | null;
+    createdAt: Date;
+    source: 'bot' | 'web';
+    highlight: string | null; // фрагмент summary с <b>совпадениями</b>
+    passage: string | null; // лучший по смыслу фрагмент контента (чанк)
+    textRank: number | null; // позиция в полнотекстовой выдаче (1 — лучшая)
+    vectorRank: number | null; // позиция в векторной выдаче
+    similarity: number | null;
+    relevance: number; // итоговый RRF score
+}
+
+export interface HistorySearchResult {
+    items: HistorySearchItem[];
+    total: number;
+    mode: 'hybrid' | 'text' | 'filter';
+}
+
+/**
+ * WHERE по фильтрам (alias таблицы — h). Значения идут в bind.
+ */
+function buildFilterClause(userId: number, filters: HistorySearchFilters, bind: Record<string, any>): string {
+    const conditions = ['h."userId" = $userId'];
+    bind.userId = userId;
+
+    if (filters.sourceTypes?.length) {
+        conditions.push('h."sourceType" = ANY($sourceTypes)');
+        bind.sourceTypes = filters.sourceTypes;
+    }
+    if (filters.verdict) {
+        conditions.push('h.verdict = $verdict');
+        bind.verdict = filters.verdict;
+    }
+    if (filters.minScore != null) {
+        conditions.push('h.score >= $minScore');
+        bind.minScore = filters.minScore;
+    }
+    if (filters.maxScore != null) {
+        conditions.push('h.score <= $maxScore');
+        bind.maxScore = filters.maxScore;
+    }
+    if (filters.from) {
+        conditions.push('h."createdAt" >= $from');
+        bind.from = filters.from;
+    }
+    if (filters.to) {
+        conditions.push('h."createdAt" <= $to');
+        bind.to = filters.to;
+    }
+    if (filters.interest) {
+        conditions.push('h.interests ILIKE $interest');
+        bind.interest = `%${filters.interest.replace(/[%_\\]/g, (c) => `\\${c}`)}%`;
+    }
+    if (filters.source === 'bot') conditions.push('h.telegram_id IS NOT NULL');
+    if (filters.source === 'web') conditions.push('h.telegram_id IS NULL');
+
+    return conditions.join(' AND ');
+}
+
+const SELECT_FIELDS = `
+    h.id, h.url, h."sourceType", h.score, h.verdict, h.summary, h.interests, h."createdAt",
+    CASE WHEN h.telegram_id IS NOT NULL THEN 'bot' ELSE 'web' END AS source`;
+
+/**
+ * Запрос эмбеддинга для поиска; null — векторная часть пропускается.
+ */
+async function tryEmbedQuery(query: string): Promise<number[] | null> {
+    if (query.trim().length < 10) {
+        // generateEmbedding требует минимум 10 символов — короткий запрос дополняем контекстом
+        query = `Поиск по теме: ${query.trim()}`;
+    }
+    try {
+        return await generateEmbedding(query);
+    } catch (error: any) {
+        console.warn(`⚠️ [History Search] Query embedding failed, using full-text only: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Ищет по истории пользователя. Без query — только фильтры, сортировка по дате.
+ */
+export async function searchHistory(
+    userId: number,
+    query: string,
+    filters: HistorySearchFilters = {},
+    options: { limit?: number; offset?: number } = {}
+): Promise<HistorySearchResult> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const bind: Record<string, any> = { limit, offset };
+    const where = buildFilterClause(userId, filters, bind);
+    const q = (query || '').trim();
+
+    if (!q) {
+        const rows = await sequelize.query(`
+            SELECT ${SELECT_FIELDS}, NULL AS highlight, NULL AS passage,
+                NULL AS text_rank, NULL AS vector_rank, NULL AS similarity, 0 AS relevance,
+                COUNT(*) OVER() AS total
+            FROM analysis_history h
+            WHERE ${where}
+            ORDER BY h."createdAt" DESC
+            LIMIT $limit OFFSET $offset
+        `, { bind, type: QueryTypes.SELECT }) as any[];
+        return { items: rows.map(toItem), total: Number(rows[0]?.total ?? 0), mode: 'filter' };
+    }
+
+    bind.query = q;
+    bind.candidates = CANDIDATES_PER_RANKER;
+    bind.rrfK = RRF_K;
+    const queryEmbedding = await tryEmbedQuery(q);
+    if (queryEmbedding) {
+        bind.embedding = `[${queryEmbedding.join(',')}]`;
+        bind.embeddingModel = getEmbeddingModel();
+        bind.minSimilarity = MIN_VECTOR_SIMILARITY;
+    }
+
+    const vectorCtes = queryEmbedding ? `,
+        vector_candidates AS (
+            SELECT h.id, 1 - (h.embedding <=> $embedding::vector) AS similarity, NULL::text AS passage
+            FROM analysis_history h
+            WHERE ${where} AND h.embedding IS NOT NULL AND h.embedding_model = $embeddingModel
+            UNION ALL
+            SELECT h.id, 1 - (c.embedding <=> $embedding::vector) AS similarity, c.content AS passage
+            FROM analysis_history_chunks c
+            JOIN analysis_history h ON h.id = c.analysis_history_id
+            WHERE ${where} AND c.embedding_model = $embeddingModel
+        ),
+        best_vector AS (
+            SELECT DISTINCT ON (id) id, similarity, passage
+            FROM vector_candidates
+            ORDER BY id, similarity DESC
+        ),
+        vector_hits AS (
+            SELECT id, similarity, passage, ROW_NUMBER() OVER (ORDER BY similarity DESC) AS rank
+            FROM best_vector
+            WHERE similarity >= $minSimilarity
+            ORDER BY similarity DESC
+            LIMIT $candidates
+        )` : '';
+
+    const sql = `
+        WITH text_hits AS (
+            SELECT h.id, ROW_NUMBER() OVER (ORDER BY ts_rank_cd(h.search_vector, tsq) DESC) AS rank
+            FROM analysis_history h, websearch_to_tsquery('${TS_CONFIG}', $query) tsq
+            WHERE ${where} AND h.search_vector @@ tsq
+            ORDER BY ts_rank_cd(h.search_vector, tsq) DESC
+            LIMIT $candidates
+        )${vectorCtes},
+        fused AS (
+            SELECT COALESCE(t.id${queryEmbedding ? ', v.id' : ''}) AS id,
+                t.rank AS text_rank,
+                ${queryEmbedding ? 'v.rank' : 'NULL::bigint'} AS vector_rank,
+                ${queryEmbedding ? 'v.similarity' : 'NULL::float'} AS similarity,
+                ${queryEmbedding ? 'v.passage' : 'NULL::text'} AS passage,
+                COALESCE(1.0 / ($rrfK + t.rank), 0)${queryEmbedding ? ' + COALESCE(1.0 / ($rrfK + v.rank), 0)' : ''} AS relevance
+            FROM text_hits t
+            ${queryEmbedding ? 'FULL OUTER JOIN vector_hits v ON v.id = t.id' : ''}
+        )
+        SELECT ${SELECT_FIELDS},
+            ts_headline('${TS_CONFIG}', COALESCE(h.summary, ''), websearch_to_tsquery('${TS_CONFIG}', $query),
+                'StartSel=<b>, StopSel=</b>, MaxFragments=2, MaxWords=30, MinWords=10') AS highlight,
+            f.passage, f.text_rank, f.vector_rank, f.similarity, f.relevance,
+            COUNT(*) OVER() AS total
+        FROM fused f
+        JOIN analysis_history h ON h.id = f.id
+        ORDER BY f.relevance DESC, h."createdAt" DESC
+        LIMIT $limit OFFSET $offset
+    `;
+
+    if (IS_DEBUG) {
+        console.log(`🔍 [History Search] user ${userId}, query "${q}", vector: ${!!queryEmbedding}`);
+    }
+
+    const rows = await sequelize.query(sql, { bind, type: QueryTypes.SELECT }) as any[];
+    return {
+        items: rows.map(toItem),
+        total: Number(rows[0]?.total ?? 0),
+        mode: queryEmbedding ? 'hybrid' : 'text',
+    };
+}
+
+function toItem(row: any): HistorySearchItem {
+    const num = (value: any) => value == null ? null : Number(value);
+    return {
+        id: row.id,
+        url: row.url,
+        sourceType: row.sourceType,
+        score: row.score,
+        verdict: row.verdict,
+        summary: row.summary,
+        interests: row.interests,
+        createdAt: row.createdAt,
+        source: row.source,
+        highlight: row.highlight ?? null,
+        passage: row.passage ?? null,
+        textRank: num(row.text_rank),
+        vectorRank: num(row.vector_rank),
+        similarity: row.similarity == null ? null : Math.round(Number(row.similarity) * 10000) / 10000,
+        relevance: Number(row.relevance ?? 0),
+    };
+}
@@ -0,0 +1,184 @@
+/**
+ * Беседа с личной библиотекой: вопросы по всему, что пользователь анализировал.
+ * Источники — гибридный поиск по истории (history-search.service: полнотекстовый + векторный с лучшими фрагментами),
+ * плюс память Hindsight (reflect) и факты графа Graphiti, если они подключены.
+ * Ответ ссылается на записи истории как [#id]; у каждого пользователя один тред (library_chat_messages).
+ */
+
+import AnalysisHistory from '../models/AnalysisHistory';
+import LibraryChatMessage, { LibraryChatCitation } from '../models/LibraryChatMessage';
+import { searchHistory, HistorySearchItem } from './history-search.service';
+import { reflectForUser } from './hindsight.service';
+import { searchForUser } from './graphiti.service';
+import { generateCompletion, getModelForTask } from './llm-provider';
+import { traceGeneration } from '../observability/langfuse-helpers';
+
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+const IS_DEBUG = LOG_LEVEL === 'debug';
+
+const LIBRARY_CHAT_SOURCES = Number(process.env.LIBRARY_CHAT_SOURCES) || 8;
+const LIBRARY_CHAT_CONTEXT_MESSAGES = 10; // последние сообщения треда в промпте
+const SHORT_QUESTION_LENGTH = 80; // короткий вопрос — скорее уточнение, ищем вместе с предыдущим
+const MAX_SOURCE_TEXT_LENGTH = 700;
+const MAX_THREAD_MESSAGE_LENGTH = 1500;
+
+export interface LibraryChatSource {
+    id: number;
+    url: string;
+    sourceType: string | null;
+    verdict: string | null;
+    score: number | null;
+    createdAt: Date;
+}
+
+export interface LibraryChatAnswer {
+    answer: string;
+    citations: LibraryChatCitation[]; // источники, на которые модель действительно сослалась
+    sources: LibraryChatSource[]; // все найденные кандидаты
+}
+
+const truncate = (text: string | null | undefined, max: number): string => {
+    const value = (text || '').trim();
+    return value.length > max ? value.substring(0, max) + '...' : value;
+};
+
+/**
+ * Последние сообщения треда (старые первыми).
+ */
+export async function getLibraryThread(userId: number, limit = 50): Promise<LibraryChatMessage[]> {
+    const rows = await LibraryChatMessage.findAll({
+        where: { userId },
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit,
+    });
+    return rows.reverse();
+}
+
+export async function clearLibraryThread(userId: number): Promise<number> {
+    return LibraryChatMessage.destroy({ where: { userId } });
+}
+
+/**
+ * Записи истории по вопросу. Уточняющий вопрос ("а какие были разногласия?") сам по себе ничего не найдёт —
+ * ищем вместе с предыдущим вопросом пользователя.
+ */
+async function findSources(userId: number, question: string, thread: LibraryChatMessage[]): Promise<HistorySearchItem[]> {
+    const previousQuestion = [...thread].reverse().find((m) => m.role === 'user')?.content;
+    const query = previousQuestion && question.length < SHORT_QUESTION_LENGTH
+        ? `${previousQuestion} ${question}`
+        : question;
+    try {
+        const { items } = await searchHistory(userId, query, {}, { limit: LIBRARY_CHAT_SOURCES });
+        return items;
+    } catch (error: any) {
+        console.warn(`⚠️ [Library Chat] History search failed: ${error.message}`);
+        return [];
+    }
+}
+
+function buildSourcesBlock(items: HistorySearchItem[], reasoningById: Map<number, string | null>): string {
+    if (items.length === 0) return 'В библиотеке не найдено подходящих материалов.';
+    return items.map((item) => {
+        const date = new Date(item.createdAt).toISOString().substring(0, 10);
+        const lines = [
+            `[#${item.id}] ${item.url} (${item.sourceType || 'article'}, ${date}, оценка ${item.score ?? '—'}, ${item.verdict || '—'})`,
+            `Саммари: ${truncate(item.summary, MAX_SOURCE_TEXT_LENGTH)}`,
+        ];
+        const reasoning = reasoningById.get(item.id);
+        if (reasoning) lines.push(`Обоснование оценки: ${truncate(reasoning, MAX_SOURCE_TEXT_LENGTH)}`);
+        if (item.passage) lines.push(`Фрагмент: «${truncate(item.passage, MAX_SOURCE_TEXT_LENGTH)}»`);
+        return lines.join('\n');
+    }).join('\n\n');
+}
+
+/**
+ * Ссылки [#id] из ответа — только на найденные источники (выдуманные id отбрасываются).
+ */
+function extractCitations(answer: string, items: HistorySearchItem[]): LibraryChatCitation[] {
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const cited: LibraryChatCitation[] = [];
+    for (const match of answer.matchAll(/\[#(\d+)\]/g)) {
+        const item = byId.get(Number(match[1]));
+        if (item && !cited.some((c) => c.id === item.id)) {
+            cited.push({ id: item.id, url: item.url });
+        }
+    }
+    return cited;
+}
+
+/**
+ * Отвечает на вопрос по библиотеке пользователя и сохраняет вопрос и ответ в тред.
+ */
+export async function askLibrary(userId: number, question: string): Promise<LibraryChatAnswer> {
+    const thread = await getLibraryThread(userId, LIBRARY_CHAT_CONTEXT_MESSAGES);
+
+    const [items, memory, facts] = await Promise.all([
+        findSources(userId, question, thread),
+        reflectForUser(userId, question),
+        searchForUser(userId, question, { maxFacts: 10 }),
+    ]);
+
+    const reasoningRows = items.length > 0
+        ? await AnalysisHistory.findAll({ where: { id: items.map((i) => i.id), userId }, attributes: ['id', 'reasoning'] })
+        : [];
+    const reasoningById = new Map(reasoningRows.map((row) => [row.id, row.reasoning]));
+
+    const systemInstruction = `Ты — помощник, который отвечает на вопросы пользователя по его личной библиотеке: статьям, видео и постам, которые он анализировал.
+
+ПРАВИЛА:
+- Отвечай на основе ИСТОЧНИКОВ из библиотеки. Память и факты — дополнительный контекст, не источники.
+- После каждого утверждения ставь ссылку на источник в формате [#id] (id из списка источников), например: "Авторы расходятся в оценке HNSW [#12][#40]".
+- Не выдумывай id и не ссылайся на материалы, которых нет в списке.
+- Если вопрос про разногласия или сравнение — явно сопоставь позиции разных источников.
+- Если в библиотеке нет ответа — честно скажи об этом.
+- Учитывай предыдущие сообщения беседы: новый вопрос может быть уточнением.
+- Отвечай на русском языке, без markdown, развёрнуто, но по делу.`;
+
+    const threadBlock = thread.length > 0
+        ? `ПРЕДЫДУЩИЕ СООБЩЕНИЯ:\n${thread.map((m) =>
+            `${m.role === 'user' ? 'Пользователь' : 'Ассистент'}: ${truncate(m.content, MAX_THREAD_MESSAGE_LENGTH)}`
+        ).join('\n')}\n\n---\n`
+        : '';
+    const memoryBlock = [
+        memory ? `ПАМЯТЬ О ЧИТАТЕЛЕ:\n${truncate(memory, 2000)}` : '',
+        facts ? `ФАКТЫ ИЗ ГРАФА ЗНАНИЙ:\n${truncate(facts, 2000)}` : '',
+    ].filter(Boolean).join('\n\n');
+
+    const userPrompt = `${threadBlock}ИСТОЧНИКИ ИЗ БИБЛИОТЕКИ:
+${buildSourcesBlock(items, reasoningById)}
+${memoryBlock ? `\n---\n${memoryBlock}\n` : ''}
+---
+ВОПРОС ПОЛЬЗОВАТЕЛЯ: ${question}
+
+ОТВЕТ:`;
+
+    const aiModel = getModelForTask('qa');
+    if (IS_DEBUG) {
+        console.log(`📚 [Library Chat] user ${userId}: ${items.length} source(s), memory: ${!!memory}, facts: ${!!facts}, thread: ${thread.length}`);
+    }
+
+    const result = await traceGeneration(
+        'library-chat',
+        aiModel,
+        userPrompt.slice(0, 5000),
+        () => generateCompletion(systemInstruction, userPrompt, { modelName: aiModel, task: 'library' })
+    ) as { text: string };
+    const answer = (result?.text ?? '').trim() || 'Не удалось получить ответ.';
+    const citations = extractCitations(answer, items);
+
+    await LibraryChatMessage.create({ userId, role: 'user', content: question });
+    await LibraryChatMessage.create({ userId, role: 'assistant', content: answer, citations });
+
+    return {
+        answer,
+        citations,
+        sources: items.map((item) => ({
+            id: item.id,
+            url: item.url,
+            sourceType: item.sourceType,
+            verdict: item.verdict,
+            score: item.score,
+            createdAt: item.createdAt,
+        })),
+    };
+}
@@ -0,0 +1,234 @@
+/**
+ * Фикстуры LLM и эмбеддингов для офлайн-режима (AI_PROVIDER=mock, EMBEDDING_PROVIDER=mock).
+ *
+ * Ответы хранятся по отпечатку промпта (sha256 от system + user или текста для эмбеддинга):
+ *   <LLM_FIXTURES_DIR>/completions/<fingerprint>.json
+ *   <LLM_FIXTURES_DIR>/embeddings/<fingerprint>.json
+ * Запись: LLM_RECORD_FIXTURES=true с реальным провайдером — каждый успешный ответ сохраняется в фикстуру.
+ * Воспроизведение: записанная фикстура, иначе детерминированный шаблон по типу промпта
+ * (LLM_MOCK_STRICT=true — вместо шаблона ошибка, чтобы тест заметил незаписанный промпт).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { GenerateCompletionResult } from './llm-provider';
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'llm');
+
+export const MOCK_EMBEDDING_MODEL = 'mock-hash-256';
+const MOCK_EMBEDDING_DIMENSION = 256;
+
+export interface CompletionFixture {
+    fingerprint: string;
+    provider: string;
+    model: string;
+    recordedAt: string;
+    promptPreview: string; // начало user-промпта — чтобы фикстуру можно было найти глазами
+    response: GenerateCompletionResult;
+}
+
+export interface EmbeddingFixture {
+    fingerprint: string;
+    model: string;
+    recordedAt: string;
+    textPreview: string;
+    vector: number[];
+}
+
+function getFixturesDir(): string {
+    return process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+export function isRecordingFixtures(): boolean {
+    return process.env.LLM_RECORD_FIXTURES === 'true';
+}
+
+function isStrictMock(): boolean {
+    return process.env.LLM_MOCK_STRICT === 'true';
+}
+
+function sha256(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+export function fingerprintPrompt(systemInstruction: string, userPrompt: string): string {
+    return sha256(`${(systemInstruction || '').trim()}\n\n---\n\n${(userPrompt || '').trim()}`).substring(0, 24);
+}
+
+export function fingerprintText(text: string): string {
+    return sha256((text || '').trim()).substring(0, 24);
+}
+
+function readFixture<T>(kind: 'completions' | 'embeddings', fingerprint: string): T | null {
+    const file = path.join(getFixturesDir(), kind, `${fingerprint}.json`);
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            console.warn(`⚠️ [LLM Fixtures] Could not read ${file}: ${error.message}`);
+        }
+        return null;
+    }
+}
+
+function writeFixture(kind: 'completions' | 'embeddings', fingerprint: string, data: object): void {
+    const dir = path.join(getFixturesDir(), kind);
+    try {
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(path.join(dir, `${fingerprint}.json`), JSON.stringify(data, null, 2) + '\n');
+    } catch (error: any) {
+        console.warn(`⚠️ [LLM Fixtures] Could not write fixture ${fingerprint}: ${error.message}`);
+    }
+}
+
+export function recordCompletionFixture(
+    systemInstruction: string,
+    userPrompt: string,
+    provider: string,
+    model: string,
+    response: CompletionFixture['response']
+): void {
+    const fingerprint = fingerprintPrompt(systemInstruction, userPrompt);
+    const fixture: CompletionFixture = {
+        fingerprint,
+        provider,
+        model,
+        recordedAt: new Date().toISOString(),
+        promptPreview: (userPrompt || '').trim().substring(0, 300),
+        response,
+    };
+    writeFixture('completions', fingerprint, fixture);
+}
+
+export function recordEmbeddingFixture(text: string, model: string, vector: number[]): void {
+    const fingerprint = fingerprintText(text);
+    const fixture: EmbeddingFixture = {
+        fingerprint,
+        model,
+        recordedAt: new Date().toISOString(),
+        textPreview: (text || '').trim().substring(0, 200),
+        vector,
+    };
+    writeFixture('embeddings', fingerprint, fixture);
+}
+
+/**
+ * Ответ mock-провайдера: записанная фикстура или шаблон.
+ */
+export function getMockCompletion(systemInstruction: string, userPrompt: string): GenerateCompletionResult {
+    const fingerprint = fingerprintPrompt(systemInstruction, userPrompt);
+    const fixture = readFixture<CompletionFixture>('completions', fingerprint);
+    if (fixture) return fixture.response;
+    if (isStrictMock()) {
+        throw new Error(`LLM fixture not found for prompt ${fingerprint} (LLM_MOCK_STRICT=true). Record it with LLM_RECORD_FIXTURES=true.`);
+    }
+    return { text: renderCompletionTemplate(systemInstruction, userPrompt, fingerprint), usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 } };
+}
+
+/**
+ * Эмбеддинг mock-провайдера: записанная фикстура или хеш слов (feature hashing) —
+ * тексты с общими словами получают близкие векторы, так что поиск похожих работает и в тестах.
+ */
+export function getMockEmbedding(text: string): number[] {
+    const fixture = readFixture<EmbeddingFixture>('embeddings', fingerprintText(text));
+    if (fixture) return fixture.vector;
+    if (isStrictMock()) {
+        throw new Error(`Embedding fixture not found for text ${fingerprintText(text)} (LLM_MOCK_STRICT=true).`);
+    }
+
+    const vector = new Array(MOCK_EMBEDDING_DIMENSION).fill(0);
+    for (const word of tokenize(text)) {
+        const hash = parseInt(sha256(word).substring(0, 8), 16);
+        vector[hash % MOCK_EMBEDDING_DIMENSION] += (hash & 0x100) ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+}
+
+function tokenize(text: string): string[] {
+    return (text || '').toLowerCase().match(/[\p{L}\p{N}+#]{3,}/gu) || [];
+}
+
+/** Стабильное число 0..max-1 из отпечатка */
+function stableNumber(fingerprint: string, max: number): number {
+    return parseInt(fingerprint.substring(0, 8), 16) % max;
+}
+
+/** Текст между первыми разделителями --- (контент, который передают в промпт) */
+function extractPromptContent(userPrompt: string): string {
+    const match = userPrompt.match(/---\s*\n([\s\S]*?)\n\s*---/);
+    return (match ? match[1] : userPrompt).trim();
+}
+
+/** Самые частые слова текста — темы для extractThemes */
+function topWords(text: string, count: number): string[] {
+    const frequency = new Map<string, number>();
+    for (const word of tokenize(text)) {
+        if (word.length < 5) continue;
+        frequency.set(word, (frequency.get(word) || 0) + 1);
+    }
+    return Array.from(frequency.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, count)
+        .map(([word]) => word);
+}
+
+/**
+ * Детерминированные ответы под форматы, которые ждут ai.service, semantic.service и relevance-level.service.
+ */
+function renderCompletionTemplate(systemInstruction: string, userPrompt: string, fingerprint: string): string {
+    const prompt = `${systemInstruction}\n${userPrompt}`;
+    const content = extractPromptContent(userPrompt);
+    const preview = content.replace(/\s+/g, ' ').substring(0, 160);
+    const levels = ['novice', 'amateur', 'professional'];
+
+    // analyzeRelevanceLevelForMultipleInterests
+    if (prompt.includes('"results"') && prompt.includes('contentLevel')) {
+        const interests = Array.from(userPrompt.matchAll(/^- "(.+?)": уровень пользователя/gm)).map((m) => m[1]);
+        return JSON.stringify({
+            results: interests.map((interest, idx) => ({
+                interest,
+                contentLevel: levels[(stableNumber(fingerprint, 3) + idx) % 3],
+                userLevelMatch: 'good',
+                relevanceScore: 60 + stableNumber(fingerprint, 20),
+                explanation: `Mock: уровень контента для интереса "${interest}" определён шаблоном без обращения к LLM. Фрагмент: ${preview}`,
+            })),
+        });
+    }
+
+    // analyzeRelevanceLevelForInterest
+    if (prompt.includes('contentLevel')) {
+        return JSON.stringify({
+            contentLevel: levels[stableNumber(fingerprint, 3)],
+            userLevelMatch: 'good',
+            relevanceScore: 60 + stableNumber(fingerprint, 20),
+            explanation: `Mock: уровень контента определён шаблоном без обращения к LLM. Фрагмент: ${preview}`,
+        });
+    }
+
+    // analyzeContent
+    if (prompt.includes('"score"') && prompt.includes('"verdict"')) {
+        const score = 30 + stableNumber(fingerprint, 60);
+        return JSON.stringify({
+            score,
+            verdict: score >= 70 ? 'Полезно' : score >= 40 ? 'Нейтрально' : 'Не трать время',
+            summary: `Mock-саммари: ${preview}`,
+            reasoning: `Mock: оценка ${score} получена из отпечатка промпта ${fingerprint.substring(0, 8)}, LLM не вызывалась.`,
+        });
+    }
+
+    // extractThemes
+    if (systemInstruction.includes('{"themes":')) {
+        const themes = topWords(content, 7);
+        return JSON.stringify({ themes: themes.length > 0 ? themes : ['тестовая тема'] });
+    }
+
+    // analyzeCommentSentiment
+    if (prompt.includes('"positive"') && prompt.includes('"negative"')) {
+        return 'neutral';
+    }
+
+    // generateSemanticRecommendation, ответы на вопросы и прочий свободный текст
+    return `Mock-ответ (${fingerprint.substring(0, 8)}): ответ сгенерирован шаблоном без обращения к LLM.`;
+}
@@ -1,18 +1,29 @@
 /**
- * Единый провайдер LLM: Gemini, DeepSeek или OpenRouter.
- * Переключение: AI_PROVIDER=gemini | deepseek | openrouter
+ * Единый провайдер LLM: Gemini, DeepSeek, OpenRouter или свой OpenAI-совместимый сервер.
+ * Переключение: AI_PROVIDER=gemini | deepseek | openrouter | openai-compatible | mock
  * Ключи: GEMINI_API_KEY, DEEPSEEK_API_KEY, OPENROUTER_API_KEY
  * Модель: AI_MODEL (для openrouter по умолчанию openrouter/free — бесплатные модели).
+ * Модель по задачам: AI_MODEL_ANALYSIS, AI_MODEL_THEMES, AI_MODEL_RELEVANCE, AI_MODEL_QA (иначе AI_MODEL).
  *
- * Эмбеддинги остаются на Gemini (embedding.service.ts).
+ * openai-compatible — self-hosted модели (Ollama, vLLM, LM Studio) через /v1/chat/completions:
+ * OPENAI_COMPATIBLE_BASE_URL (по умолчанию Ollama http://localhost:11434/v1), OPENAI_COMPATIBLE_API_KEY (если сервер требует),
+ * OPENAI_COMPATIBLE_JSON_MODE=json_schema | json_object | none — как просить структурированный ответ.
+ *
+ * mock — офлайн-провайдер для тестов и локальной разработки: отвечает записанными фикстурами
+ * или детерминированными шаблонами (llm-fixtures.ts). LLM_RECORD_FIXTURES=true при реальном провайдере
+ * сохраняет ответы в фикстуры, чтобы затем воспроизводить их с AI_PROVIDER=mock.
+ *
+ * Эмбеддинги — отдельный провайдер (embedding-provider.ts: Gemini или локальная модель).
  */
 
 import axios from 'axios';
+import { getMockCompletion, isRecordingFixtures, recordCompletionFixture } from './llm-fixtures';
+import { recordLlmUsage } from './llm-usage.service';
 
-export type LlmProvider = 'gemini' | 'deepseek' | 'openrouter';
+export type LlmProvider = 'gemini' | 'deepseek' | 'openrouter' | 'openai-compatible' | 'mock';
 
 const PROVIDER = (process.env.AI_PROVIDER || 'gemini').toLowerCase().trim() as LlmProvider;
-const VALID_PROVIDERS: LlmProvider[] = ['gemini', 'deepseek', 'openrouter'];
+const VALID_PROVIDERS: LlmProvider[] = ['gemini', 'deepseek', 'openrouter', 'openai-compatible', 'mock'];
 
 export function getProvider(): LlmProvider {
     if (VALID_PROVIDERS.includes(PROVIDER)) return PROVIDER;
@@ -22,6 +33,8 @@ export function getProvider(): LlmProvider {
 const GEMINI_DEFAULT_MODEL = 'gemini-2.5-flash';
 const DEEPSEEK_DEFAULT_MODEL = 'deepseek-chat';
 const OPENROUTER_DEFAULT_MODEL = 'openrouter/free'; // бесплатный роутер моделей
+const OPENAI_COMPATIBLE_DEFAULT_MODEL = 'llama3.1'; // имя модели в Ollama; для vLLM/LM Studio задайте AI_MODEL
+const MOCK_MODEL = 'mock';
 const VALID_GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-1.5-pro', 'gemini-pro'];
 const VALID_DEEPSEEK_MODELS = ['deepseek-chat', 'deepseek-reasoner'];
 
@@ -30,15 +43,21 @@ const VALID_DEEPSEEK_MODELS = ['deepseek-chat', 'deepseek-reasoner'];
  */
 export function getModelForRequest(override?: string): string {
     const provider = getProvider();
+    if (provider === 'mock') return MOCK_MODEL;
     const envModel = (process.env.AI_MODEL || '').trim();
     const defaultModel = provider === 'openrouter' ? OPENROUTER_DEFAULT_MODEL
         : provider === 'deepseek' ? DEEPSEEK_DEFAULT_MODEL
+        : provider === 'openai-compatible' ? OPENAI_COMPATIBLE_DEFAULT_MODEL
         : GEMINI_DEFAULT_MODEL;
     const raw = override || envModel || defaultModel;
 
     if (provider === 'openrouter') {
         return raw || OPENROUTER_DEFAULT_MODEL;
     }
+    if (provider === 'openai-compatible') {
+        // Имена моделей у self-hosted серверов произвольные — не валидируем
+        return raw || OPENAI_COMPATIBLE_DEFAULT_MODEL;
+    }
     if (provider === 'deepseek') {
         if (VALID_DEEPSEEK_MODELS.includes(raw)) return raw;
         if (raw && !raw.includes('gemini')) return raw;
@@ -50,8 +69,37 @@ export function getModelForRequest(override?: string): string {
     return GEMINI_DEFAULT_MODEL;
 }
 
+export type LlmTask = 'analysis' | 'themes' | 'relevance' | 'qa';
+
+/** Задача для учёта расхода (llm-usage.service): задачи с выбором модели + вспомогательные вызовы */
+export type LlmUsageTask = LlmTask | 'recommendation' | 'sentiment' | 'library' | 'other';
+
+const TASK_MODEL_ENV: Record<LlmTask, string> = {
+    analysis: 'AI_MODEL_ANALYSIS',
+    themes: 'AI_MODEL_THEMES',
+    relevance: 'AI_MODEL_RELEVANCE',
+    qa: 'AI_MODEL_QA',
+};
+
+/**
+ * Модель для конкретной задачи: AI_MODEL_<TASK>, иначе общая (AI_MODEL / модель провайдера по умолчанию).
+ * Например, крупная модель для анализа и быстрая для извлечения тем.
+ */
+export function getModelForTask(task: LlmTask): string {
+    const taskModel = (process.env[TASK_MODEL_ENV[task]] || '').trim();
+    return getModelForRequest(taskModel || undefined);
+}
+
 export interface GenerateCompletionOptions {
     modelName?: string;
+    /**
+     * JSON Schema ожидаемого ответа — провайдеру как нативный structured output:
+     * Gemini — responseJsonSchema, OpenRouter / openai-compatible — response_format json_schema, DeepSeek — json_object.
+     * Если провайдер схему не принял, остаются инструкции в промпте (ответ всё равно проверяет llm-structured.ts).
+     */
+    jsonSchema?: { name: string; schema: Record<string, any> };
+    /** Задача — для учёта токенов и стоимости по пользователю (llm-usage.service) */
+    task?: LlmUsageTask;
 }
 
 export interface LlmUsage {
@@ -129,13 +177,54 @@ function extractTextFromGeminiResponse(result: any): string {
     throw new Error('AI response has unexpected structure.');
 }
 
-async function callGemini(modelName: string, systemInstruction: string, userPrompt: string): Promise<GenerateCompletionResult> {
+// Пары провайдер/сервер + схема, отклонённые structured output (400/422): эту схему туда больше не отправляем,
+// остаётся промпт. Ключ включает схему — одна неподдерживаемая схема не отключает structured output для остальных задач
+const structuredOutputUnsupported = new Set<string>();
+
+/**
+ * Вызов с нативным structured output и откатом на обычный запрос, если провайдер его не принял.
+ */
+async function withStructuredOutputFallback<T>(
+    label: string,
+    structured: Record<string, any> | undefined,
+    call: (structured?: Record<string, any>) => Promise<T>
+): Promise<T> {
+    if (!structured) return call(undefined);
+    const cacheKey = `${label} ${JSON.stringify(structured)}`;
+    if (structuredOutputUnsupported.has(cacheKey)) return call(undefined);
+    try {
+        return await call(structured);
+    } catch (error: any) {
+        const status = error?.response?.status ?? error?.status;
+        if (status !== 400 && status !== 422) throw error;
+        console.warn(`⚠️ [LLM] ${label} rejected structured output (${status}), falling back to prompt-only JSON:`,
+            error?.response?.data?.error?.message ?? error.message);
+        const result = await call(undefined);
+        // Без схемы запрос прошёл — значит, 400 был именно из-за неё
+        structuredOutputUnsupported.add(cacheKey);
+        return result;
+    }
+}
+
+async function callGemini(
+    modelName: string,
+    systemInstruction: string,
+    userPrompt: string,
+    jsonSchema?: GenerateCompletionOptions['jsonSchema']
+): Promise<GenerateCompletionResult> {
     const fullPrompt = systemInstruction ? `${systemInstruction}\n\n${userPrompt}` : userPrompt;
     const ai = getGenAI();
-    const response = await ai.models.generateContent({
-        model: modelName,
-        contents: fullPrompt,
-    });
+    // Gemini: JSON mode со схемой (responseJsonSchema) — ответ гарантированно парсится и следует схеме
+    const structured = jsonSchema
+        ? { responseMimeType: 'application/json', responseJsonSchema: jsonSchema.schema }
+        : undefined;
+    const response = await withStructuredOutputFallback('gemini', structured, (config) =>
+        ai.models.generateContent({
+            model: modelName,
+            contents: fullPrompt,
+            ...(config ? { config } : {}),
+        })
+    );
     const text = extractTextFromGeminiResponse(response);
     const usageMetadata =
         (response as any)?.usageMetadata ??
@@ -156,7 +245,39 @@ const DEEPSEEK_API_URL = 'https://api.deepseek.com/v1/chat/completions';
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
 const LLM_TIMEOUT_MS = 120000;
 
-async function callOpenRouter(modelName: string, systemInstruction: string, userPrompt: string): Promise<GenerateCompletionResult> {
+/**
+ * usage из ответа chat/completions (OpenAI-формат; Ollama в нативном формате отдаёт prompt_eval_count/eval_count).
+ */
+function parseChatCompletionUsage(data: any): LlmUsage | undefined {
+    const u = data?.usage;
+    if (u && typeof u === 'object') {
+        const prompt_tokens = Number(u.prompt_tokens ?? u.promptTokens ?? u.input_tokens ?? u.inputTokens ?? 0) || 0;
+        const completion_tokens = Number(u.completion_tokens ?? u.completionTokens ?? u.output_tokens ?? u.outputTokens ?? 0) || 0;
+        return {
+            prompt_tokens,
+            completion_tokens,
+            total_tokens: Number(u.total_tokens ?? u.totalTokens ?? 0) || prompt_tokens + completion_tokens,
+        };
+    }
+    if (data?.prompt_eval_count != null || data?.eval_count != null) {
+        const prompt_tokens = Number(data.prompt_eval_count ?? 0) || 0;
+        const completion_tokens = Number(data.eval_count ?? 0) || 0;
+        return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+    }
+    return undefined;
+}
+
+/** response_format json_schema (OpenAI structured outputs) — OpenRouter, vLLM, LM Studio, Ollama ≥ 0.5 */
+function jsonSchemaResponseFormat(jsonSchema: NonNullable<GenerateCompletionOptions['jsonSchema']>): Record<string, any> {
+    return { type: 'json_schema', json_schema: { name: jsonSchema.name, schema: jsonSchema.schema } };
+}
+
+async function callOpenRouter(
+    modelName: string,
+    systemInstruction: string,
+    userPrompt: string,
+    jsonSchema?: GenerateCompletionOptions['jsonSchema']
+): Promise<GenerateCompletionResult> {
     const apiKey = process.env.OPENROUTER_API_KEY;
     if (!apiKey) {
         throw new Error('OPENROUTER_API_KEY is not set when AI_PROVIDER=openrouter. Get your key at https://openrouter.ai/settings/keys');
@@ -165,39 +286,41 @@ async function callOpenRouter(modelName: string, systemInstruction: string, user
     if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
     messages.push({ role: 'user', content: userPrompt });
 
-    const { data } = await axios.post(
-        OPENROUTER_API_URL,
-        {
-            model: modelName,
-            messages,
-            max_tokens: 8192,
-        },
-        {
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`,
-                'HTTP-Referer': process.env.OPENROUTER_APP_URL || 'https://github.com/ai-content-curator',
+    const { data } = await withStructuredOutputFallback(
+        `openrouter:${modelName}`,
+        jsonSchema ? jsonSchemaResponseFormat(jsonSchema) : undefined,
+        (responseFormat) => axios.post(
+            OPENROUTER_API_URL,
+            {
+                model: modelName,
+                messages,
+                max_tokens: 8192,
+                ...(responseFormat ? { response_format: responseFormat } : {}),
             },
-            timeout: LLM_TIMEOUT_MS,
-        }
+            {
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${apiKey}`,
+                    'HTTP-Referer': process.env.OPENROUTER_APP_URL || 'https://github.com/ai-content-curator',
+                },
+                timeout: LLM_TIMEOUT_MS,
+            }
+        )
     );
 
     const content = data?.choices?.[0]?.message?.content;
     if (content == null) {
         throw new Error('OpenRouter API returned response without choices[0].message.content');
     }
-    const usage =
-        data?.usage && typeof data.usage === 'object'
-            ? {
-                prompt_tokens: Number(data.usage.prompt_tokens ?? data.usage.promptTokens ?? data.usage.input_tokens ?? data.usage.inputTokens ?? 0) || 0,
-                completion_tokens: Number(data.usage.completion_tokens ?? data.usage.completionTokens ?? data.usage.output_tokens ?? data.usage.outputTokens ?? 0) || 0,
-                total_tokens: Number(data.usage.total_tokens ?? data.usage.totalTokens ?? 0) || 0,
-            }
-            : undefined;
-    return { text: typeof content === 'string' ? content : String(content), usage };
+    return { text: typeof content === 'string' ? content : String(content), usage: parseChatCompletionUsage(data) };
 }
 
-async function callDeepSeek(modelName: string, systemInstruction: string, userPrompt: string): Promise<GenerateCompletionResult> {
+async function callDeepSeek(
+    modelName: string,
+    systemInstruction: string,
+    userPrompt: string,
+    jsonSchema?: GenerateCompletionOptions['jsonSchema']
+): Promise<GenerateCompletionResult> {
     const apiKey = process.env.DEEPSEEK_API_KEY;
     if (!apiKey) {
         throw new Error('DEEPSEEK_API_KEY is not set when AI_PROVIDER=deepseek. Get your key at https://platform.deepseek.com');
@@ -206,35 +329,93 @@ async function callDeepSeek(modelName: string, systemInstruction: string, userPr
     if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
     messages.push({ role: 'user', content: userPrompt });
 
-    const { data } = await axios.post(
-        DEEPSEEK_API_URL,
-        {
-            model: modelName,
-            messages,
-            max_tokens: 8192,
-        },
-        {
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`,
+    // DeepSeek поддерживает только JSON mode (json_object) — схема остаётся в промпте, массив так не вернуть
+    const { data } = await withStructuredOutputFallback(
+        'deepseek',
+        jsonSchema?.schema.type === 'object' ? { type: 'json_object' } : undefined,
+        (responseFormat) => axios.post(
+            DEEPSEEK_API_URL,
+            {
+                model: modelName,
+                messages,
+                max_tokens: 8192,
+                ...(responseFormat ? { response_format: responseFormat } : {}),
             },
-            timeout: LLM_TIMEOUT_MS,
-        }
+            {
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${apiKey}`,
+                },
+                timeout: LLM_TIMEOUT_MS,
+            }
+        )
     );
 
     const content = data?.choices?.[0]?.message?.content;
     if (content == null) {
         throw new Error('DeepSeek API returned response without choices[0].message.content');
     }
-    const usage =
-        data?.usage && typeof data.usage === 'object'
-            ? {
-                prompt_tokens: Number(data.usage.prompt_tokens ?? data.usage.promptTokens ?? data.usage.input_tokens ?? data.usage.inputTokens ?? 0) || 0,
-                completion_tokens: Number(data.usage.completion_tokens ?? data.usage.completionTokens ?? data.usage.output_tokens ?? data.usage.outputTokens ?? 0) || 0,
-                total_tokens: Number(data.usage.total_tokens ?? data.usage.totalTokens ?? 0) || 0,
+    return { text: typeof content === 'string' ? content : String(content), usage: parseChatCompletionUsage(data) };
+}
+
+type StructuredOutputMode = 'json_schema' | 'json_object' | 'none';
+
+function getStructuredOutputMode(): StructuredOutputMode {
+    const raw = (process.env.OPENAI_COMPATIBLE_JSON_MODE || 'json_schema').toLowerCase().trim();
+    return raw === 'json_object' || raw === 'none' ? raw : 'json_schema';
+}
+
+/**
+ * response_format для self-hosted сервера: json_schema — grammar-constrained decoding,
+ * json_object — JSON mode (только для схем-объектов: массив в нём не вернуть).
+ */
+function buildOpenAiCompatibleResponseFormat(jsonSchema: GenerateCompletionOptions['jsonSchema']): Record<string, any> | undefined {
+    if (!jsonSchema) return undefined;
+    const mode = getStructuredOutputMode();
+    if (mode === 'json_schema') return jsonSchemaResponseFormat(jsonSchema);
+    if (mode === 'json_object' && jsonSchema.schema.type === 'object') return { type: 'json_object' };
+    return undefined;
+}
+
+async function callOpenAiCompatible(
+    modelName: string,
+    systemInstruction: string,
+    userPrompt: string,
+    jsonSchema?: GenerateCompletionOptions['jsonSchema']
+): Promise<GenerateCompletionResult> {
+    const baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+    const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+    const timeout = Number(process.env.OPENAI_COMPATIBLE_TIMEOUT_MS) || LLM_TIMEOUT_MS;
+    const messages: Array<{ role: string; content: string }> = [];
+    if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+    messages.push({ role: 'user', content: userPrompt });
+
+    const { data } = await withStructuredOutputFallback(
+        baseUrl,
+        buildOpenAiCompatibleResponseFormat(jsonSchema),
+        (responseFormat) => axios.post(
+            `${baseUrl}/chat/completions`,
+            {
+                model: modelName,
+                messages,
+                max_tokens: 8192,
+                ...(responseFormat ? { response_format: responseFormat } : {}),
+            },
+            {
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+                },
+                timeout,
             }
-            : undefined;
-    return { text: typeof content === 'string' ? content : String(content), usage };
+        )
+    );
+
+    const content = data?.choices?.[0]?.message?.content;
+    if (content == null) {
+        throw new Error(`OpenAI-compatible server ${baseUrl} returned response without choices[0].message.content`);
+    }
+    return { text: typeof content === 'string' ? content : String(content), usage: parseChatCompletionUsage(data) };
 }
 
 const MAX_RETRIES = 3;
@@ -265,20 +446,33 @@ export async function generateCompletion(
     const provider = getProvider();
     const modelName = getModelForRequest(options?.modelName);
 
+    // Mock отвечает синхронно из фикстур — очередь и ретраи не нужны
+    if (provider === 'mock') {
+        return getMockCompletion(systemInstruction, userPrompt);
+    }
+
     const doCall = (): Promise<GenerateCompletionResult> => {
         if (provider === 'openrouter') {
-            return callOpenRouter(modelName, systemInstruction, userPrompt);
+            return callOpenRouter(modelName, systemInstruction, userPrompt, options?.jsonSchema);
         }
         if (provider === 'deepseek') {
-            return callDeepSeek(modelName, systemInstruction, userPrompt);
+            return callDeepSeek(modelName, systemInstruction, userPrompt, options?.jsonSchema);
         }
-        return callGemini(modelName, systemInstruction, userPrompt);
+        if (provider === 'openai-compatible') {
+            return callOpenAiCompatible(modelName, systemInstruction, userPrompt, options?.jsonSchema);
+        }
+        return callGemini(modelName, systemInstruction, userPrompt, options?.jsonSchema);
     };
 
     let lastError: any;
     for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
         try {
             const result = await requestQueue.add(doCall);
+            if (isRecordingFixtures()) {
+                recordCompletionFixture(systemInstruction, userPrompt, provider, modelName, result);
+            }
+            // Не ждём записи: учёт не должен задерживать ответ
+            void recordLlmUsage(options?.task ?? 'other', provider, modelName, result.usage);
             return result;
         } catch (error: any) {
             lastError = error;
@@ -0,0 +1,211 @@
+/**
+ * Структурированные ответы LLM: каждая задача объявляет JSON Schema результата (analyzeContent, extractThemes,
+ * уровни релевантности). Схема уходит провайдеру как нативный structured output (см. llm-provider),
+ * ответ парсится и проверяется по ней. Невалидный ответ — repair-запрос с ошибками проверки
+ * (не больше LLM_MAX_REPAIR_ATTEMPTS), после чего ошибка LLM_OUTPUT_INVALID вместо оценки/тем по умолчанию.
+ */
+
+import { traceGeneration } from '../observability/langfuse-helpers';
+import { generateCompletion, LlmUsageTask } from './llm-provider';
+import { parseLlmJson } from '../utils/json-parse-helper';
+
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+const IS_DEBUG = LOG_LEVEL === 'debug';
+
+// Код ошибки (error.message): ответ так и не прошёл проверку схемой
+export const LLM_OUTPUT_INVALID = 'LLM_OUTPUT_INVALID';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPAIR_RESPONSE_LENGTH = 4000; // предыдущий ответ в repair-промпте
+const MAX_REPORTED_ERRORS = 10;
+
+/** Подмножество JSON Schema, которое понимают и провайдеры, и validateJson */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: Array<string | number>;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+}
+
+/**
+ * Схема ответа задачи. T — тип результата после проверки (только для типизации, в рантайме не используется).
+ */
+export interface StructuredOutputSchema<T> {
+    name: string;
+    schema: JsonSchema;
+    readonly __result?: T;
+}
+
+export interface StructuredCompletionOptions {
+    modelName: string;
+    traceName: string;
+    task: LlmUsageTask;
+    timeoutMs?: number; // на одну попытку
+    maxRepairAttempts?: number;
+}
+
+export function getMaxRepairAttempts(): number {
+    const raw = process.env.LLM_MAX_REPAIR_ATTEMPTS;
+    if (raw === undefined || raw.trim() === '') return DEFAULT_MAX_REPAIR_ATTEMPTS;
+    const value = Number(raw);
+    return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+    switch (type) {
+        case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array': return Array.isArray(value);
+        case 'integer': return typeof value === 'number' && Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        default: return typeof value === type;
+    }
+}
+
+/**
+ * Проверяет значение по схеме. Возвращает список ошибок с путями ($.results[0].relevanceScore: ...), пустой — всё валидно.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    if (!matchesType(value, schema.type)) {
+        return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+    }
+
+    const errors: string[] = [];
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        errors.push(`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}, got ${value}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}, got ${value}`);
+    }
+
+    if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items, got ${value.length}`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items, got ${value.length}`);
+        if (schema.items) {
+            value.forEach((item, idx) => errors.push(...validateJson(item, schema.items!, `${path}[${idx}]`)));
+        }
+    }
+
+    if (schema.type === 'object') {
+        const obj = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (obj[key] === undefined || obj[key] === null) errors.push(`${path}.${key}: required field is missing`);
+        }
+        for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+            if (obj[key] !== undefined && obj[key] !== null) {
+                errors.push(...validateJson(obj[key], propertySchema, `${path}.${key}`));
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Разбирает и проверяет ответ. null в value — ответ не годится, причины в errors.
+ */
+function checkResponse<T>(raw: string, schema: StructuredOutputSchema<T>): { value: T | null; errors: string[] } {
+    if (!raw || !raw.trim()) return { value: null, errors: ['response is empty'] };
+    let parsed: unknown;
+    try {
+        parsed = parseLlmJson(raw);
+    } catch (error: any) {
+        return { value: null, errors: [`response is not valid JSON: ${error.message}`] };
+    }
+    const errors = validateJson(parsed, schema.schema);
+    return errors.length === 0 ? { value: parsed as T, errors } : { value: null, errors };
+}
+
+function buildRepairPrompt(userPrompt: string, previousResponse: string, errors: string[], schema: StructuredOutputSchema<unknown>): string {
+    const shownResponse = previousResponse.length > MAX_REPAIR_RESPONSE_LENGTH
+        ? previousResponse.substring(0, MAX_REPAIR_RESPONSE_LENGTH) + '\n[... ответ обрезан ...]'
+        : previousResponse;
+    return `${userPrompt}
+
+---
+ИСПРАВЛЕНИЕ ОТВЕТА: твой предыдущий ответ не прошёл проверку по JSON Schema "${schema.name}".
+
+Предыдущий ответ:
+${shownResponse || '(пустой ответ)'}
+
+Ошибки проверки:
+${errors.slice(0, MAX_REPORTED_ERRORS).map((e) => `- ${e}`).join('\n')}
+
+JSON Schema ответа:
+${JSON.stringify(schema.schema)}
+
+Ответь заново на исходное задание. Верни ТОЛЬКО валидный JSON по этой схеме, без markdown и пояснений.`;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined): Promise<T> {
+    if (!timeoutMs) return promise;
+    let timer: NodeJS.Timeout;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Request timed out.')), timeoutMs);
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Запрос к LLM с результатом по схеме: нативный structured output провайдера + проверка + repair-запросы.
+ * Ошибки провайдера (сеть, лимиты, ключ) пробрасываются как есть; невалидный ответ после всех попыток — LLM_OUTPUT_INVALID.
+ */
+export async function generateStructuredCompletion<T>(
+    systemInstruction: string,
+    userPrompt: string,
+    schema: StructuredOutputSchema<T>,
+    options: StructuredCompletionOptions
+): Promise<T> {
+    const maxRepairAttempts = options.maxRepairAttempts ?? getMaxRepairAttempts();
+    let prompt = userPrompt;
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+        const traceName = attempt === 0 ? options.traceName : `${options.traceName}-repair`;
+        const result = await withTimeout(
+            traceGeneration(
+                traceName,
+                options.modelName,
+                (systemInstruction + '\n\n' + prompt).slice(0, 5000),
+                () => generateCompletion(systemInstruction, prompt, { modelName: options.modelName, jsonSchema: schema, task: options.task })
+            ),
+            options.timeoutMs
+        );
+        const raw = result?.text ?? '';
+        const { value, errors } = checkResponse(raw, schema);
+
+        if (value !== null) {
+            if (attempt > 0) {
+                console.log(`✅ [LLM Structured] ${options.traceName}: output repaired on attempt ${attempt + 1}`);
+            }
+            return value;
+        }
+
+        console.warn(`⚠️ [LLM Structured] ${options.traceName}: invalid ${schema.name} output (attempt ${attempt + 1}/${maxRepairAttempts + 1}): ${errors.slice(0, 3).join('; ')}`);
+        if (IS_DEBUG) {
+            console.log(`   Raw response (first 500 chars): ${raw.substring(0, 500)}`);
+        }
+        prompt = buildRepairPrompt(userPrompt, raw, errors, schema);
+    }
+
+    console.error(`❌ [LLM Structured] ${options.traceName}: no valid ${schema.name} output after ${maxRepairAttempts + 1} attempt(s)`);
+    throw new Error(LLM_OUTPUT_INVALID);
+}
@@ -0,0 +1,305 @@
+/**
+ * Учёт расхода LLM: каждый вызов generateCompletion пишется в llm_usage_events и суммируется в llm_usage_daily
+ * (по субъекту, задаче, провайдеру и модели). Субъект — кто платит за вызов:
+ *   user:<id> — авторизованный пользователь (или привязанный профиль бота),
+ *   ip:<адрес> — гость веб-приложения, tg:<telegram id> — гость бота, system — фоновые задачи без пользователя.
+ * Субъект берётся из AsyncLocalStorage (runWithLlmUsageSubject) — сервисы анализа не передают userId явно.
+ *
+ * Квоты: пользователю — токены в календарный месяц (users.llm_monthly_token_quota или LLM_USER_MONTHLY_TOKEN_QUOTA),
+ * гостю — токены в сутки (LLM_GUEST_DAILY_TOKEN_QUOTA). Квота проверяется перед запуском анализа,
+ * поэтому последняя задача может немного превысить лимит.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { QueryTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from '../models/User';
+import LlmUsageEvent from '../models/LlmUsageEvent';
+import type { LlmUsage, LlmUsageTask } from './llm-provider';
+
+// Код ошибки (error.message) — контроллеры и бот переводят его в понятное сообщение с состоянием квоты
+export const USAGE_QUOTA_EXCEEDED = 'USAGE_QUOTA_EXCEEDED';
+
+export const SYSTEM_USAGE_SUBJECT = 'system';
+
+const DEFAULT_GUEST_DAILY_TOKEN_QUOTA = 200000;
+
+export interface LlmUsageSubject {
+    userId: number | null;
+    subject: string;
+}
+
+export interface UsageQuotaStatus {
+    period: 'month' | 'day';
+    limit: number | null; // null — без лимита
+    used: number;
+    remaining: number | null;
+    resetsAt: string;
+    exceeded: boolean;
+}
+
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+}
+
+/** Цена за 1M токенов, USD */
+interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// Публичные цены провайдеров; переопределяются LLM_PRICES_JSON. Self-hosted и mock — бесплатно.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'deepseek-chat': { input: 0.27, output: 1.1 },
+    'deepseek-reasoner': { input: 0.55, output: 2.19 },
+};
+
+const usageContext = new AsyncLocalStorage<() => LlmUsageSubject>();
+
+export const userUsageSubject = (userId: number): LlmUsageSubject => ({ userId, subject: `user:${userId}` });
+export const guestUsageSubject = (key: string): LlmUsageSubject => ({ userId: null, subject: key });
+
+/**
+ * Выполняет fn так, что все вызовы LLM внутри (включая асинхронные продолжения) записываются на субъекта.
+ * Можно передать функцию — субъект вычислится в момент вызова LLM (например, после authMiddleware).
+ */
+export function runWithLlmUsageSubject<T>(subject: LlmUsageSubject | (() => LlmUsageSubject), fn: () => T): T {
+    const resolve = typeof subject === 'function' ? subject : () => subject;
+    return usageContext.run(resolve, fn);
+}
+
+export function getLlmUsageSubject(): LlmUsageSubject {
+    const resolve = usageContext.getStore();
+    return resolve ? resolve() : { userId: null, subject: SYSTEM_USAGE_SUBJECT };
+}
+
+let modelPricesCache: Record<string, ModelPrice> | null = null;
+
+function getModelPrices(): Record<string, ModelPrice> {
+    if (modelPricesCache) return modelPricesCache;
+    let overrides: Record<string, ModelPrice> = {};
+    if (process.env.LLM_PRICES_JSON) {
+        try {
+            overrides = JSON.parse(process.env.LLM_PRICES_JSON);
+        } catch (error: any) {
+            console.warn(`⚠️ [LLM Usage] Invalid LLM_PRICES_JSON, using default prices: ${error.message}`);
+        }
+    }
+    modelPricesCache = { ...DEFAULT_MODEL_PRICES, ...overrides };
+    return modelPricesCache;
+}
+
+/**
+ * Стоимость вызова. Модель ищется точно, затем без префикса провайдера (openrouter/google/gemini-2.5-flash → gemini-2.5-flash)
+ * и по самому длинному совпадающему префиксу (gemini-2.5-flash-preview-05-20 → gemini-2.5-flash).
+ */
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+    const prices = getModelPrices();
+    const name = model.toLowerCase();
+    const shortName = name.split('/').pop() || name;
+    const key = [name, shortName].find((candidate) => prices[candidate])
+        ?? Object.keys(prices)
+            .filter((candidate) => shortName.startsWith(candidate))
+            .sort((a, b) => b.length - a.length)[0];
+    if (!key) return 0;
+    const price = prices[key];
+    return (promptTokens * price.input + completionTokens * price.output) / 1000000;
+}
+
+/**
+ * Записывает вызов LLM на текущего субъекта. Ошибки записи не должны ронять анализ — только лог.
+ */
+export async function recordLlmUsage(task: LlmUsageTask, provider: string, model: string, usage: LlmUsage | undefined): Promise<void> {
+    const { userId, subject } = getLlmUsageSubject();
+    const promptTokens = Math.max(0, Math.round(usage?.prompt_tokens || 0));
+    const completionTokens = Math.max(0, Math.round(usage?.completion_tokens || 0));
+    const totalTokens = Math.max(Math.round(usage?.total_tokens || 0), promptTokens + completionTokens);
+    const costUsd = estimateCostUsd(model, promptTokens, completionTokens);
+
+    try {
+        await LlmUsageEvent.create({ userId, subject, task, provider, model, promptTokens, completionTokens, totalTokens, costUsd });
+        await sequelize.query(`
+            INSERT INTO llm_usage_daily (day, user_id, subject, task, provider, model, calls, prompt_tokens, completion_tokens, total_tokens, cost_usd)
+            VALUES ((NOW() AT TIME ZONE 'UTC')::date, $userId, $subject, $task, $provider, $model, 1, $promptTokens, $completionTokens, $totalTokens, $costUsd)
+            ON CONFLICT (day, subject, task, provider, model) DO UPDATE SET
+                calls = llm_usage_daily.calls + 1,
+                prompt_tokens = llm_usage_daily.prompt_tokens + EXCLUDED.prompt_tokens,
+                completion_tokens = llm_usage_daily.completion_tokens + EXCLUDED.completion_tokens,
+                total_tokens = llm_usage_daily.total_tokens + EXCLUDED.total_tokens,
+                cost_usd = llm_usage_daily.cost_usd + EXCLUDED.cost_usd
+        `, {
+            bind: { userId, subject, task, provider, model, promptTokens, completionTokens, totalTokens, costUsd },
+        });
+    } catch (error: any) {
+        console.warn(`⚠️ [LLM Usage] Could not record usage for ${subject} (${task}, ${model}): ${error.message}`);
+    }
+}
+
+const toDateString = (date: Date): string => date.toISOString().substring(0, 10);
+
+function monthBounds(now = new Date()): { start: string; resetsAt: Date } {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    return { start: toDateString(start), resetsAt };
+}
+
+function dayBounds(now = new Date()): { start: string; resetsAt: Date } {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start: toDateString(start), resetsAt: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+function parseQuota(raw: string | undefined, fallback: number | null): number | null {
+    if (raw === undefined || raw.trim() === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) return fallback;
+    return value === 0 ? null : Math.round(value);
+}
+
+async function getUserMonthlyQuota(userId: number): Promise<number | null> {
+    const user = await User.findByPk(userId, { attributes: ['id', 'llm_monthly_token_quota'] });
+    const personal = user?.llm_monthly_token_quota;
+    if (personal !== null && personal !== undefined) return personal === 0 ? null : personal;
+    return parseQuota(process.env.LLM_USER_MONTHLY_TOKEN_QUOTA, null);
+}
+
+async function sumTokensSince(subject: string, since: string): Promise<number> {
+    const [row] = await sequelize.query(
+        `SELECT COALESCE(SUM(total_tokens), 0) AS tokens FROM llm_usage_daily WHERE subject = $subject AND day >= $since`,
+        { bind: { subject, since }, type: QueryTypes.SELECT }
+    ) as any[];
+    return Number(row?.tokens || 0);
+}
+
+/**
+ * Состояние квоты субъекта: месячная для пользователей, суточная для гостей.
+ */
+export async function getUsageQuotaStatus(subject: LlmUsageSubject): Promise<UsageQuotaStatus> {
+    const isUser = subject.userId !== null;
+    const { start, resetsAt } = isUser ? monthBounds() : dayBounds();
+    const limit = isUser
+        ? await getUserMonthlyQuota(subject.userId!)
+        : parseQuota(process.env.LLM_GUEST_DAILY_TOKEN_QUOTA, DEFAULT_GUEST_DAILY_TOKEN_QUOTA);
+    const used = await sumTokensSince(subject.subject, start);
+    return {
+        period: isUser ? 'month' : 'day',
+        limit,
+        used,
+        remaining: limit === null ? null : Math.max(0, limit - used),
+        resetsAt: resetsAt.toISOString(),
+        exceeded: limit !== null && used >= limit,
+    };
+}
+
+/**
+ * Бросает USAGE_QUOTA_EXCEEDED, если квота исчерпана. Возвращает состояние квоты.
+ */
+export async function assertWithinUsageQuota(subject: LlmUsageSubject): Promise<UsageQuotaStatus> {
+    const status = await getUsageQuotaStatus(subject);
+    if (status.exceeded) {
+        console.warn(`⚠️ [LLM Usage] Quota exceeded for ${subject.subject}: ${status.used}/${status.limit} tokens per ${status.period}`);
+        throw new Error(USAGE_QUOTA_EXCEEDED);
+    }
+    return status;
+}
+
+/**
+ * Текст для пользователя: какой лимит исчерпан и когда он обновится.
+ */
+export function formatQuotaExceededMessage(status: UsageQuotaStatus): string {
+    const resetsAt = new Date(status.resetsAt).toLocaleString('ru-RU', { timeZone: 'UTC', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' });
+    return status.period === 'month'
+        ? `Месячный лимит AI-анализа исчерпан (${status.used.toLocaleString('ru-RU')} из ${status.limit?.toLocaleString('ru-RU')} токенов). Лимит обновится ${resetsAt} UTC.`
+        : `Дневной лимит гостевого анализа исчерпан. Зарегистрируйтесь, чтобы продолжить, или попробуйте после ${resetsAt} UTC.`;
+}
+
+function toTotals(row: any): UsageTotals {
+    return {
+        calls: Number(row?.calls || 0),
+        promptTokens: Number(row?.prompt_tokens || 0),
+        completionTokens: Number(row?.completion_tokens || 0),
+        totalTokens: Number(row?.total_tokens || 0),
+        costUsd: Math.round(Number(row?.cost_usd || 0) * 1000000) / 1000000,
+    };
+}
+
+const TOTALS_SELECT = `COALESCE(SUM(calls), 0) AS calls, COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+    COALESCE(SUM(completion_tokens), 0) AS completion_tokens, COALESCE(SUM(total_tokens), 0) AS total_tokens,
+    COALESCE(SUM(cost_usd), 0) AS cost_usd`;
+
+/**
+ * Агрегаты за период: итог, по задачам, по моделям и по дням. where — условие по llm_usage_daily.
+ */
+async function aggregateUsage(where: string, bind: Record<string, any>) {
+    const query = (sql: string) => sequelize.query(sql, { bind, type: QueryTypes.SELECT }) as Promise<any[]>;
+    const [totals, byTask, byModel, daily] = await Promise.all([
+        query(`SELECT ${TOTALS_SELECT} FROM llm_usage_daily WHERE ${where}`),
+        query(`SELECT task, ${TOTALS_SELECT} FROM llm_usage_daily WHERE ${where} GROUP BY task ORDER BY SUM(total_tokens) DESC`),
+        query(`SELECT provider, model, ${TOTALS_SELECT} FROM llm_usage_daily WHERE ${where} GROUP BY provider, model ORDER BY SUM(total_tokens) DESC`),
+        query(`SELECT day, ${TOTALS_SELECT} FROM llm_usage_daily WHERE ${where} GROUP BY day ORDER BY day`),
+    ]);
+    return {
+        totals: toTotals(totals[0]),
+        byTask: byTask.map((row) => ({ task: row.task, ...toTotals(row) })),
+        byModel: byModel.map((row) => ({ provider: row.provider, model: row.model, ...toTotals(row) })),
+        daily: daily.map((row) => ({ day: typeof row.day === 'string' ? row.day : toDateString(new Date(row.day)), ...toTotals(row) })),
+    };
+}
+
+function periodStart(days: number): string {
+    return toDateString(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+}
+
+/**
+ * Расход пользователя за последние days дней и состояние месячной квоты (GET /api/usage).
+ */
+export async function getUserUsage(userId: number, days = 30) {
+    const since = periodStart(days);
+    const [quota, usage] = await Promise.all([
+        getUsageQuotaStatus(userUsageSubject(userId)),
+        aggregateUsage('subject = $subject AND day >= $since', { subject: `user:${userId}`, since }),
+    ]);
+    return { since, days, quota, ...usage };
+}
+
+/**
+ * Общий расход за последние days дней: итоги, топ пользователей и гостевой трафик (GET /api/usage/admin).
+ */
+export async function getGlobalUsage(days = 30, topLimit = 20) {
+    const since = periodStart(days);
+    const [usage, topUsers, bySubjectType] = await Promise.all([
+        aggregateUsage('day >= $since', { since }),
+        sequelize.query(`
+            SELECT d.user_id, u.email, ${TOTALS_SELECT}
+            FROM llm_usage_daily d
+            LEFT JOIN users u ON u.id = d.user_id
+            WHERE d.day >= $since AND d.user_id IS NOT NULL
+            GROUP BY d.user_id, u.email
+            ORDER BY SUM(d.total_tokens) DESC
+            LIMIT $topLimit
+        `, { bind: { since, topLimit }, type: QueryTypes.SELECT }) as Promise<any[]>,
+        sequelize.query(`
+            SELECT split_part(subject, ':', 1) AS subject_type, ${TOTALS_SELECT}
+            FROM llm_usage_daily
+            WHERE day >= $since
+            GROUP BY subject_type
+            ORDER BY subject_type
+        `, { bind: { since }, type: QueryTypes.SELECT }) as Promise<any[]>,
+    ]);
+    return {
+        since,
+        days,
+        ...usage,
+        bySubjectType: bySubjectType.map((row) => ({ subjectType: row.subject_type, ...toTotals(row) })),
+        topUsers: topUsers.map((row) => ({ userId: row.user_id, email: row.email, ...toTotals(row) })),
+    };
+}
@@ -0,0 +1,139 @@
+/**
+ * Ограничение частоты запросов: скользящее окно (журнал времён обращений по ключу).
+ * При подключённом Redis (analysis-job-store) окно общее для всех инстансов — sorted set на ключ,
+ * без Redis — in-memory Map (локальная разработка, один инстанс).
+ */
+
+import { getConnectedRedis } from './analysis-job-store.service';
+
+// Код ошибки / ответа 429
+export const RATE_LIMITED = 'RATE_LIMITED';
+
+const KEY_PREFIX = 'ratelimit:';
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface RateLimitPolicy {
+    limit: number; // обращений за окно
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    retryAfterMs: number; // через сколько освободится место в окне (0 — уже свободно)
+}
+
+// Атомарно: чистим окно, считаем, при наличии места добавляем обращение.
+// Возвращает {добавлено (1/0), число обращений в окне, время самого старого обращения}
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local added = 0
+if ARGV[5] == '1' and count < limit then
+    redis.call('ZADD', key, now, ARGV[4])
+    redis.call('PEXPIRE', key, window)
+    count = count + 1
+    added = 1
+end
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {added, count, oldest[2] or '0'}
+`;
+
+const memoryWindows = new Map<string, { hits: number[]; windowMs: number }>();
+let sweepTimer: NodeJS.Timeout | null = null;
+
+function ensureMemorySweep(): void {
+    if (sweepTimer) return;
+    // Удаляем ключи, у которых не осталось обращений в окне (иначе Map растёт с каждым новым IP)
+    sweepTimer = setInterval(() => {
+        const now = Date.now();
+        for (const [key, entry] of memoryWindows) {
+            if (entry.hits.length === 0 || entry.hits[entry.hits.length - 1] <= now - entry.windowMs) memoryWindows.delete(key);
+        }
+    }, MEMORY_SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+}
+
+function buildResult(policy: RateLimitPolicy, count: number, oldest: number, allowed: boolean, now: number): RateLimitResult {
+    const full = count >= policy.limit;
+    return {
+        allowed,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - count),
+        retryAfterMs: full && oldest ? Math.max(0, oldest + policy.windowMs - now) : 0,
+    };
+}
+
+function hitMemory(key: string, policy: RateLimitPolicy, record: boolean, now: number): RateLimitResult {
+    const hits = (memoryWindows.get(key)?.hits || []).filter((t) => t > now - policy.windowMs);
+    const allowed = hits.length < policy.limit;
+    if (record && allowed) hits.push(now);
+    if (hits.length > 0) memoryWindows.set(key, { hits, windowMs: policy.windowMs });
+    else memoryWindows.delete(key);
+    ensureMemorySweep();
+    return buildResult(policy, hits.length, hits[0] || 0, allowed, now);
+}
+
+async function hitWindow(key: string, policy: RateLimitPolicy, record: boolean): Promise<RateLimitResult> {
+    const now = Date.now();
+    const r = getConnectedRedis();
+    if (r) {
+        try {
+            const member = `${now}-${Math.random().toString(36).slice(2, 10)}`;
+            const [added, count, oldest] = await r.eval(
+                SLIDING_WINDOW_SCRIPT, 1, KEY_PREFIX + key,
+                now, policy.windowMs, policy.limit, member, record ? '1' : '0'
+            ) as [number, number, string];
+            const allowed = record ? added === 1 : count < policy.limit;
+            return buildResult(policy, count, Number(oldest), allowed, now);
+        } catch (error: any) {
+            console.warn(`⚠️ [Rate Limit] Redis unavailable, using memory: ${error.message}`);
+        }
+    }
+    return hitMemory(key, policy, record, now);
+}
+
+/**
+ * Учитывает обращение по ключу. allowed=false — лимит окна исчерпан, обращение не засчитано.
+ */
+export async function consumeRateLimit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    return hitWindow(key, policy, true);
+}
+
+/**
+ * Состояние окна без учёта обращения (например, проверка блокировки входа до сверки пароля).
+ */
+export async function peekRateLimit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    return hitWindow(key, policy, false);
+}
+
+export async function resetRateLimit(key: string): Promise<void> {
+    memoryWindows.delete(key);
+    const r = getConnectedRedis();
+    if (r) {
+        await r.del(KEY_PREFIX + key).catch(() => {});
+    }
+}
+
+export function isRateLimitEnabled(): boolean {
+    return process.env.RATE_LIMIT_ENABLED !== 'false';
+}
+
+/**
+ * Политика из переменной окружения вида "10/600" (обращений / секунд окна); без неё или при ошибке — значение по умолчанию.
+ */
+export function getRateLimitPolicy(envName: string, defaults: RateLimitPolicy): RateLimitPolicy {
+    const raw = process.env[envName];
+    if (!raw) return defaults;
+    const match = raw.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (!match || Number(match[1]) <= 0 || Number(match[2]) <= 0) {
+        console.warn(`⚠️ [Rate Limit] Invalid ${envName}="${raw}" (expected "<requests>/<seconds>"), using ${defaults.limit}/${defaults.windowMs / 1000}`);
+        return defaults;
+    }
+    return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
@@ -0,0 +1,414 @@
+/**
+ * Импорт списков чтения (Pocket, Instapaper, OPML, закладки браузера, список ссылок).
+ * Ссылки, уже бывшие в истории, отбрасываются; остальные сохраняются в reading_list_import_items
+ * и анализируются воркером по одной с интервалом READING_LIST_IMPORT_INTERVAL_SEC — большой список
+ * может обрабатываться часами и переживает перезапуск сервера. При исчерпании квоты LLM импорт ждёт её обновления.
+ * Теги и папки из файла сразу добавляются в облако смыслов (UserSemanticTag).
+ */
+
+import { Op } from 'sequelize';
+import ReadingListImport from '../models/ReadingListImport';
+import ReadingListImportItem, { ReadingListImportItemStatus } from '../models/ReadingListImportItem';
+import AnalysisHistory from '../models/AnalysisHistory';
+import UserInterest from '../models/UserInterest';
+import UserService from './user.service';
+import { parseReadingList, urlDedupKey, ReadingListFormat, ReadingListEntry } from './reading-list-parser';
+import { saveUserSemanticTagsWithWeight, clearUserTagsCache } from './semantic.service';
+import { runWithLlmUsageSubject, userUsageSubject, getUsageQuotaStatus } from './llm-usage.service';
+import { processSingleUrlAnalysis } from '../controllers/analysis.controller';
+
+// Коды ошибок (error.message) — контроллер переводит их в HTTP-статусы
+export const IMPORT_EMPTY = 'IMPORT_EMPTY';
+export const IMPORT_TOO_LARGE = 'IMPORT_TOO_LARGE';
+export const IMPORT_NO_INTERESTS = 'IMPORT_NO_INTERESTS';
+export const IMPORT_LIMIT_REACHED = 'IMPORT_LIMIT_REACHED';
+export const IMPORT_NOT_FOUND = 'IMPORT_NOT_FOUND';
+export const IMPORT_INVALID_STATE = 'IMPORT_INVALID_STATE';
+
+const DEFAULT_MAX_ITEMS = 2000;
+const DEFAULT_ITEM_INTERVAL_SEC = 60;
+const MAX_ACTIVE_IMPORTS_PER_USER = 3;
+const MAX_ITEM_ATTEMPTS = 2;
+const MAX_SEED_TAGS = 50;
+const FREQUENT_TAG_MIN_COUNT = 5; // тег, которым помечено много статей, получает больший начальный вес
+const FREQUENT_TAG_WEIGHT = 2.0;
+const INSERT_CHUNK_SIZE = 500;
+const WORKER_INTERVAL_MS = 15 * 1000;
+const IMPORTS_PER_TICK = 5;
+const STALE_PROCESSING_MS = 15 * 60 * 1000; // элемент «завис» в processing (инстанс упал во время анализа)
+
+export interface ReadingListImportInput {
+    content: string;
+    format?: ReadingListFormat;
+    filename?: string | null;
+    interests?: string | null;
+    mode?: 'read' | 'unread';
+}
+
+export interface ReadingListImportInfo {
+    id: number;
+    format: string;
+    filename: string | null;
+    status: string;
+    interests: string;
+    analysisMode: 'read' | 'unread';
+    totalItems: number;
+    duplicateItems: number;
+    processedItems: number;
+    failedItems: number;
+    remainingItems: number;
+    progress: number; // 0–100
+    seededTags: string[];
+    nextItemAt: Date | null;
+    waitReason: string | null;
+    estimatedFinishAt: Date | null;
+    createdAt: Date;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+}
+
+const positiveNumber = (raw: string | undefined, fallback: number): number => {
+    const value = Number(raw);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const getMaxItems = (): number => Math.floor(positiveNumber(process.env.READING_LIST_IMPORT_MAX_ITEMS, DEFAULT_MAX_ITEMS));
+
+const getItemIntervalMs = (): number =>
+    positiveNumber(process.env.READING_LIST_IMPORT_INTERVAL_SEC, DEFAULT_ITEM_INTERVAL_SEC) * 1000;
+
+function toInfo(batch: ReadingListImport): ReadingListImportInfo {
+    const remainingItems = Math.max(0, batch.totalItems - batch.processedItems);
+    const isActive = batch.status === 'running';
+    const nextAt = batch.nextItemAt && batch.nextItemAt.getTime() > Date.now() ? batch.nextItemAt.getTime() : Date.now();
+    return {
+        id: batch.id,
+        format: batch.format,
+        filename: batch.filename,
+        status: batch.status,
+        interests: batch.interests,
+        analysisMode: batch.analysisMode,
+        totalItems: batch.totalItems,
+        duplicateItems: batch.duplicateItems,
+        processedItems: batch.processedItems,
+        failedItems: batch.failedItems,
+        remainingItems,
+        progress: batch.totalItems > 0 ? Math.round((batch.processedItems / batch.totalItems) * 100) : 100,
+        seededTags: batch.seededTags,
+        nextItemAt: isActive ? batch.nextItemAt : null,
+        waitReason: batch.waitReason,
+        // Нижняя оценка: интервал между элементами, без учёта длительности самого анализа
+        estimatedFinishAt: isActive && remainingItems > 0 ? new Date(nextAt + (remainingItems - 1) * getItemIntervalMs()) : null,
+        createdAt: batch.createdAt,
+        startedAt: batch.startedAt,
+        finishedAt: batch.finishedAt,
+    };
+}
+
+async function findUserImport(userId: number, importId: number): Promise<ReadingListImport> {
+    const batch = await ReadingListImport.findOne({ where: { id: importId, userId } });
+    if (!batch) throw new Error(IMPORT_NOT_FOUND);
+    return batch;
+}
+
+async function getHistoryUrlKeys(userId: number): Promise<Set<string>> {
+    const records = await AnalysisHistory.findAll({ where: { userId }, attributes: ['url'] });
+    return new Set(records.map((record) => urlDedupKey(record.url)));
+}
+
+// Ключи истории для идущих импортов: полная выборка один раз, дальше дочитываются только новые записи
+const importHistoryKeys = new Map<number, { keys: Set<string>; loadedAt: Date }>();
+
+/**
+ * Есть ли ссылка в истории пользователя — её могли проанализировать вручную, пока импорт стоял в очереди.
+ */
+async function isInImportHistory(batch: ReadingListImport, url: string): Promise<boolean> {
+    const loadedAt = new Date();
+    let cached = importHistoryKeys.get(batch.id);
+    if (!cached) {
+        cached = { keys: await getHistoryUrlKeys(batch.userId), loadedAt };
+        importHistoryKeys.set(batch.id, cached);
+    } else {
+        const records = await AnalysisHistory.findAll({
+            // @ts-ignore - createdAt exists as readonly property
+            where: { userId: batch.userId, createdAt: { [Op.gte]: cached.loadedAt } },
+            attributes: ['url'],
+        });
+        for (const record of records) cached.keys.add(urlDedupKey(record.url));
+        cached.loadedAt = loadedAt;
+    }
+    return cached.keys.has(urlDedupKey(url));
+}
+
+async function resolveInterests(userId: number, interests: string | null | undefined): Promise<string> {
+    const explicit = (interests || '').split(',').map((i) => i.trim()).filter(Boolean);
+    if (explicit.length > 0) return explicit.join(', ');
+    const active = await UserInterest.findAll({ where: { userId, isActive: true } });
+    return active.map((ui) => ui.interest).join(', ');
+}
+
+/**
+ * Теги из файла → облако смыслов. Частые теги получают больший начальный вес.
+ */
+async function seedSemanticTags(userId: number, entries: ReadingListEntry[]): Promise<string[]> {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+        for (const tag of entry.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    const top = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SEED_TAGS);
+    if (top.length === 0) return [];
+
+    const frequent = top.filter(([, count]) => count >= FREQUENT_TAG_MIN_COUNT).map(([tag]) => tag);
+    const regular = top.filter(([, count]) => count < FREQUENT_TAG_MIN_COUNT).map(([tag]) => tag);
+    await saveUserSemanticTagsWithWeight(userId, frequent, FREQUENT_TAG_WEIGHT);
+    await saveUserSemanticTagsWithWeight(userId, regular, 1.0);
+    clearUserTagsCache(userId);
+    return top.map(([tag]) => tag);
+}
+
+/**
+ * Разбирает файл, отбрасывает дубликаты истории и ставит ссылки в очередь.
+ */
+export async function createReadingListImport(userId: number, input: ReadingListImportInput): Promise<ReadingListImportInfo> {
+    const { format, entries } = parseReadingList(input.content, input.format);
+    if (entries.length === 0) throw new Error(IMPORT_EMPTY);
+
+    const historyKeys = await getHistoryUrlKeys(userId);
+    const fresh = entries.filter((entry) => !historyKeys.has(urlDedupKey(entry.url)));
+    if (fresh.length > getMaxItems()) throw new Error(IMPORT_TOO_LARGE);
+
+    const activeCount = await ReadingListImport.count({ where: { userId, status: { [Op.in]: ['running', 'paused'] } } });
+    if (activeCount >= MAX_ACTIVE_IMPORTS_PER_USER) throw new Error(IMPORT_LIMIT_REACHED);
+
+    const interests = await resolveInterests(userId, input.interests);
+    if (!interests) throw new Error(IMPORT_NO_INTERESTS);
+
+    // Теги отражают интересы пользователя, даже если сами ссылки уже анализировались
+    let seededTags: string[] = [];
+    try {
+        seededTags = await seedSemanticTags(userId, entries);
+    } catch (error: any) {
+        console.warn(`⚠️ [Reading List Import] Failed to seed tags for user ${userId}: ${error.message}`);
+    }
+
+    const batch = await ReadingListImport.create({
+        userId,
+        format,
+        filename: input.filename ? input.filename.substring(0, 255) : null,
+        status: fresh.length > 0 ? 'running' : 'completed',
+        interests,
+        analysisMode: input.mode ?? 'unread',
+        totalItems: fresh.length,
+        duplicateItems: entries.length - fresh.length,
+        seededTags,
+        nextItemAt: fresh.length > 0 ? new Date() : null,
+        finishedAt: fresh.length > 0 ? null : new Date(),
+    });
+
+    for (let i = 0; i < fresh.length; i += INSERT_CHUNK_SIZE) {
+        await ReadingListImportItem.bulkCreate(fresh.slice(i, i + INSERT_CHUNK_SIZE).map((entry) => ({
+            importId: batch.id,
+            userId,
+            url: entry.url.substring(0, 2048),
+            title: entry.title,
+            tags: entry.tags,
+            addedAt: entry.addedAt,
+        })));
+    }
+
+    console.log(`📥 [Reading List Import] User ${userId}: import ${batch.id} (${format}) — ${fresh.length} queued, ${entries.length - fresh.length} already in history, ${seededTags.length} tags seeded`);
+    return toInfo(batch);
+}
+
+export async function listReadingListImports(userId: number): Promise<ReadingListImportInfo[]> {
+    const imports = await ReadingListImport.findAll({
+        where: { userId },
+        order: [['createdAt', 'DESC']],
+        limit: 50,
+    });
+    return imports.map(toInfo);
+}
+
+export async function getReadingListImport(userId: number, importId: number): Promise<ReadingListImportInfo> {
+    return toInfo(await findUserImport(userId, importId));
+}
+
+export async function listReadingListImportItems(
+    userId: number,
+    importId: number,
+    options: { status?: ReadingListImportItemStatus; limit?: number; offset?: number } = {}
+): Promise<{ items: ReadingListImportItem[]; total: number }> {
+    await findUserImport(userId, importId);
+    const { rows, count } = await ReadingListImportItem.findAndCountAll({
+        where: { importId, ...(options.status ? { status: options.status } : {}) },
+        order: [['id', 'ASC']],
+        limit: Math.min(options.limit ?? 50, 200),
+        offset: options.offset ?? 0,
+    });
+    return { items: rows, total: count };
+}
+
+export async function pauseReadingListImport(userId: number, importId: number): Promise<ReadingListImportInfo> {
+    const batch = await findUserImport(userId, importId);
+    if (batch.status !== 'running') throw new Error(IMPORT_INVALID_STATE);
+    await batch.update({ status: 'paused' });
+    importHistoryKeys.delete(importId);
+    return toInfo(batch);
+}
+
+export async function resumeReadingListImport(userId: number, importId: number): Promise<ReadingListImportInfo> {
+    const batch = await findUserImport(userId, importId);
+    if (batch.status !== 'paused') throw new Error(IMPORT_INVALID_STATE);
+    await batch.update({ status: 'running', nextItemAt: new Date(), waitReason: null });
+    return toInfo(batch);
+}
+
+/**
+ * Отмена: оставшиеся элементы не будут проанализированы, уже готовые остаются в истории.
+ */
+export async function cancelReadingListImport(userId: number, importId: number): Promise<ReadingListImportInfo> {
+    const batch = await findUserImport(userId, importId);
+    if (batch.status !== 'running' && batch.status !== 'paused') throw new Error(IMPORT_INVALID_STATE);
+    await ReadingListImportItem.update({ status: 'cancelled' }, { where: { importId, status: 'pending' } });
+    await batch.update({ status: 'cancelled', nextItemAt: null, waitReason: null, finishedAt: new Date() });
+    importHistoryKeys.delete(importId);
+    console.log(`🛑 [Reading List Import] Import ${importId} cancelled by user ${userId}`);
+    return toInfo(batch);
+}
+
+// ---------- Воркер ----------
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerTickRunning = false;
+
+async function finishItem(
+    batch: ReadingListImport,
+    item: ReadingListImportItem,
+    status: 'done' | 'failed' | 'skipped',
+    updates: { analysisHistoryId?: number | null; error?: string | null } = {}
+): Promise<void> {
+    await item.update({ status, processedAt: new Date(), ...updates });
+    await batch.increment({ processedItems: 1, ...(status === 'failed' ? { failedItems: 1 } : {}) });
+}
+
+/**
+ * Неудачная попытка: элемент возвращается в очередь, пока не исчерпаны попытки.
+ */
+async function failItemAttempt(batch: ReadingListImport, item: ReadingListImportItem, message: string): Promise<void> {
+    if (item.attempts < MAX_ITEM_ATTEMPTS) {
+        await item.update({ status: 'pending', error: message });
+    } else {
+        await finishItem(batch, item, 'failed', { error: message });
+    }
+}
+
+/**
+ * Анализирует следующий элемент импорта. Интервал до следующего уже выставлен при захвате импорта.
+ */
+async function processNextItem(batch: ReadingListImport): Promise<void> {
+    const quota = await getUsageQuotaStatus(userUsageSubject(batch.userId));
+    if (quota.exceeded) {
+        await batch.update({ nextItemAt: new Date(quota.resetsAt), waitReason: 'quota' });
+        console.log(`⏸️ [Reading List Import] Import ${batch.id} waits for LLM quota reset (${quota.resetsAt})`);
+        return;
+    }
+
+    const item = await ReadingListImportItem.findOne({
+        where: { importId: batch.id, status: 'pending' },
+        order: [['attempts', 'ASC'], ['id', 'ASC']],
+    });
+    if (!item) {
+        const inFlight = await ReadingListImportItem.count({ where: { importId: batch.id, status: 'processing' } });
+        if (inFlight === 0) {
+            await batch.update({ status: 'completed', nextItemAt: null, waitReason: null, finishedAt: new Date() });
+            importHistoryKeys.delete(batch.id);
+            console.log(`✅ [Reading List Import] Import ${batch.id} completed: ${batch.processedItems - batch.failedItems} analyzed, ${batch.failedItems} failed`);
+        }
+        return;
+    }
+
+    const [claimed] = await ReadingListImportItem.update(
+        { status: 'processing', attempts: item.attempts + 1 },
+        { where: { id: item.id, status: 'pending' } }
+    );
+    if (claimed === 0) return;
+    await item.reload();
+    if (!batch.startedAt || batch.waitReason) await batch.update({ startedAt: batch.startedAt ?? new Date(), waitReason: null });
+
+    try {
+        if (await isInImportHistory(batch, item.url)) {
+            await finishItem(batch, item, 'skipped', { error: 'Already in history' });
+            return;
+        }
+
+        const feedbackHistory = await UserService.getUserFeedbackHistory(batch.userId);
+        const result: any = await runWithLlmUsageSubject(
+            userUsageSubject(batch.userId),
+            () => processSingleUrlAnalysis(item.url, batch.interests, feedbackHistory, batch.userId, batch.analysisMode)
+        );
+
+        if (result?.isChannel) {
+            await finishItem(batch, item, 'failed', { error: 'Каналы и профили не импортируются — добавьте их в мониторинг каналов' });
+        } else if (!result || result.error) {
+            await failItemAttempt(batch, item, result?.message || 'Analysis failed');
+        } else {
+            await finishItem(batch, item, 'done', { analysisHistoryId: result.analysisHistoryId ?? null, error: null });
+        }
+    } catch (error: any) {
+        // Элемент не должен оставаться в processing до сброса зависших
+        console.error(`❌ [Reading List Import] Import ${batch.id} item ${item.id} failed: ${error.message}`);
+        await failItemAttempt(batch, item, String(error.message || 'Analysis failed').substring(0, 1000));
+    }
+}
+
+async function processDueImports(): Promise<void> {
+    const now = new Date();
+    await ReadingListImportItem.update(
+        { status: 'pending' },
+        { where: { status: 'processing', updatedAt: { [Op.lt]: new Date(now.getTime() - STALE_PROCESSING_MS) } } }
+    );
+
+    const due = await ReadingListImport.findAll({
+        where: { status: 'running', nextItemAt: { [Op.lte]: now } },
+        order: [['nextItemAt', 'ASC']],
+        limit: IMPORTS_PER_TICK,
+    });
+
+    for (const batch of due) {
+        // Захват импорта: другой инстанс мог взять его раньше. Заодно назначаем время следующего элемента
+        const [claimed] = await ReadingListImport.update(
+            { nextItemAt: new Date(Date.now() + getItemIntervalMs()) },
+            { where: { id: batch.id, status: 'running', nextItemAt: batch.nextItemAt } }
+        );
+        if (claimed === 0) continue;
+        await batch.reload();
+        try {
+            await processNextItem(batch);
+        } catch (error: any) {
+            console.error(`❌ [Reading List Import] Import ${batch.id} item failed: ${error.message}`);
+        }
+        // Интервал считается от конца анализа: долгий элемент не должен сокращать паузу перед следующим
+        await ReadingListImport.update(
+            { nextItemAt: new Date(Date.now() + getItemIntervalMs()) },
+            { where: { id: batch.id, status: 'running', waitReason: null } }
+        );
+    }
+}
+
+/**
+ * Запускает обработку очереди импортов (вызывается при старте сервера после подключения к БД).
+ */
+export function startReadingListImportWorker(): void {
+    if (workerTimer) return;
+    workerTimer = setInterval(() => {
+        if (workerTickRunning) return;
+        workerTickRunning = true;
+        processDueImports()
+            .catch((error: any) => console.error(`❌ [Reading List Import] Worker error: ${error.message}`))
+            .finally(() => { workerTickRunning = false; });
+    }, WORKER_INTERVAL_MS);
+    workerTimer.unref();
+    console.log(`📥 [Reading List Import] Worker started (one item per import every ${getItemIntervalMs() / 1000}s)`);
+}
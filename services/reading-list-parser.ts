@@ -0,0 +1,271 @@
+/**
+ * Разбор файлов списков чтения для импорта (POST /api/imports):
+ * Pocket CSV, Instapaper CSV, OPML, закладки браузера (Netscape bookmark HTML, в т.ч. старый экспорт Pocket)
+ * и простой список ссылок. Формат определяется автоматически, если не указан явно.
+ */
+
+import * as cheerio from 'cheerio';
+
+export const READING_LIST_FORMATS = ['pocket', 'instapaper', 'csv', 'opml', 'bookmarks', 'urls'] as const;
+export type ReadingListFormat = typeof READING_LIST_FORMATS[number];
+
+export interface ReadingListEntry {
+    url: string;
+    title: string | null;
+    tags: string[];
+    addedAt: Date | null;
+}
+
+const MAX_TAG_LENGTH = 50;
+const MAX_TITLE_LENGTH = 500;
+
+// Служебные папки, которые не являются темами пользователя
+const IGNORED_FOLDERS = new Set([
+    'unread', 'archive', 'starred', 'liked',
+    'bookmarks', 'bookmarks bar', 'bookmarks toolbar', 'bookmarks menu', 'other bookmarks', 'mobile bookmarks', 'unsorted',
+    'панель закладок', 'другие закладки', 'меню закладок', 'закладки на мобильном', 'закладки',
+]);
+
+// Параметры отслеживания — не влияют на содержимое страницы, мешают поиску дубликатов
+const TRACKING_PARAMS = /^(utm_[a-z]+|fbclid|gclid|yclid|mc_cid|mc_eid|ref|ref_src|_hsenc|_hsmkt)$/i;
+
+export function isReadingListFormat(value: unknown): value is ReadingListFormat {
+    return typeof value === 'string' && (READING_LIST_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Убирает якорь и параметры отслеживания. null — не http(s)-ссылка.
+ */
+export function cleanImportUrl(raw: string): string | null {
+    try {
+        const parsed = new URL(raw.trim());
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+        parsed.hash = '';
+        for (const key of Array.from(parsed.searchParams.keys())) {
+            if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+        }
+        return parsed.toString();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Ключ для поиска дубликатов: без протокола, www и завершающего слэша, хост в нижнем регистре.
+ */
+export function urlDedupKey(url: string): string {
+    const cleaned = cleanImportUrl(url);
+    if (!cleaned) return url.trim();
+    const parsed = new URL(cleaned);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+}
+
+function normalizeTag(tag: string): string | null {
+    const normalized = tag.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (!normalized || normalized.length > MAX_TAG_LENGTH || IGNORED_FOLDERS.has(normalized)) return null;
+    return normalized;
+}
+
+function toTags(values: Array<string | null | undefined>): string[] {
+    const tags = new Set<string>();
+    for (const value of values) {
+        const tag = value ? normalizeTag(value) : null;
+        if (tag) tags.add(tag);
+    }
+    return Array.from(tags);
+}
+
+function parseTimestamp(value: string | undefined): Date | null {
+    if (!value || !value.trim()) return null;
+    const trimmed = value.trim();
+    // Pocket и закладки — unix-время в секундах, Instapaper — тоже
+    const date = /^\d+$/.test(trimmed) ? new Date(Number(trimmed) * 1000) : new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+const cleanTitle = (value: string | null | undefined): string | null => {
+    const title = (value || '').replace(/\s+/g, ' ').trim();
+    return title ? title.substring(0, MAX_TITLE_LENGTH) : null;
+};
+
+/**
+ * CSV по RFC 4180: кавычки, переносы строк внутри полей.
+ */
+function parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some((cell) => cell.trim())) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some((cell) => cell.trim())) rows.push(row);
+    return rows;
+}
+
+/**
+ * Теги Instapaper приходят JSON-массивом, Pocket — через "|", остальное — через запятую.
+ */
+function splitTagCell(value: string | undefined): string[] {
+    if (!value || !value.trim()) return [];
+    const trimmed = value.trim();
+    if (trimmed.startsWith('[')) {
+        try {
+            const parsed = JSON.parse(trimmed);
+            if (Array.isArray(parsed)) return parsed.filter((t) => typeof t === 'string');
+        } catch {
+            // не JSON — разбираем как строку
+        }
+    }
+    return trimmed.split(trimmed.includes('|') ? '|' : ',');
+}
+
+function parseCsvEntries(content: string): ReadingListEntry[] {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) return [];
+    const columns = header.map((name) => name.trim().toLowerCase());
+    const column = (...names: string[]) => columns.findIndex((name) => names.includes(name));
+
+    const urlIndex = column('url', 'href', 'link', 'given_url', 'resolved_url');
+    const titleIndex = column('title', 'given_title', 'resolved_title', 'name');
+    const tagsIndex = column('tags', 'tag');
+    const folderIndex = column('folder');
+    const timeIndex = column('time_added', 'timestamp', 'date', 'added', 'created');
+    if (urlIndex === -1) return [];
+
+    return rows.map((row) => ({
+        url: row[urlIndex] || '',
+        title: titleIndex >= 0 ? cleanTitle(row[titleIndex]) : null,
+        tags: toTags([
+            ...(tagsIndex >= 0 ? splitTagCell(row[tagsIndex]) : []),
+            ...(folderIndex >= 0 ? [row[folderIndex]] : []),
+        ]),
+        addedAt: timeIndex >= 0 ? parseTimestamp(row[timeIndex]) : null,
+    }));
+}
+
+/**
+ * OPML: outline с url / htmlUrl / xmlUrl. Родительские outline без ссылки — папки, они становятся тегами.
+ */
+function parseOpmlEntries(content: string): ReadingListEntry[] {
+    const $ = cheerio.load(content, { xmlMode: true });
+    const entries: ReadingListEntry[] = [];
+
+    $('outline').each((_, element) => {
+        const outline = $(element);
+        const url = outline.attr('url') || outline.attr('htmlUrl') || outline.attr('xmlUrl');
+        if (!url) return;
+        const folders = outline.parents('outline')
+            .filter((__, parent) => !$(parent).attr('url') && !$(parent).attr('htmlUrl') && !$(parent).attr('xmlUrl'))
+            .map((__, parent) => $(parent).attr('text') || $(parent).attr('title') || '')
+            .get();
+        entries.push({
+            url,
+            title: cleanTitle(outline.attr('title') || outline.attr('text')),
+            tags: toTags([...splitTagCell(outline.attr('category')), ...folders]),
+            addedAt: parseTimestamp(outline.attr('created')),
+        });
+    });
+    return entries;
+}
+
+/**
+ * Netscape bookmark HTML (Chrome, Firefox, Safari, старый экспорт Pocket): атрибут TAGS и папки (H3) — теги.
+ */
+function parseBookmarkEntries(content: string): ReadingListEntry[] {
+    const $ = cheerio.load(content);
+    const entries: ReadingListEntry[] = [];
+
+    $('a[href]').each((_, element) => {
+        const link = $(element);
+        // Папка закладки — H3 перед каждым вложенным DL
+        const folders = link.parents('dl')
+            .map((__, list) => {
+                const heading = $(list).prevAll('h3').first();
+                if (!heading.length || heading.attr('personal_toolbar_folder') || heading.attr('unfiled_bookmarks_folder')) return '';
+                return heading.text();
+            })
+            .get();
+        entries.push({
+            url: link.attr('href') || '',
+            title: cleanTitle(link.text()),
+            tags: toTags([...splitTagCell(link.attr('tags')), ...folders]),
+            addedAt: parseTimestamp(link.attr('add_date') || link.attr('time_added')),
+        });
+    });
+    return entries;
+}
+
+function parseUrlListEntries(content: string): ReadingListEntry[] {
+    const matches = content.match(/https?:\/\/[^\s<>"'()]+/g) || [];
+    return matches.map((url) => ({ url: url.replace(/[.,;:!?]+$/, ''), title: null, tags: [], addedAt: null }));
+}
+
+/**
+ * Определяет формат по содержимому.
+ */
+export function detectReadingListFormat(content: string): ReadingListFormat {
+    const head = content.trimStart().substring(0, 2000).toLowerCase();
+    if (head.includes('<opml')) return 'opml';
+    if (head.includes('netscape-bookmark-file') || /<a\s[^>]*href=/.test(head)) return 'bookmarks';
+
+    const firstLine = head.split(/\r?\n/)[0];
+    if (firstLine.includes(',') && /(^|,)"?(url|href|link)"?(,|$)/.test(firstLine)) {
+        if (firstLine.includes('time_added')) return 'pocket';
+        if (firstLine.includes('selection') || firstLine.includes('folder')) return 'instapaper';
+        return 'csv';
+    }
+    return 'urls';
+}
+
+/**
+ * Разбирает файл. Ссылки очищены от параметров отслеживания, дубликаты внутри файла объединены (теги складываются).
+ */
+export function parseReadingList(content: string, format?: ReadingListFormat): { format: ReadingListFormat; entries: ReadingListEntry[] } {
+    const resolvedFormat = format ?? detectReadingListFormat(content);
+    const raw = resolvedFormat === 'opml' ? parseOpmlEntries(content)
+        : resolvedFormat === 'bookmarks' ? parseBookmarkEntries(content)
+        : resolvedFormat === 'urls' ? parseUrlListEntries(content)
+        : parseCsvEntries(content);
+
+    const byKey = new Map<string, ReadingListEntry>();
+    for (const entry of raw) {
+        const url = cleanImportUrl(entry.url);
+        if (!url) continue;
+        const key = urlDedupKey(url);
+        const existing = byKey.get(key);
+        if (existing) {
+            existing.tags = Array.from(new Set([...existing.tags, ...entry.tags]));
+            existing.title = existing.title ?? entry.title;
+            continue;
+        }
+        byKey.set(key, { ...entry, url });
+    }
+    return { format: resolvedFormat, entries: Array.from(byKey.values()) };
+}
@@ -1,5 +1,5 @@
-import { traceGeneration } from '../observability/langfuse-helpers';
-import { generateCompletion, getModelForRequest } from './llm-provider';
+import { getModelForTask } from './llm-provider';
+import { generateStructuredCompletion, JsonSchema, StructuredOutputSchema } from './llm-structured';
 
 // Очередь не нужна — она внутри llm-provider
 
@@ -11,6 +11,42 @@ export interface RelevanceLevelResult {
     recommendations?: string; // Рекомендации для пользователя
 }
 
+type RelevanceLevelItem = { interest: string } & RelevanceLevelResult;
+
+// Схемы ответов: нативный structured output провайдера и проверка ответа (llm-structured.ts)
+const RELEVANCE_ITEM_PROPERTIES: Record<string, JsonSchema> = {
+    contentLevel: { type: 'string', enum: ['novice', 'amateur', 'professional'] },
+    userLevelMatch: { type: 'string', enum: ['perfect', 'good', 'challenging', 'too_easy', 'too_hard'] },
+    relevanceScore: { type: 'integer', minimum: 0, maximum: 100 },
+    explanation: { type: 'string', minLength: 1 },
+    recommendations: { type: 'string' },
+};
+const RELEVANCE_REQUIRED = ['contentLevel', 'userLevelMatch', 'relevanceScore', 'explanation'];
+
+const RELEVANCE_RESULT_SCHEMA: StructuredOutputSchema<RelevanceLevelResult> = {
+    name: 'relevance_level',
+    schema: { type: 'object', properties: RELEVANCE_ITEM_PROPERTIES, required: RELEVANCE_REQUIRED },
+};
+
+const MULTI_RELEVANCE_RESULT_SCHEMA: StructuredOutputSchema<{ results: RelevanceLevelItem[] }> = {
+    name: 'relevance_levels',
+    schema: {
+        type: 'object',
+        properties: {
+            results: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'object',
+                    properties: { interest: { type: 'string', minLength: 1 }, ...RELEVANCE_ITEM_PROPERTIES },
+                    required: ['interest', ...RELEVANCE_REQUIRED],
+                },
+            },
+        },
+        required: ['results'],
+    },
+};
+
 export interface UserLevel {
     interest: string; // Интерес пользователя (например, "танцы")
     level: 'novice' | 'amateur' | 'professional'; // Уровень пользователя в этом интересе (новичок, любитель, профессионал)
@@ -116,86 +152,18 @@ ${userLevelsDescription}
     "recommendations": "<рекомендации на русском языке (опционально)>"
 }`;
 
-    const aiModel = getModelForRequest();
+    const aiModel = getModelForTask('relevance');
 
     try {
         console.log(`🔍 Analyzing relevance level using model: ${aiModel}`);
         console.log(`📊 Content length: ${processedContent.length} chars`);
         console.log(`👤 User level for interest "${interest}": ${userLevel || 'Not specified'}`);
 
-        const result = await traceGeneration(
-            'relevance-level-analyze',
-            aiModel,
-            (systemInstruction + '\n\n' + jsonPrompt).slice(0, 3000),
-            () => generateCompletion(systemInstruction, jsonPrompt, { modelName: aiModel })
-        ) as { text: string };
-        const rawResponse = result.text;
-
-        console.log('Raw AI response length:', rawResponse.length);
-        console.log('Raw AI response (first 500 chars):', rawResponse.substring(0, 500));
-
-        // Очистка от markdown разметки
-        let cleanedResponse = rawResponse.trim();
-        if (cleanedResponse.startsWith('```json')) {
-            cleanedResponse = cleanedResponse.replace(/^```json\s*/i, '');
-        } else if (cleanedResponse.startsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/^```\s*/, '');
-        }
-        if (cleanedResponse.endsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/\s*```$/, '');
-        }
-        cleanedResponse = cleanedResponse.trim();
-
-        // Извлечение JSON
-        const firstBrace = cleanedResponse.indexOf('{');
-        const lastBrace = cleanedResponse.lastIndexOf('}');
-        if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-            cleanedResponse = cleanedResponse.substring(firstBrace, lastBrace + 1);
-        }
-
-        console.log('Cleaned response (first 300 chars):', cleanedResponse.substring(0, 300) + '...');
-
-        let parsedResponse: RelevanceLevelResult;
-        try {
-            parsedResponse = JSON.parse(cleanedResponse);
-        } catch (parseError: any) {
-            console.error('JSON parse error:', parseError.message);
-            console.error('Failed to parse response (first 1000 chars):', cleanedResponse.substring(0, 1000));
-            
-            // Попытка исправить JSON
-            let fixedResponse = cleanedResponse;
-            fixedResponse = fixedResponse.replace(/,(\s*[}\]])/g, '$1');
-            fixedResponse = fixedResponse.replace(/("(?:[^"\\]|\\.)*")\s*\n\s*/g, '$1 ');
-            
-            try {
-                parsedResponse = JSON.parse(fixedResponse);
-                console.log('✓ Successfully parsed after fixing common JSON issues');
-            } catch (secondError: any) {
-                console.error('❌ Could not parse JSON response');
-                throw new Error(`Failed to parse JSON response: ${parseError.message}`);
-            }
-        }
-
-        // Валидация ответа
-        const validLevels = ['novice', 'amateur', 'professional'];
-        const validMatches = ['perfect', 'good', 'challenging', 'too_easy', 'too_hard'];
-
-        if (!validLevels.includes(parsedResponse.contentLevel)) {
-            console.warn(`⚠️ Invalid contentLevel: ${parsedResponse.contentLevel}. Using 'amateur' as default.`);
-            parsedResponse.contentLevel = 'amateur';
-        }
-
-        if (!validMatches.includes(parsedResponse.userLevelMatch)) {
-            console.warn(`⚠️ Invalid userLevelMatch: ${parsedResponse.userLevelMatch}. Using 'good' as default.`);
-            parsedResponse.userLevelMatch = 'good';
-        }
-
-        if (typeof parsedResponse.relevanceScore !== 'number' || 
-            parsedResponse.relevanceScore < 0 || 
-            parsedResponse.relevanceScore > 100) {
-            console.warn(`⚠️ Invalid relevanceScore: ${parsedResponse.relevanceScore}. Using 50 as default.`);
-            parsedResponse.relevanceScore = 50;
-        }
+        const parsedResponse = await generateStructuredCompletion(systemInstruction, jsonPrompt, RELEVANCE_RESULT_SCHEMA, {
+            modelName: aiModel,
+            traceName: 'relevance-level-analyze',
+            task: 'relevance',
+        });
 
         if (!parsedResponse.explanation || parsedResponse.explanation.trim().length < 10) {
             console.warn('⚠️ Explanation seems too short');
@@ -209,16 +177,9 @@ ${userLevelsDescription}
         return parsedResponse;
 
     } catch (error: any) {
+        // Без оценки по умолчанию: вызывающий код решает, что делать без уровня релевантности
         console.error(`Relevance Level Analysis Error: ${error.message}`);
-        
-        // Fallback response
-        return {
-            contentLevel: 'amateur',
-            userLevelMatch: 'good',
-            relevanceScore: 50,
-            explanation: 'Не удалось проанализировать уровень релевантности контента. Рекомендуется проверить контент вручную.',
-            recommendations: 'Попробуйте проанализировать контент позже или проверьте его вручную.'
-        };
+        throw error;
     }
 };
 
@@ -345,87 +306,21 @@ ${processedContent}
     ]
 }`;
 
-    const aiModel = getModelForRequest();
+    const aiModel = getModelForTask('relevance');
 
     try {
         console.log(`🔍 Analyzing relevance level for ${interestsWithLevels.length} interests in ONE request using model: ${aiModel}`);
         console.log(`📊 Content length: ${processedContent.length} chars`);
 
-        const result = await traceGeneration(
-            'relevance-level-analyze',
-            aiModel,
-            (systemInstruction + '\n\n' + jsonPrompt).slice(0, 3000),
-            () => generateCompletion(systemInstruction, jsonPrompt, { modelName: aiModel })
-        ) as { text: string };
-        const rawResponse = result.text;
-
-        // Очистка от markdown разметки
-        let cleanedResponse = rawResponse.trim();
-        if (cleanedResponse.startsWith('```json')) {
-            cleanedResponse = cleanedResponse.replace(/^```json\s*/i, '');
-        } else if (cleanedResponse.startsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/^```\s*/, '');
-        }
-        if (cleanedResponse.endsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/\s*```$/, '');
-        }
-        cleanedResponse = cleanedResponse.trim();
-
-        // Извлечение JSON
-        const firstBrace = cleanedResponse.indexOf('{');
-        const lastBrace = cleanedResponse.lastIndexOf('}');
-        if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-            cleanedResponse = cleanedResponse.substring(firstBrace, lastBrace + 1);
-        }
-
-        let parsedResponse: { results: Array<{ interest: string } & RelevanceLevelResult> };
-        try {
-            parsedResponse = JSON.parse(cleanedResponse);
-        } catch (parseError: any) {
-            console.error('JSON parse error:', parseError.message);
-            console.error('Failed to parse response (first 1000 chars):', cleanedResponse.substring(0, 1000));
-            
-            // Попытка исправить JSON
-            let fixedResponse = cleanedResponse;
-            fixedResponse = fixedResponse.replace(/,(\s*[}\]])/g, '$1');
-            fixedResponse = fixedResponse.replace(/("(?:[^"\\]|\\.)*")\s*\n\s*/g, '$1 ');
-            
-            try {
-                parsedResponse = JSON.parse(fixedResponse);
-                console.log('✓ Successfully parsed after fixing common JSON issues');
-            } catch (secondError: any) {
-                console.error('❌ Could not parse JSON response');
-                // Fallback: анализируем каждый интерес отдельно
-                console.log('⚠️ Falling back to individual analysis for each interest...');
-                const fallbackResults: Array<{ interest: string; result: RelevanceLevelResult }> = [];
-                for (const { interest, userLevel } of interestsWithLevels) {
-                    try {
-                        const result = await analyzeRelevanceLevelForInterest(content, interest, userLevel);
-                        fallbackResults.push({ interest, result });
-                    } catch (error: any) {
-                        console.error(`Failed to analyze interest "${interest}": ${error.message}`);
-                        fallbackResults.push({
-                            interest,
-                            result: {
-                                contentLevel: 'amateur',
-                                userLevelMatch: 'good',
-                                relevanceScore: 50,
-                                explanation: 'Не удалось проанализировать уровень релевантности контента для этого интереса.',
-                            }
-                        });
-                    }
-                }
-                return fallbackResults;
-            }
-        }
-
-        // Валидация и маппинг результатов
-        const validLevels = ['novice', 'amateur', 'professional'];
-        const validMatches = ['perfect', 'good', 'challenging', 'too_easy', 'too_hard'];
+        const parsedResponse = await generateStructuredCompletion(systemInstruction, jsonPrompt, MULTI_RELEVANCE_RESULT_SCHEMA, {
+            modelName: aiModel,
+            traceName: 'relevance-level-analyze',
+            task: 'relevance',
+        });
 
         const results: Array<{ interest: string; result: RelevanceLevelResult }> = [];
         
-        for (const item of parsedResponse.results || []) {
+        for (const item of parsedResponse.results) {
             // Находим соответствующий интерес (с учетом регистра)
             const matchingInterest = interestsWithLevels.find(
                 iwl => iwl.interest.toLowerCase() === item.interest.toLowerCase()
@@ -435,24 +330,7 @@ ${processedContent}
                 console.warn(`⚠️ Interest "${item.interest}" from API response not found in request`);
                 continue;
             }
-
-            // Валидация
-            if (!validLevels.includes(item.contentLevel)) {
-                console.warn(`⚠️ Invalid contentLevel: ${item.contentLevel}. Using 'amateur' as default.`);
-                item.contentLevel = 'amateur';
-            }
-
-            if (!validMatches.includes(item.userLevelMatch)) {
-                console.warn(`⚠️ Invalid userLevelMatch: ${item.userLevelMatch}. Using 'good' as default.`);
-                item.userLevelMatch = 'good';
-            }
-
-            if (typeof item.relevanceScore !== 'number' || 
-                item.relevanceScore < 0 || 
-                item.relevanceScore > 100) {
-                console.warn(`⚠️ Invalid relevanceScore: ${item.relevanceScore}. Using 50 as default.`);
-                item.relevanceScore = 50;
-            }
+            if (results.some(r => r.interest === matchingInterest.interest)) continue; // дубль в ответе
 
             results.push({
                 interest: matchingInterest.interest, // Используем оригинальное название интереса
@@ -460,26 +338,19 @@ ${processedContent}
                     contentLevel: item.contentLevel,
                     userLevelMatch: item.userLevelMatch,
                     relevanceScore: item.relevanceScore,
-                    explanation: item.explanation || 'Объяснение не предоставлено.',
+                    explanation: item.explanation,
                     recommendations: item.recommendations,
                 }
             });
         }
 
-        // Если API не вернул результаты для всех интересов, дополняем fallback значениями
-        for (const { interest } of interestsWithLevels) {
-            if (!results.find(r => r.interest.toLowerCase() === interest.toLowerCase())) {
-                console.warn(`⚠️ API did not return result for interest "${interest}", using fallback`);
-                results.push({
-                    interest,
-                    result: {
-                        contentLevel: 'amateur',
-                        userLevelMatch: 'good',
-                        relevanceScore: 50,
-                        explanation: 'Не удалось проанализировать уровень релевантности контента для этого интереса.',
-                    }
-                });
-            }
+        // Интересы, которые модель пропустила, досчитываем отдельными запросами
+        const missing = interestsWithLevels.filter(
+            ({ interest }) => !results.some(r => r.interest.toLowerCase() === interest.toLowerCase())
+        );
+        if (missing.length > 0) {
+            console.warn(`⚠️ API did not return results for ${missing.length} interest(s), analyzing them individually`);
+            results.push(...await analyzeInterestsIndividually(content, missing));
         }
 
         console.log(`✓ Successfully analyzed ${results.length} interests in one request`);
@@ -490,28 +361,34 @@ ${processedContent}
         
         // Fallback: анализируем каждый интерес отдельно
         console.log('⚠️ Falling back to individual analysis for each interest...');
-        const fallbackResults: Array<{ interest: string; result: RelevanceLevelResult }> = [];
-        for (const { interest, userLevel } of interestsWithLevels) {
-            try {
-                const result = await analyzeRelevanceLevelForInterest(content, interest, userLevel);
-                fallbackResults.push({ interest, result });
-            } catch (err: any) {
-                console.error(`Failed to analyze interest "${interest}": ${err.message}`);
-                fallbackResults.push({
-                    interest,
-                    result: {
-                        contentLevel: 'amateur',
-                        userLevelMatch: 'good',
-                        relevanceScore: 50,
-                        explanation: 'Не удалось проанализировать уровень релевантности контента для этого интереса.',
-                    }
-                });
-            }
+        const fallbackResults = await analyzeInterestsIndividually(content, interestsWithLevels);
+        if (fallbackResults.length === 0) {
+            throw error;
         }
         return fallbackResults;
     }
 };
 
+/**
+ * Отдельный запрос на каждый интерес. Интересы, для которых не удалось получить валидный ответ, пропускаются —
+ * без подстановки оценки по умолчанию.
+ */
+async function analyzeInterestsIndividually(
+    content: string,
+    interestsWithLevels: Array<{ interest: string; userLevel: string }>
+): Promise<Array<{ interest: string; result: RelevanceLevelResult }>> {
+    const results: Array<{ interest: string; result: RelevanceLevelResult }> = [];
+    for (const { interest, userLevel } of interestsWithLevels) {
+        try {
+            const result = await analyzeRelevanceLevelForInterest(content, interest, userLevel);
+            results.push({ interest, result });
+        } catch (error: any) {
+            console.error(`Failed to analyze interest "${interest}": ${error.message}`);
+        }
+    }
+    return results;
+}
+
 /**
  * Анализирует уровень релевантности контента для всех интересов (для обратной совместимости)
  * 
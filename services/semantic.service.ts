@@ -1,6 +1,7 @@
 import UserSemanticTag from '../models/UserSemanticTag';
 import { traceGeneration } from '../observability/langfuse-helpers';
-import { generateCompletion, getModelForRequest } from './llm-provider';
+import { generateCompletion, getModelForRequest, getModelForTask } from './llm-provider';
+import { generateStructuredCompletion, StructuredOutputSchema, LLM_OUTPUT_INVALID } from './llm-structured';
 import { generateEmbedding, findSimilarArticles } from './embedding.service';
 import { recallForUser } from './hindsight.service';
 import { searchForUser } from './graphiti.service';
@@ -8,6 +9,19 @@ import { searchForUser } from './graphiti.service';
 const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
 const IS_DEBUG = LOG_LEVEL === 'debug';
 
+// Схема ответа extractThemes: нативный structured output провайдера и проверка ответа (llm-structured.ts).
+// Корень — объект: structured outputs OpenAI-совместимых API не принимают массив в корне схемы
+const THEMES_SCHEMA: StructuredOutputSchema<{ themes: string[] }> = {
+    name: 'themes',
+    schema: {
+        type: 'object',
+        properties: {
+            themes: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: 10 },
+        },
+        required: ['themes'],
+    },
+};
+
 // Кэш тегов пользователя (userId -> {tags, timestamp})
 interface UserTagsCache {
     tags: Array<{ tag: string; weight: number }>;
@@ -151,7 +165,7 @@ export async function extractThemes(text: string): Promise<string[]> {
     const systemInstruction = `Ты — помощник для извлечения ключевых тем из текста. Твоя задача — найти главные смыслы и темы статьи.
 
 КРИТИЧЕСКИ ВАЖНО:
-- Твой ответ должен быть ТОЛЬКО валидным JSON-массивом строк БЕЗ markdown разметки (без \`\`\`json и \`\`\`).
+- Твой ответ должен быть ТОЛЬКО валидным JSON-объектом с массивом строк в поле "themes" БЕЗ markdown разметки (без \`\`\`json и \`\`\`).
 - Каждая тема должна быть ОТ 1 ДО 3 СЛОВ (не обязательно все по 2-3 слова!).
 - ПРЕДПОЧТИТЕЛЬНО использовать 1-2 слова, если это возможно.
 - Используй 3 слова ТОЛЬКО если тема действительно требует этого (например, "глубокое обучение нейросетей").
@@ -172,8 +186,8 @@ export async function extractThemes(text: string): Promise<string[]> {
 - "как работает нейросеть" (вопрос, лучше "нейросети")
 - "машинное обучение и нейронные сети" (слишком длинно, лучше разделить на две темы)
 
-Формат ответа (ТОЛЬКО JSON-массив, БЕЗ markdown):
-["тема1", "тема2", "тема3", ...]`;
+Формат ответа (ТОЛЬКО JSON-объект, БЕЗ markdown):
+{"themes": ["тема1", "тема2", "тема3", ...]}`;
 
     const userPrompt = `Извлеки 5-10 ключевых тем из следующего текста. 
 
@@ -190,104 +204,27 @@ export async function extractThemes(text: string): Promise<string[]> {
 ${processedText}
 ---
 
-ВАЖНО: Ответь ТОЛЬКО валидным JSON-массивом строк БЕЗ markdown разметки (без \`\`\`json и \`\`\`).
+ВАЖНО: Ответь ТОЛЬКО валидным JSON-объектом вида {"themes": [...]} БЕЗ markdown разметки (без \`\`\`json и \`\`\`).
 ВАЖНО О ЯЗЫКЕ: Все темы должны быть на РУССКОМ языке, независимо от языка исходного текста.
 
 Примеры правильного формата (все на русском):
-- ["Python", "машинное обучение", "нейросети", "алгоритмы", "данные"]
-- ["React", "веб-разработка", "компоненты", "JavaScript", "UI"]
-- ["базы данных", "SQL", "оптимизация", "запросы"]
-- ["машинное обучение", "нейронные сети", "глубокое обучение"] (не "machine learning", "neural networks")`;
+- {"themes": ["Python", "машинное обучение", "нейросети", "алгоритмы", "данные"]}
+- {"themes": ["React", "веб-разработка", "компоненты", "JavaScript", "UI"]}
+- {"themes": ["базы данных", "SQL", "оптимизация", "запросы"]}
+- {"themes": ["машинное обучение", "нейронные сети", "глубокое обучение"]} (не "machine learning", "neural networks")`;
 
     try {
-        const aiModel = getModelForRequest();
+        const aiModel = getModelForTask('themes');
 
         console.log(`🎯 Extracting themes using AI model: ${aiModel}`);
         console.log(`📊 Text length: ${processedText.length} chars`);
 
-        const timeoutPromise = new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Request timed out.')), 60000)
-        );
-        
-        const completionPromise = traceGeneration(
-            'semantic-extractThemes',
-            aiModel,
-            userPrompt.slice(0, 3000),
-            () => generateCompletion(systemInstruction, userPrompt, { modelName: aiModel })
-        );
-        
-        const result = await Promise.race([completionPromise, timeoutPromise]) as { text: string };
-        const rawResponse = result.text;
-
-        console.log('Raw AI response (first 500 chars):', rawResponse.substring(0, 500));
-
-        // Очистка от markdown разметки
-        let cleanedResponse = rawResponse.trim();
-        
-        // Удаляем ```json в начале
-        if (cleanedResponse.startsWith('```json')) {
-            cleanedResponse = cleanedResponse.replace(/^```json\s*/i, '');
-        } else if (cleanedResponse.startsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/^```\s*/, '');
-        }
-        
-        // Удаляем ``` в конце
-        if (cleanedResponse.endsWith('```')) {
-            cleanedResponse = cleanedResponse.replace(/\s*```$/, '');
-        }
-        
-        cleanedResponse = cleanedResponse.trim();
-
-        // Извлекаем JSON-массив: находим первый [ и последний ]
-        const firstBracket = cleanedResponse.indexOf('[');
-        const lastBracket = cleanedResponse.lastIndexOf(']');
-        
-        if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-            cleanedResponse = cleanedResponse.substring(firstBracket, lastBracket + 1);
-        }
-
-        console.log('Cleaned response (first 300 chars):', cleanedResponse.substring(0, 300));
-
-        // Парсим JSON
-        let themes: string[];
-        try {
-            themes = JSON.parse(cleanedResponse);
-        } catch (parseError: any) {
-            console.error('JSON parse error:', parseError.message);
-            console.error('Failed to parse response (first 1000 chars):', cleanedResponse.substring(0, 1000));
-            
-            // Попытка исправить распространенные проблемы с JSON
-            let fixedResponse = cleanedResponse;
-            fixedResponse = fixedResponse.replace(/,(\s*[}\]])/g, '$1'); // Удаляем лишние запятые
-            
-            try {
-                themes = JSON.parse(fixedResponse);
-                console.log('✓ Successfully parsed after fixing common JSON issues');
-            } catch (secondError: any) {
-                // Попытка извлечь массив вручную через регулярное выражение
-                // Используем [\s\S] вместо . с флагом s для совместимости с ES6
-                const arrayMatch = cleanedResponse.match(/\[([\s\S]*?)\]/);
-                if (arrayMatch) {
-                    const arrayContent = arrayMatch[1];
-                    // Извлекаем строки в кавычках
-                    const stringMatches = arrayContent.match(/"([^"]+)"/g);
-                    if (stringMatches && stringMatches.length > 0) {
-                        themes = stringMatches.map(match => match.replace(/"/g, ''));
-                        console.log('✓ Successfully extracted themes using regex fallback');
-                    } else {
-                        throw new Error(`Failed to parse JSON response: ${parseError.message}. Second attempt: ${secondError.message}`);
-                    }
-                } else {
-                    throw new Error(`Failed to parse JSON response: ${parseError.message}. Second attempt: ${secondError.message}`);
-                }
-            }
-        }
-
-        // Валидация результата
-        if (!Array.isArray(themes)) {
-            console.error('❌ AI response is not an array:', themes);
-            throw new Error('AI response is not an array.');
-        }
+        const { themes } = await generateStructuredCompletion(systemInstruction, userPrompt, THEMES_SCHEMA, {
+            modelName: aiModel,
+            traceName: 'semantic-extractThemes',
+            task: 'themes',
+            timeoutMs: 60000,
+        });
 
         // Фильтруем и нормализуем темы
         const normalizedThemes = themes
@@ -325,6 +262,12 @@ ${processedText}
         return normalizedThemes;
 
     } catch (error: any) {
+        // Ответ не прошёл проверку схемой даже после repair-запросов — это не "в тексте нет тем", пробрасываем
+        if (error.message === LLM_OUTPUT_INVALID) {
+            console.error('❌ [extractThemes] AI returned invalid themes output after repair attempts');
+            throw error;
+        }
+
         // Определяем тип ошибки для более информативного логирования
         const errorMessage = error.message || String(error);
         let errorType = 'Unknown error';
@@ -333,8 +276,6 @@ ${processedText}
             errorType = 'Timeout error';
         } else if (errorMessage.includes('quota') || errorMessage.includes('QUOTA_EXCEEDED') || errorMessage.includes('FreeTier') || error.status === 429) {
             errorType = 'API quota exceeded';
-        } else if (errorMessage.includes('JSON') || errorMessage.includes('parse')) {
-            errorType = 'JSON parsing error';
         } else if (errorMessage.includes('API') || errorMessage.includes('apiKey') || errorMessage.includes('authentication')) {
             errorType = 'API authentication/configuration error';
         } else if (errorMessage.includes('network') || errorMessage.includes('fetch') || errorMessage.includes('ECONNREFUSED')) {
@@ -705,7 +646,7 @@ export async function analyzeCommentSentiment(comment: string): Promise<{ sentim
             'semantic-analyzeSentiment',
             aiModel,
             comment.slice(0, 500),
-            () => generateCompletion('', prompt, { modelName: aiModel })
+            () => generateCompletion('', prompt, { modelName: aiModel, task: 'sentiment' })
         ) as { text: string };
 
         let responseText = (result?.text ?? '').trim().toLowerCase();
@@ -1018,7 +959,8 @@ async function getRAGContextForRecommendation(
         if (similarArticles.length > 0) {
             context += `\n\n**Контекст из похожих статей в вашей истории:**
 ${similarArticles.map((a, idx) => 
-    `${idx + 1}. ${a.url} (${Math.round(a.similarity * 100)}% похоже)${a.summary ? `\n   Саммари: ${a.summary.substring(0, 150)}${a.summary.length > 150 ? '...' : ''}` : ''}`
+    `${idx + 1}. ${a.url} (${Math.round(a.similarity * 100)}% похоже)${a.summary ? `\n   Саммари: ${a.summary.substring(0, 150)}${a.summary.length > 150 ? '...' : ''}` : ''}` +
+    (a.passage ? `\n   Похожий фрагмент: «${a.passage.replace(/\s+/g, ' ').trim().substring(0, 300)}${a.passage.length > 300 ? '...' : ''}»` : '')
 ).join('\n\n')}
 
 Используй эту информацию: если статья похожа на те, что пользователь читал ранее, это может быть хорошим признаком релевантности.`;
@@ -1168,7 +1110,7 @@ ${topUserTags}
             'semantic-generateRecommendation',
             aiModel,
             userPrompt.slice(0, 2000),
-            () => generateCompletion(systemInstruction, userPrompt, { modelName: aiModel })
+            () => generateCompletion(systemInstruction, userPrompt, { modelName: aiModel, task: 'recommendation' })
         );
         
         const result = await Promise.race([completionPromise, timeoutPromise]) as { text: string };
@@ -0,0 +1,228 @@
+/**
+ * Сессии входа: короткоживущий access-токен (JWT с id сессии) + ротируемый refresh-токен.
+ * В БД (user_sessions) хранится только SHA-256 refresh-токена. При каждом POST /api/auth/refresh
+ * токен заменяется новым; повторное предъявление заменённого токена — признак утечки, сессия отзывается.
+ * authMiddleware проверяет, что сессия access-токена не отозвана, — logout и DELETE /api/auth/sessions действуют сразу.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import UserSession from '../models/UserSession';
+import User from '../models/User';
+
+// Код ошибки (error.message): refresh-токен неизвестен, истёк или сессия отозвана
+export const SESSION_INVALID = 'SESSION_INVALID';
+
+const DEFAULT_ACCESS_TOKEN_TTL_MINUTES = 15;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const REUSE_GRACE_MS = 10 * 1000; // параллельный refresh из двух вкладок — не утечка
+const REVOKED_SESSION_RETENTION_DAYS = 30;
+
+export interface SessionMeta {
+    userAgent?: string | null;
+    ip?: string | null;
+}
+
+export interface AuthTokens {
+    token: string; // access-токен (Authorization: Bearer)
+    refreshToken: string;
+    expiresIn: number; // секунд до истечения access-токена
+    refreshExpiresAt: Date;
+}
+
+export interface AccessTokenPayload {
+    userId: number;
+    sid?: number; // нет у токенов, выданных до появления сессий (7 дней; отзываются только все сразу — users.sessions_revoked_at)
+    iat?: number;
+}
+
+export interface SessionInfo {
+    id: number;
+    userAgent: string | null;
+    ip: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    current: boolean;
+}
+
+const getJwtSecret = (): string => process.env.JWT_SECRET as string;
+
+const positiveNumber = (raw: string | undefined, fallback: number): number => {
+    const value = Number(raw);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export function getAccessTokenTtlSec(): number {
+    return Math.round(positiveNumber(process.env.ACCESS_TOKEN_TTL_MINUTES, DEFAULT_ACCESS_TOKEN_TTL_MINUTES) * 60);
+}
+
+function getRefreshTokenTtlMs(): number {
+    return positiveNumber(process.env.REFRESH_TOKEN_TTL_DAYS, DEFAULT_REFRESH_TOKEN_TTL_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+function issueTokens(session: UserSession, refreshToken: string): AuthTokens {
+    const expiresIn = getAccessTokenTtlSec();
+    const payload: AccessTokenPayload = { userId: session.userId, sid: session.id };
+    return {
+        token: jwt.sign(payload, getJwtSecret(), { expiresIn }),
+        refreshToken,
+        expiresIn,
+        refreshExpiresAt: session.expiresAt,
+    };
+}
+
+const truncateMeta = (value: string | null | undefined, max: number): string | null =>
+    value ? value.substring(0, max) : null;
+
+/**
+ * Новая сессия после входа или регистрации. Заодно удаляет истёкшие и давно отозванные сессии пользователя.
+ */
+export async function createSession(userId: number, meta: SessionMeta = {}): Promise<AuthTokens> {
+    const now = Date.now();
+    await UserSession.destroy({
+        where: {
+            userId,
+            [Op.or]: [
+                { expiresAt: { [Op.lt]: new Date(now) } },
+                { revokedAt: { [Op.lt]: new Date(now - REVOKED_SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+            ],
+        },
+    }).catch((error: any) => console.warn(`⚠️ [Sessions] Cleanup failed for user ${userId}: ${error.message}`));
+
+    const refreshToken = generateRefreshToken();
+    const session = await UserSession.create({
+        userId,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent: truncateMeta(meta.userAgent, 512),
+        ip: truncateMeta(meta.ip, 64),
+        expiresAt: new Date(now + getRefreshTokenTtlMs()),
+        lastUsedAt: new Date(now),
+    });
+    return issueTokens(session, refreshToken);
+}
+
+/**
+ * Обменивает refresh-токен на новую пару токенов. Старый refresh-токен после этого недействителен.
+ */
+export async function rotateRefreshToken(refreshToken: string, meta: SessionMeta = {}): Promise<AuthTokens> {
+    const tokenHash = hashToken(refreshToken);
+    const session = await UserSession.findOne({ where: { refreshTokenHash: tokenHash } });
+
+    if (!session) {
+        const reused = await UserSession.findOne({ where: { previousTokenHash: tokenHash, revokedAt: null } });
+        if (reused && Date.now() - reused.lastUsedAt.getTime() > REUSE_GRACE_MS) {
+            await reused.update({ revokedAt: new Date() });
+            console.warn(`⚠️ [Sessions] Reused refresh token for session ${reused.id} (user ${reused.userId}) — session revoked`);
+        }
+        throw new Error(SESSION_INVALID);
+    }
+    if (session.revokedAt || session.expiresAt < new Date()) {
+        throw new Error(SESSION_INVALID);
+    }
+
+    const nextToken = generateRefreshToken();
+    // Условие по старому хешу: из двух одновременных запросов с одним токеном ротацию выполнит только один
+    const [updated] = await UserSession.update({
+        refreshTokenHash: hashToken(nextToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: new Date(),
+        ...(meta.userAgent ? { userAgent: truncateMeta(meta.userAgent, 512) } : {}),
+        ...(meta.ip ? { ip: truncateMeta(meta.ip, 64) } : {}),
+    }, { where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null } });
+    if (updated === 0) throw new Error(SESSION_INVALID);
+
+    await session.reload();
+    return issueTokens(session, nextToken);
+}
+
+/**
+ * Проверяет access-токен: подпись, срок и что сессия не отозвана. Токен без сессии (выдан до появления сессий)
+ * недействителен, если после его выдачи сбрасывали пароль или завершали все сессии.
+ * Ошибки jwt (TokenExpiredError, JsonWebTokenError) пробрасываются как есть, отозванная сессия — SESSION_INVALID.
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenPayload> {
+    const decoded = jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+    const active = decoded.sid !== undefined
+        ? await isSessionActive(decoded.sid, decoded.userId)
+        : await isLegacyTokenActive(decoded.userId, decoded.iat);
+    if (!active) throw new Error(SESSION_INVALID);
+    return { userId: decoded.userId, sid: decoded.sid };
+}
+
+async function isLegacyTokenActive(userId: number, issuedAtSec: number | undefined): Promise<boolean> {
+    if (!issuedAtSec) return false;
+    const user = await User.findByPk(userId, { attributes: ['id', 'sessions_revoked_at'] });
+    if (!user) return false;
+    return !user.sessions_revoked_at || issuedAtSec * 1000 > user.sessions_revoked_at.getTime();
+}
+
+async function isSessionActive(sessionId: number, userId: number): Promise<boolean> {
+    const session = await UserSession.findByPk(sessionId, { attributes: ['id', 'userId', 'expiresAt', 'revokedAt'] });
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+}
+
+/**
+ * Отзывает сессию пользователя. false — сессии нет или она уже отозвана.
+ */
+export async function revokeSession(userId: number, sessionId: number): Promise<boolean> {
+    const [updated] = await UserSession.update(
+        { revokedAt: new Date() },
+        { where: { id: sessionId, userId, revokedAt: null } }
+    );
+    return updated > 0;
+}
+
+/**
+ * Logout по refresh-токену (access-токен мог уже истечь).
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<boolean> {
+    const [updated] = await UserSession.update(
+        { revokedAt: new Date() },
+        { where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null } }
+    );
+    return updated > 0;
+}
+
+/**
+ * Отзывает все сессии пользователя (кроме exceptSessionId, если указан) и все его access-токены без сессии.
+ * Возвращает число отозванных сессий.
+ */
+export async function revokeAllSessions(userId: number, exceptSessionId?: number): Promise<number> {
+    await User.update({ sessions_revoked_at: new Date() }, { where: { id: userId } });
+    const [updated] = await UserSession.update(
+        { revokedAt: new Date() },
+        {
+            where: {
+                userId,
+                revokedAt: null,
+                ...(exceptSessionId ? { id: { [Op.ne]: exceptSessionId } } : {}),
+            },
+        }
+    );
+    return updated;
+}
+
+/**
+ * Активные сессии пользователя (новые первыми); current — сессия текущего access-токена.
+ */
+export async function listSessions(userId: number, currentSessionId?: number): Promise<SessionInfo[]> {
+    const sessions = await UserSession.findAll({
+        where: { userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+        order: [['lastUsedAt', 'DESC']],
+    });
+    return sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === currentSessionId,
+    }));
+}
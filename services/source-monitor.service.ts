@@ -0,0 +1,303 @@
+/**
+ * Единый цикл мониторинга источников подписки (RSS/Atom, YouTube, Telegram, Twitter/X).
+ * Раз в SOURCE_MONITOR_INTERVAL_MINUTES проверяет источники, у которых подошёл срок по checkFrequency:
+ * загрузчик отдаёт элементы новее курсора, каждый анализируется так же, как посты Telegram-каналов,
+ * расход LLM пишется на владельца источника. Если квота пользователя исчерпана, источник ждёт следующего цикла.
+ */
+
+import { Op } from 'sequelize';
+import * as cron from 'node-cron';
+import Source, { SourceCheckFrequency } from '../models/Source';
+import SourceItem from '../models/SourceItem';
+import UserInterest from '../models/UserInterest';
+import { getSourceFetcher, isSourceType, SourceFeedItem } from './sources';
+import { processSingleUrlAnalysis } from '../controllers/analysis.controller';
+import { runWithLlmUsageSubject, userUsageSubject, getUsageQuotaStatus } from './llm-usage.service';
+import { emitWebhookEvent } from './webhook.service';
+import { isDigestEnabled } from './digest.service';
+
+const DEFAULT_INTERVAL_MINUTES = 30;
+const NEW_SOURCE_LIMIT = 5; // для нового источника — несколько последних элементов, не весь архив ленты
+const CHECK_LIMIT = 20;
+const RELEVANT_SCORE = 70;
+const SOURCES_PER_RUN = 100;
+
+const FREQUENCY_MS: Record<SourceCheckFrequency, number> = {
+    hourly: 60 * 60 * 1000,
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface RelevantItem {
+    url: string;
+    title: string | null;
+    score: number;
+    verdict: string;
+    analysisHistoryId?: number;
+    summary?: string;
+}
+
+interface SourceCheckResult {
+    analyzed: number;
+    failed: number;
+    relevant: RelevantItem[];
+}
+
+async function getUserInterests(userId: number): Promise<string> {
+    // Теги пользователя (облако смыслов) — приоритет над интересами
+    const { getUserTagsCached } = await import('./semantic.service');
+    const userTags = await getUserTagsCached(userId);
+    const interests = userTags.length > 0
+        ? userTags.map((t) => t.tag)
+        : (await UserInterest.findAll({ where: { userId, isActive: true } })).map((ui) => ui.interest);
+    return interests.join(', ');
+}
+
+async function analyzeItem(source: Source, item: SourceFeedItem, interests: string, result: SourceCheckResult): Promise<void> {
+    const analysis: any = await runWithLlmUsageSubject(
+        userUsageSubject(source.userId),
+        () => processSingleUrlAnalysis(item.url, interests, [], source.userId, 'unread')
+    );
+    const failed = !analysis || analysis.error || analysis.isChannel;
+
+    await SourceItem.create({
+        sourceId: source.id,
+        externalId: item.externalId,
+        url: item.url,
+        title: item.title ? item.title.substring(0, 500) : null,
+        publishedAt: item.publishedAt,
+        status: failed ? 'failed' : 'analyzed',
+        analysisHistoryId: failed ? null : analysis.analysisHistoryId ?? null,
+        error: failed ? (analysis?.isChannel ? 'Ссылка на канал, а не на материал' : analysis?.message || 'Analysis failed') : null,
+    });
+
+    if (failed) {
+        result.failed++;
+        return;
+    }
+    result.analyzed++;
+    if (typeof analysis.score === 'number' && analysis.score >= RELEVANT_SCORE) {
+        result.relevant.push({
+            url: item.url,
+            title: item.title,
+            score: analysis.score,
+            verdict: analysis.verdict || 'Полезно',
+            analysisHistoryId: analysis.analysisHistoryId,
+            summary: analysis.summary,
+        });
+    }
+}
+
+/**
+ * Проверяет один источник: новые элементы старыми вперёд, уже обработанные (source_items) пропускаются.
+ * Квота проверяется перед каждым элементом; сбой анализа останавливает проверку, курсор не уходит дальше записанного.
+ */
+async function checkSource(source: Source): Promise<SourceCheckResult> {
+    const result: SourceCheckResult = { analyzed: 0, failed: 0, relevant: [] };
+    if (!isSourceType(source.type)) {
+        await source.update({ lastCheckedAt: new Date(), lastError: `Unknown source type: ${source.type}` });
+        return result;
+    }
+
+    const quota = await getUsageQuotaStatus(userUsageSubject(source.userId));
+    if (quota.exceeded) {
+        // Возвращаем время прошлой проверки, снятое при захвате, — источник попадёт в следующий цикл
+        await Source.update({ lastCheckedAt: source.lastCheckedAt }, { where: { id: source.id } });
+        console.log(`⏸️ [source-monitor] Source ${source.id} skipped: LLM quota of user ${source.userId} exceeded until ${quota.resetsAt}`);
+        return result;
+    }
+
+    let interruption: { cursor: string | null; error: string | null } | null = null;
+    try {
+        const limit = source.cursor ? CHECK_LIMIT : NEW_SOURCE_LIMIT;
+        const { items, cursor } = await getSourceFetcher(source.type).fetchNew(source.identifier, source.cursor, limit);
+
+        if (items.length > 0) {
+            const known = await SourceItem.findAll({
+                where: { sourceId: source.id, externalId: items.map((item) => item.externalId) },
+                attributes: ['externalId'],
+            });
+            const knownIds = new Set(known.map((item) => item.externalId));
+            const interests = await getUserInterests(source.userId);
+
+            // Курсор — последний элемент, записанный в source_items: после сбоя или исчерпания квоты
+            // остальные элементы дождутся следующей проверки
+            let lastRecorded: string | null = null;
+            for (const item of [...items].reverse()) {
+                if (knownIds.has(item.externalId)) {
+                    lastRecorded = item.externalId;
+                    continue;
+                }
+                if ((await getUsageQuotaStatus(userUsageSubject(source.userId))).exceeded) {
+                    console.log(`⏸️ [source-monitor] Source ${source.id}: LLM quota of user ${source.userId} exceeded, remaining items postponed`);
+                    interruption = { cursor: lastRecorded, error: null };
+                    break;
+                }
+                try {
+                    await analyzeItem(source, item, interests, result);
+                    lastRecorded = item.externalId;
+                } catch (error: any) {
+                    console.error(`❌ [source-monitor] Failed to analyze ${item.url} from source ${source.id}:`, error.message);
+                    interruption = { cursor: lastRecorded, error: `Failed to analyze ${item.url}: ${error.message}` };
+                    break;
+                }
+            }
+        }
+
+        await source.update({
+            cursor: interruption ? interruption.cursor ?? source.cursor : cursor ?? source.cursor,
+            lastCheckedAt: new Date(),
+            lastError: interruption?.error ? interruption.error.substring(0, 1000) : null,
+        });
+    } catch (error: any) {
+        console.error(`❌ [source-monitor] Failed to fetch source ${source.id} (${source.type}: ${source.identifier}):`, error.message);
+        await source.update({ lastCheckedAt: new Date(), lastError: String(error.message).substring(0, 1000) });
+    }
+    return result;
+}
+
+/**
+ * Уведомление в приложении о новых проанализированных элементах
+ */
+async function createInAppNotification(source: Source, result: SourceCheckResult): Promise<void> {
+    try {
+        const { default: AppNotification } = await import('../models/AppNotification');
+        const name = source.title || source.identifier;
+        await AppNotification.create({
+            userId: source.userId,
+            message: result.analyzed === 1
+                ? `Новый материал из «${name}» проанализирован`
+                : `Из «${name}» проанализировано ${result.analyzed} новых материалов`,
+            channelUsername: name.substring(0, 255),
+            analyzedCount: result.analyzed,
+        });
+    } catch (err: any) {
+        console.error(`❌ [source-monitor] Failed to create in-app notification:`, err.message);
+    }
+}
+
+/**
+ * Вебхук source.relevant_items — только если среди новых элементов есть релевантные
+ */
+function notifyWebhooks(source: Source, result: SourceCheckResult): void {
+    if (result.relevant.length === 0) return;
+    emitWebhookEvent(source.userId, 'source.relevant_items', {
+        sourceId: source.id,
+        sourceType: source.type,
+        sourceTitle: source.title,
+        identifier: source.identifier,
+        analyzed: result.analyzed,
+        relevant: result.relevant.length,
+        items: result.relevant,
+    });
+}
+
+async function runSourceCheck(source: Source): Promise<void> {
+    console.log(`🔍 [source-monitor] Checking source ${source.id} (${source.type}: ${source.identifier}) for user ${source.userId}...`);
+    const result = await checkSource(source);
+    if (result.analyzed > 0) {
+        notifyWebhooks(source, result);
+        // С включённым дайджестом новые элементы придут в нём
+        if (!(await isDigestEnabled(source.userId))) await createInAppNotification(source, result);
+    }
+    console.log(`✅ [source-monitor] Source ${source.id}: analyzed ${result.analyzed}, failed ${result.failed}, relevant ${result.relevant.length}`);
+}
+
+/**
+ * Захват источника: другой инстанс мог начать его проверку раньше. Экземпляр source сохраняет прежний lastCheckedAt.
+ */
+async function claimSource(source: Source): Promise<boolean> {
+    const [claimed] = await Source.update(
+        { lastCheckedAt: new Date() },
+        { where: { id: source.id, lastCheckedAt: source.lastCheckedAt } }
+    );
+    return claimed > 0;
+}
+
+let checkRunning = false;
+
+/**
+ * Проверяет все активные источники, у которых подошёл срок проверки
+ */
+export async function checkDueSources(): Promise<void> {
+    if (checkRunning) {
+        console.log('⏭️ [source-monitor] Previous check is still running');
+        return;
+    }
+    checkRunning = true;
+    try {
+        const now = Date.now();
+        const due = await Source.findAll({
+            where: {
+                isActive: true,
+                [Op.or]: [
+                    { lastCheckedAt: null },
+                    ...(Object.keys(FREQUENCY_MS) as SourceCheckFrequency[]).map((frequency) => ({
+                        checkFrequency: frequency,
+                        lastCheckedAt: { [Op.lt]: new Date(now - FREQUENCY_MS[frequency]) },
+                    })),
+                ],
+            },
+            order: [['lastCheckedAt', 'ASC NULLS FIRST']],
+            limit: SOURCES_PER_RUN,
+        });
+        console.log(`📊 [source-monitor] Found ${due.length} sources to check`);
+
+        for (const source of due) {
+            try {
+                if (!(await claimSource(source))) continue;
+                await runSourceCheck(source);
+            } catch (error: any) {
+                console.error(`❌ [source-monitor] Error checking source ${source.id}:`, error.message);
+            }
+        }
+    } catch (error: any) {
+        console.error(`❌ [source-monitor] Error in checkDueSources:`, error.message);
+    } finally {
+        checkRunning = false;
+    }
+}
+
+/**
+ * Проверка источника по запросу пользователя (POST /api/sources/:id/check) — в фоне, результат придёт уведомлением.
+ */
+export function checkSourceNow(source: Source): void {
+    runSourceCheck(source).catch((error: any) => {
+        console.error(`❌ [source-monitor] On-demand check of source ${source.id} failed:`, error.message);
+    });
+}
+
+let cronTask: ReturnType<typeof cron.schedule> | null = null;
+
+export function startSourceMonitoring(intervalMinutes: number = DEFAULT_INTERVAL_MINUTES): void {
+    if (cronTask) {
+        console.log('⚠️ [source-monitor] Monitoring already started');
+        return;
+    }
+
+    // */N в минутном поле cron — только до 59
+    const minutes = Math.min(Math.max(Math.floor(intervalMinutes) || DEFAULT_INTERVAL_MINUTES, 1), 59);
+    const cronExpression = `*/${minutes} * * * *`;
+    console.log(`🔄 [source-monitor] Starting source monitoring (every ${minutes} minutes)`);
+
+    // Первая проверка через 1 минуту после запуска
+    setTimeout(() => {
+        checkDueSources();
+    }, 60000);
+
+    cronTask = cron.schedule(cronExpression, () => {
+        checkDueSources();
+    }, {
+        timezone: 'UTC',
+    });
+
+    console.log(`✅ [source-monitor] Source monitoring started with cron`);
+}
+
+export function stopSourceMonitoring(): void {
+    if (cronTask) {
+        cronTask.stop();
+        cronTask = null;
+        console.log('🛑 [source-monitor] Source monitoring stopped');
+    }
+}
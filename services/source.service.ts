@@ -0,0 +1,170 @@
+/**
+ * Источники подписки: RSS/Atom-ленты, YouTube-каналы, Telegram-каналы и профили Twitter/X.
+ * Управление подписками пользователя; проверку новых элементов выполняет source-monitor.service.
+ */
+
+import Source, { SourceCheckFrequency } from '../models/Source';
+import SourceItem, { SourceItemStatus } from '../models/SourceItem';
+import AnalysisHistory from '../models/AnalysisHistory';
+import { getSourceFetcher, detectSourceType, isSourceType, SourceType, FEED_URL_INVALID } from './sources';
+
+// Коды ошибок (error.message) — контроллер переводит их в HTTP-статусы
+export const SOURCE_NOT_FOUND = 'SOURCE_NOT_FOUND';
+export const SOURCE_INVALID = 'SOURCE_INVALID';
+export const SOURCE_UNREACHABLE = 'SOURCE_UNREACHABLE';
+export const SOURCE_ALREADY_EXISTS = 'SOURCE_ALREADY_EXISTS';
+export const SOURCE_LIMIT_REACHED = 'SOURCE_LIMIT_REACHED';
+
+export const SOURCE_CHECK_FREQUENCIES: SourceCheckFrequency[] = ['hourly', 'daily', 'weekly'];
+
+const MAX_SOURCES_PER_USER = 50;
+
+export interface SourceInput {
+    type?: SourceType;
+    url: string; // URL ленты/страницы/канала или @username
+    title?: string | null;
+    checkFrequency?: SourceCheckFrequency;
+}
+
+export interface SourceUpdateInput {
+    title?: string | null;
+    checkFrequency?: SourceCheckFrequency;
+    isActive?: boolean;
+}
+
+export interface SourceInfo {
+    id: number;
+    type: string;
+    identifier: string;
+    title: string | null;
+    isActive: boolean;
+    checkFrequency: SourceCheckFrequency;
+    cursor: string | null;
+    lastCheckedAt: Date | null;
+    lastError: string | null;
+    createdAt: Date;
+}
+
+export const toSourceInfo = (source: Source): SourceInfo => ({
+    id: source.id,
+    type: source.type,
+    identifier: source.identifier,
+    title: source.title,
+    isActive: source.isActive,
+    checkFrequency: source.checkFrequency,
+    cursor: source.cursor,
+    lastCheckedAt: source.lastCheckedAt,
+    lastError: source.lastError,
+    createdAt: source.createdAt,
+});
+
+const parseTitle = (raw: unknown): string | null =>
+    typeof raw === 'string' && raw.trim() ? raw.trim().substring(0, 255) : null;
+
+export async function findUserSource(userId: number, sourceId: number): Promise<Source> {
+    const source = await Source.findOne({ where: { id: sourceId, userId } });
+    if (!source) throw new Error(SOURCE_NOT_FOUND);
+    return source;
+}
+
+/**
+ * Подписка на источник. Тип без type определяется по URL (t.me, x.com, youtube.com, остальное — RSS).
+ * Лента загружается сразу: неверный URL отклоняется при добавлении, а не при первой проверке.
+ */
+export async function createSource(userId: number, input: SourceInput): Promise<SourceInfo> {
+    const type = input.type ?? detectSourceType(input.url);
+    if (!isSourceType(type)) throw new Error(SOURCE_INVALID);
+
+    let resolved;
+    try {
+        resolved = await getSourceFetcher(type).resolve(input.url);
+    } catch (error: any) {
+        if (error.message === FEED_URL_INVALID) throw new Error(SOURCE_INVALID);
+        console.warn(`⚠️ [Sources] Failed to resolve ${type} source ${input.url}: ${error.message}`);
+        throw new Error(SOURCE_UNREACHABLE);
+    }
+    if (!resolved) throw new Error(SOURCE_INVALID);
+
+    const existing = await Source.findOne({ where: { userId, type, identifier: resolved.identifier } });
+    if (existing) throw new Error(SOURCE_ALREADY_EXISTS);
+    const count = await Source.count({ where: { userId } });
+    if (count >= MAX_SOURCES_PER_USER) throw new Error(SOURCE_LIMIT_REACHED);
+
+    const source = await Source.create({
+        userId,
+        type,
+        identifier: resolved.identifier,
+        title: parseTitle(input.title) ?? parseTitle(resolved.title),
+        checkFrequency: input.checkFrequency ?? 'daily',
+    });
+    console.log(`📡 [Sources] Source ${source.id} (${type}: ${source.identifier}) added for user ${userId}`);
+    return toSourceInfo(source);
+}
+
+export async function listSources(userId: number, type?: SourceType): Promise<SourceInfo[]> {
+    const sources = await Source.findAll({
+        where: { userId, ...(type ? { type } : {}) },
+        order: [['createdAt', 'DESC']],
+    });
+    return sources.map(toSourceInfo);
+}
+
+export async function updateSource(userId: number, sourceId: number, input: SourceUpdateInput): Promise<SourceInfo> {
+    const source = await findUserSource(userId, sourceId);
+    const changes: Partial<{ title: string | null; checkFrequency: SourceCheckFrequency; isActive: boolean }> = {};
+    if (input.title !== undefined) changes.title = parseTitle(input.title);
+    if (input.checkFrequency !== undefined) changes.checkFrequency = input.checkFrequency;
+    if (typeof input.isActive === 'boolean') changes.isActive = input.isActive;
+    await source.update(changes);
+    return toSourceInfo(source);
+}
+
+export async function deleteSource(userId: number, sourceId: number): Promise<void> {
+    const source = await findUserSource(userId, sourceId);
+    await SourceItem.destroy({ where: { sourceId: source.id } });
+    await source.destroy();
+}
+
+/**
+ * Проанализированные элементы источника (новые первыми) с оценкой и вердиктом из истории.
+ */
+export async function listSourceItems(
+    userId: number,
+    sourceId: number,
+    options: { status?: SourceItemStatus; limit: number; offset: number }
+): Promise<{ items: Array<Record<string, unknown>>; total: number }> {
+    const source = await findUserSource(userId, sourceId);
+    const { rows, count } = await SourceItem.findAndCountAll({
+        where: { sourceId: source.id, ...(options.status ? { status: options.status } : {}) },
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: options.limit,
+        offset: options.offset,
+    });
+
+    const historyIds = rows.map((item) => item.analysisHistoryId).filter((id): id is number => id !== null);
+    const history = historyIds.length > 0
+        ? await AnalysisHistory.findAll({ where: { id: historyIds, userId }, attributes: ['id', 'score', 'verdict', 'summary'] })
+        : [];
+    const historyById = new Map(history.map((entry) => [entry.id, entry]));
+
+    return {
+        items: rows.map((item) => {
+            const analysis = item.analysisHistoryId ? historyById.get(item.analysisHistoryId) : undefined;
+            return {
+                id: item.id,
+                externalId: item.externalId,
+                url: item.url,
+                title: item.title,
+                publishedAt: item.publishedAt,
+                status: item.status,
+                error: item.error,
+                analysisHistoryId: item.analysisHistoryId,
+                score: analysis?.score ?? null,
+                verdict: analysis?.verdict ?? null,
+                summary: analysis?.summary ?? null,
+                createdAt: item.createdAt,
+            };
+        }),
+        total: count,
+    };
+}
@@ -0,0 +1,137 @@
+/**
+ * Разбор RSS 2.0 и Atom (в т.ч. YouTube-ленты) и загрузка ленты по URL с защитой от обращения во внутреннюю сеть.
+ */
+
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { resolvePublicHttpUrl, publicRequestAgents } from '../../utils/public-url';
+import { SourceFeedItem, SourceFetchResult } from './source-fetcher';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const USER_AGENT = 'Mozilla/5.0 (compatible; CuratorFeedReader/1.0)';
+
+export const FEED_URL_INVALID = 'FEED_URL_INVALID';
+
+export interface ParsedFeed {
+    title: string | null;
+    items: SourceFeedItem[]; // в порядке документа (обычно новые первыми)
+}
+
+const parseDate = (value: string | undefined): Date | null => {
+    if (!value) return null;
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const cleanText = (value: string | undefined): string | null => {
+    const text = (value || '').replace(/\s+/g, ' ').trim();
+    return text ? text.substring(0, 500) : null;
+};
+
+/**
+ * null — документ не RSS и не Atom.
+ */
+export function parseFeed(xml: string): ParsedFeed | null {
+    const $ = cheerio.load(xml, { xmlMode: true });
+
+    if ($('rss, rdf\\:RDF').length > 0) {
+        const items: SourceFeedItem[] = [];
+        $('item').each((_, element) => {
+            const item = $(element);
+            const url = item.children('link').first().text().trim() || item.children('guid').first().text().trim();
+            if (!/^https?:\/\//i.test(url)) return;
+            items.push({
+                externalId: item.children('guid').first().text().trim() || url,
+                url,
+                title: cleanText(item.children('title').first().text()),
+                publishedAt: parseDate(item.children('pubDate').first().text() || item.children('dc\\:date').first().text()),
+            });
+        });
+        return { title: cleanText($('channel > title').first().text()), items };
+    }
+
+    if ($('feed').length > 0) {
+        const items: SourceFeedItem[] = [];
+        $('entry').each((_, element) => {
+            const entry = $(element);
+            const links = entry.children('link');
+            const alternate = links.filter((__, link) => !$(link).attr('rel') || $(link).attr('rel') === 'alternate').first();
+            const url = (alternate.attr('href') || links.first().attr('href') || '').trim();
+            if (!/^https?:\/\//i.test(url)) return;
+            items.push({
+                externalId: entry.children('id').first().text().trim() || url,
+                url,
+                title: cleanText(entry.children('title').first().text()),
+                publishedAt: parseDate(entry.children('published').first().text() || entry.children('updated').first().text()),
+            });
+        });
+        return { title: cleanText($('feed > title').first().text()), items };
+    }
+
+    return null;
+}
+
+/**
+ * Загружает документ по внешнему URL. Бросает FEED_URL_INVALID для внутренних адресов.
+ * Редиректы проходим сами: каждый Location проверяется так же, как исходный адрес, — иначе публичная лента
+ * могла бы перенаправить сервер во внутреннюю сеть. url в ответе — адрес после редиректов.
+ */
+export async function fetchPublicDocument(rawUrl: string): Promise<{ url: string; body: string }> {
+    let url = await resolvePublicHttpUrl(rawUrl);
+    if (!url) throw new Error(FEED_URL_INVALID);
+
+    for (let redirects = 0; ; redirects++) {
+        const response = await axios.get<string>(url, {
+            ...publicRequestAgents(),
+            timeout: FETCH_TIMEOUT_MS,
+            maxContentLength: MAX_FEED_BYTES,
+            maxRedirects: 0,
+            responseType: 'text',
+            validateStatus: (status) => status >= 200 && status < 400,
+            headers: { 'User-Agent': USER_AGENT, 'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, text/html;q=0.8' },
+        });
+        if (response.status < 300) return { url, body: String(response.data) };
+
+        const location = response.headers.location;
+        if (typeof location !== 'string' || !location) throw new Error(`HTTP ${response.status} without Location: ${url}`);
+        if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects: ${rawUrl}`);
+        url = await resolvePublicHttpUrl(new URL(location, url).toString());
+        if (!url) throw new Error(FEED_URL_INVALID);
+    }
+}
+
+/**
+ * Ссылка на ленту из HTML-страницы (<link rel="alternate" type="application/rss+xml">) — блоги, Substack.
+ */
+export function discoverFeedUrl(html: string, pageUrl: string): string | null {
+    const $ = cheerio.load(html);
+    const href = $('link[rel="alternate"][type="application/rss+xml"], link[rel="alternate"][type="application/atom+xml"]').first().attr('href');
+    if (!href) return null;
+    try {
+        return new URL(href, pageUrl).toString();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Элементы ленты новее курсора (GUID последнего обработанного). Если курсор выпал из ленты — отдаём всю ленту,
+ * повторный анализ отсекается по source_items. Когда новых больше limit, берём самые старые из них и курсор
+ * ставим на последний отданный: остальные придут со следующей проверкой. Новый источник (без курсора)
+ * начинает с самых свежих.
+ */
+export function sliceFeedAfterCursor(feed: ParsedFeed, cursor: string | null, limit: number): SourceFetchResult {
+    const sorted = [...feed.items].sort((a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0));
+    const cursorIndex = cursor ? sorted.findIndex((item) => item.externalId === cursor) : -1;
+    const fresh = cursorIndex >= 0 ? sorted.slice(0, cursorIndex) : sorted;
+    if (!cursor || fresh.length <= limit) {
+        return {
+            items: fresh.slice(0, limit),
+            cursor: sorted[0]?.externalId ?? null,
+        };
+    }
+    const items = fresh.slice(fresh.length - limit);
+    return { items, cursor: items[0].externalId };
+}
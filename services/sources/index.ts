@@ -0,0 +1,39 @@
+/**
+ * Загрузчики источников подписки по типу.
+ * Чтобы добавить тип: создать <type>.fetcher.ts с фабрикой create<Type>Fetcher, добавить тип в SOURCE_TYPES
+ * и зарегистрировать фабрику здесь.
+ */
+
+import { SourceFetcher, SourceType } from './source-fetcher';
+import { createRssFetcher } from './rss.fetcher';
+import { createYoutubeFetcher } from './youtube.fetcher';
+import { createTelegramFetcher } from './telegram.fetcher';
+import { createTwitterFetcher } from './twitter.fetcher';
+
+export { SOURCE_TYPES, isSourceType } from './source-fetcher';
+export type { SourceType, SourceFetcher, SourceFeedItem, ResolvedSource } from './source-fetcher';
+export { FEED_URL_INVALID } from './feed-parser';
+
+const fetchers: Record<SourceType, SourceFetcher> = {
+    rss: createRssFetcher(),
+    youtube: createYoutubeFetcher(),
+    telegram: createTelegramFetcher(),
+    twitter: createTwitterFetcher(),
+};
+
+export function getSourceFetcher(type: SourceType): SourceFetcher {
+    return fetchers[type];
+}
+
+/**
+ * Тип источника по вводу пользователя, если он не указан явно. Голый @username — Telegram-канал (для X нужен type: twitter),
+ * всё, что не Telegram, X и YouTube, — RSS.
+ */
+export function detectSourceType(input: string): SourceType {
+    const trimmed = input.trim().toLowerCase();
+    if (trimmed.startsWith('@')) return 'telegram';
+    if (/^(https?:\/\/)?(t\.me|telegram\.me)\//.test(trimmed)) return 'telegram';
+    if (/^(https?:\/\/)?(www\.|mobile\.)?(twitter\.com|x\.com)\//.test(trimmed)) return 'twitter';
+    if (/^(https?:\/\/)?(www\.|m\.)?youtube\.com\//.test(trimmed)) return 'youtube';
+    return 'rss';
+}
@@ -0,0 +1,32 @@
+/**
+ * RSS/Atom-ленты блогов и рассылок (Substack, Medium, Habr...). Принимает URL ленты или страницы сайта —
+ * для страницы ищется <link rel="alternate"> на ленту.
+ */
+
+import { SourceFetcher } from './source-fetcher';
+import { parseFeed, fetchPublicDocument, discoverFeedUrl, sliceFeedAfterCursor, FEED_URL_INVALID } from './feed-parser';
+
+export function createRssFetcher(): SourceFetcher {
+    return {
+        type: 'rss',
+        async resolve(input) {
+            if (!/^https?:\/\//i.test(input.trim())) return null;
+            const page = await fetchPublicDocument(input.trim());
+            const feed = parseFeed(page.body);
+            if (feed) return { identifier: page.url, title: feed.title };
+
+            const feedUrl = discoverFeedUrl(page.body, page.url);
+            if (!feedUrl) throw new Error(FEED_URL_INVALID);
+            const discovered = await fetchPublicDocument(feedUrl);
+            const discoveredFeed = parseFeed(discovered.body);
+            if (!discoveredFeed) throw new Error(FEED_URL_INVALID);
+            return { identifier: discovered.url, title: discoveredFeed.title };
+        },
+        async fetchNew(identifier, cursor, limit) {
+            const { body } = await fetchPublicDocument(identifier);
+            const feed = parseFeed(body);
+            if (!feed) throw new Error(`Not an RSS/Atom feed: ${identifier}`);
+            return sliceFeedAfterCursor(feed, cursor, limit);
+        },
+    };
+}
@@ -0,0 +1,44 @@
+/**
+ * Контракт загрузчика источника подписки (RSS/Atom, YouTube, Telegram, Twitter/X).
+ * Загрузчик разбирает ввод пользователя в идентификатор источника и отдаёт элементы новее курсора.
+ * Курсор — строка, смысл которой знает только загрузчик: GUID последнего элемента ленты, id сообщения или твита.
+ */
+
+export const SOURCE_TYPES = ['rss', 'youtube', 'telegram', 'twitter'] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
+export interface ResolvedSource {
+    identifier: string; // URL ленты, id YouTube-канала или username
+    title: string | null;
+}
+
+export interface SourceFeedItem {
+    externalId: string; // GUID / id сообщения / id твита — уникален в пределах источника
+    url: string;
+    title: string | null;
+    publishedAt: Date | null;
+}
+
+export interface SourceFetchResult {
+    items: SourceFeedItem[]; // новее курсора, новые первыми
+    cursor: string | null; // новый курсор (null — оставить прежний)
+}
+
+export interface SourceFetcher {
+    type: SourceType;
+    /** Разбирает URL или @username; null — ввод не относится к этому типу источника */
+    resolve(input: string): Promise<ResolvedSource | null>;
+    fetchNew(identifier: string, cursor: string | null, limit: number): Promise<SourceFetchResult>;
+}
+
+export function isSourceType(value: unknown): value is SourceType {
+    return typeof value === 'string' && (SOURCE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Сравнение числовых id произвольной длины (id твитов не помещаются в Number).
+ */
+export function compareNumericIds(a: string, b: string): number {
+    if (a.length !== b.length) return a.length - b.length;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
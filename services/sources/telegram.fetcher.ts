@@ -0,0 +1,46 @@
+/**
+ * Публичные Telegram-каналы через getChannelPosts (веб-версия t.me/s/). Курсор — id последнего сообщения.
+ * Посты без ссылки пропускаются, как и в telegram-channel-monitor.
+ */
+
+import { getChannelPosts } from '../telegram-channel.service';
+import { SourceFetcher } from './source-fetcher';
+
+const USERNAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{3,31}$/;
+
+export function createTelegramFetcher(): SourceFetcher {
+    return {
+        type: 'telegram',
+        async resolve(input) {
+            const trimmed = input.trim();
+            const match = trimmed.match(/^(?:https?:\/\/)?(?:t\.me|telegram\.me)\/(?:s\/)?([^/?#]+)\/?$/i);
+            const username = (match ? match[1] : trimmed).replace(/^@/, '');
+            if (!match && !trimmed.startsWith('@')) return null;
+            if (!USERNAME_PATTERN.test(username)) return null;
+            return { identifier: username.toLowerCase(), title: `@${username}` };
+        },
+        async fetchNew(identifier, cursor, limit) {
+            const sinceMessageId = cursor ? Number(cursor) : undefined;
+            const posts = (await getChannelPosts(identifier, limit + 5, sinceMessageId))
+                .filter((post) => !sinceMessageId || post.messageId > sinceMessageId)
+                .sort((a, b) => a.messageId - b.messageId);
+            const withUrl = posts.filter((post) => !!post.url);
+            // С курсором — самые старые новые посты, курсор на последнем отданном: остальные придут со следующей
+            // проверкой. Без курсора (новый источник) — самые свежие.
+            const taken = sinceMessageId ? withUrl.slice(0, limit) : withUrl.slice(-limit);
+            const deferred = sinceMessageId && withUrl.length > limit;
+            const last = deferred ? taken[taken.length - 1].messageId : posts.length > 0 ? posts[posts.length - 1].messageId : 0;
+            return {
+                items: taken
+                    .reverse()
+                    .map((post) => ({
+                        externalId: String(post.messageId),
+                        url: post.url as string,
+                        title: post.text ? post.text.substring(0, 200) : null,
+                        publishedAt: post.date,
+                    })),
+                cursor: last > 0 ? String(last) : null,
+            };
+        },
+    };
+}
@@ -0,0 +1,37 @@
+/**
+ * Профили Twitter/X через ContentService.getTwitterProfilePosts. Курсор — id последнего твита.
+ */
+
+import contentService from '../content.service';
+import { SourceFetcher, compareNumericIds } from './source-fetcher';
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+
+export function createTwitterFetcher(): SourceFetcher {
+    return {
+        type: 'twitter',
+        async resolve(input) {
+            const trimmed = input.trim();
+            const match = trimmed.match(/^(?:https?:\/\/)?(?:www\.|mobile\.)?(?:twitter\.com|x\.com)\/([^/?#]+)\/?(?:[?#].*)?$/i);
+            const username = (match ? match[1] : trimmed).replace(/^@/, '');
+            if (!match && !trimmed.startsWith('@')) return null;
+            if (!USERNAME_PATTERN.test(username) || username.toLowerCase() === 'i') return null;
+            return { identifier: username.toLowerCase(), title: `@${username}` };
+        },
+        async fetchNew(identifier, cursor, limit) {
+            const posts = await contentService.getTwitterProfilePosts(identifier, limit);
+            const items = posts
+                .map((post) => ({ post, id: post.url.match(/\/status\/(\d+)/)?.[1] }))
+                .filter((entry): entry is { post: { url: string; text?: string }; id: string } => !!entry.id)
+                .filter((entry) => !cursor || compareNumericIds(entry.id, cursor) > 0)
+                .sort((a, b) => compareNumericIds(b.id, a.id))
+                .map(({ post, id }) => ({
+                    externalId: id,
+                    url: post.url,
+                    title: post.text ? post.text.substring(0, 200) : null,
+                    publishedAt: null,
+                }));
+            return { items, cursor: items[0]?.externalId ?? null };
+        },
+    };
+}
@@ -0,0 +1,56 @@
+/**
+ * YouTube-каналы через публичную Atom-ленту (последние ~15 видео, без API-ключа).
+ * Принимает /channel/UC..., /@handle, /c/name, /user/name или ссылку на ленту; идентификатор — id канала.
+ */
+
+import { SourceFetcher } from './source-fetcher';
+import { parseFeed, fetchPublicDocument, sliceFeedAfterCursor, FEED_URL_INVALID } from './feed-parser';
+
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+const feedUrl = (channelId: string): string => `https://www.youtube.com/feeds/videos.xml?channel_id=${channelId}`;
+
+function parseChannelId(url: URL): string | null {
+    const fromQuery = url.searchParams.get('channel_id');
+    if (fromQuery && CHANNEL_ID_PATTERN.test(fromQuery)) return fromQuery;
+    const match = url.pathname.match(/^\/channel\/(UC[\w-]{22})/);
+    return match ? match[1] : null;
+}
+
+export function createYoutubeFetcher(): SourceFetcher {
+    return {
+        type: 'youtube',
+        async resolve(input) {
+            const trimmed = input.trim();
+            let url: URL;
+            try {
+                url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://www.youtube.com/${trimmed.startsWith('@') ? trimmed : `@${trimmed}`}`);
+            } catch {
+                return null;
+            }
+            const host = url.hostname.toLowerCase().replace(/^(www\.|m\.)/, '');
+            if (host !== 'youtube.com') return null;
+
+            // Для @handle, /c/ и /user/ id канала есть только в HTML страницы
+            let channelId = parseChannelId(url);
+            if (!channelId) {
+                const page = await fetchPublicDocument(url.toString());
+                const match = page.body.match(/"(?:channelId|externalId)":"(UC[\w-]{22})"/)
+                    || page.body.match(/youtube\.com\/channel\/(UC[\w-]{22})/);
+                channelId = match ? match[1] : null;
+            }
+            if (!channelId) throw new Error(FEED_URL_INVALID);
+
+            const { body } = await fetchPublicDocument(feedUrl(channelId));
+            const feed = parseFeed(body);
+            if (!feed) throw new Error(FEED_URL_INVALID);
+            return { identifier: channelId, title: feed.title };
+        },
+        async fetchNew(identifier, cursor, limit) {
+            const { body } = await fetchPublicDocument(feedUrl(identifier));
+            const feed = parseFeed(body);
+            if (!feed) throw new Error(`YouTube feed unavailable for channel ${identifier}`);
+            return sliceFeedAfterCursor(feed, cursor, limit);
+        },
+    };
+}
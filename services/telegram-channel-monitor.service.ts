@@ -1,196 +1,333 @@
 import TelegramChannel from '../models/TelegramChannel';
 import TelegramChannelPost from '../models/TelegramChannelPost';
+import TelegramSharedPost from '../models/TelegramSharedPost';
+import TelegramChannelCheck, { ChannelCheckTrigger } from '../models/TelegramChannelCheck';
 import User from '../models/User';
-import { getChannelPosts } from './telegram-channel.service';
 import { Op } from 'sequelize';
 import UserInterest from '../models/UserInterest';
-import { processSingleUrlAnalysis } from '../controllers/analysis.controller';
+import { runFullAnalysisPipeline } from './analysis-pipeline.service';
+import { runWithLlmUsageSubject, userUsageSubject } from './llm-usage.service';
+import { fetchSharedChannelPosts, prepareSharedPost, SHARED_POST_RETRY, recordSharedPostAnalysis, normalizeChannelUsername, pruneSharedPosts, getChannelPostsPerDay } from './telegram-shared-post.service';
+import { DEFAULT_MIN_SCORE, DEFAULT_MAX_POSTS_PER_CHECK, normalizeChannelFilters, compileChannelFilters, getPostSkipReason, isInQuietHours } from './channel-filters';
 import * as cron from 'node-cron';
+import { emitWebhookEvent } from './webhook.service';
+import { isDigestEnabled } from './digest.service';
+import { computeNextCheckAt, backoffDelayMs } from './channel-schedule';
 
 /**
  * Сервис для периодического мониторинга Telegram-каналов
- * Анализирует новые посты из каналов и отправляет уведомления пользователям
+ * Каждый канал скачивается один раз за цикл в общий стор постов (telegram-shared-post.service):
+ * извлечение, темы, саммари и эмбеддинг считаются один раз на пост, а для каждого подписчика —
+ * только оценка релевантности и сравнение с его облаком смыслов. Затем пользователям отправляются уведомления.
+ * Настройки канала (services/channel-filters): фильтры по тексту, репостам и рекламе применяются до вызовов LLM,
+ * порог minScore определяет релевантные посты, в тихие часы плановая проверка канала откладывается.
+ * Если у пользователя включён дайджест (digest.service), уведомления по каналу не отправляются — только вебхуки.
+ * Цикл идёт каждые несколько минут и берёт подписки, у которых подошло next_check_at: срок задаёт расписание
+ * подписки (services/channel-schedule), а после неудачных скачиваний — экспоненциальная задержка.
+ * Каждая проверка пишется в telegram_channel_checks, чтобы пользователь видел, почему канал не обновляется.
  */
 
 interface AnalysisResult {
+    postsFound: number; // новых постов новее курсора
+    postsFiltered: number; // из них отсеяно фильтрами канала
     analyzed: number;
     relevant: number;
-    relevantPosts: Array<{ url: string; score: number; verdict: string }>;
+    relevantPosts: RelevantPost[];
 }
 
+interface RelevantPost {
+    url: string;
+    score: number;
+    verdict: string;
+    analysisHistoryId?: number;
+    summary?: string;
+}
+
+const NEW_CHANNEL_POST_LIMIT = 6; // Для нового канала — 5-6 постов, для проверки — maxPostsPerCheck
+const FETCH_BUFFER = 5; // Буфер для выборки
+const CHECK_LOG_RETENTION_DAYS = 30;
+const MAX_ERROR_LENGTH = 1000;
+
+const lastMessageIdOf = (channel: TelegramChannel): number => Number(channel.lastPostMessageId) || 0;
+const maxPostsOf = (channel: TelegramChannel): number => channel.maxPostsPerCheck ?? DEFAULT_MAX_POSTS_PER_CHECK;
+
 /**
- * Анализирует новые посты из канала для пользователя
+ * Интересы пользователя: теги (облако смыслов) — приоритет над интересами
  */
-async function analyzeChannelForUser(
+async function getUserInterests(userId: number): Promise<string> {
+    const { getUserTagsCached } = await import('./semantic.service');
+    const userTags = await getUserTagsCached(userId);
+    const interests = userTags.length > 0
+        ? userTags.map(t => t.tag)
+        : (await UserInterest.findAll({ where: { userId, isActive: true } })).map(ui => ui.interest);
+    return interests.join(', ');
+}
+
+/**
+ * Оценивает для подписчика общие посты канала новее его курсора. Контент и темы поста берутся из общего стора,
+ * LLM-расход оценки пишется на подписчика. Посты, отсеянные фильтрами канала, не анализируются, но курсор их проходит.
+ */
+async function scoreSharedPostsForSubscriber(
     channel: TelegramChannel,
-    userId: number
+    sharedPosts: TelegramSharedPost[]
 ): Promise<AnalysisResult> {
-    const user = await User.findByPk(userId);
-    if (!user) {
-        throw new Error(`User ${userId} not found`);
+    const userId = channel.userId;
+    const cursor = lastMessageIdOf(channel);
+    const limit = cursor ? maxPostsOf(channel) : Math.min(NEW_CHANNEL_POST_LIMIT, maxPostsOf(channel));
+    const minScore = channel.minScore ?? DEFAULT_MIN_SCORE;
+    const filters = compileChannelFilters(normalizeChannelFilters(channel.filters));
+    // Новый канал — последние посты; дальше — по порядку от курсора, чтобы посты сверх лимита дождались следующей проверки
+    const newPosts = sharedPosts
+        .filter(post => Number(post.messageId) > cursor)
+        .sort((a, b) => cursor ? Number(a.messageId) - Number(b.messageId) : Number(b.messageId) - Number(a.messageId));
+
+    if (newPosts.length === 0) {
+        console.log(`ℹ️ [telegram-channel-monitor] No new posts found for channel @${channel.channelUsername} (user ${userId})`);
+        return { postsFound: 0, postsFiltered: 0, analyzed: 0, relevant: 0, relevantPosts: [] };
     }
 
-    // Получаем новые посты
-    const isNewChannel = !channel.lastPostMessageId;
-    const limit = isNewChannel ? 6 : 20; // Для нового канала — 5-6 постов, для проверки — до 20
-    const posts = (await getChannelPosts(
-        channel.channelUsername,
-        limit + 5, // Буфер для выборки
-        channel.lastPostMessageId || undefined
-    )).slice(0, limit);
+    // Фильтры канала — по тексту поста, до извлечения контента и LLM
+    const passedPosts = newPosts.filter(post => {
+        const skipReason = getPostSkipReason({ text: post.postText, isRepost: post.isRepost }, filters);
+        if (skipReason) {
+            console.log(`⏭️ [telegram-channel-monitor] Post ${post.messageId} of @${channel.channelUsername} skipped for user ${userId}: ${skipReason}`);
+        }
+        return !skipReason;
+    });
+    const posts = passedPosts.slice(0, limit);
 
-    if (posts.length === 0) {
-        console.log(`ℹ️ [telegram-channel-monitor] No new posts found for channel @${channel.channelUsername} (user ${userId})`);
-        return { analyzed: 0, relevant: 0, relevantPosts: [] };
+    // Курсор проходит проанализированные и отсеянные посты, но не дальше первого отложенного по лимиту
+    const firstDeferred = cursor && passedPosts.length > limit ? Number(passedPosts[limit].messageId) : null;
+    const coveredPosts = firstDeferred === null ? newPosts : newPosts.filter(post => Number(post.messageId) < firstDeferred);
+    if (firstDeferred !== null) {
+        console.log(`⏳ [telegram-channel-monitor] @${channel.channelUsername} (user ${userId}): ${passedPosts.length - limit} posts over the limit deferred to the next check`);
     }
 
     let analyzed = 0;
     let relevant = 0;
-    const relevantPosts: Array<{ url: string; score: number; verdict: string }> = [];
-    let lastMessageId = channel.lastPostMessageId || 0;
-
-    // Получаем теги пользователя (облако смыслов) — приоритет над интересами
-    const { getUserTagsCached } = await import('./semantic.service');
-    const userTags = await getUserTagsCached(userId);
-    const interests = userTags.length > 0
-        ? userTags.map(t => t.tag)
-        : (await UserInterest.findAll({ where: { userId, isActive: true } })).map(ui => ui.interest);
+    const relevantPosts: RelevantPost[] = [];
+    let retryFrom: number | null = null; // пост, подготовка которого будет повторена: курсор останавливается перед ним
+    const interests = posts.length > 0 ? await getUserInterests(userId) : '';
 
     // Анализируем каждый пост
     for (const post of posts) {
+        const messageId = Number(post.messageId);
         try {
-            // Проверяем, не анализировали ли мы уже этот пост
-            const existingPost = await TelegramChannelPost.findOne({
-                where: {
-                    channelId: channel.id,
-                    messageId: post.messageId
-                }
-            });
-
-            if (existingPost && existingPost.analysisHistoryId) {
-                continue; // Уже анализировали
-            }
-
-            // Если есть URL поста, анализируем его
-            if (post.url) {
-                try {
-                    // Сохраняем пост сначала
-                    let channelPost = await TelegramChannelPost.findOne({
-                        where: {
-                            channelId: channel.id,
-                            messageId: post.messageId
-                        }
-                    });
-
-                    if (!channelPost) {
-                        channelPost = await TelegramChannelPost.create({
-                            channelId: channel.id,
-                            messageId: post.messageId,
-                            postUrl: post.url,
-                            postText: post.text
+            if (post.postUrl) {
+                // Сохраняем пост подписчика сначала
+                const [channelPost] = await TelegramChannelPost.findOrCreate({
+                    where: { channelId: channel.id, messageId },
+                    defaults: { channelId: channel.id, messageId, postUrl: post.postUrl, postText: post.postText },
+                });
+
+                // Если уже есть анализ, пропускаем
+                if (!channelPost.analysisHistoryId) {
+                    try {
+                        const result = await runWithLlmUsageSubject(userUsageSubject(userId), async () => {
+                            // Извлечение и темы — один раз на пост для всех подписчиков
+                            const prepared = await prepareSharedPost(post);
+                            if (!prepared) return null;
+                            // Режим 'unread' (стоит ли читать), feedbackHistory пустой для автоматического анализа
+                            return runFullAnalysisPipeline(
+                                { type: 'url', url: post.postUrl! },
+                                { interests, userId, mode: 'unread', feedbackHistory: [], prepared }
+                            );
                         });
-                    }
-
-                    // Если уже есть анализ, пропускаем
-                    if (channelPost.analysisHistoryId) {
-                        continue;
-                    }
 
-                    // Анализируем пост через внутренний вызов
-                    // Используем режим 'unread' (стоит ли читать)
-                    try {
-                        // Преобразуем массив интересов в строку (формат, который ожидает функция)
-                        const interestsString = interests.join(', ');
-
-                        const analysisResult = await processSingleUrlAnalysis(
-                            post.url,
-                            interestsString,
-                            [], // feedbackHistory - пустой массив для автоматического анализа
-                            userId,
-                            'unread'
-                        );
-
-                        // Проверяем, что анализ успешен и не содержит ошибок
-                        if (analysisResult && !('error' in analysisResult && analysisResult.error)) {
-                            const result = analysisResult as any;
-                            
-                            if (result.analysisHistoryId) {
-                                // Обновляем пост с ID анализа
-                                await channelPost.update({
-                                    analysisHistoryId: result.analysisHistoryId
+                        if (result && !result.error && result.analysisHistoryId) {
+                            await recordSharedPostAnalysis(post, result);
+                            await channelPost.update({ analysisHistoryId: result.analysisHistoryId });
+                            analyzed++;
+
+                            // Релевантен, если оценка не ниже порога канала
+                            if (typeof result.score === 'number' && result.score >= minScore) {
+                                relevant++;
+                                relevantPosts.push({
+                                    url: post.postUrl,
+                                    score: result.score,
+                                    verdict: result.verdict || 'Полезно',
+                                    analysisHistoryId: result.analysisHistoryId,
+                                    summary: result.summary,
                                 });
-
-                                analyzed++;
-
-                                // Если оценка высокая (>= 70), считаем релевантным
-                                const score = result.score;
-                                const verdict = result.verdict;
-                                
-                                if (score && typeof score === 'number' && score >= 70) {
-                                    relevant++;
-                                    relevantPosts.push({
-                                        url: post.url,
-                                        score: score,
-                                        verdict: verdict || 'Полезно'
-                                    });
-                                }
                             }
                         }
                     } catch (analysisError: any) {
-                        console.error(`❌ [telegram-channel-monitor] Failed to analyze post ${post.messageId}:`, analysisError.message);
+                        if (analysisError.message === SHARED_POST_RETRY) {
+                            console.log(`⏳ [telegram-channel-monitor] Post ${messageId} of @${channel.channelUsername} postponed for user ${userId}: temporary preparation failure`);
+                            retryFrom = messageId;
+                            break;
+                        }
+                        console.error(`❌ [telegram-channel-monitor] Failed to analyze post ${messageId}:`, analysisError.message);
                         // Продолжаем обработку других постов
                     }
-                } catch (error: any) {
-                    console.error(`❌ [telegram-channel-monitor] Failed to process post ${post.messageId}:`, error.message);
                 }
             }
-
-            if (post.messageId > lastMessageId) {
-                lastMessageId = post.messageId;
-            }
         } catch (error: any) {
-            console.error(`❌ [telegram-channel-monitor] Error processing post ${post.messageId}:`, error.message);
+            console.error(`❌ [telegram-channel-monitor] Error processing post ${messageId}:`, error.message);
         }
     }
 
+    const coveredUpTo = Math.max(cursor, ...coveredPosts.map(post => Number(post.messageId)));
+    const lastMessageId = retryFrom === null ? coveredUpTo : Math.max(cursor, Math.min(coveredUpTo, retryFrom - 1));
+
     // Обновляем информацию о последней проверке
     await channel.update({
         lastCheckedAt: new Date(),
         lastPostMessageId: lastMessageId
     });
 
-    return { analyzed, relevant, relevantPosts };
+    return {
+        postsFound: newPosts.length,
+        postsFiltered: newPosts.length - passedPosts.length,
+        analyzed,
+        relevant,
+        relevantPosts,
+    };
+}
+
+/**
+ * Скачивает канал один раз для группы подписок на него — с самого старого курсора среди подписчиков.
+ * Если среди них есть новый подписчик (без курсора), берутся последние посты канала.
+ */
+async function fetchPostsForSubscribers(channelUsername: string, subscriptions: TelegramChannel[]): Promise<TelegramSharedPost[]> {
+    const cursors = subscriptions.map(lastMessageIdOf).filter(id => id > 0);
+    const sinceMessageId = cursors.length === subscriptions.length ? Math.min(...cursors) : undefined;
+    const limit = (cursors.length > 0 ? Math.max(...subscriptions.map(maxPostsOf)) : NEW_CHANNEL_POST_LIMIT) + FETCH_BUFFER;
+    return fetchSharedChannelPosts(channelUsername, limit, sinceMessageId);
+}
+
+async function notifySubscriber(channel: TelegramChannel, result: AnalysisResult, sendTelegram: boolean): Promise<void> {
+    if (result.analyzed === 0) return;
+    notifyWebhooks(channel, channel.userId, result);
+    // С включённым дайджестом релевантные посты придут в нём — без отдельных уведомлений по каналу
+    if (await isDigestEnabled(channel.userId)) return;
+    // Уведомление в приложении
+    await createInAppNotification(channel.userId, channel.channelUsername, result);
+    // Уведомление в Telegram (если привязан)
+    if (sendTelegram) await sendNotification(channel.userId, channel.channelUsername, result);
+}
+
+/**
+ * Успешная проверка: сбрасываем счётчик ошибок и планируем следующую проверку по расписанию подписки
+ */
+async function markCheckSucceeded(channel: TelegramChannel, checkedAt: Date, postsPerDay: number | null): Promise<Date> {
+    const nextCheckAt = computeNextCheckAt(channel, checkedAt, postsPerDay);
+    await channel.update({ lastCheckedAt: checkedAt, nextCheckAt, consecutiveFailures: 0, lastError: null });
+    return nextCheckAt;
+}
+
+/**
+ * Неудачная проверка: откладываем подписку с нарастающей задержкой (15 мин, 30 мин, 1 ч … до суток)
+ */
+async function markCheckFailed(channel: TelegramChannel, error: string): Promise<Date> {
+    const consecutiveFailures = channel.consecutiveFailures + 1;
+    const nextCheckAt = new Date(Date.now() + backoffDelayMs(consecutiveFailures));
+    await channel.update({ consecutiveFailures, lastError: error, nextCheckAt });
+    return nextCheckAt;
+}
+
+async function recordCheck(
+    channel: TelegramChannel,
+    trigger: ChannelCheckTrigger,
+    startedAt: number,
+    nextCheckAt: Date,
+    outcome: { result: AnalysisResult } | { error: string }
+): Promise<void> {
+    try {
+        const result = 'result' in outcome ? outcome.result : null;
+        await TelegramChannelCheck.create({
+            channelId: channel.id,
+            trigger,
+            status: result ? 'success' : 'failed',
+            durationMs: Date.now() - startedAt,
+            postsFound: result?.postsFound ?? 0,
+            postsFiltered: result?.postsFiltered ?? 0,
+            analyzed: result?.analyzed ?? 0,
+            relevant: result?.relevant ?? 0,
+            error: 'error' in outcome ? outcome.error : null,
+            nextCheckAt,
+        });
+    } catch (error: any) {
+        console.error(`❌ [telegram-channel-monitor] Failed to record check of @${channel.channelUsername}:`, error.message);
+    }
+}
+
+/**
+ * Проверка одной подписки по уже скачанным постам канала: оценка, уведомления, расписание и запись в журнал
+ */
+async function checkSubscription(
+    channel: TelegramChannel,
+    sharedPosts: TelegramSharedPost[],
+    options: { trigger: ChannelCheckTrigger; startedAt: number; postsPerDay: number | null }
+): Promise<AnalysisResult | null> {
+    try {
+        const result = await scoreSharedPostsForSubscriber(channel, sharedPosts);
+        const nextCheckAt = await markCheckSucceeded(channel, new Date(), options.postsPerDay);
+        await recordCheck(channel, options.trigger, options.startedAt, nextCheckAt, { result });
+        await notifySubscriber(channel, result, options.trigger === 'scheduled');
+        return result;
+    } catch (error: any) {
+        console.error(`❌ [telegram-channel-monitor] Error checking channel @${channel.channelUsername} for user ${channel.userId}:`, error.message);
+        await failSubscription(channel, options.trigger, options.startedAt, error);
+        return null;
+    }
+}
+
+async function failSubscription(channel: TelegramChannel, trigger: ChannelCheckTrigger, startedAt: number, error: any): Promise<void> {
+    const message = String(error?.message || error).slice(0, MAX_ERROR_LENGTH);
+    try {
+        const nextCheckAt = await markCheckFailed(channel, message);
+        await recordCheck(channel, trigger, startedAt, nextCheckAt, { error: message });
+        console.log(`⏳ [telegram-channel-monitor] @${channel.channelUsername} (user ${channel.userId}): ${channel.consecutiveFailures} failure(s) in a row, next attempt at ${nextCheckAt.toISOString()}`);
+    } catch (updateError: any) {
+        console.error(`❌ [telegram-channel-monitor] Failed to postpone @${channel.channelUsername}:`, updateError.message);
+    }
 }
 
 /**
- * Проверяет все активные каналы и анализирует новые посты
+ * Частота публикаций нужна только подпискам с адаптивным расписанием
+ */
+async function postsPerDayFor(username: string, subscriptions: TelegramChannel[]): Promise<number | null> {
+    if (!subscriptions.some(channel => channel.schedule?.type === 'adaptive')) return null;
+    try {
+        return await getChannelPostsPerDay(username);
+    } catch (error: any) {
+        console.error(`❌ [telegram-channel-monitor] Failed to estimate posting rate of @${username}:`, error.message);
+        return null;
+    }
+}
+
+/**
+ * Удаляет старые записи журнала проверок
+ */
+async function pruneChannelChecks(): Promise<number> {
+    const cutoff = new Date(Date.now() - CHECK_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    // @ts-ignore - createdAt exists as readonly property
+    return TelegramChannelCheck.destroy({ where: { createdAt: { [Op.lt]: cutoff } } });
+}
+
+let checkRunning = false;
+
+/**
+ * Проверяет активные подписки, у которых подошёл срок проверки, и анализирует новые посты
  */
 export async function checkAllChannels(): Promise<void> {
+    if (checkRunning) {
+        console.log('⏭️ [telegram-channel-monitor] Previous check is still in progress');
+        return;
+    }
+    checkRunning = true;
     try {
         console.log('🔍 [telegram-channel-monitor] Starting channel check...');
 
-        // Находим все активные каналы, которые нужно проверить
+        // Находим активные подписки, срок проверки которых подошёл (next_check_at пуст — ещё не проверялась)
         const now = new Date();
-        const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-
         const channelsToCheck = await TelegramChannel.findAll({
             where: {
                 isActive: true,
                 [Op.or]: [
-                    { lastCheckedAt: null },
-                    { 
-                        [Op.and]: [
-                            { checkFrequency: 'daily' },
-                            { lastCheckedAt: { [Op.lt]: oneDayAgo } }
-                        ]
-                    },
-                    {
-                        [Op.and]: [
-                            { checkFrequency: 'weekly' },
-                            { lastCheckedAt: { [Op.lt]: oneWeekAgo } }
-                        ]
-                    }
+                    { nextCheckAt: null },
+                    { nextCheckAt: { [Op.lte]: now } }
                 ]
             },
             include: [{
@@ -199,39 +336,66 @@ export async function checkAllChannels(): Promise<void> {
             }]
         });
 
-        console.log(`📊 [telegram-channel-monitor] Found ${channelsToCheck.length} channels to check`);
+        // В тихие часы подписки проверка откладывается до следующего цикла
+        const quietChannels = channelsToCheck.filter(channel => isInQuietHours(channel.quietHours ?? null));
+        if (quietChannels.length > 0) {
+            console.log(`🔕 [telegram-channel-monitor] ${quietChannels.length} subscriptions postponed: quiet hours`);
+        }
+
+        // Один канал — одно скачивание, сколько бы ни было подписчиков
+        const subscriptionsByChannel = new Map<string, TelegramChannel[]>();
+        for (const channel of channelsToCheck) {
+            if (quietChannels.includes(channel)) continue;
+            const username = normalizeChannelUsername(channel.channelUsername);
+            subscriptionsByChannel.set(username, [...(subscriptionsByChannel.get(username) || []), channel]);
+        }
+
+        console.log(`📊 [telegram-channel-monitor] Found ${channelsToCheck.length} subscriptions to ${subscriptionsByChannel.size} channels to check`);
 
         let totalAnalyzed = 0;
         let totalRelevant = 0;
 
-        for (const channel of channelsToCheck) {
+        for (const [username, subscriptions] of subscriptionsByChannel) {
+            const startedAt = Date.now();
+            let sharedPosts: TelegramSharedPost[];
             try {
-                console.log(`🔍 [telegram-channel-monitor] Checking channel @${channel.channelUsername} for user ${channel.userId}...`);
-                
-                const result = await analyzeChannelForUser(channel, channel.userId);
-                
-                totalAnalyzed += result.analyzed;
-                totalRelevant += result.relevant;
-
-                if (result.analyzed > 0) {
-                    // Уведомление в приложении
-                    await createInAppNotification(channel.userId, channel.channelUsername, result);
-                    // Уведомление в Telegram (если привязан)
-                    await sendNotification(channel.userId, channel.channelUsername, result);
+                console.log(`🔍 [telegram-channel-monitor] Fetching channel @${username} for ${subscriptions.length} subscriber(s)...`);
+                sharedPosts = await fetchPostsForSubscribers(username, subscriptions);
+            } catch (error: any) {
+                console.error(`❌ [telegram-channel-monitor] Error fetching channel @${username}:`, error.message);
+                for (const channel of subscriptions) {
+                    await failSubscription(channel, 'scheduled', startedAt, error);
                 }
+                continue;
+            }
 
-                console.log(`✅ [telegram-channel-monitor] Channel @${channel.channelUsername}: analyzed ${result.analyzed}, relevant ${result.relevant}`);
-            } catch (error: any) {
-                console.error(`❌ [telegram-channel-monitor] Error checking channel @${channel.channelUsername}:`, error.message);
+            const postsPerDay = await postsPerDayFor(username, subscriptions);
+            for (const channel of subscriptions) {
+                const result = await checkSubscription(channel, sharedPosts, { trigger: 'scheduled', startedAt, postsPerDay });
+                if (!result) continue;
+                totalAnalyzed += result.analyzed;
+                totalRelevant += result.relevant;
+                console.log(`✅ [telegram-channel-monitor] Channel @${channel.channelUsername} (user ${channel.userId}): analyzed ${result.analyzed}, relevant ${result.relevant}, next check at ${channel.nextCheckAt?.toISOString()}`);
             }
         }
 
+        const pruned = await pruneSharedPosts();
+        if (pruned > 0) console.log(`🧹 [telegram-channel-monitor] Removed ${pruned} old shared posts`);
+        const prunedChecks = await pruneChannelChecks();
+        if (prunedChecks > 0) console.log(`🧹 [telegram-channel-monitor] Removed ${prunedChecks} old check log entries`);
+
         console.log(`✅ [telegram-channel-monitor] Channel check completed: ${totalAnalyzed} analyzed, ${totalRelevant} relevant`);
     } catch (error: any) {
         console.error(`❌ [telegram-channel-monitor] Error in checkAllChannels:`, error.message);
+    } finally {
+        checkRunning = false;
     }
 }
 
+/**
+ * Проверка по запросу пользователя — все его активные подписки, вне расписания.
+ * Следующая плановая проверка отсчитывается от этой.
+ */
 export async function checkUserChannelsNow(userId: number): Promise<void> {
     try {
         console.log(`🔍 [telegram-channel-monitor] On-demand check: user ${userId}`);
@@ -258,18 +422,23 @@ export async function checkUserChannelsNow(userId: number): Promise<void> {
         let totalRelevant = 0;
 
         for (const channel of channelsToCheck) {
+            const startedAt = Date.now();
+            let sharedPosts: TelegramSharedPost[];
             try {
                 console.log(`🔍 [telegram-channel-monitor] On-demand: checking @${channel.channelUsername} for user ${userId}...`);
-                const result = await analyzeChannelForUser(channel, userId);
-                totalAnalyzed += result.analyzed;
-                totalRelevant += result.relevant;
-                if (result.analyzed > 0) {
-                    await createInAppNotification(userId, channel.channelUsername, result);
-                }
-                console.log(`✅ [telegram-channel-monitor] On-demand @${channel.channelUsername}: analyzed ${result.analyzed}, relevant ${result.relevant}`);
+                sharedPosts = await fetchPostsForSubscribers(channel.channelUsername, [channel]);
             } catch (error: any) {
-                console.error(`❌ [telegram-channel-monitor] On-demand: error checking @${channel.channelUsername} for user ${userId}:`, error.message);
+                console.error(`❌ [telegram-channel-monitor] On-demand: error fetching @${channel.channelUsername} for user ${userId}:`, error.message);
+                await failSubscription(channel, 'manual', startedAt, error);
+                continue;
             }
+
+            const postsPerDay = await postsPerDayFor(channel.channelUsername, [channel]);
+            const result = await checkSubscription(channel, sharedPosts, { trigger: 'manual', startedAt, postsPerDay });
+            if (!result) continue;
+            totalAnalyzed += result.analyzed;
+            totalRelevant += result.relevant;
+            console.log(`✅ [telegram-channel-monitor] On-demand @${channel.channelUsername}: analyzed ${result.analyzed}, relevant ${result.relevant}`);
         }
 
         console.log(`✅ [telegram-channel-monitor] On-demand check completed for user ${userId}: ${totalAnalyzed} analyzed, ${totalRelevant} relevant`);
@@ -301,6 +470,20 @@ async function createInAppNotification(
     }
 }
 
+/**
+ * Вебхук channel.relevant_posts — только если среди новых постов есть релевантные
+ */
+function notifyWebhooks(channel: TelegramChannel, userId: number, result: AnalysisResult): void {
+    if (result.relevant === 0) return;
+    emitWebhookEvent(userId, 'channel.relevant_posts', {
+        channelId: channel.id,
+        channelUsername: channel.channelUsername,
+        analyzed: result.analyzed,
+        relevant: result.relevant,
+        posts: result.relevantPosts,
+    });
+}
+
 /**
  * Отправляет уведомление пользователю о новых релевантных постах (Telegram)
  */
@@ -336,22 +519,22 @@ async function sendNotification(
 }
 
 /**
- * Запускает периодическую проверку каналов через cron jobs
- * Проверяет каналы каждые N часов (можно настроить)
+ * Запускает цикл мониторинга через cron: каждые N минут проверяются подписки, у которых подошло next_check_at.
+ * Как часто проверяется конкретный канал, определяет его расписание, а не этот интервал.
  */
 let cronTask: ReturnType<typeof cron.schedule> | null = null;
 
-export function startChannelMonitoring(intervalHours: number = 4): void {
+export function startChannelMonitoring(intervalMinutes: number = 15): void {
     if (cronTask) {
         console.log('⚠️ [telegram-channel-monitor] Monitoring already started');
         return;
     }
 
-    // Конвертируем часы в cron выражение
-    // Например, каждые 6 часов: '0 */6 * * *' (в 0 минут каждого 6-го часа)
-    const cronExpression = `0 */${intervalHours} * * *`;
-    
-    console.log(`🔄 [telegram-channel-monitor] Starting periodic channel monitoring (every ${intervalHours} hours)`);
+    // Например, каждые 15 минут: '*/15 * * * *'
+    const minutes = Math.min(Math.max(Math.round(intervalMinutes) || 15, 1), 59);
+    const cronExpression = `*/${minutes} * * * *`;
+
+    console.log(`🔄 [telegram-channel-monitor] Starting periodic channel monitoring (every ${minutes} minutes)`);
     console.log(`   Cron expression: ${cronExpression}`);
     
     // Первая проверка через 1 минуту после запуска
@@ -364,7 +547,7 @@ export function startChannelMonitoring(intervalHours: number = 4): void {
         console.log(`⏰ [telegram-channel-monitor] Cron triggered - checking channels...`);
         checkAllChannels();
     }, {
-        timezone: "UTC" // Можно изменить на нужный часовой пояс
+        timezone: "UTC" // Расписания подписок сами учитывают свой часовой пояс
     });
 
     console.log(`✅ [telegram-channel-monitor] Channel monitoring started with cron`);
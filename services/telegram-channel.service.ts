@@ -47,15 +47,20 @@ export async function getChannelInfo(channelUsername: string): Promise<{ id: num
 /**
  * Получает новые посты из канала через веб-скрапинг
  * Использует Puppeteer для получения последних постов из публичного канала Telegram
+ * throwOnFailure — бросить ошибку, если канал не удалось загрузить ни одним способом
+ * (иначе недоступный канал неотличим от канала без новых постов)
  */
 export async function getChannelPosts(
     channelUsername: string,
     limit: number = 10,
-    sinceMessageId?: number
-): Promise<Array<{ messageId: number; text: string; url: string | null; date: Date }>> {
+    sinceMessageId?: number,
+    options: { throwOnFailure?: boolean } = {}
+): Promise<Array<{ messageId: number; text: string; url: string | null; date: Date; isRepost?: boolean }>> {
     try {
         const username = channelUsername.replace('@', '');
-        const posts: Array<{ messageId: number; text: string; url: string | null; date: Date }> = [];
+        const posts: Array<{ messageId: number; text: string; url: string | null; date: Date; isRepost?: boolean }> = [];
+        let reachable = false; // страница канала загружена хотя бы одним способом
+        const failures: string[] = [];
 
         // Метод 0: HTTP + Cheerio (без Puppeteer — работает в Railway/контейнерах)
         if (posts.length < limit) {
@@ -68,6 +73,7 @@ export async function getChannelPosts(
                     },
                     timeout: 15000
                 });
+                reachable = true;
                 const $ = cheerio.load(response.data);
                 const messageElements = $('.tgme_widget_message, [data-post], .tgme_widget_message_wrap').toArray();
                 const seenIds = new Set<number>();
@@ -90,7 +96,8 @@ export async function getChannelPosts(
                     const datetime = $el.find('.tgme_widget_message_date time').attr('datetime');
                     const date = datetime ? new Date(datetime) : new Date();
                     const postUrl = `https://t.me/${username}/${messageId}`;
-                    posts.push({ messageId, text, url: postUrl, date });
+                    const isRepost = $el.find('.tgme_widget_message_forwarded_from').length > 0;
+                    posts.push({ messageId, text, url: postUrl, date, isRepost });
                     if (posts.length >= limit) break;
                 }
                 // Fallback: извлекаем ссылки на посты из любых ссылок t.me/username/123
@@ -117,6 +124,7 @@ export async function getChannelPosts(
                 }
             } catch (httpError: any) {
                 console.log(`ℹ️ [getChannelPosts] HTTP method failed: ${httpError.message}`);
+                failures.push(`HTTP: ${httpError.message}`);
             }
         }
 
@@ -146,12 +154,14 @@ export async function getChannelPosts(
                             const text = update.channel_post.text || update.channel_post.caption || '';
                             const date = new Date(update.channel_post.date * 1000);
                             const postUrl = `https://t.me/${username}/${messageId}`;
+                            const isRepost = !!(update.channel_post.forward_origin || update.channel_post.forward_date);
 
                             posts.push({
                                 messageId,
                                 text,
                                 url: postUrl,
-                                date
+                                date,
+                                isRepost
                             });
 
                             if (posts.length >= limit) {
@@ -200,7 +210,7 @@ export async function getChannelPosts(
 
                 // Извлекаем все посты со страницы, затем возьмём последние N (по messageId)
                 const scrapedPosts = await page.evaluate((sinceId: number) => {
-                    const posts: Array<{ messageId: number; text: string; url: string | null; date: Date }> = [];
+                    const posts: Array<{ messageId: number; text: string; url: string | null; date: Date; isRepost: boolean }> = [];
                     
                     // Селекторы для постов в Telegram Web
                     const messageElements = document.querySelectorAll('.tgme_widget_message, [data-post]');
@@ -266,7 +276,8 @@ export async function getChannelPosts(
                                     messageId,
                                     text,
                                     url: postUrl,
-                                    date
+                                    date,
+                                    isRepost: !!element.querySelector('.tgme_widget_message_forwarded_from')
                                 });
                             }
                         } catch (e) {
@@ -287,9 +298,11 @@ export async function getChannelPosts(
                     }
                 }
 
+                reachable = true;
                 console.log(`✓ [getChannelPosts] Scraped ${scrapedPosts.length} posts from @${username}`);
             } catch (scrapingError: any) {
                 console.warn(`⚠️ [getChannelPosts] Web scraping failed: ${scrapingError.message}`);
+                failures.push(`scraping: ${scrapingError.message}`);
                 // Не прерываем выполнение - возвращаем то, что уже получили через Bot API
             } finally {
                 // Всегда закрываем браузер, даже при ошибке
@@ -303,6 +316,10 @@ export async function getChannelPosts(
             }
         }
 
+        if (options.throwOnFailure && !reachable && posts.length === 0) {
+            throw new Error(`Channel @${username} is unreachable (${failures.join('; ') || 'no method succeeded'})`);
+        }
+
         // Сортируем по messageId (по убыванию - самые новые первые)
         posts.sort((a, b) => b.messageId - a.messageId);
         
@@ -310,6 +327,7 @@ export async function getChannelPosts(
         return posts.slice(0, limit);
     } catch (error: any) {
         console.error(`❌ [getChannelPosts] Failed to get posts from @${channelUsername}:`, error.message);
+        if (options.throwOnFailure) throw error;
         return [];
     }
 }
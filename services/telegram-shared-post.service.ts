@@ -0,0 +1,157 @@
+/**
+ * Общий стор постов Telegram-каналов (telegram_shared_posts).
+ * Канал скачивается один раз за цикл, сколько бы пользователей на него ни было подписано;
+ * извлечение и темы поста считаются один раз (prepareSharedContent), саммари и эмбеддинги — при первом анализе
+ * и переиспользуются для остальных подписчиков.
+ */
+
+import { Op } from 'sequelize';
+import TelegramSharedPost from '../models/TelegramSharedPost';
+import AnalysisHistory from '../models/AnalysisHistory';
+import { getChannelPosts } from './telegram-channel.service';
+import { prepareSharedContent, PreparedContent, PipelineResult } from './analysis-pipeline.service';
+import { runWithLlmUsageSubject, guestUsageSubject, SYSTEM_USAGE_SUBJECT } from './llm-usage.service';
+
+// Код ошибки (error.message): подготовка поста сорвалась из-за временного сбоя и будет повторена позже
+export const SHARED_POST_RETRY = 'SHARED_POST_RETRY';
+
+const SHARED_POST_RETENTION_DAYS = 30;
+const MAX_PREPARE_ATTEMPTS = 3;
+const PREPARE_RETRY_DELAY_MS = 15 * 60 * 1000;
+const POSTING_RATE_WINDOW_DAYS = 14;
+const MAX_POSTS_PER_FETCH = 200;
+
+export const normalizeChannelUsername = (channelUsername: string): string =>
+    channelUsername.replace(/^@/, '').trim().toLowerCase();
+
+/**
+ * Скачивает посты канала новее sinceMessageId и сохраняет их в общий стор. Новые посты первыми.
+ * Бросает ошибку, если канал недоступен, — мониторинг откладывает такие каналы с нарастающей задержкой.
+ */
+export async function fetchSharedChannelPosts(
+    channelUsername: string,
+    limit: number,
+    sinceMessageId?: number
+): Promise<TelegramSharedPost[]> {
+    const username = normalizeChannelUsername(channelUsername);
+    const posts = await getChannelPosts(username, limit, sinceMessageId, { throwOnFailure: true });
+    if (posts.length === 0 && !sinceMessageId) return [];
+
+    if (posts.length > 0) {
+        await TelegramSharedPost.bulkCreate(posts.map((post) => ({
+            channelUsername: username,
+            messageId: post.messageId,
+            postUrl: post.url,
+            postText: post.text || null,
+            postedAt: post.date,
+            isRepost: !!post.isRepost,
+        })), { ignoreDuplicates: true });
+    }
+
+    if (!sinceMessageId) {
+        return TelegramSharedPost.findAll({
+            where: { channelUsername: username, messageId: posts.map((post) => post.messageId) },
+            order: [['messageId', 'DESC']],
+        });
+    }
+    // С курсором отдаём и ранее сохранённые посты новее него: отложенные подписчиками по лимиту
+    // могли уже выпасть из свежей выборки. Берём самые старые — их очередь первая
+    const stored = await TelegramSharedPost.findAll({
+        where: { channelUsername: username, messageId: { [Op.gt]: sinceMessageId } },
+        order: [['messageId', 'ASC']],
+        limit: MAX_POSTS_PER_FETCH,
+    });
+    return stored.reverse();
+}
+
+/**
+ * Контент-независимая часть анализа поста — один раз на пост. null — у поста нет ссылки или контент непригоден
+ * (неудача запоминается, следующие подписчики её не повторяют). После временного сбоя пост остаётся pending
+ * и бросается SHARED_POST_RETRY — подготовка повторится не раньше чем через PREPARE_RETRY_DELAY_MS.
+ * Извлечение и темы общие для всех подписчиков, поэтому расход LLM пишется на системного субъекта.
+ */
+export async function prepareSharedPost(post: TelegramSharedPost): Promise<PreparedContent | null> {
+    if (!post.postUrl || post.status === 'failed') return null;
+
+    if (post.status !== 'prepared') {
+        if (post.prepareAttempts > 0 && post.preparedAt && Date.now() - post.preparedAt.getTime() < PREPARE_RETRY_DELAY_MS) {
+            throw new Error(SHARED_POST_RETRY);
+        }
+        const result = await runWithLlmUsageSubject(guestUsageSubject(SYSTEM_USAGE_SUBJECT), () => prepareSharedContent(post.postUrl!));
+        if ('error' in result) {
+            const prepareAttempts = post.prepareAttempts + 1;
+            if (result.transient && prepareAttempts < MAX_PREPARE_ATTEMPTS) {
+                await post.update({ prepareAttempts, error: result.message, preparedAt: new Date() });
+                console.log(`⚠️ [telegram-shared-post] Post ${post.postUrl} will be retried (attempt ${prepareAttempts}/${MAX_PREPARE_ATTEMPTS}): ${result.message}`);
+                throw new Error(SHARED_POST_RETRY);
+            }
+            await post.update({ status: 'failed', prepareAttempts, error: result.message, preparedAt: new Date() });
+            console.log(`ℹ️ [telegram-shared-post] Post ${post.postUrl} skipped: ${result.message}`);
+            return null;
+        }
+        await post.update({
+            status: 'prepared',
+            content: result.prepared.content,
+            sourceType: result.prepared.sourceType,
+            themes: result.prepared.themes,
+            error: null,
+            preparedAt: new Date(),
+        });
+    }
+
+    return {
+        content: post.content || '',
+        sourceType: post.sourceType || 'telegram',
+        themes: post.themes || [],
+        summary: post.summary,
+        embedding: post.embedding,
+        chunksFromHistoryId: post.chunksHistoryId,
+    };
+}
+
+/**
+ * Сохраняет в общий пост саммари и эмбеддинг первого анализа и запись истории, с которой копировать чанки.
+ */
+export async function recordSharedPostAnalysis(post: TelegramSharedPost, result: PipelineResult): Promise<void> {
+    const updates: Partial<{ summary: string; embedding: PipelineResult['embedding']; chunksHistoryId: number }> = {};
+    if (!post.summary && result.summary) updates.summary = result.summary;
+    if (!post.embedding && result.embedding) updates.embedding = result.embedding;
+    if (result.analysisHistoryId) {
+        // Запись с чанками могла быть удалена вместе с историей пользователя
+        const chunksSourceExists = post.chunksHistoryId
+            ? (await AnalysisHistory.count({ where: { id: post.chunksHistoryId } })) > 0
+            : false;
+        if (!chunksSourceExists) updates.chunksHistoryId = result.analysisHistoryId;
+    }
+    if (Object.keys(updates).length > 0) await post.update(updates);
+}
+
+/**
+ * Частота публикаций канала (постов в сутки) по общему стору за последние две недели — для адаптивного расписания.
+ * Номера сообщений в канале идут подряд, поэтому считаем по разнице номеров, а не по числу скачанных постов.
+ * null — данных мало.
+ */
+export async function getChannelPostsPerDay(channelUsername: string): Promise<number | null> {
+    const username = normalizeChannelUsername(channelUsername);
+    const where = {
+        channelUsername: username,
+        postedAt: { [Op.gte]: new Date(Date.now() - POSTING_RATE_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+    };
+    const [oldest, newest] = await Promise.all([
+        TelegramSharedPost.findOne({ where, order: [['messageId', 'ASC']] }),
+        TelegramSharedPost.findOne({ where, order: [['messageId', 'DESC']] }),
+    ]);
+    if (!oldest?.postedAt || !newest?.postedAt) return null;
+
+    const days = (newest.postedAt.getTime() - oldest.postedAt.getTime()) / (24 * 60 * 60 * 1000);
+    if (days < 1 / 24) return null;
+    return (Number(newest.messageId) - Number(oldest.messageId)) / days;
+}
+
+/**
+ * Удаляет старые общие посты: курсоры подписчиков давно ушли вперёд, а извлечённый контент занимает место.
+ */
+export async function pruneSharedPosts(): Promise<number> {
+    const cutoff = new Date(Date.now() - SHARED_POST_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    return TelegramSharedPost.destroy({ where: { createdAt: { [Op.lt]: cutoff } } });
+}
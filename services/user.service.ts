@@ -5,14 +5,23 @@ import UserFeedback from '../models/UserFeedback'; // Import UserFeedback model
 import UserSemanticTag from '../models/UserSemanticTag';
 import BotProfile from '../models/BotProfile';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import dotenv from 'dotenv';
 import emailService from './email.service';
+import { consumeRateLimit, getRateLimitPolicy, peekRateLimit, resetRateLimit } from './rate-limit.service';
+import { createSession, revokeAllSessions, AuthTokens, SessionMeta } from './session.service';
 
 dotenv.config();
 
-const JWT_SECRET = process.env.JWT_SECRET as string;
+// Код ошибки (error.message): вход заблокирован после неудачных попыток; в error.retryAfterMs — сколько ждать
+export const LOGIN_LOCKED = 'LOGIN_LOCKED';
+
+// Неудачные попытки входа на email с одного IP за скользящее окно: LOGIN_LOCKOUT="5/900" (попыток / секунд).
+// Ключ включает IP — иначе любой мог бы заблокировать вход чужому аккаунту, перебирая пароли к его email.
+// Подбор с многих адресов сдерживает лимит маршрута /login по IP
+const DEFAULT_LOGIN_LOCKOUT = { limit: 5, windowMs: 15 * 60 * 1000 };
+
+const loginAttemptsKey = (email: string, ip: string | null | undefined) => `login_failed:${email}:${ip || 'unknown'}`;
 
 class UserService {
     async createUser(userData: { name: string, email: string, password: string }): Promise<User> {
@@ -32,21 +41,34 @@ class UserService {
         return newUser;
     }
 
-    async loginUser(credentials: { email: string, password: string }): Promise<string | null> {
+    async loginUser(credentials: { email: string, password: string }, meta: SessionMeta = {}): Promise<AuthTokens | null> {
         const { email, password } = credentials;
         
         // Нормализуем email (приводим к нижнему регистру и убираем пробелы)
         const normalizedEmail = email.trim().toLowerCase();
         
+        // Блокировка по email и IP (в том числе для несуществующего email — чтобы не выдавать, какие email зарегистрированы)
+        const lockoutPolicy = getRateLimitPolicy('LOGIN_LOCKOUT', DEFAULT_LOGIN_LOCKOUT);
+        const attemptsKey = loginAttemptsKey(normalizedEmail, meta.ip);
+        const attempts = await peekRateLimit(attemptsKey, lockoutPolicy);
+        if (!attempts.allowed) {
+            throw Object.assign(new Error(LOGIN_LOCKED), { retryAfterMs: attempts.retryAfterMs });
+        }
+
         const user = await User.findOne({ where: { email: normalizedEmail } });
 
         if (!user || !(await bcrypt.compare(password, user.password_hash))) {
+            const failed = await consumeRateLimit(attemptsKey, lockoutPolicy);
+            if (failed.remaining === 0) {
+                console.warn(`⚠️ Login locked for ${normalizedEmail} from ${meta.ip || 'unknown IP'} after ${failed.limit} failed attempts`);
+            }
             return null;
         }
 
-        // Токен действителен 7 дней
-        const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '7d' });
-        return token;
+        await resetRateLimit(attemptsKey);
+
+        // Короткий access-токен + refresh-токен новой сессии
+        return createSession(user.id, meta);
     }
 
     async getUserById(userId: number): Promise<User | null> {
@@ -430,7 +452,10 @@ class UserService {
             password_reset_expires_at: null,
         });
 
-        console.log(`✅ Password reset successful for user: ${user.email}`);
+        // Старый пароль мог утечь вместе с токенами — завершаем все сессии
+        const revokedSessions = await revokeAllSessions(user.id);
+
+        console.log(`✅ Password reset successful for user: ${user.email} (sessions revoked: ${revokedSessions})`);
 
         return {
             success: true,
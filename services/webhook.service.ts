@@ -0,0 +1,368 @@
+/**
+ * Исходящие вебхуки: события (завершение анализа, релевантные посты каналов, отзыв) уходят POST-запросом
+ * с JSON и HMAC-SHA256 подписью на URL пользователя. Каждая доставка пишется в webhook_deliveries;
+ * неудачные повторяются с экспоненциальной задержкой (воркер опрашивает БД — повторы переживают рестарт).
+ *
+ * Заголовки доставки:
+ *   X-Curator-Event: analysis.completed
+ *   X-Curator-Delivery: <id доставки>
+ *   X-Curator-Timestamp: <unix seconds>
+ *   X-Curator-Signature: sha256=<hex HMAC(secret, "<timestamp>.<тело запроса>")>
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { Op } from 'sequelize';
+import Webhook from '../models/Webhook';
+import WebhookDelivery, { WebhookDeliveryStatus } from '../models/WebhookDelivery';
+import { resolvePublicHttpUrl, publicRequestAgents } from '../utils/public-url';
+
+export const WEBHOOK_EVENTS = ['analysis.completed', 'channel.relevant_posts', 'source.relevant_items', 'feedback.recorded'] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+// Коды ошибок (error.message) — контроллер переводит их в HTTP-статусы
+export const WEBHOOK_NOT_FOUND = 'WEBHOOK_NOT_FOUND';
+export const WEBHOOK_INVALID_URL = 'WEBHOOK_INVALID_URL';
+export const WEBHOOK_INVALID_EVENTS = 'WEBHOOK_INVALID_EVENTS';
+export const WEBHOOK_LIMIT_REACHED = 'WEBHOOK_LIMIT_REACHED';
+
+const MAX_WEBHOOKS_PER_USER = 10;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 6; // 1 + 5 повторов: через 30 с, 1, 2, 4, 8 мин
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const RETRY_WORKER_INTERVAL_MS = 30 * 1000;
+const RETRY_BATCH_SIZE = 20;
+const STALE_PENDING_MS = 5 * 60 * 1000; // доставка «зависла» в pending (инстанс упал во время запроса)
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+const DELIVERY_RETENTION_DAYS = 30;
+const RETENTION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface WebhookInfo {
+    id: number;
+    url: string;
+    description: string | null;
+    events: WebhookEvent[];
+    isActive: boolean;
+    lastDeliveryAt: Date | null;
+    lastDeliveryStatus: string | null;
+    createdAt: Date;
+}
+
+export interface WebhookInput {
+    url?: unknown;
+    events?: unknown;
+    description?: unknown;
+    isActive?: unknown;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+    return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+const toInfo = (webhook: Webhook): WebhookInfo => ({
+    id: webhook.id,
+    url: webhook.url,
+    description: webhook.description,
+    events: webhook.events.filter(isWebhookEvent),
+    isActive: webhook.isActive,
+    lastDeliveryAt: webhook.lastDeliveryAt,
+    lastDeliveryStatus: webhook.lastDeliveryStatus,
+    createdAt: webhook.createdAt,
+});
+
+const generateSecret = (): string => 'whsec_' + crypto.randomBytes(24).toString('hex');
+
+function getMaxAttempts(): number {
+    const value = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+    return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Подпись доставки. Получатель считает то же от X-Curator-Timestamp и сырого тела и сравнивает с X-Curator-Signature.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+const allowPrivateWebhookUrls = (): boolean => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+/**
+ * URL вебхука: http(s) и не внутренний адрес (иначе вебхуком можно сходить во внутреннюю сеть сервера).
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true — для локальной разработки.
+ */
+async function assertValidWebhookUrl(rawUrl: unknown): Promise<string> {
+    const url = await resolvePublicHttpUrl(rawUrl, { allowPrivate: allowPrivateWebhookUrls() });
+    if (!url) throw new Error(WEBHOOK_INVALID_URL);
+    return url;
+}
+
+function parseEvents(raw: unknown): WebhookEvent[] {
+    if (!Array.isArray(raw) || raw.length === 0 || !raw.every(isWebhookEvent)) throw new Error(WEBHOOK_INVALID_EVENTS);
+    return Array.from(new Set(raw));
+}
+
+const parseDescription = (raw: unknown): string | null =>
+    typeof raw === 'string' && raw.trim() ? raw.trim().substring(0, 255) : null;
+
+async function findUserWebhook(userId: number, webhookId: number): Promise<Webhook> {
+    const webhook = await Webhook.findOne({ where: { id: webhookId, userId } });
+    if (!webhook) throw new Error(WEBHOOK_NOT_FOUND);
+    return webhook;
+}
+
+// ---------- Управление ----------
+
+/**
+ * Регистрирует вебхук. Секрет подписи возвращается только здесь и при ротации.
+ */
+export async function createWebhook(userId: number, input: WebhookInput): Promise<{ webhook: WebhookInfo; secret: string }> {
+    const url = await assertValidWebhookUrl(input.url);
+    const events = parseEvents(input.events);
+
+    const count = await Webhook.count({ where: { userId } });
+    if (count >= MAX_WEBHOOKS_PER_USER) throw new Error(WEBHOOK_LIMIT_REACHED);
+
+    const secret = generateSecret();
+    const webhook = await Webhook.create({ userId, url, events, secret, description: parseDescription(input.description) });
+    console.log(`🪝 [Webhooks] Webhook ${webhook.id} created for user ${userId}: ${events.join(', ')}`);
+    return { webhook: toInfo(webhook), secret };
+}
+
+export async function listWebhooks(userId: number): Promise<WebhookInfo[]> {
+    const webhooks = await Webhook.findAll({ where: { userId }, order: [['createdAt', 'DESC']] });
+    return webhooks.map(toInfo);
+}
+
+export async function updateWebhook(userId: number, webhookId: number, input: WebhookInput): Promise<WebhookInfo> {
+    const webhook = await findUserWebhook(userId, webhookId);
+    const changes: Partial<{ url: string; events: WebhookEvent[]; description: string | null; isActive: boolean }> = {};
+    if (input.url !== undefined) changes.url = await assertValidWebhookUrl(input.url);
+    if (input.events !== undefined) changes.events = parseEvents(input.events);
+    if (input.description !== undefined) changes.description = parseDescription(input.description);
+    if (typeof input.isActive === 'boolean') changes.isActive = input.isActive;
+    await webhook.update(changes);
+    return toInfo(webhook);
+}
+
+export async function deleteWebhook(userId: number, webhookId: number): Promise<void> {
+    const webhook = await findUserWebhook(userId, webhookId);
+    await WebhookDelivery.destroy({ where: { webhookId: webhook.id } });
+    await webhook.destroy();
+}
+
+export async function rotateWebhookSecret(userId: number, webhookId: number): Promise<string> {
+    const webhook = await findUserWebhook(userId, webhookId);
+    const secret = generateSecret();
+    await webhook.update({ secret });
+    return secret;
+}
+
+/**
+ * Журнал доставок вебхука (новые первыми).
+ */
+export async function listWebhookDeliveries(
+    userId: number,
+    webhookId: number,
+    options: { limit?: number; status?: WebhookDeliveryStatus } = {}
+): Promise<WebhookDelivery[]> {
+    await findUserWebhook(userId, webhookId);
+    return WebhookDelivery.findAll({
+        where: { webhookId, ...(options.status ? { status: options.status } : {}) },
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: Math.min(Math.max(options.limit || 50, 1), 200),
+    });
+}
+
+/**
+ * Повторная отправка доставки из журнала (новая доставка с тем же eventId и payload).
+ */
+export async function redeliverWebhookDelivery(userId: number, webhookId: number, deliveryId: number): Promise<WebhookDelivery> {
+    const webhook = await findUserWebhook(userId, webhookId);
+    const original = await WebhookDelivery.findOne({ where: { id: deliveryId, webhookId: webhook.id } });
+    if (!original) throw new Error(WEBHOOK_NOT_FOUND);
+    const delivery = await WebhookDelivery.create({
+        webhookId: webhook.id,
+        userId,
+        event: original.event,
+        eventId: original.eventId,
+        payload: original.payload,
+    });
+    await attemptDelivery(delivery, webhook);
+    return delivery;
+}
+
+/**
+ * Тестовое событие webhook.test — проверить URL и подпись. Доставляется синхронно, результат сразу в ответе.
+ */
+export async function sendTestWebhook(userId: number, webhookId: number): Promise<WebhookDelivery> {
+    const webhook = await findUserWebhook(userId, webhookId);
+    const delivery = await WebhookDelivery.create({
+        webhookId: webhook.id,
+        userId,
+        event: WEBHOOK_TEST_EVENT,
+        eventId: crypto.randomUUID(),
+        payload: buildEnvelope(WEBHOOK_TEST_EVENT, crypto.randomUUID(), { message: 'Тестовая доставка вебхука' }),
+    });
+    await attemptDelivery(delivery, webhook, { retry: false });
+    return delivery;
+}
+
+// ---------- Отправка событий ----------
+
+function buildEnvelope(event: string, eventId: string, data: Record<string, any>): Record<string, any> {
+    return { id: eventId, event, createdAt: new Date().toISOString(), data };
+}
+
+/**
+ * Отправляет событие на все активные вебхуки пользователя, подписанные на него.
+ * Не бросает ошибок и не ждёт доставки — вызывается из пайплайнов и контроллеров.
+ */
+export function emitWebhookEvent(userId: number | null | undefined, event: WebhookEvent, data: Record<string, any>): void {
+    if (!userId) return;
+    (async () => {
+        const webhooks = await Webhook.findAll({ where: { userId, isActive: true } });
+        const subscribed = webhooks.filter((w) => w.events.includes(event));
+        if (subscribed.length === 0) return;
+
+        const eventId = crypto.randomUUID();
+        const payload = buildEnvelope(event, eventId, data);
+        for (const webhook of subscribed) {
+            const delivery = await WebhookDelivery.create({ webhookId: webhook.id, userId, event, eventId, payload });
+            await attemptDelivery(delivery, webhook);
+        }
+    })().catch((error: any) => {
+        console.error(`❌ [Webhooks] Failed to emit ${event} for user ${userId}: ${error.message}`);
+    });
+}
+
+const isRetriableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Одна попытка доставки. Неуспех — retrying с задержкой RETRY_BASE_DELAY_MS * 2^(attempts-1)
+ * до WEBHOOK_MAX_ATTEMPTS, затем failed. 4xx (кроме 408/429) не повторяются — ответ получателя не изменится.
+ */
+async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook, options: { retry?: boolean } = {}): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+        await assertValidWebhookUrl(webhook.url); // DNS мог измениться после регистрации
+        const response = await axios.post(webhook.url, body, {
+            ...publicRequestAgents({ allowPrivate: allowPrivateWebhookUrls() }),
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'AI-Content-Curator-Webhooks/1.0',
+                'X-Curator-Event': delivery.event,
+                'X-Curator-Delivery': String(delivery.id),
+                'X-Curator-Timestamp': String(timestamp),
+                'X-Curator-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+            },
+            timeout: DELIVERY_TIMEOUT_MS,
+            maxRedirects: 0,
+            responseType: 'text',
+            transformResponse: (data) => data,
+            validateStatus: () => true,
+        });
+        responseStatus = response.status;
+        responseBody = typeof response.data === 'string' ? response.data.substring(0, MAX_RESPONSE_BODY_LENGTH) : null;
+        if (response.status < 200 || response.status >= 300) error = `HTTP ${response.status}`;
+    } catch (err: any) {
+        error = err.message === WEBHOOK_INVALID_URL ? 'Webhook URL resolves to a private address' : (err.message || 'Request failed');
+    }
+
+    const succeeded = error === null;
+    const canRetry = options.retry !== false
+        && !succeeded
+        && (responseStatus === null || isRetriableStatus(responseStatus))
+        && attempts < getMaxAttempts();
+    const status: WebhookDeliveryStatus = succeeded ? 'success' : canRetry ? 'retrying' : 'failed';
+    const nextAttemptAt = canRetry
+        ? new Date(Date.now() + Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS))
+        : null;
+
+    await delivery.update({
+        status,
+        attempts,
+        nextAttemptAt,
+        lastAttemptAt: new Date(),
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - startedAt,
+    });
+    await webhook.update({ lastDeliveryAt: new Date(), lastDeliveryStatus: succeeded ? 'success' : 'failed' });
+
+    if (succeeded) {
+        console.log(`🪝 [Webhooks] ${delivery.event} → webhook ${webhook.id}: ${responseStatus}`);
+    } else {
+        console.warn(`⚠️ [Webhooks] ${delivery.event} → webhook ${webhook.id} failed (attempt ${attempts}): ${error}${canRetry ? `, retry at ${nextAttemptAt!.toISOString()}` : ''}`);
+    }
+}
+
+// ---------- Повторы ----------
+
+let retryTimer: NodeJS.Timeout | null = null;
+let retryTickRunning = false;
+let lastRetentionCleanupAt = 0;
+
+async function processDueDeliveries(): Promise<void> {
+    const now = new Date();
+    const due = await WebhookDelivery.findAll({
+        where: {
+            [Op.or]: [
+                { status: 'retrying', nextAttemptAt: { [Op.lte]: now } },
+                { status: 'pending', updatedAt: { [Op.lt]: new Date(now.getTime() - STALE_PENDING_MS) } },
+            ],
+        },
+        order: [['nextAttemptAt', 'ASC']],
+        limit: RETRY_BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+        // Захват доставки: другой инстанс мог взять её раньше
+        const [claimed] = await WebhookDelivery.update(
+            { status: 'pending' },
+            { where: { id: delivery.id, status: delivery.status, updatedAt: delivery.updatedAt } }
+        );
+        if (claimed === 0) continue;
+
+        const webhook = await Webhook.findByPk(delivery.webhookId);
+        if (!webhook || !webhook.isActive) {
+            await delivery.update({ status: 'failed', nextAttemptAt: null, error: 'Webhook disabled or deleted' });
+            continue;
+        }
+        await delivery.reload();
+        await attemptDelivery(delivery, webhook);
+    }
+
+    if (Date.now() - lastRetentionCleanupAt > RETENTION_CLEANUP_INTERVAL_MS) {
+        lastRetentionCleanupAt = Date.now();
+        const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        const removed = await WebhookDelivery.destroy({ where: { createdAt: { [Op.lt]: cutoff } } });
+        if (removed > 0) console.log(`🧹 [Webhooks] Removed ${removed} deliveries older than ${DELIVERY_RETENTION_DAYS} days`);
+    }
+}
+
+/**
+ * Запускает периодическую отправку отложенных повторов (вызывается при старте сервера после подключения к БД).
+ */
+export function startWebhookRetryWorker(): void {
+    if (retryTimer) return;
+    retryTimer = setInterval(() => {
+        if (retryTickRunning) return;
+        retryTickRunning = true;
+        processDueDeliveries()
+            .catch((error: any) => console.error(`❌ [Webhooks] Retry worker error: ${error.message}`))
+            .finally(() => { retryTickRunning = false; });
+    }, RETRY_WORKER_INTERVAL_MS);
+    retryTimer.unref();
+    console.log(`🪝 [Webhooks] Retry worker started (every ${RETRY_WORKER_INTERVAL_MS / 1000}s, max ${getMaxAttempts()} attempts)`);
+}
@@ -39,3 +39,31 @@ export function escapeControlCharsInJsonStrings(jsonStr: string): string {
     }
     return result;
 }
+
+/**
+ * Достаёт JSON из ответа LLM: убирает markdown-обёртку (```json ... ```) и текст вокруг,
+ * экранирует управляющие символы в строках и лишние запятые перед } / ].
+ * Бросает SyntaxError, если JSON так и не разобрался — дальше это решает repair-запрос (llm-structured.ts).
+ */
+export function parseLlmJson(raw: string): unknown {
+    let cleaned = (raw || '').trim()
+        .replace(/^```(?:json)?\s*/i, '')
+        .replace(/\s*```$/, '')
+        .trim();
+
+    // Первый { или [ и парная ему последняя закрывающая скобка
+    const objectStart = cleaned.indexOf('{');
+    const arrayStart = cleaned.indexOf('[');
+    const start = objectStart === -1 ? arrayStart : arrayStart === -1 ? objectStart : Math.min(objectStart, arrayStart);
+    if (start !== -1) {
+        const end = cleaned.lastIndexOf(cleaned[start] === '{' ? '}' : ']');
+        if (end > start) cleaned = cleaned.substring(start, end + 1);
+    }
+
+    try {
+        return JSON.parse(cleaned);
+    } catch {
+        const fixed = escapeControlCharsInJsonStrings(cleaned).replace(/,(\s*[}\]])/g, '$1');
+        return JSON.parse(fixed);
+    }
+}
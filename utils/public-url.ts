@@ -0,0 +1,105 @@
+/**
+ * Проверка, что URL ведёт во внешний интернет: http(s), без учётных данных, хост не резолвится во внутреннюю сеть.
+ * Нужна везде, где сервер сам ходит по адресу пользователя (вебхуки, RSS-ленты), — иначе через него можно
+ * обратиться к внутренним сервисам. Сам запрос делается через publicRequestAgents — адрес проверяется и при соединении.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Внутренние, служебные и зарезервированные диапазоны. IPv4-mapped IPv6 (::ffff:a.b.c.d, ::ffff:7f00:1)
+// BlockList проверяет по IPv4-правилам; NAT64 и 6to4 блокируем целиком — за ними может быть любой IPv4.
+const PRIVATE_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+    ['0.0.0.0', 8, 'ipv4'],
+    ['10.0.0.0', 8, 'ipv4'],
+    ['100.64.0.0', 10, 'ipv4'],
+    ['127.0.0.0', 8, 'ipv4'],
+    ['169.254.0.0', 16, 'ipv4'],
+    ['172.16.0.0', 12, 'ipv4'],
+    ['192.0.0.0', 24, 'ipv4'],
+    ['192.0.2.0', 24, 'ipv4'],
+    ['192.168.0.0', 16, 'ipv4'],
+    ['198.18.0.0', 15, 'ipv4'],
+    ['198.51.100.0', 24, 'ipv4'],
+    ['203.0.113.0', 24, 'ipv4'],
+    ['224.0.0.0', 4, 'ipv4'],
+    ['240.0.0.0', 4, 'ipv4'],
+    ['::', 128, 'ipv6'],
+    ['::1', 128, 'ipv6'],
+    ['64:ff9b::', 96, 'ipv6'],
+    ['64:ff9b:1::', 48, 'ipv6'],
+    ['100::', 64, 'ipv6'],
+    ['2001:db8::', 32, 'ipv6'],
+    ['2002::', 16, 'ipv6'],
+    ['fc00::', 7, 'ipv6'],
+    ['fe80::', 10, 'ipv6'],
+    ['fec0::', 10, 'ipv6'],
+    ['ff00::', 8, 'ipv6'],
+];
+
+const privateRanges = new net.BlockList();
+for (const [network, prefix, type] of PRIVATE_RANGES) privateRanges.addSubnet(network, prefix, type);
+
+function isPrivateAddress(address: string): boolean {
+    const type = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+    return !type || privateRanges.check(address, type);
+}
+
+/**
+ * lookup для http(s)-агента: соединение идёт ровно на те адреса, что прошли проверку. Отдельная проверка
+ * до запроса не спасает от DNS rebinding — между ней и запросом хост может начать резолвиться во внутреннюю сеть.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '', 0);
+        if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+            const rejected: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private address`);
+            rejected.code = 'EPRIVATEADDRESS';
+            return callback(rejected, '', 0);
+        }
+        if (options.all) return callback(null, addresses);
+        return callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const publicHttpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+/**
+ * Агенты для axios-запросов по адресам пользователей: { ...publicRequestAgents(), ... }.
+ * allowPrivate — без ограничений (локальная разработка).
+ */
+export function publicRequestAgents(options: { allowPrivate?: boolean } = {}): { httpAgent?: http.Agent; httpsAgent?: https.Agent } {
+    if (options.allowPrivate) return {};
+    return { httpAgent: publicHttpAgent, httpsAgent: publicHttpsAgent };
+}
+
+/**
+ * Нормализованный URL или null, если адрес некорректный или внутренний.
+ * allowPrivate — пропустить проверку адреса (локальная разработка).
+ */
+export async function resolvePublicHttpUrl(rawUrl: unknown, options: { allowPrivate?: boolean } = {}): Promise<string | null> {
+    if (typeof rawUrl !== 'string' || rawUrl.length > 2048) return null;
+    let url: URL;
+    try {
+        url = new URL(rawUrl.trim());
+    } catch {
+        return null;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    if (url.username || url.password) return null;
+
+    if (!options.allowPrivate) {
+        const hostname = url.hostname.replace(/^\[|\]$/g, '');
+        if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) return null;
+        try {
+            const addresses = net.isIP(hostname) ? [{ address: hostname }] : await dns.promises.lookup(hostname, { all: true });
+            if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) return null;
+        } catch {
+            return null;
+        }
+    }
+    return url.toString();
+}